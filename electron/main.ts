@@ -117,6 +117,117 @@ ipcMain.handle('read-gpx-file', (_event, filePath: string) => {
   return fs.readFileSync(filePath, 'utf-8');
 });
 
+// ── Local radar folder IPC handlers ──
+
+/** Folders the user picked in select-radar-folder — the only ones list-radar-files will list */
+const selectedRadarFolders = new Set<string>();
+/** Files handed out by list-radar-files — the only paths read-radar-file will open */
+const listedRadarFiles = new Set<string>();
+/** Largest partial read (the renderer only probes file headers) */
+const MAX_RADAR_PROBE_BYTES = 1024 * 1024;
+
+ipcMain.handle('select-radar-folder', async () => {
+  const result = await dialog.showOpenDialog({
+    properties: ['openDirectory'],
+    title: 'Select Radar Data Folder',
+  });
+  if (result.canceled || result.filePaths.length === 0) return null;
+  selectedRadarFolders.add(result.filePaths[0]);
+  return result.filePaths[0];
+});
+
+ipcMain.handle('list-radar-files', (_event, folderPath: string) => {
+  if (!selectedRadarFolders.has(folderPath)) {
+    throw new Error('Folder was not selected in the radar folder dialog');
+  }
+  try {
+    const entries = fs.readdirSync(folderPath, { withFileTypes: true });
+    // Level 2 archives often have no extension (KTLX20130520_201643_V06), so
+    // list every visible file and let the renderer sort out what parses
+    const radarFiles = entries
+      .filter((e) => e.isFile() && !e.name.startsWith('.'))
+      .map((e) => {
+        const fullPath = path.join(folderPath, e.name);
+        const stat = fs.statSync(fullPath);
+        return {
+          name: e.name,
+          path: fullPath,
+          size: stat.size,
+          modified: stat.mtimeMs,
+        };
+      })
+      .filter((f) => f.size > 0);
+    for (const f of radarFiles) listedRadarFiles.add(f.path);
+    return radarFiles;
+  } catch {
+    return [];
+  }
+});
+
+ipcMain.handle('read-radar-file', (_event, filePath: string, maxBytes?: number) => {
+  if (!listedRadarFiles.has(filePath)) {
+    throw new Error('File was not listed from a radar folder');
+  }
+  if (maxBytes === undefined) return new Uint8Array(fs.readFileSync(filePath));
+  if (!Number.isInteger(maxBytes) || maxBytes <= 0 || maxBytes > MAX_RADAR_PROBE_BYTES) {
+    throw new Error(`maxBytes must be an integer from 1 to ${MAX_RADAR_PROBE_BYTES}`);
+  }
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const length = Math.min(maxBytes, fs.fstatSync(fd).size);
+    const buf = Buffer.alloc(length);
+    const read = fs.readSync(fd, buf, 0, length, 0);
+    return new Uint8Array(buf.subarray(0, read));
+  } finally {
+    fs.closeSync(fd);
+  }
+});
+
+// ── Persistent scan cache IPC handlers ──
+// One file per scan in <userData>/scan-cache, named by the URI-encoded scan
+// key. mtime doubles as the LRU timestamp (bumped on every read).
+
+const scanCacheDir = () => path.join(app.getPath('userData'), 'scan-cache');
+const scanCachePath = (key: string) => path.join(scanCacheDir(), encodeURIComponent(key));
+
+ipcMain.handle('scan-cache-index', () => {
+  try {
+    const dir = scanCacheDir();
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir, { withFileTypes: true })
+      .filter((e) => e.isFile())
+      .map((e) => {
+        const stat = fs.statSync(path.join(dir, e.name));
+        return { key: decodeURIComponent(e.name), size: stat.size, lastUsed: stat.mtimeMs };
+      });
+  } catch {
+    return [];
+  }
+});
+
+ipcMain.handle('scan-cache-read', (_event, key: string) => {
+  const filePath = scanCachePath(key);
+  if (!fs.existsSync(filePath)) return null;
+  const now = new Date();
+  fs.utimesSync(filePath, now, now);
+  return new Uint8Array(fs.readFileSync(filePath));
+});
+
+ipcMain.handle('scan-cache-write', (_event, key: string, data: Uint8Array) => {
+  fs.mkdirSync(scanCacheDir(), { recursive: true });
+  fs.writeFileSync(scanCachePath(key), data);
+});
+
+ipcMain.handle('scan-cache-remove', (_event, keys: string[]) => {
+  for (const key of keys) {
+    fs.rmSync(scanCachePath(key), { force: true });
+  }
+});
+
+ipcMain.handle('scan-cache-clear', () => {
+  fs.rmSync(scanCacheDir(), { recursive: true, force: true });
+});
+
 // ── App lifecycle ──
 
 app.whenReady().then(createWindow);
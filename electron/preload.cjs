@@ -13,4 +13,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
   selectGPXFolder: () => ipcRenderer.invoke('select-gpx-folder'),
   listGPXFiles: (folderPath) => ipcRenderer.invoke('list-gpx-files', folderPath),
   readGPXFile: (filePath) => ipcRenderer.invoke('read-gpx-file', filePath),
+  selectRadarFolder: () => ipcRenderer.invoke('select-radar-folder'),
+  listRadarFiles: (folderPath) => ipcRenderer.invoke('list-radar-files', folderPath),
+  readRadarFile: (filePath, maxBytes) => ipcRenderer.invoke('read-radar-file', filePath, maxBytes),
+  scanCacheIndex: () => ipcRenderer.invoke('scan-cache-index'),
+  scanCacheRead: (key) => ipcRenderer.invoke('scan-cache-read', key),
+  scanCacheWrite: (key, data) => ipcRenderer.invoke('scan-cache-write', key, data),
+  scanCacheRemove: (keys) => ipcRenderer.invoke('scan-cache-remove', keys),
+  scanCacheClear: () => ipcRenderer.invoke('scan-cache-clear'),
 });
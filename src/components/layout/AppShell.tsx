@@ -19,26 +19,57 @@ import { RadarLegend } from '../map/RadarLegend';
 import { StormAttributesOverlay } from '../map/StormAttributesOverlay';
 import { DistanceBearingLayer } from '../map/DistanceBearingLayer';
 import { DistanceBearingOverlay } from '../map/DistanceBearingOverlay';
+import { RangeRingLayer } from '../map/RangeRingLayer';
 import { TornadoTracksLayer } from '../map/TornadoTracksLayer';
+import { CrossSectionLayer } from '../map/CrossSectionLayer';
+import { CrossSectionPanel } from '../map/CrossSectionPanel';
+import { GateReadout } from '../map/GateReadout';
+import { RotationLayer } from '../map/RotationLayer';
+import { TdsLayer } from '../map/TdsLayer';
+import { SwathLayer } from '../map/SwathLayer';
+import { HailLayer } from '../map/HailLayer';
+import { RadarPanel } from '../map/RadarPanel';
+import { PanelSync } from '../map/PanelSync';
+import { ComparePanel } from '../map/ComparePanel';
+import { CompareRadarLayer } from '../map/CompareRadarLayer';
+import { SwipeDivider } from '../map/SwipeDivider';
+import { MosaicLayer } from '../map/MosaicLayer';
 import { TitleBar } from './TitleBar';
 import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
 import { useRadarPlayback } from '../../hooks/useRadarPlayback';
 import { useTimeSyncedOverlays } from '../../hooks/useTimeSyncedOverlays';
+import { useLoopCachePinning } from '../../hooks/useLoopCachePinning';
 import { useRadarStore } from '../../stores/radarStore';
+import { useLayoutStore } from '../../stores/layoutStore';
+import { useCompareStore } from '../../stores/compareStore';
 
 /**
  * Top-level application layout: sidebar + map + timeline bar.
  *
  * MapProvider is lifted here so the Sidebar (ExportPanel) can also
  * access the map instance via useMap().
+ *
+ * In the 2- or 4-panel layout the main map (all overlays, sidebar product)
+ * is joined by RadarPanels showing other products at the same time index,
+ * with view and cursor linked through PanelSync.
+ *
+ * Two-site compare (compareStore) either takes the second panel (ComparePanel)
+ * or draws over the main map right of a swipe divider.
  */
 export function AppShell() {
-  // Activate keyboard shortcuts, playback loop, and overlay fetching
+  // Activate keyboard shortcuts, playback loop, overlay fetching and loop cache pinning
   useKeyboardShortcuts();
   useRadarPlayback();
   useTimeSyncedOverlays();
+  useLoopCachePinning();
 
   const loading = useRadarStore((s) => s.loading);
+  const panelLayout = useLayoutStore((s) => s.layout);
+  const compareSite = useCompareStore((s) => s.site);
+  const compareMode = useCompareStore((s) => s.mode);
+  const comparePanel = !!compareSite && compareMode === 'panels';
+  const compareSwipe = !!compareSite && compareMode === 'swipe';
+  const layout = comparePanel ? 2 : panelLayout;
 
   // Map instance lifted to AppShell so both Sidebar and MapContainer
   // children can access it via the shared MapProvider.
@@ -60,30 +91,51 @@ export function AppShell() {
           minHeight: 0,
         }}>
           <Sidebar />
-          <MapContainer onMapReady={handleMapReady}>
-            <OutlooksLayer />
-            <RadarLayer />
-            <TornadoTracksLayer />
-            <WatchesLayer />
-            <WarningsLayer />
-            <MCDLayer />
-            <LSRLayer />
-            <SurfaceObsLayer />
-            <ChaseTrackLayer />
-            <StormPathLayer />
-            <SitePickerLayer />
-            <MoreLabelsLayer />
-            <DistanceBearingLayer />
-            <RadarLegend />
-            <StormAttributesOverlay />
-            <DistanceBearingOverlay />
-            {loading && (
-              <div className="map-loading-overlay">
-                <div className="spinner" />
-                <span>Loading radar data...</span>
-              </div>
+          <div className={`map-panels map-panels-${layout}`}>
+            <MapContainer onMapReady={handleMapReady}>
+              <OutlooksLayer />
+              <RadarLayer />
+              <MosaicLayer />
+              <TornadoTracksLayer />
+              <WatchesLayer />
+              <WarningsLayer />
+              <MCDLayer />
+              <LSRLayer />
+              <SurfaceObsLayer />
+              <ChaseTrackLayer />
+              <StormPathLayer />
+              <SitePickerLayer />
+              <MoreLabelsLayer />
+              <DistanceBearingLayer />
+              <CrossSectionLayer />
+              <RotationLayer />
+              <TdsLayer />
+              <HailLayer />
+              <SwathLayer />
+              <RangeRingLayer />
+              <RadarLegend />
+              <StormAttributesOverlay />
+              <DistanceBearingOverlay />
+              <CrossSectionPanel />
+              <GateReadout />
+              {layout > 1 && <PanelSync panel={0} />}
+              {compareSwipe && <CompareRadarLayer swipe />}
+              {compareSwipe && <SwipeDivider />}
+              {loading && (
+                <div className="map-loading-overlay">
+                  <div className="spinner" />
+                  <span>Loading radar data...</span>
+                </div>
+              )}
+            </MapContainer>
+            {comparePanel ? (
+              <ComparePanel />
+            ) : (
+              Array.from({ length: layout - 1 }, (_, i) => (
+                <RadarPanel key={i + 1} panel={i + 1} />
+              ))
             )}
-          </MapContainer>
+          </div>
         </div>
         <TimelineBar />
       </div>
@@ -1,15 +1,27 @@
 import { EventPicker } from '../sidebar/EventPicker';
 import { SegmentEditor } from '../sidebar/SegmentEditor';
+import { CompareControls } from '../sidebar/CompareControls';
+import { MosaicControls } from '../sidebar/MosaicControls';
 import { ProductSelector } from '../sidebar/ProductSelector';
 import { PaletteSelector } from '../sidebar/PaletteSelector';
 import { ElevationSelector } from '../sidebar/ElevationSelector';
 import { BaseMapSwitcher } from '../sidebar/BaseMapSwitcher';
+import { PanelLayoutSwitcher } from '../sidebar/PanelLayoutSwitcher';
 import { LayerToggles } from '../sidebar/LayerToggles';
 import { GPXImport } from '../sidebar/GPXImport';
+import { LocalScanImport } from '../sidebar/LocalScanImport';
+import { EventPackageControls } from '../sidebar/EventPackageControls';
 import { ExportPanel } from '../sidebar/ExportPanel';
 import { StormPathControls } from '../sidebar/StormPathControls';
+import { StormMotionControls } from '../sidebar/StormMotionControls';
+import { CrossSectionControls } from '../sidebar/CrossSectionControls';
+import { RotationControls } from '../sidebar/RotationControls';
+import { SwathControls } from '../sidebar/SwathControls';
+import { HailControls } from '../sidebar/HailControls';
+import { ClutterFilterControls } from '../sidebar/ClutterFilterControls';
 import { CollapsibleSection } from '../sidebar/CollapsibleSection';
 import { ServerInfoDialog } from '../sidebar/ServerInfoDialog';
+import { ScanCacheSettings } from '../sidebar/ScanCacheSettings';
 import { useRadarStore } from '../../stores/radarStore';
 import '../../styles/sidebar.css';
 
@@ -20,6 +32,9 @@ import '../../styles/sidebar.css';
  */
 export function Sidebar() {
   const radarSmoothing = useRadarStore((s) => s.radarSmoothing);
+  const product = useRadarStore((s) => s.product);
+  const velocityDealias = useRadarStore((s) => s.velocityDealias);
+  const setVelocityDealias = useRadarStore((s) => s.setVelocityDealias);
   const setRadarSmoothing = useRadarStore((s) => s.setRadarSmoothing);
   const forceRerender = useRadarStore((s) => s.forceRerender);
   const scanFiles = useRadarStore((s) => s.scanFiles);
@@ -30,11 +45,15 @@ export function Sidebar() {
       <CollapsibleSection
         title="Event"
         storageKey="event"
-        helpText="Set the date, time window, and radar site for your event. Search for a NEXRAD site by ID or city name, then click Load Scans to fetch radar data. Use Import GPX to load a chase track. For storms crossing multiple radar sites, use Add Handoff Site to define transition points between sites."
+        helpText="Set the date, time window, and radar site for your event. Search for a NEXRAD site by ID or city name, then click Load Scans to fetch radar data. To replay data already on disk, open NEXRAD Level 2 archive files (gzipped or raw) or a whole folder, or drop them here — the site and time come from each file. Save Event Package bundles the loaded scans, warnings and other overlays, chase tracks and storm path into one file; Open Package replays it later with no internet connection. Use Import GPX to load a chase track. For storms crossing multiple radar sites, use Add Handoff Site to define transition points between sites. Compare With Site shows a second radar at the same moments (nearest scan within 10 minutes), either side by side in its own linked panel or over the main map with a draggable swipe divider. Add Mosaic Site merges nearby radars' lowest sweeps with the main site into one layer — Max value keeps the strongest return in overlapping coverage, Nearest radar takes the closest site (velocity always uses nearest)."
       >
         <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
           <EventPicker />
+          <LocalScanImport />
+          <EventPackageControls />
           <SegmentEditor />
+          <CompareControls />
+          <MosaicControls />
           <GPXImport />
         </div>
       </CollapsibleSection>
@@ -43,13 +62,18 @@ export function Sidebar() {
       <CollapsibleSection
         title="Radar"
         storageKey="radar"
-        helpText="Switch between Reflectivity (REF) and Velocity (VEL) products. Choose a color palette, adjust the elevation angle, and apply smoothing. Use Storm Path to draw waypoints on the map — the app calculates distance and bearing from your chase track to the storm. Re-render clears cached frames and redraws with current settings."
+        helpText="Switch between Reflectivity (REF), Velocity (VEL), Storm-Relative Velocity (SRV) and the dual-pol products: Differential Reflectivity (ZDR), Correlation Coefficient (CC), Specific Differential Phase (KDP), plus Spectrum Width (SW) and Differential Phase (PHI). Volume products — Composite Reflectivity (CREF), 18/30 dBZ Echo Tops (ET18/ET30), VIL and the hail products SHI, POSH and MESH — combine every elevation, so the elevation selector is disabled for them. Choose a color palette, adjust the elevation angle, and apply smoothing. SRV subtracts the storm motion from velocity — enter a direction and speed, or derive them from a drawn storm path. Dealias velocity unfolds aliased gates in strong couplets. On REF, the clutter filter can hide gates below a minimum dBZ, remove isolated speckle, and mask non-weather echo by correlation coefficient (which also hides debris signatures). Use Storm Path to draw waypoints on the map — the app calculates distance and bearing from your chase track to the storm. Cross Section: click two points (A, B) to see a height slice of REF or VEL through every tilt; it follows playback and can be exported as PNG. Rotation markers circle cyclonic velocity couplets found from azimuthal shear on the displayed tilt (labelled with delta-V in m/s); tune the shear, delta-V and diameter thresholds to suit the event. Hail markers show the hail cells found from the volume, labelled with the maximum estimated hail size (MESH) in inches; SHI, POSH and MESH use the 0 °C and −20 °C heights (km MSL), which you can enter or fill from the nearest sounding. Event Swath walks every scan (or just the loop range) on the displayed elevation and paints the maximum cyclonic shear (rotation track) or maximum reflectivity (hail core) as one static layer, drawn beneath the NWS damage survey tracks for comparison. Re-render clears cached frames and redraws with current settings."
       >
         <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
           <ProductSelector />
           <PaletteSelector />
           <ElevationSelector />
+          <StormMotionControls />
           <StormPathControls />
+          <CrossSectionControls />
+          <RotationControls />
+          <HailControls />
+          <SwathControls />
           <div className="smoothing-row" style={{ marginTop: 4 }}>
             <label className="smoothing-label">Smoothing</label>
             <select
@@ -62,6 +86,17 @@ export function Sidebar() {
               <option value="high">High</option>
             </select>
           </div>
+          {product === 'REF' && <ClutterFilterControls />}
+          {(product === 'VEL' || product === 'SRV') && (
+            <label className="layer-toggle-row" title="Unfold aliased velocities using the Nyquist velocity from each radial">
+              <input
+                type="checkbox"
+                checked={velocityDealias}
+                onChange={(e) => setVelocityDealias(e.target.checked)}
+              />
+              <span className="layer-toggle-label">Dealias velocity</span>
+            </label>
+          )}
           {scanFiles.length > 0 && (
             <button
               className="rerender-btn"
@@ -76,7 +111,9 @@ export function Sidebar() {
 
       <LayerToggles />
       <ExportPanel />
+      <PanelLayoutSwitcher />
       <BaseMapSwitcher />
+      <ScanCacheSettings />
 
       {/* Keyboard shortcuts reference */}
       <CollapsibleSection
@@ -92,7 +129,9 @@ export function Sidebar() {
           <div><kbd>[</kbd> / <kbd>]</kbd> Set loop points</div>
           <div><kbd>L</kbd> Toggle loop</div>
           <div><kbd>1-5</kbd> Speed (1x-16x)</div>
-          <div><kbd>R</kbd> REF / <kbd>V</kbd> VEL</div>
+          <div><kbd>R</kbd> REF / <kbd>V</kbd> VEL / <kbd>S</kbd> SRV</div>
+          <div><kbd>Z</kbd> ZDR / <kbd>C</kbd> CC / <kbd>K</kbd> KDP</div>
+          <div><kbd>W</kbd> SW / <kbd>P</kbd> PHI</div>
         </div>
       </CollapsibleSection>
 
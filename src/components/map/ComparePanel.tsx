@@ -0,0 +1,20 @@
+import { MapContainer } from './MapContainer';
+import { CompareRadarLayer } from './CompareRadarLayer';
+import { CompareSiteLabel } from './CompareSiteLabel';
+import { PanelSync } from './PanelSync';
+
+/**
+ * Side-by-side panel for the two-site comparison: the comparison site's
+ * radar on its own map, linked to the main map's view and cursor.
+ */
+export function ComparePanel() {
+  return (
+    <MapContainer secondary>
+      <CompareRadarLayer />
+      <PanelSync panel={1} />
+      <div className="panel-header">
+        <CompareSiteLabel className="panel-site-label" />
+      </div>
+    </MapContainer>
+  );
+}
@@ -0,0 +1,177 @@
+import { useEffect, useRef } from 'react';
+import type maplibregl from 'maplibre-gl';
+import { useMap } from './MapContext';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useRadarStore, getActiveColorTable, getProcessingOptions } from '../../stores/radarStore';
+import { useCompareStore } from '../../stores/compareStore';
+import { frameCache, FrameCache } from '../../services/nexrad/frameCache';
+import { getPrefetchManager } from '../../services/nexrad/prefetchManager';
+import { RadarGlLayer } from '../../services/nexrad/glRenderer';
+import { nearestScanIndex } from '../../services/nexrad/scanAlignment';
+import { getColorTable, type RadarProduct } from '../../services/nexrad/renderLogic';
+import { isMapUsable } from '../../utils/mapSafety';
+
+export const COMPARE_LAYER_ID = 'compare-radar-layer';
+/** Comparison scans requested ahead of the aligned one */
+const LOOK_AHEAD = 2;
+
+/**
+ * Radar layer for the comparison site (compareStore).
+ *
+ * Follows the main timeline: for the current frame it shows the comparison
+ * site's scan nearest in time (see scanAlignment.ts), with the main
+ * product, elevation, palette and processing. Frames go through the shared
+ * PrefetchManager / FrameCache like the secondary panels.
+ *
+ * In swipe mode it sits over the main radar layer on the main map and draws
+ * only right of the divider; otherwise it lives in its own panel.
+ */
+export function CompareRadarLayer({ swipe = false }: { swipe?: boolean }) {
+  const map = useMap();
+  const glLayerRef = useRef<RadarGlLayer | null>(null);
+  if (!glLayerRef.current) glLayerRef.current = new RadarGlLayer(COMPARE_LAYER_ID);
+
+  useEffect(() => {
+    if (!map) return;
+    const layer = glLayerRef.current!;
+    const pm = getPrefetchManager();
+    let lastRendered = '';
+    let shownProduct: RadarProduct | null = null;
+    let raf = 0;
+
+    const removeLayer = () => {
+      if (map.getLayer(COMPARE_LAYER_ID)) map.removeLayer(COMPARE_LAYER_ID);
+      lastRendered = '';
+    };
+
+    const display = () => {
+      if (!isMapUsable(map)) return;
+
+      const { currentIndex } = useTimelineStore.getState();
+      const radarState = useRadarStore.getState();
+      const { product, elevationIndex, scanFiles, paletteVersion, radarSmoothing, radarOpacity } = radarState;
+      const { site, scans, swipePosition } = useCompareStore.getState();
+      const mainScan = scanFiles[currentIndex];
+
+      const aligned = site && mainScan ? nearestScanIndex(scans, mainScan.timestamp) : -1;
+      if (!site || aligned < 0) {
+        removeLayer();
+        return;
+      }
+
+      // Without markers these frames carry no TDS, so the main timeline's
+      // debris record ignores them even when both sites are the same
+      const processing = getProcessingOptions(radarState, { markers: false });
+      let cacheKey = '';
+      for (let i = aligned; i <= Math.min(aligned + LOOK_AHEAD, scans.length - 1); i++) {
+        const scan = scans[i];
+        if (i === aligned) {
+          cacheKey = FrameCache.makeKey(scan.key, scan.timestamp, product, elevationIndex, paletteVersion, scan.sweepIndex, processing);
+        }
+        pm.requestFrame(scan, product, elevationIndex, site.lat, site.lon, paletteVersion, processing);
+      }
+
+      layer.setClip(swipe ? { from: swipePosition, to: 1 } : null);
+      if (cacheKey === lastRendered && map.getLayer(COMPARE_LAYER_ID)) return;
+
+      // Keep the previous comparison frame up until the aligned one is decoded
+      const frame = frameCache.get(cacheKey);
+      if (!frame) return;
+
+      shownProduct = frame.product as RadarProduct;
+      layer.setFrame({ image: frame.image, siteLat: frame.siteLat, siteLon: frame.siteLon });
+      layer.setColorTable(resolveColorTable(shownProduct));
+      layer.setSmoothing(radarSmoothing);
+      layer.setOpacity(radarOpacity);
+      if (!map.getLayer(COMPARE_LAYER_ID)) {
+        // Directly above the main radar layer when sharing its map
+        const beforeId = findBeforeId(map, [
+          'spc-watches-fill',
+          'nws-warnings-fill',
+          'spc-mcds-fill',
+          'lsr-reports-circles',
+          'nexrad-sites-layer',
+        ]);
+        map.addLayer(layer, beforeId);
+      }
+      lastRendered = cacheKey;
+    };
+
+    const scheduleDisplay = () => {
+      cancelAnimationFrame(raf);
+      raf = requestAnimationFrame(display);
+    };
+
+    const removeListener = pm.addFrameReadyListener(scheduleDisplay);
+    const unsubTimeline = useTimelineStore.subscribe((state, prev) => {
+      if (state.currentIndex !== prev.currentIndex) scheduleDisplay();
+    });
+    const unsubCompare = useCompareStore.subscribe(scheduleDisplay);
+
+    let prevRadar = useRadarStore.getState();
+    const unsubRadar = useRadarStore.subscribe((state) => {
+      const prev = prevRadar;
+      prevRadar = state;
+
+      if (state.paletteName !== prev.paletteName || state.customPalettes !== prev.customPalettes) {
+        if (shownProduct) layer.setColorTable(resolveColorTable(shownProduct));
+      }
+      if (state.radarSmoothing !== prev.radarSmoothing) layer.setSmoothing(state.radarSmoothing);
+      if (state.radarOpacity !== prev.radarOpacity) layer.setOpacity(state.radarOpacity);
+
+      if (
+        state.scanFiles !== prev.scanFiles ||
+        state.product !== prev.product ||
+        state.elevationIndex !== prev.elevationIndex ||
+        state.paletteVersion !== prev.paletteVersion ||
+        state.stormMotion !== prev.stormMotion ||
+        state.velocityDealias !== prev.velocityDealias ||
+        state.clutterFilter !== prev.clutterFilter ||
+        state.freezingLevels !== prev.freezingLevels
+      ) {
+        scheduleDisplay();
+      }
+    });
+
+    // Re-add the layer after a basemap style change (setStyle removes all layers)
+    const onStyleLoad = () => {
+      lastRendered = '';
+      display();
+    };
+    map.on('style.load', onStyleLoad);
+
+    display();
+
+    return () => {
+      removeListener();
+      unsubTimeline();
+      unsubCompare();
+      unsubRadar();
+      cancelAnimationFrame(raf);
+      try {
+        map.off('style.load', onStyleLoad);
+        if (isMapUsable(map)) removeLayer();
+      } catch { /* map destroyed */ }
+    };
+  }, [map, swipe]);
+
+  return null;
+}
+
+/**
+ * Find the first existing layer from a list of candidates for z-ordering.
+ */
+function findBeforeId(map: maplibregl.Map, candidates: string[]): string | undefined {
+  for (const id of candidates) {
+    if (map.getLayer(id)) return id;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the color table for a product: the active (possibly imported)
+ * palette, else the built-in default.
+ */
+function resolveColorTable(product: RadarProduct) {
+  return getActiveColorTable(useRadarStore.getState(), product) ?? getColorTable(product);
+}
@@ -0,0 +1,32 @@
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useRadarStore } from '../../stores/radarStore';
+import { useCompareStore } from '../../stores/compareStore';
+import { nearestScanIndex } from '../../services/nexrad/scanAlignment';
+
+/**
+ * Which comparison scan is on screen: site ID, scan time (UTC) and its
+ * offset from the main frame, e.g. "KFDR 21:04:12Z (+0:42)". Shows
+ * "no scan" when the comparison radar has a gap at this time.
+ */
+export function CompareSiteLabel({ className }: { className: string }) {
+  const site = useCompareStore((s) => s.site);
+  const scans = useCompareStore((s) => s.scans);
+  const currentIndex = useTimelineStore((s) => s.currentIndex);
+  const scanFiles = useRadarStore((s) => s.scanFiles);
+
+  if (!site) return null;
+  const mainScan = scanFiles[currentIndex];
+  const aligned = mainScan ? nearestScanIndex(scans, mainScan.timestamp) : -1;
+
+  let text = `${site.id} — no scan`;
+  if (mainScan && aligned >= 0) {
+    const ts = scans[aligned].timestamp;
+    const offsetSec = Math.round((ts - mainScan.timestamp) / 1000);
+    const sign = offsetSec < 0 ? '−' : '+';
+    const abs = Math.abs(offsetSec);
+    const offset = `${sign}${Math.floor(abs / 60)}:${String(abs % 60).padStart(2, '0')}`;
+    text = `${site.id} ${new Date(ts).toISOString().slice(11, 19)}Z (${offset})`;
+  }
+
+  return <div className={className}>{text}</div>;
+}
@@ -0,0 +1,192 @@
+/**
+ * Cross-section line layer.
+ *
+ * In drawing mode, the first map click places endpoint A and the second
+ * places B (which finishes drawing and opens the cross-section panel).
+ * The A→B line stays on the map while a section is defined so the user can
+ * see where the panel is slicing. Escape cancels drawing.
+ */
+
+import { useEffect } from 'react';
+import maplibregl from 'maplibre-gl';
+import { useMap } from './MapContext';
+import { isMapUsable } from '../../utils/mapSafety';
+import { useCrossSectionStore, type CrossSectionState } from '../../stores/crossSectionStore';
+
+const LINE_SOURCE = 'cross-section-line';
+const LINE_LAYER = 'cross-section-line-layer';
+const POINTS_SOURCE = 'cross-section-points';
+const POINTS_LAYER = 'cross-section-points-layer';
+
+/**
+ * Build GeoJSON for the section line (empty until both endpoints exist).
+ */
+function buildLineGeoJSON(state: CrossSectionState): GeoJSON.Feature {
+  const coords = state.start && state.end
+    ? [[state.start.lon, state.start.lat], [state.end.lon, state.end.lat]]
+    : [];
+  return {
+    type: 'Feature',
+    properties: {},
+    geometry: { type: 'LineString', coordinates: coords },
+  };
+}
+
+/**
+ * Build GeoJSON for the endpoint markers (A = start, B = end).
+ */
+function buildPointsGeoJSON(state: CrossSectionState): GeoJSON.FeatureCollection {
+  const features: GeoJSON.Feature[] = [];
+  if (state.start) {
+    features.push({
+      type: 'Feature',
+      properties: { end: 'A' },
+      geometry: { type: 'Point', coordinates: [state.start.lon, state.start.lat] },
+    });
+  }
+  if (state.end) {
+    features.push({
+      type: 'Feature',
+      properties: { end: 'B' },
+      geometry: { type: 'Point', coordinates: [state.end.lon, state.end.lat] },
+    });
+  }
+  return { type: 'FeatureCollection', features };
+}
+
+export function CrossSectionLayer() {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!map) return;
+
+    const ensureLayers = () => {
+      if (!map.isStyleLoaded()) return;
+
+      if (!map.getSource(LINE_SOURCE)) {
+        map.addSource(LINE_SOURCE, {
+          type: 'geojson',
+          data: { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates: [] } },
+        });
+      }
+      if (!map.getLayer(LINE_LAYER)) {
+        map.addLayer({
+          id: LINE_LAYER,
+          type: 'line',
+          source: LINE_SOURCE,
+          layout: { 'line-cap': 'round' },
+          paint: {
+            'line-color': '#ffffff',
+            'line-width': 2.5,
+            'line-opacity': 0.9,
+          },
+        });
+      }
+
+      if (!map.getSource(POINTS_SOURCE)) {
+        map.addSource(POINTS_SOURCE, {
+          type: 'geojson',
+          data: { type: 'FeatureCollection', features: [] },
+        });
+      }
+      if (!map.getLayer(POINTS_LAYER)) {
+        map.addLayer({
+          id: POINTS_LAYER,
+          type: 'circle',
+          source: POINTS_SOURCE,
+          paint: {
+            'circle-radius': 6,
+            // A = white, B = cyan — matches the panel's axis labels
+            'circle-color': ['match', ['get', 'end'], 'A', '#ffffff', '#00e5ff'],
+            'circle-stroke-color': '#000000',
+            'circle-stroke-width': 1.5,
+          },
+        });
+      }
+    };
+
+    const updateVisuals = () => {
+      if (!isMapUsable(map)) return;
+      ensureLayers();
+      const state = useCrossSectionStore.getState();
+
+      const lineSrc = map.getSource(LINE_SOURCE);
+      if (lineSrc && 'setData' in lineSrc) {
+        (lineSrc as any).setData(buildLineGeoJSON(state));
+      }
+      const ptsSrc = map.getSource(POINTS_SOURCE);
+      if (ptsSrc && 'setData' in ptsSrc) {
+        (ptsSrc as any).setData(buildPointsGeoJSON(state));
+      }
+
+      // Keep the section above radar and warning polygons
+      if (map.getLayer(LINE_LAYER)) map.moveLayer(LINE_LAYER);
+      if (map.getLayer(POINTS_LAYER)) map.moveLayer(POINTS_LAYER);
+    };
+
+    const removeLayers = () => {
+      try {
+        if (map.getLayer(LINE_LAYER)) map.removeLayer(LINE_LAYER);
+        if (map.getSource(LINE_SOURCE)) map.removeSource(LINE_SOURCE);
+        if (map.getLayer(POINTS_LAYER)) map.removeLayer(POINTS_LAYER);
+        if (map.getSource(POINTS_SOURCE)) map.removeSource(POINTS_SOURCE);
+      } catch { /* map already destroyed */ }
+    };
+
+    /* ── Click handler for placing endpoints ────────────────────── */
+
+    const onMapClick = (e: maplibregl.MapMouseEvent) => {
+      const { drawingMode, addPoint } = useCrossSectionStore.getState();
+      if (!drawingMode) return;
+
+      // Prevent click from reaching other layers (e.g. site picker)
+      e.preventDefault();
+      (e as any).originalEvent?.stopPropagation?.();
+
+      addPoint({ lat: e.lngLat.lat, lon: e.lngLat.lng });
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && useCrossSectionStore.getState().drawingMode) {
+        useCrossSectionStore.getState().cancelDrawing();
+      }
+    };
+
+    const updateCursor = () => {
+      const { drawingMode } = useCrossSectionStore.getState();
+      map.getCanvas().style.cursor = drawingMode ? 'crosshair' : '';
+    };
+
+    /* ── Subscriptions ──────────────────────────────────────────── */
+
+    const unsub = useCrossSectionStore.subscribe((state, prev) => {
+      if (state.start !== prev.start || state.end !== prev.end) {
+        updateVisuals();
+      }
+      if (state.drawingMode !== prev.drawingMode) {
+        updateCursor();
+      }
+    });
+
+    const onStyleLoad = () => updateVisuals();
+
+    // Initialize
+    updateVisuals();
+
+    map.on('click', onMapClick);
+    map.on('style.load', onStyleLoad);
+    window.addEventListener('keydown', onKeyDown);
+
+    return () => {
+      unsub();
+      window.removeEventListener('keydown', onKeyDown);
+      try {
+        map.off('click', onMapClick);
+        map.off('style.load', onStyleLoad);
+      } catch { /* map destroyed */ }
+      removeLayers();
+    };
+  }, [map]);
+
+  return null;
+}
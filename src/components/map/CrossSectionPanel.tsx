@@ -0,0 +1,279 @@
+/**
+ * Vertical cross-section panel.
+ *
+ * Shows a range-height slice of REF or VEL along the user's A→B line
+ * through every tilt of the current volume. Sampling runs in the radar
+ * worker against its parsed-volume cache (see crossSection.ts); this
+ * component colors the returned grid, draws height/distance axes, and
+ * re-requests the section whenever the timeline frame changes.
+ *
+ * Requests are coalesced: while one is in flight, further frame changes
+ * only mark the section dirty, so playback never queues a backlog.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useCrossSectionStore, type CrossSectionProduct } from '../../stores/crossSectionStore';
+import { useRadarStore, getActiveColorTable, getProcessingOptions } from '../../stores/radarStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { rawScanCache } from '../../services/nexrad/frameCache';
+import { fetchScan } from '../../services/nexrad/s3Client';
+import { getWorkerPool } from '../../services/nexrad/workerPool';
+import { valueToColor, getColorTable } from '../../services/nexrad/renderLogic';
+import { exportCrossSection } from '../../services/export/screenshotExporter';
+import type { CrossSectionResult } from '../../services/nexrad/crossSection';
+
+const MARGIN_LEFT = 40;
+const MARGIN_RIGHT = 10;
+const MARGIN_TOP = 20;
+const MARGIN_BOTTOM = 24;
+const KM_TO_KFT = 3.28084;
+
+const PRODUCTS: CrossSectionProduct[] = ['REF', 'VEL'];
+
+export function CrossSectionPanel() {
+  const showPanel = useCrossSectionStore((s) => s.showPanel);
+  const start = useCrossSectionStore((s) => s.start);
+  const end = useCrossSectionStore((s) => s.end);
+  const product = useCrossSectionStore((s) => s.product);
+  const setProduct = useCrossSectionStore((s) => s.setProduct);
+  const setShowPanel = useCrossSectionStore((s) => s.setShowPanel);
+  const scanFiles = useRadarStore((s) => s.scanFiles);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [result, setResult] = useState<CrossSectionResult | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const active = showPanel && start !== null && end !== null && scanFiles.length > 0;
+
+  // ── Request sampling from the worker (coalesced) ──
+  useEffect(() => {
+    if (!active) return;
+
+    let disposed = false;
+    let inFlight = false;
+    let dirty = false;
+
+    const request = async () => {
+      if (inFlight) {
+        dirty = true;
+        return;
+      }
+      inFlight = true;
+      dirty = false;
+
+      try {
+        const radarState = useRadarStore.getState();
+        const { currentIndex } = useTimelineStore.getState();
+        const scan = radarState.scanFiles[currentIndex];
+        const site = radarState.selectedSite;
+        const line = useCrossSectionStore.getState();
+        if (!scan || !site || !line.start || !line.end) return;
+
+        let buffer = rawScanCache.get(scan.key);
+        if (!buffer) {
+          setStatus('Downloading scan...');
+          buffer = await fetchScan(scan.key);
+          rawScanCache.set(scan.key, buffer);
+        }
+        if (disposed) return;
+
+        const response = await getWorkerPool().crossSection({
+          scanBuffer: buffer.slice(0),
+          scanKey: scan.key,
+          product: line.product,
+          siteLat: scan.siteLat ?? site.lat,
+          siteLon: scan.siteLon ?? site.lon,
+          start: line.start,
+          end: line.end,
+          processing: getProcessingOptions(radarState),
+        });
+        if (disposed) return;
+
+        if (response.crossSection) {
+          setResult(response.crossSection);
+          setStatus(null);
+        }
+      } catch (err: any) {
+        if (!disposed && err?.message !== 'Cancelled') {
+          setStatus(err?.message ?? 'Cross-section failed');
+        }
+      } finally {
+        inFlight = false;
+        if (dirty && !disposed) request();
+      }
+    };
+
+    request();
+
+    let prevIndex = useTimelineStore.getState().currentIndex;
+    const unsubTimeline = useTimelineStore.subscribe((state) => {
+      if (state.currentIndex !== prevIndex) {
+        prevIndex = state.currentIndex;
+        request();
+      }
+    });
+
+    // Dealiasing changes the sampled VEL values, clutter filters the REF ones
+    let prevDealias = useRadarStore.getState().velocityDealias;
+    let prevClutter = useRadarStore.getState().clutterFilter;
+    const unsubRadar = useRadarStore.subscribe((state) => {
+      if (state.velocityDealias !== prevDealias || state.clutterFilter !== prevClutter) {
+        prevDealias = state.velocityDealias;
+        prevClutter = state.clutterFilter;
+        request();
+      }
+    });
+
+    return () => {
+      disposed = true;
+      unsubTimeline();
+      unsubRadar();
+    };
+  }, [active, start, end, product]);
+
+  // ── Draw the sampled grid + axes ──
+  const paletteName = useRadarStore((s) => s.paletteName);
+  const customPalettes = useRadarStore((s) => s.customPalettes);
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !result) return;
+    drawCrossSection(canvas, result);
+  }, [result, paletteName, customPalettes]);
+
+  if (!active) return null;
+
+  return (
+    <div className="cross-section-panel">
+      <div className="cross-section-header">
+        <span className="cross-section-title">Cross Section</span>
+        <div className="cross-section-products">
+          {PRODUCTS.map((p) => (
+            <button
+              key={p}
+              className={product === p ? 'active' : ''}
+              onClick={() => setProduct(p)}
+            >
+              {p}
+            </button>
+          ))}
+        </div>
+        <button
+          className="cross-section-btn"
+          onClick={() => canvasRef.current && exportCrossSection(canvasRef.current)}
+          disabled={!result}
+          title="Save the cross-section as PNG"
+        >
+          Export
+        </button>
+        <button
+          className="cross-section-close"
+          onClick={() => setShowPanel(false)}
+          title="Hide cross-section"
+        >
+          ×
+        </button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        className="cross-section-canvas"
+        width={MARGIN_LEFT + (result?.width ?? 480) + MARGIN_RIGHT}
+        height={MARGIN_TOP + (result?.height ?? 240) + MARGIN_BOTTOM}
+      />
+      {status && <div className="cross-section-status">{status}</div>}
+    </div>
+  );
+}
+
+/**
+ * Render a sampled cross-section with height (kft) and distance (km) axes.
+ * Drawn entirely onto the canvas so the exported PNG is self-describing.
+ */
+function drawCrossSection(canvas: HTMLCanvasElement, result: CrossSectionResult): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  const { values, width, height, distanceKm, maxHeightKm, product, timestamp } = result;
+  const colorTable = getActiveColorTable(useRadarStore.getState(), product) ?? getColorTable(product);
+
+  canvas.width = MARGIN_LEFT + width + MARGIN_RIGHT;
+  canvas.height = MARGIN_TOP + height + MARGIN_BOTTOM;
+
+  ctx.fillStyle = '#0d1117';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  // Data — batch same-color runs per row
+  for (let y = 0; y < height; y++) {
+    let runStart = 0;
+    let runColor: string | null = null;
+    for (let x = 0; x <= width; x++) {
+      const v = x < width ? values[y * width + x] : NaN;
+      const color = Number.isNaN(v) ? null : valueToColor(v, colorTable);
+      if (color === runColor && x < width) continue;
+      if (runColor) {
+        ctx.fillStyle = runColor;
+        ctx.fillRect(MARGIN_LEFT + runStart, MARGIN_TOP + y, x - runStart, 1);
+      }
+      runStart = x;
+      runColor = color;
+    }
+  }
+
+  // Frame
+  ctx.strokeStyle = '#6e7681';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(MARGIN_LEFT + 0.5, MARGIN_TOP + 0.5, width - 1, height - 1);
+
+  ctx.font = '10px monospace';
+  ctx.fillStyle = '#c9d1d9';
+
+  // Height axis (kft)
+  const maxKft = maxHeightKm * KM_TO_KFT;
+  ctx.textAlign = 'right';
+  ctx.textBaseline = 'middle';
+  for (let kft = 0; kft <= maxKft; kft += 10) {
+    const y = MARGIN_TOP + height - (kft / maxKft) * height;
+    ctx.fillText(String(kft), MARGIN_LEFT - 4, y);
+    ctx.strokeStyle = 'rgba(110, 118, 129, 0.35)';
+    ctx.beginPath();
+    ctx.moveTo(MARGIN_LEFT, Math.round(y) + 0.5);
+    ctx.lineTo(MARGIN_LEFT + width, Math.round(y) + 0.5);
+    ctx.stroke();
+  }
+  ctx.save();
+  ctx.translate(10, MARGIN_TOP + height / 2);
+  ctx.rotate(-Math.PI / 2);
+  ctx.textAlign = 'center';
+  ctx.fillText('kft', 0, 0);
+  ctx.restore();
+
+  // Distance axis (km from A)
+  const step = niceDistanceStep(distanceKm);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  for (let d = 0; d <= distanceKm + 1e-6; d += step) {
+    const x = MARGIN_LEFT + (d / distanceKm) * width;
+    ctx.fillText(String(Math.round(d)), x, MARGIN_TOP + height + 4);
+  }
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText('A', MARGIN_LEFT, MARGIN_TOP + height + 13);
+  ctx.fillStyle = '#00e5ff';
+  ctx.fillText('B', MARGIN_LEFT + width, MARGIN_TOP + height + 13);
+
+  // Title: product, volume time, length
+  ctx.fillStyle = '#c9d1d9';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  const time = new Date(timestamp).toISOString().slice(11, 16);
+  ctx.fillText(
+    `${product}  ${time}Z  ${distanceKm.toFixed(0)} km  ${result.elevations.length} tilts`,
+    MARGIN_LEFT,
+    MARGIN_TOP / 2,
+  );
+}
+
+/** Pick a round km step giving ~5-8 distance ticks. */
+function niceDistanceStep(distanceKm: number): number {
+  const steps = [1, 2, 5, 10, 20, 25, 50, 100];
+  const raw = distanceKm / 6;
+  return steps.find((s) => s >= raw) ?? 100;
+}
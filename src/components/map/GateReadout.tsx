@@ -0,0 +1,232 @@
+/**
+ * Cursor readout of the radar gate under the mouse.
+ *
+ * On map mousemove, asks the radar worker for the gate at the cursor's
+ * azimuth/range on the current frame (same product, tilt, SAILS sweep and
+ * SRV/dealias processing as the displayed image) and shows its value,
+ * slant range, beam height, azimuth and lat/lon in a small tooltip next to
+ * the cursor. Queries go to the worker that decoded the frame with only the
+ * scan key, so they read its parsed-radar cache; the scan bytes are sent
+ * only when that worker no longer holds the scan. Nothing is fetched on
+ * hover — frames that haven't been downloaded show no readout.
+ *
+ * Beam height is the centerline height above the radar, used as AGL
+ * (terrain isn't modeled). Mouse moves are debounced, and requests are
+ * coalesced like the cross-section panel: while one is in flight, newer
+ * cursor positions replace the pending one instead of queueing. Frame,
+ * product and elevation changes re-query the last cursor position so the
+ * readout stays live during playback.
+ *
+ * Toggleable via radarStore.showGateReadout.
+ */
+
+import { useEffect, useState } from 'react';
+import maplibregl from 'maplibre-gl';
+import { useMap } from './MapContext';
+import { useRadarStore, getProcessingOptions } from '../../stores/radarStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { rawScanCache } from '../../services/nexrad/frameCache';
+import { getWorkerPool } from '../../services/nexrad/workerPool';
+import { kmToMiles } from '../../utils/geo';
+import type { GateQueryResult } from '../../services/nexrad/gateQuery';
+
+const PRODUCT_UNITS: Record<string, string> = {
+  REF: 'dBZ',
+  VEL: 'm/s',
+  SRV: 'm/s',
+  ZDR: 'dB',
+  CC: '',
+  KDP: '°/km',
+  SW: 'm/s',
+  PHI: '°',
+  CREF: 'dBZ',
+  ET18: 'kft',
+  ET30: 'kft',
+  VIL: 'kg/m²',
+  SHI: 'J/m/s',
+  POSH: '%',
+  MESH: 'in',
+};
+
+const KM_TO_KFT = 3.28084;
+/** Tooltip offset from the cursor (px) */
+const CURSOR_OFFSET = 14;
+/** Quiet time after the last mouse move before querying (ms) */
+const QUERY_DEBOUNCE_MS = 40;
+
+interface Readout {
+  gate: GateQueryResult;
+  x: number;
+  y: number;
+}
+
+export function GateReadout() {
+  const map = useMap();
+  const show = useRadarStore((s) => s.showGateReadout);
+  const [readout, setReadout] = useState<Readout | null>(null);
+
+  useEffect(() => {
+    if (!map || !show) {
+      setReadout(null);
+      return;
+    }
+
+    let disposed = false;
+    let inFlight = false;
+    let dirty = false;
+    let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    // Last cursor position over the map (null = cursor left the map)
+    let cursor: { lngLat: maplibregl.LngLat; x: number; y: number } | null = null;
+
+    const request = async () => {
+      if (inFlight) {
+        dirty = true;
+        return;
+      }
+      const target = cursor;
+      if (!target) return;
+      inFlight = true;
+      dirty = false;
+
+      try {
+        const radarState = useRadarStore.getState();
+        const { currentIndex } = useTimelineStore.getState();
+        const scan = radarState.scanFiles[currentIndex];
+        const site = radarState.selectedSite;
+        const buffer = scan ? rawScanCache.get(scan.key) : undefined;
+        if (!scan || !site || !buffer) {
+          setReadout(null);
+          return;
+        }
+
+        const { availableElevationNumbers, elevationIndex } = radarState;
+        const elevationNumber = availableElevationNumbers.length > elevationIndex
+          ? availableElevationNumbers[elevationIndex]
+          : elevationIndex + 1;
+
+        const query = {
+          scanBuffer: new ArrayBuffer(0),
+          scanKey: scan.key,
+          product: radarState.product,
+          elevationNumber,
+          siteLat: scan.siteLat ?? site.lat,
+          siteLon: scan.siteLon ?? site.lon,
+          point: { lat: target.lngLat.lat, lon: target.lngLat.lng },
+          sweepIndex: scan.sweepIndex,
+          processing: getProcessingOptions(radarState),
+        };
+        let response = await getWorkerPool().queryGate(query);
+        // The worker dropped the scan from its parsed cache — send the bytes
+        // (unless they were transferred to a decoder and are detached)
+        if (response.scanMissing && buffer.byteLength > 0 && !disposed) {
+          response = await getWorkerPool().queryGate({ ...query, scanBuffer: buffer.slice(0) });
+        }
+        if (disposed || !cursor) return;
+
+        setReadout(response.gate ? { gate: response.gate, x: target.x, y: target.y } : null);
+      } catch (err: any) {
+        // Cancelled by a scrub/product switch — the next move re-queries
+        if (!disposed && err?.message !== 'Cancelled') setReadout(null);
+      } finally {
+        inFlight = false;
+        if (dirty && !disposed) request();
+      }
+    };
+
+    const onMouseMove = (e: maplibregl.MapMouseEvent) => {
+      cursor = { lngLat: e.lngLat, x: e.point.x, y: e.point.y };
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(() => {
+        debounceTimer = null;
+        request();
+      }, QUERY_DEBOUNCE_MS);
+    };
+
+    const onMouseOut = () => {
+      cursor = null;
+      dirty = false;
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = null;
+      setReadout(null);
+    };
+
+    // Re-query the resting cursor when the displayed frame changes
+    let prevIndex = useTimelineStore.getState().currentIndex;
+    const unsubTimeline = useTimelineStore.subscribe((state) => {
+      if (state.currentIndex !== prevIndex) {
+        prevIndex = state.currentIndex;
+        request();
+      }
+    });
+    const unsubRadar = useRadarStore.subscribe((state, prev) => {
+      if (
+        state.product !== prev.product ||
+        state.elevationIndex !== prev.elevationIndex ||
+        state.velocityDealias !== prev.velocityDealias ||
+        state.stormMotion !== prev.stormMotion ||
+        state.clutterFilter !== prev.clutterFilter
+      ) {
+        request();
+      }
+    });
+
+    map.on('mousemove', onMouseMove);
+    map.on('mouseout', onMouseOut);
+
+    return () => {
+      disposed = true;
+      if (debounceTimer) clearTimeout(debounceTimer);
+      unsubTimeline();
+      unsubRadar();
+      try {
+        map.off('mousemove', onMouseMove);
+        map.off('mouseout', onMouseOut);
+      } catch { /* map destroyed */ }
+    };
+  }, [map, show]);
+
+  if (!show || !readout) return null;
+
+  const { gate, x, y } = readout;
+  const unit = PRODUCT_UNITS[gate.product] ?? '';
+
+  return (
+    <div className="gate-readout" style={{ left: x + CURSOR_OFFSET, top: y + CURSOR_OFFSET }}>
+      <div className="gate-readout-value">
+        {gate.value !== null ? `${formatValue(gate.value, gate.product)} ${unit}` : 'No data'}
+        <span className="gate-readout-product">{gate.product}</span>
+      </div>
+      <div className="gate-readout-grid">
+        <span className="gate-readout-label">Range</span>
+        <span>
+          {formatRange(gate.slantRangeKm ?? gate.groundRangeKm)}
+        </span>
+
+        {gate.beamHeightKm !== null && (
+          <>
+            <span className="gate-readout-label">Beam AGL</span>
+            <span>
+              {(gate.beamHeightKm * KM_TO_KFT).toFixed(1)} kft
+              {gate.elevationAngle !== null && ` @ ${gate.elevationAngle.toFixed(1)}°`}
+            </span>
+          </>
+        )}
+
+        <span className="gate-readout-label">Azimuth</span>
+        <span>{gate.azimuth.toFixed(1)}°</span>
+
+        <span className="gate-readout-label">Lat/Lon</span>
+        <span>{gate.lat.toFixed(3)}, {gate.lon.toFixed(3)}</span>
+      </div>
+    </div>
+  );
+}
+
+/** CC needs hundredths to be useful; everything else reads fine at tenths. */
+function formatValue(value: number, product: string): string {
+  return value.toFixed(product === 'CC' || product === 'MESH' ? 2 : 1);
+}
+
+function formatRange(km: number): string {
+  return `${kmToMiles(km).toFixed(1)} mi (${km.toFixed(1)} km)`;
+}
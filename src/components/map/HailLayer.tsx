@@ -0,0 +1,147 @@
+/**
+ * Hail cell marker layer.
+ *
+ * Draws the hail cells the worker found in the current volume (see
+ * hailProducts.ts) as hailstone icons colored by maximum estimated size
+ * (MESH), labelled with the size in inches. Cells come from the displayed
+ * frame's stats (RadarLayer merges in the scan's hail summary), so they
+ * follow scrubbing and playback like the rotation markers.
+ *
+ * Toggleable via radarStore.showHailMarkers.
+ */
+
+import { useEffect } from 'react';
+import { useMap } from './MapContext';
+import { isMapUsable } from '../../utils/mapSafety';
+import { useRadarStore } from '../../stores/radarStore';
+import type { HailCell } from '../../services/nexrad/hailProducts';
+
+const SOURCE_ID = 'hail-markers';
+const ICON_LAYER = 'hail-markers-icon';
+const LABEL_LAYER = 'hail-markers-label';
+
+/**
+ * Build GeoJSON for the hail cell markers (empty when hidden).
+ */
+function buildMarkersGeoJSON(cells: HailCell[]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: cells.map((c) => ({
+      type: 'Feature' as const,
+      properties: {
+        meshIn: c.meshIn,
+        posh: c.posh,
+        label: `${c.meshIn.toFixed(2)}"`,
+      },
+      geometry: { type: 'Point' as const, coordinates: [c.lon, c.lat] },
+    })),
+  };
+}
+
+export function HailLayer() {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!map) return;
+
+    const ensureLayers = () => {
+      if (!map.isStyleLoaded()) return;
+
+      if (!map.getSource(SOURCE_ID)) {
+        map.addSource(SOURCE_ID, {
+          type: 'geojson',
+          data: { type: 'FeatureCollection', features: [] },
+        });
+      }
+      if (!map.getLayer(ICON_LAYER)) {
+        map.addLayer({
+          id: ICON_LAYER,
+          type: 'circle',
+          source: SOURCE_ID,
+          paint: {
+            // Hailstone grows with MESH, with a floor so small cells stay visible
+            'circle-radius': ['interpolate', ['linear'], ['get', 'meshIn'], 0.75, 5, 3, 11],
+            // MESH (in): sub-severe → severe → significant → giant
+            'circle-color': [
+              'step', ['get', 'meshIn'],
+              '#00c800',
+              1, '#ffff00',
+              2, '#ff0000',
+              2.75, '#ff00ff',
+            ],
+            'circle-stroke-width': 2,
+            'circle-stroke-color': '#ffffff',
+          },
+        });
+      }
+      if (!map.getLayer(LABEL_LAYER)) {
+        map.addLayer({
+          id: LABEL_LAYER,
+          type: 'symbol',
+          source: SOURCE_ID,
+          layout: {
+            'text-field': ['get', 'label'],
+            'text-font': ['Open Sans Bold', 'Arial Unicode MS Bold'],
+            'text-size': 11,
+            'text-offset': [0, 1.6],
+            'text-allow-overlap': true,
+          },
+          paint: {
+            'text-color': '#ffffff',
+            'text-halo-color': '#000000',
+            'text-halo-width': 1.5,
+          },
+        });
+      }
+    };
+
+    const updateVisuals = () => {
+      if (!isMapUsable(map)) return;
+      ensureLayers();
+      const { currentFrameStats, showHailMarkers } = useRadarStore.getState();
+      const cells = showHailMarkers ? currentFrameStats?.hail?.cells ?? [] : [];
+
+      const src = map.getSource(SOURCE_ID);
+      if (src && 'setData' in src) {
+        (src as any).setData(buildMarkersGeoJSON(cells));
+      }
+
+      // Keep markers above the radar image
+      if (map.getLayer(ICON_LAYER)) map.moveLayer(ICON_LAYER);
+      if (map.getLayer(LABEL_LAYER)) map.moveLayer(LABEL_LAYER);
+    };
+
+    const removeLayers = () => {
+      try {
+        if (map.getLayer(LABEL_LAYER)) map.removeLayer(LABEL_LAYER);
+        if (map.getLayer(ICON_LAYER)) map.removeLayer(ICON_LAYER);
+        if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID);
+      } catch { /* map already destroyed */ }
+    };
+
+    const unsub = useRadarStore.subscribe((state, prev) => {
+      if (
+        state.currentFrameStats !== prev.currentFrameStats ||
+        state.showHailMarkers !== prev.showHailMarkers
+      ) {
+        updateVisuals();
+      }
+    });
+
+    const onStyleLoad = () => updateVisuals();
+
+    // Initialize
+    updateVisuals();
+    map.on('style.load', onStyleLoad);
+
+    return () => {
+      unsub();
+      try {
+        map.off('style.load', onStyleLoad);
+      } catch { /* map destroyed */ }
+      removeLayers();
+    };
+  }, [map]);
+
+  return null;
+}
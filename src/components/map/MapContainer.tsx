@@ -8,13 +8,15 @@ import '../../styles/map.css';
 interface MapContainerProps {
   children?: React.ReactNode;
   onMapReady?: (map: maplibregl.Map | null) => void;
+  /** Secondary panel of the multi-panel layout (not the main map) */
+  secondary?: boolean;
 }
 
 /**
  * Core map component that initializes MapLibre GL and manages the map instance.
  * Provides the map to children via React context.
  */
-export function MapContainer({ children, onMapReady }: MapContainerProps) {
+export function MapContainer({ children, onMapReady, secondary = false }: MapContainerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<maplibregl.Map | null>(null);
   const [mapReady, setMapReady] = useState<maplibregl.Map | null>(null);
@@ -56,14 +58,14 @@ export function MapContainer({ children, onMapReady }: MapContainerProps) {
       map.resize();
       mapRef.current = map;
       // Debug: expose on window for console inspection
-      (window as any).__stormReplayMap = map;
+      if (!secondary) (window as any).__stormReplayMap = map;
       setMapReady(map);
       onMapReady?.(map);
     });
 
-    // Sync map movements back to store
+    // Sync map movements back to store (panels follow the main map)
     map.on('moveend', () => {
-      if (cancelled) return;
+      if (cancelled || secondary) return;
       const c = map.getCenter();
       useMapStore.getState().setCenter([c.lng, c.lat]);
       useMapStore.getState().setZoom(map.getZoom());
@@ -94,7 +96,7 @@ export function MapContainer({ children, onMapReady }: MapContainerProps) {
   }, [baseMapStyle]);
 
   return (
-    <div className="map-container">
+    <div className={secondary ? 'map-container map-container-secondary' : 'map-container'}>
       <div ref={containerRef} style={{ width: '100%', height: '100%' }} />
       <MapProvider value={mapReady}>
         {children}
@@ -0,0 +1,266 @@
+/**
+ * Multi-radar mosaic layer.
+ *
+ * For the current timeline frame, takes the main scan plus each mosaic
+ * site's scan nearest in time (scanAlignment.ts), requests their lowest
+ * sweeps through the shared PrefetchManager / FrameCache, and has the
+ * worker pool merge whatever frames are ready onto one lat/lon grid
+ * (mosaic.ts). The merged value grid is drawn by a GridGlLayer in the
+ * radar layer's slot and colored on the GPU like every other radar layer,
+ * so palette and smoothing changes never re-merge. While it's up, the main
+ * RadarLayer hides (mosaicStore.active).
+ *
+ * Mosaics fill in as site frames arrive, and recent grids are kept
+ * (quantized) so stepping back and forth doesn't re-merge.
+ */
+
+import { useEffect, useRef } from 'react';
+import type maplibregl from 'maplibre-gl';
+import { useMap } from './MapContext';
+import { isMapUsable } from '../../utils/mapSafety';
+import { useMosaicStore, type MosaicMethod } from '../../stores/mosaicStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useRadarStore, getActiveColorTable, getProcessingOptions } from '../../stores/radarStore';
+import { frameCache, FrameCache } from '../../services/nexrad/frameCache';
+import { getPrefetchManager } from '../../services/nexrad/prefetchManager';
+import { getWorkerPool } from '../../services/nexrad/workerPool';
+import { nearestScanIndex } from '../../services/nexrad/scanAlignment';
+import { computeMosaicGrid } from '../../services/nexrad/mosaic';
+import { GridGlLayer, encodeGridFrame, type GridGlFrame } from '../../services/nexrad/glRenderer';
+import { getColorTable, type RadarProduct } from '../../services/nexrad/renderLogic';
+import type { ScanFile } from '../../services/nexrad/types';
+
+const LAYER_ID = 'radar-mosaic-layer';
+/** Mosaics are built from each site's lowest sweep */
+const MOSAIC_ELEVATION_INDEX = 0;
+/** Merged grids kept for quick re-display */
+const MAX_CACHED_MOSAICS = 40;
+
+/** Same slot as the single-site radar layer */
+const BEFORE_CANDIDATES = [
+  'spc-watches-fill',
+  'nws-warnings-fill',
+  'spc-mcds-fill',
+  'lsr-reports-circles',
+  'nexrad-sites-layer',
+];
+
+interface CachedMosaic {
+  frame: GridGlFrame;
+  product: RadarProduct;
+}
+
+interface Participant {
+  scan: ScanFile;
+  lat: number;
+  lon: number;
+}
+
+function findBeforeId(map: maplibregl.Map, candidates: string[]): string | undefined {
+  for (const id of candidates) {
+    if (map.getLayer(id)) return id;
+  }
+  return undefined;
+}
+
+/** Active (possibly imported) palette for a product, else the built-in one. */
+function resolveColorTable(product: RadarProduct) {
+  return getActiveColorTable(useRadarStore.getState(), product) ?? getColorTable(product);
+}
+
+/**
+ * Signed radial velocities from different sites aren't comparable, so
+ * velocity mosaics always take the nearest radar.
+ */
+function effectiveMethod(product: RadarProduct, method: MosaicMethod): MosaicMethod {
+  return product === 'VEL' || product === 'SRV' ? 'nearest' : method;
+}
+
+export function MosaicLayer() {
+  const map = useMap();
+  const glLayerRef = useRef<GridGlLayer | null>(null);
+  if (!glLayerRef.current) glLayerRef.current = new GridGlLayer(LAYER_ID);
+
+  useEffect(() => {
+    if (!map) return;
+    const layer = glLayerRef.current!;
+    const pm = getPrefetchManager();
+    const cache = new Map<string, CachedMosaic>();
+    let shownKey = '';
+    let shownProduct: RadarProduct | null = null;
+    let composing = false;
+    /** Merge that failed — not retried until the inputs change */
+    let failedKey = '';
+    let raf = 0;
+
+    const cacheMosaic = (key: string, mosaic: CachedMosaic) => {
+      cache.set(key, mosaic);
+      while (cache.size > MAX_CACHED_MOSAICS) {
+        const oldest = cache.keys().next().value;
+        if (oldest === undefined) break;
+        cache.delete(oldest);
+      }
+    };
+
+    const hide = () => {
+      shownKey = '';
+      shownProduct = null;
+      try {
+        if (map.getLayer(LAYER_ID)) map.removeLayer(LAYER_ID);
+      } catch { /* map already destroyed */ }
+      if (useMosaicStore.getState().active) useMosaicStore.getState().setActive(false);
+    };
+
+    const show = (key: string, mosaic: CachedMosaic) => {
+      const { radarOpacity, radarSmoothing } = useRadarStore.getState();
+      layer.setGrid(mosaic.frame);
+      layer.setColorTable(resolveColorTable(mosaic.product));
+      layer.setSmoothing(radarSmoothing);
+      layer.setOpacity(radarOpacity);
+      shownKey = key;
+      shownProduct = mosaic.product;
+
+      if (!map.getLayer(LAYER_ID)) map.addLayer(layer, findBeforeId(map, BEFORE_CANDIDATES));
+      if (!useMosaicStore.getState().active) useMosaicStore.getState().setActive(true);
+    };
+
+    const display = async () => {
+      if (!isMapUsable(map) || !map.isStyleLoaded()) return;
+
+      const { sites, method, showMosaic } = useMosaicStore.getState();
+      const radarState = useRadarStore.getState();
+      const { selectedSite, scanFiles, product, paletteVersion } = radarState;
+      const mainScan = scanFiles[useTimelineStore.getState().currentIndex];
+
+      if (!showMosaic || sites.length === 0 || !selectedSite || !mainScan) {
+        hide();
+        return;
+      }
+
+      const participants: Participant[] = [{
+        scan: mainScan,
+        lat: mainScan.siteLat ?? selectedSite.lat,
+        lon: mainScan.siteLon ?? selectedSite.lon,
+      }];
+      for (const { site, scans } of sites) {
+        const idx = nearestScanIndex(scans, mainScan.timestamp);
+        if (idx >= 0) participants.push({ scan: scans[idx], lat: site.lat, lon: site.lon });
+      }
+
+      // Request every site's frame; merge whichever are ready
+      const processing = getProcessingOptions(radarState, { markers: false });
+      const readyKeys: string[] = [];
+      for (const { scan, lat, lon } of participants) {
+        const key = FrameCache.makeKey(scan.key, scan.timestamp, product, MOSAIC_ELEVATION_INDEX, paletteVersion, scan.sweepIndex, processing);
+        if (frameCache.has(key)) readyKeys.push(key);
+        else pm.requestFrame(scan, product, MOSAIC_ELEVATION_INDEX, lat, lon, paletteVersion, processing);
+      }
+      // Keep the previous mosaic up until a frame for this time is decoded
+      if (readyKeys.length === 0) return;
+
+      const mergeMethod = effectiveMethod(product, method);
+      const mosaicKey = [mergeMethod, ...readyKeys].join('|');
+      if (mosaicKey === shownKey && map.getLayer(LAYER_ID)) return;
+
+      const cached = cache.get(mosaicKey);
+      if (cached) {
+        show(mosaicKey, cached);
+        return;
+      }
+
+      // One merge at a time; the finished one re-runs display for the latest state
+      if (composing || mosaicKey === failedKey) return;
+      const grid = computeMosaicGrid(participants.map(({ lat, lon }) => ({ lat, lon })));
+      if (!grid) return;
+
+      composing = true;
+      try {
+        const frames = readyKeys.map((key) => frameCache.get(key)!);
+        const result = await getWorkerPool().composeMosaic({
+          frames: frames.map((f) => ({ image: f.image, siteLat: f.siteLat, siteLon: f.siteLon })),
+          method: mergeMethod,
+          grid,
+        });
+        if (!result.mosaicValues) return;
+        cacheMosaic(mosaicKey, { frame: encodeGridFrame(result.mosaicValues, grid), product });
+      } catch (err: any) {
+        if (err?.message !== 'Cancelled') {
+          console.warn('[Mosaic] Merge failed:', err?.message);
+          failedKey = mosaicKey;
+        }
+      } finally {
+        composing = false;
+        scheduleDisplay();
+      }
+    };
+
+    // Coalesce store changes and frame arrivals into one update per animation frame
+    const scheduleDisplay = () => {
+      cancelAnimationFrame(raf);
+      raf = requestAnimationFrame(() => { display(); });
+    };
+
+    /* ── Subscriptions ──────────────────────────────────────────── */
+
+    const removeListener = pm.addFrameReadyListener(scheduleDisplay);
+
+    const unsubTimeline = useTimelineStore.subscribe((state, prev) => {
+      if (state.currentIndex !== prev.currentIndex) scheduleDisplay();
+    });
+
+    const unsubMosaic = useMosaicStore.subscribe((state, prev) => {
+      if (state.sites !== prev.sites || state.method !== prev.method || state.showMosaic !== prev.showMosaic) {
+        scheduleDisplay();
+      }
+    });
+
+    const unsubRadar = useRadarStore.subscribe((state, prev) => {
+      // Palette, smoothing and opacity are draw-time state — cached grids stay valid
+      if (
+        shownProduct &&
+        (state.paletteName !== prev.paletteName || state.customPalettes !== prev.customPalettes)
+      ) {
+        layer.setColorTable(resolveColorTable(shownProduct));
+      }
+      if (state.radarSmoothing !== prev.radarSmoothing) layer.setSmoothing(state.radarSmoothing);
+      if (state.radarOpacity !== prev.radarOpacity) layer.setOpacity(state.radarOpacity);
+      if (state.scanFiles !== prev.scanFiles) {
+        cache.clear();
+        scheduleDisplay();
+      }
+      if (
+        state.product !== prev.product ||
+        state.paletteVersion !== prev.paletteVersion ||
+        state.stormMotion !== prev.stormMotion ||
+        state.velocityDealias !== prev.velocityDealias ||
+        state.clutterFilter !== prev.clutterFilter
+      ) {
+        scheduleDisplay();
+      }
+    });
+
+    // Re-add the layer after a basemap style change
+    const onStyleLoad = () => {
+      shownKey = '';
+      display();
+    };
+    map.on('style.load', onStyleLoad);
+
+    display();
+
+    return () => {
+      removeListener();
+      unsubTimeline();
+      unsubMosaic();
+      unsubRadar();
+      cancelAnimationFrame(raf);
+      try {
+        map.off('style.load', onStyleLoad);
+      } catch { /* map destroyed */ }
+      hide();
+      cache.clear();
+    };
+  }, [map]);
+
+  return null;
+}
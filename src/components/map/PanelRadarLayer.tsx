@@ -0,0 +1,157 @@
+import { useEffect, useRef } from 'react';
+import { useMap } from './MapContext';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useRadarStore, getActiveColorTable, getProcessingOptions } from '../../stores/radarStore';
+import { useLayoutStore } from '../../stores/layoutStore';
+import { frameCache, FrameCache } from '../../services/nexrad/frameCache';
+import { getPrefetchManager } from '../../services/nexrad/prefetchManager';
+import { RadarGlLayer } from '../../services/nexrad/glRenderer';
+import { getColorTable, type RadarProduct } from '../../services/nexrad/renderLogic';
+import { isMapUsable } from '../../utils/mapSafety';
+
+const RADAR_LAYER_ID = 'radar-layer';
+/** Frames requested ahead of the current index, so playback doesn't wait on every step */
+const LOOK_AHEAD = 2;
+
+/**
+ * Radar layer for a secondary panel of the multi-panel layout.
+ *
+ * Shows the panel's own product/elevation (layoutStore.panels) at the shared
+ * timeline index. Frames come from the same FrameCache and PrefetchManager
+ * as the main RadarLayer — raw scans and the worker's parsed volumes are
+ * shared, so an extra product costs one decode per frame, not a download.
+ * The main RadarLayer owns bulk prefetch; panels request the current frame
+ * and a short look-ahead. Palette, smoothing and opacity follow the sidebar.
+ */
+export function PanelRadarLayer({ panel }: { panel: number }) {
+  const map = useMap();
+  const glLayerRef = useRef<RadarGlLayer | null>(null);
+  if (!glLayerRef.current) glLayerRef.current = new RadarGlLayer(RADAR_LAYER_ID);
+
+  useEffect(() => {
+    if (!map) return;
+    const layer = glLayerRef.current!;
+    const pm = getPrefetchManager();
+    let lastRendered = '';
+    let shownProduct: RadarProduct | null = null;
+    let raf = 0;
+
+    const display = () => {
+      if (!isMapUsable(map)) return;
+
+      const { currentIndex, interpolationFrames, subFrame } = useTimelineStore.getState();
+      const radarState = useRadarStore.getState();
+      const { selectedSite, scanFiles, paletteVersion } = radarState;
+      const view = useLayoutStore.getState().panels[panel - 1];
+
+      // Event cleared — drop the layer until frames arrive again
+      if (!selectedSite || !view || scanFiles.length === 0 || !scanFiles[currentIndex]) {
+        if (map.getLayer(RADAR_LAYER_ID)) map.removeLayer(RADAR_LAYER_ID);
+        lastRendered = '';
+        return;
+      }
+
+      const { product } = view;
+      const elevationIndex = Math.min(view.elevationIndex, Math.max(0, radarState.availableElevations.length - 1));
+      const processing = getProcessingOptions({ ...radarState, product }, { markers: false });
+      const keys: string[] = [];
+      for (let i = currentIndex; i <= Math.min(currentIndex + LOOK_AHEAD, scanFiles.length - 1); i++) {
+        const scan = scanFiles[i];
+        keys.push(FrameCache.makeKey(scan.key, scan.timestamp, product, elevationIndex, paletteVersion, scan.sweepIndex, processing));
+        pm.requestFrame(scan, product, elevationIndex, selectedSite.lat, selectedSite.lon, paletteVersion, processing);
+      }
+
+      if (interpolationFrames > 0 && keys.length > 1) {
+        pm.requestInterpolation(keys[0], keys[1], interpolationFrames);
+      }
+
+      let cacheKey = keys[0];
+      if (subFrame > 0 && subFrame <= interpolationFrames) {
+        const subKey = FrameCache.makeInterpolatedKey(keys[0], subFrame, interpolationFrames);
+        if (frameCache.has(subKey)) cacheKey = subKey;
+      }
+      if (cacheKey === lastRendered && map.getLayer(RADAR_LAYER_ID)) return;
+
+      const frame = frameCache.get(cacheKey);
+      if (!frame) return;
+
+      const { radarSmoothing, radarOpacity } = radarState;
+      shownProduct = frame.product as RadarProduct;
+      layer.setFrame({ image: frame.image, siteLat: frame.siteLat, siteLon: frame.siteLon });
+      layer.setColorTable(resolveColorTable(shownProduct));
+      layer.setSmoothing(radarSmoothing);
+      layer.setOpacity(radarOpacity);
+      if (!map.getLayer(RADAR_LAYER_ID)) map.addLayer(layer);
+      lastRendered = cacheKey;
+    };
+
+    // Coalesce store changes and frame arrivals into one update per animation frame
+    const scheduleDisplay = () => {
+      cancelAnimationFrame(raf);
+      raf = requestAnimationFrame(display);
+    };
+
+    const removeListener = pm.addFrameReadyListener(scheduleDisplay);
+    const unsubTimeline = useTimelineStore.subscribe(scheduleDisplay);
+    const unsubLayout = useLayoutStore.subscribe((state, prev) => {
+      if (state.panels !== prev.panels) scheduleDisplay();
+    });
+
+    let prevRadar = useRadarStore.getState();
+    const unsubRadar = useRadarStore.subscribe((state) => {
+      const prev = prevRadar;
+      prevRadar = state;
+
+      // Restyle in place — every cached frame stays valid
+      if (state.paletteName !== prev.paletteName || state.customPalettes !== prev.customPalettes) {
+        if (shownProduct) layer.setColorTable(resolveColorTable(shownProduct));
+      }
+      if (state.radarSmoothing !== prev.radarSmoothing) layer.setSmoothing(state.radarSmoothing);
+      if (state.radarOpacity !== prev.radarOpacity) layer.setOpacity(state.radarOpacity);
+
+      if (
+        state.scanFiles !== prev.scanFiles ||
+        state.selectedSite !== prev.selectedSite ||
+        state.paletteVersion !== prev.paletteVersion ||
+        state.availableElevations !== prev.availableElevations ||
+        state.stormMotion !== prev.stormMotion ||
+        state.velocityDealias !== prev.velocityDealias ||
+        state.clutterFilter !== prev.clutterFilter ||
+        state.freezingLevels !== prev.freezingLevels
+      ) {
+        scheduleDisplay();
+      }
+    });
+
+    // Re-add the layer after a basemap style change (setStyle removes all layers)
+    const onStyleLoad = () => {
+      lastRendered = '';
+      display();
+    };
+    map.on('style.load', onStyleLoad);
+
+    display();
+
+    return () => {
+      removeListener();
+      unsubTimeline();
+      unsubLayout();
+      unsubRadar();
+      cancelAnimationFrame(raf);
+      try {
+        map.off('style.load', onStyleLoad);
+        if (isMapUsable(map) && map.getLayer(RADAR_LAYER_ID)) map.removeLayer(RADAR_LAYER_ID);
+      } catch { /* map destroyed */ }
+    };
+  }, [map, panel]);
+
+  return null;
+}
+
+/**
+ * Resolve the color table for a product: the active (possibly imported)
+ * palette, else the built-in default.
+ */
+function resolveColorTable(product: RadarProduct) {
+  return getActiveColorTable(useRadarStore.getState(), product) ?? getColorTable(product);
+}
@@ -0,0 +1,75 @@
+/**
+ * Keeps one map panel in step with the others in the multi-panel layout.
+ *
+ * - The camera is linked through linkMapView (pan/zoom in any panel moves all)
+ * - The pointer position is shared via layoutStore.cursor; every panel except
+ *   the one under the pointer draws a crosshair at that spot
+ *
+ * Mounted once per panel, including the main map, while layout > 1.
+ */
+
+import { useEffect } from 'react';
+import maplibregl from 'maplibre-gl';
+import { useMap } from './MapContext';
+import { useLayoutStore, type LinkedCursor } from '../../stores/layoutStore';
+import { linkMapView } from '../../utils/mapSync';
+
+interface PanelSyncProps {
+  /** Panel number (0 = main map) */
+  panel: number;
+}
+
+export function PanelSync({ panel }: PanelSyncProps) {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!map) return;
+
+    const unlink = linkMapView(map);
+
+    const onMouseMove = (e: maplibregl.MapMouseEvent) => {
+      useLayoutStore.getState().setCursor({ lngLat: [e.lngLat.lng, e.lngLat.lat], panel });
+    };
+    const onMouseOut = () => {
+      if (useLayoutStore.getState().cursor?.panel === panel) {
+        useLayoutStore.getState().setCursor(null);
+      }
+    };
+    map.on('mousemove', onMouseMove);
+    map.on('mouseout', onMouseOut);
+
+    // Crosshair marker, shown while the pointer is over another panel
+    const el = document.createElement('div');
+    el.className = 'panel-crosshair';
+    const marker = new maplibregl.Marker({ element: el });
+    let shown = false;
+
+    const update = (cursor: LinkedCursor | null) => {
+      if (cursor && cursor.panel !== panel) {
+        marker.setLngLat(cursor.lngLat);
+        if (!shown) {
+          marker.addTo(map);
+          shown = true;
+        }
+      } else if (shown) {
+        marker.remove();
+        shown = false;
+      }
+    };
+    update(useLayoutStore.getState().cursor);
+    const unsub = useLayoutStore.subscribe((state) => update(state.cursor));
+
+    return () => {
+      unsub();
+      unlink();
+      marker.remove();
+      try {
+        map.off('mousemove', onMouseMove);
+        map.off('mouseout', onMouseOut);
+      } catch { /* map destroyed */ }
+      onMouseOut();
+    };
+  }, [map, panel]);
+
+  return null;
+}
@@ -2,34 +2,52 @@ import { useEffect, useRef, useCallback } from 'react';
 import type maplibregl from 'maplibre-gl';
 import { useMap } from './MapContext';
 import { useTimelineStore } from '../../stores/timelineStore';
-import { useRadarStore, getActiveColorTable } from '../../stores/radarStore';
+import { useRadarStore, getActiveColorTable, getProcessingOptions } from '../../stores/radarStore';
+import { useTdsStore } from '../../stores/tdsStore';
+import { useCompareStore } from '../../stores/compareStore';
+import { useMosaicStore } from '../../stores/mosaicStore';
+import { useDownloadStore } from '../../stores/downloadStore';
 import { frameCache, FrameCache } from '../../services/nexrad/frameCache';
 import { getPrefetchManager } from '../../services/nexrad/prefetchManager';
-import { computeRadarBounds } from '../../services/nexrad/renderer';
+import { RadarGlLayer } from '../../services/nexrad/glRenderer';
+import { getColorTable, type RadarProduct } from '../../services/nexrad/renderLogic';
 import { playChime } from '../../utils/chime';
 import { isMapUsable } from '../../utils/mapSafety';
-import type { RenderedFrame } from '../../services/nexrad/types';
+import { isHailProduct } from '../../services/nexrad/volumeProducts';
+import type { RenderedFrame, FrameStats, ScanFile } from '../../services/nexrad/types';
 
-const RADAR_SOURCE_ID = 'radar-image';
 const RADAR_LAYER_ID = 'radar-layer';
 
 /**
  * Manages the radar overlay on the MapLibre map.
  *
  * Optimized pipeline:
- * - PrefetchManager handles download + worker decode/render in background
- * - Workers create PNG blobs → main thread creates instant blob URLs
- * - This component only reads from FrameCache and passes pre-computed
- *   blob URLs to MapLibre — frame display is <1ms, fully synchronous
- * - Custom color palettes are passed through to the worker pipeline
+ * - PrefetchManager handles download + worker decode in background
+ * - Workers return polar moment data (PolarImage) → FrameCache
+ * - This component only reads from FrameCache and hands frames to a WebGL
+ *   custom layer (RadarGlLayer) — display is a texture upload, fully synchronous
+ * - Palette, smoothing and opacity are applied by the layer's shader, so
+ *   changing them restyles every cached frame without re-decoding
+ * - With interpolation on, in-between frames for the current→next scan pair
+ *   are requested as soon as both scans are cached; until one lands, the
+ *   scan frame stays on screen
+ * - With hail shown, the scan's hail summary (requested apart from the
+ *   frame, see PrefetchManager.requestHailSummary) is merged into the stats
+ *   pushed for the overlays
+ * - While a multi-radar mosaic is on the map (MosaicLayer) the layer is
+ *   hidden but keeps following the timeline, so it's ready when the mosaic goes
  */
 export function RadarLayer() {
   const map = useMap();
   const lastRenderedRef = useRef<string>('');
   const mapRef = useRef<maplibregl.Map | null>(null);
   const displayRafRef = useRef(0);
+  const glLayerRef = useRef<RadarGlLayer | null>(null);
+  /** Product of the frame on screen (its color table follows palette edits) */
+  const shownProductRef = useRef<RadarProduct | null>(null);
 
   mapRef.current = map;
+  if (!glLayerRef.current) glLayerRef.current = new RadarGlLayer(RADAR_LAYER_ID);
 
   /**
    * Try to display the current frame from the cache.
@@ -39,34 +57,59 @@ export function RadarLayer() {
     const currentMap = mapRef.current;
     if (!isMapUsable(currentMap)) return;
 
-    const { currentIndex, frameTimes } = useTimelineStore.getState();
+    const { currentIndex, frameTimes, interpolationFrames, subFrame } = useTimelineStore.getState();
     const radarState = useRadarStore.getState();
-    const { selectedSite, product, elevationIndex, scanFiles, paletteVersion, radarSmoothing } = radarState;
+    const { selectedSite, product, elevationIndex, scanFiles, paletteVersion } = radarState;
 
     if (!selectedSite || frameTimes.length === 0 || scanFiles.length === 0) return;
     if (currentIndex < 0 || currentIndex >= scanFiles.length) return;
 
+    const processing = getProcessingOptions(radarState);
     const scanFile = scanFiles[currentIndex];
-    const cacheKey = FrameCache.makeKey(
+    const scanKey = FrameCache.makeKey(
       scanFile.key,
       scanFile.timestamp,
       product,
       elevationIndex,
       paletteVersion,
-      radarSmoothing,
       scanFile.sweepIndex,
+      processing,
     );
 
+    // Synthesize in-between frames for this scan pair and the one after
+    // (so they're ready before playback gets there) once the scans are cached
+    if (interpolationFrames > 0) {
+      const pairKeys = scanFiles
+        .slice(currentIndex, currentIndex + 3)
+        .map((s) => FrameCache.makeKey(s.key, s.timestamp, product, elevationIndex, paletteVersion, s.sweepIndex, processing));
+      for (let i = 0; i + 1 < pairKeys.length; i++) {
+        getPrefetchManager().requestInterpolation(pairKeys[i], pairKeys[i + 1], interpolationFrames);
+      }
+    }
+
+    // Prefer the in-between frame when playback is between scans and it's ready
+    let cacheKey = scanKey;
+    if (subFrame > 0 && subFrame <= interpolationFrames) {
+      const subKey = FrameCache.makeInterpolatedKey(scanKey, subFrame, interpolationFrames);
+      if (frameCache.has(subKey)) cacheKey = subKey;
+    }
+
     // Skip if already showing this exact frame
     if (lastRenderedRef.current === cacheKey) return;
 
     // Check frame cache
     const frame = frameCache.get(cacheKey);
     if (frame) {
-      updateMapImage(currentMap, frame);
+      updateMapImage(currentMap, glLayerRef.current!, frame);
+      shownProductRef.current = frame.product as RadarProduct;
       lastRenderedRef.current = cacheKey;
-      // Push frame stats to store for the attributes overlay
-      useRadarStore.getState().setCurrentFrameStats(frame.stats ?? null);
+      // Push frame stats to store for the attributes overlay — again once
+      // the scan's hail summary lands, if it had to be requested
+      const pushStats = () => {
+        if (lastRenderedRef.current !== cacheKey) return;
+        useRadarStore.getState().setCurrentFrameStats(withHailSummary(frame.stats, scanFile, pushStats));
+      };
+      pushStats();
     }
     // If not cached, prefetchManager is working on it and will notify us via onFrameReady
   }, []);
@@ -74,13 +117,8 @@ export function RadarLayer() {
   /**
    * Schedule a display update on the next animation frame.
    *
-   * MapLibre's ImageSource.updateImage() loads blob URLs asynchronously.
-   * During rapid scrubbing, multiple updateImage calls can race — if an
-   * earlier image finishes loading AFTER a later one, the display briefly
-   * shows a stale frame (the "reverse frame" artifact).
-   *
-   * By coalescing rapid index changes into a single RAF, we ensure only
-   * one updateImage call per animation frame, eliminating the race.
+   * Coalesces rapid index changes (scrubbing, several prefetched frames
+   * landing at once) into a single texture upload per animation frame.
    */
   const scheduleDisplay = useCallback(() => {
     cancelAnimationFrame(displayRafRef.current);
@@ -94,7 +132,7 @@ export function RadarLayer() {
    */
   const onFrameChange = useCallback(() => {
     const radarState = useRadarStore.getState();
-    const { selectedSite, product, elevationIndex, scanFiles, paletteVersion, radarSmoothing } = radarState;
+    const { selectedSite, product, elevationIndex, scanFiles, paletteVersion } = radarState;
     const { currentIndex } = useTimelineStore.getState();
 
     if (!selectedSite || scanFiles.length === 0) return;
@@ -104,25 +142,20 @@ export function RadarLayer() {
     const siteLat = scanFile?.siteLat ?? selectedSite.lat;
     const siteLon = scanFile?.siteLon ?? selectedSite.lon;
 
-    // Resolve active color table for the current product
-    const colorTable = getActiveColorTable(radarState, product);
-
     // Update prefetch window immediately
     const pm = getPrefetchManager();
     pm.updateWindow(
       currentIndex,
       scanFiles,
-      product as 'REF' | 'VEL',
+      product,
       elevationIndex,
       siteLat,
       siteLon,
-      colorTable,
       paletteVersion,
-      radarSmoothing,
+      getProcessingOptions(radarState),
     );
 
-    // Coalesce display update to next animation frame to prevent
-    // out-of-order MapLibre image loads during rapid scrubbing
+    // Coalesce display update to next animation frame
     scheduleDisplay();
   }, [scheduleDisplay]);
 
@@ -132,7 +165,17 @@ export function RadarLayer() {
 
     // Register callback for when prefetch completes a frame
     const pm = getPrefetchManager();
-    pm.setOnFrameReady((_cacheKey: string) => {
+    pm.setOnFrameReady((cacheKey: string) => {
+      // Collect debris signatures from every rendered frame (not just the
+      // displayed one) so the TDS overlay covers the whole loop. Only this
+      // layer's requests ask for markers — compare, panel and mosaic frames
+      // are requested with `markers: false` and carry no detections, even
+      // when their site is part of the main event.
+      const frame = frameCache.get(cacheKey);
+      if (frame?.stats?.tds && !frame.interpolated) {
+        useTdsStore.getState().recordFrame(frame.timestamp, frame.stats.tds);
+      }
+
       // A frame just became available — schedule display check for next frame.
       // Coalescing via RAF prevents out-of-order image loads when multiple
       // frames complete in quick succession.
@@ -142,48 +185,59 @@ export function RadarLayer() {
     /**
      * Start background prefetch of ALL frames for the current event.
      * Uses spiral ordering from current position outward.
-     * Reports progress to radarStore for the UI progress indicator.
+     * Reports progress to radarStore for the UI progress indicator and
+     * per-frame status to downloadStore for the scrubber.
      */
     const startBackgroundPrefetch = () => {
       const radarState = useRadarStore.getState();
-      const { selectedSite, product, elevationIndex, scanFiles, paletteVersion, radarSmoothing } = radarState;
+      const { selectedSite, product, elevationIndex, scanFiles, paletteVersion } = radarState;
       const { currentIndex } = useTimelineStore.getState();
 
       if (!selectedSite || scanFiles.length === 0) return;
 
-      const colorTable = getActiveColorTable(radarState, product);
-
       // Report progress to store for UI indicator
       useRadarStore.getState().setPrefetchProgress({ completed: 0, total: scanFiles.length });
 
       pm.downloadAll(
         scanFiles,
-        product as 'REF' | 'VEL',
+        product,
         elevationIndex,
         selectedSite.lat,
         selectedSite.lon,
         (completed, total) => {
           useRadarStore.getState().setPrefetchProgress({ completed, total });
-          // Clear progress when done and notify user
-          if (completed >= total) {
-            useRadarStore.getState().setPrefetchProgress(null);
-            playChime();
-          }
         },
-        colorTable,
         paletteVersion,
         currentIndex, // Start from current position, spiral outward
-        radarSmoothing,
-      );
+        getProcessingOptions(radarState),
+        (states) => useDownloadStore.getState().setFrameStates(states),
+      ).then((finished) => {
+        // Clear progress when every frame was attempted (failed frames stay
+        // marked on the scrubber); the chime only means every frame made it
+        if (finished) {
+          useRadarStore.getState().setPrefetchProgress(null);
+          if (!useDownloadStore.getState().frameStates.includes('failed')) playChime();
+        }
+      });
     };
 
     let prevTimelineIndex = useTimelineStore.getState().currentIndex;
+    let prevSubFrame = useTimelineStore.getState().subFrame;
+    let prevInterpolationFrames = useTimelineStore.getState().interpolationFrames;
     let prevProduct = useRadarStore.getState().product;
     let prevElevation = useRadarStore.getState().elevationIndex;
     let prevScanCount = useRadarStore.getState().scanFiles.length;
     let prevRadarOpacity = useRadarStore.getState().radarOpacity;
     let prevPaletteVersion = useRadarStore.getState().paletteVersion;
+    let prevPaletteName = useRadarStore.getState().paletteName;
+    let prevCustomPalettes = useRadarStore.getState().customPalettes;
     let prevSmoothing = useRadarStore.getState().radarSmoothing;
+    let prevStormMotion = useRadarStore.getState().stormMotion;
+    let prevDealias = useRadarStore.getState().velocityDealias;
+    let prevRotation = useRadarStore.getState().rotationThresholds;
+    let prevFreezing = useRadarStore.getState().freezingLevels;
+    let prevHailMarkers = useRadarStore.getState().showHailMarkers;
+    let prevClutter = useRadarStore.getState().clutterFilter;
 
     const unsubTimeline = useTimelineStore.subscribe((state) => {
       if (state.currentIndex !== prevTimelineIndex) {
@@ -206,9 +260,16 @@ export function RadarLayer() {
           });
         }
 
-        // Display is now instant (pre-computed blob URL) — no throttle needed
+        // Display is instant (cached polar frame → texture) — no throttle needed
         onFrameChange();
       }
+
+      // In-between frames don't move the prefetch window — just redisplay
+      if (state.subFrame !== prevSubFrame || state.interpolationFrames !== prevInterpolationFrames) {
+        prevSubFrame = state.subFrame;
+        prevInterpolationFrames = state.interpolationFrames;
+        scheduleDisplay();
+      }
     });
 
     const unsubRadar = useRadarStore.subscribe((state) => {
@@ -225,37 +286,102 @@ export function RadarLayer() {
         startBackgroundPrefetch();
       }
 
-      // Handle palette changes — clear frame cache (all frames are wrong colors)
-      // Worker's parsed-radar cache stays valid → re-render is fast (~100-200ms/frame)
+      // Handle forced re-render — clear frame cache and decode everything again
+      // Worker's parsed-radar cache stays valid → re-decode is fast (~20-50ms/frame)
       if (state.paletteVersion !== prevPaletteVersion) {
         prevPaletteVersion = state.paletteVersion;
         lastRenderedRef.current = '';
         frameCache.clear();
         pm.cancelAll();
         onFrameChange();
-        // Re-prefetch ALL frames with new palette
         startBackgroundPrefetch();
       }
 
-      // Handle smoothing toggle — clear frame cache (all frames need re-render)
-      // Worker's parsed-radar cache stays valid → re-render is fast
+      // Handle palette switches / imports — only the shader's color lookup changes,
+      // every cached frame stays valid
+      if (state.paletteName !== prevPaletteName || state.customPalettes !== prevCustomPalettes) {
+        prevPaletteName = state.paletteName;
+        prevCustomPalettes = state.customPalettes;
+        const shown = shownProductRef.current;
+        if (shown) glLayerRef.current?.setColorTable(resolveColorTable(shown));
+      }
+
+      // Handle smoothing changes — a shader mode switch, no re-decode
       if (state.radarSmoothing !== prevSmoothing) {
         prevSmoothing = state.radarSmoothing;
+        glLayerRef.current?.setSmoothing(state.radarSmoothing);
+      }
+
+      // Handle storm motion edits — SRV cache keys include the motion vector,
+      // so no cache clear is needed; just restart prefetch with the new keys
+      if (state.stormMotion !== prevStormMotion) {
+        prevStormMotion = state.stormMotion;
+        if (state.product === 'SRV') {
+          lastRenderedRef.current = '';
+          pm.cancelAll();
+          onFrameChange();
+          startBackgroundPrefetch();
+        }
+      }
+
+      // Handle dealias toggle — the flag is part of every cache key (frame stats
+      // carry velocity extremes), so re-render the current product with new keys
+      if (state.velocityDealias !== prevDealias) {
+        prevDealias = state.velocityDealias;
         lastRenderedRef.current = '';
-        frameCache.clear();
         pm.cancelAll();
         onFrameChange();
         startBackgroundPrefetch();
       }
 
+      // Handle rotation threshold edits — couplet markers live in the stats of
+      // this layer's frames, and the thresholds are part of their keys
+      if (state.rotationThresholds !== prevRotation) {
+        prevRotation = state.rotationThresholds;
+        lastRenderedRef.current = '';
+        pm.cancelAll();
+        onFrameChange();
+        startBackgroundPrefetch();
+      }
+
+      // Handle freezing level edits — only the hail products' keys carry the
+      // levels; every product redisplays to pick up the matching hail summary
+      if (state.freezingLevels !== prevFreezing) {
+        prevFreezing = state.freezingLevels;
+        lastRenderedRef.current = '';
+        if (isHailProduct(state.product)) {
+          pm.cancelAll();
+          onFrameChange();
+          startBackgroundPrefetch();
+        } else {
+          scheduleDisplay();
+        }
+      }
+
+      // Handle hail marker toggle — the cells are merged into the shown
+      // frame's stats, no frame is re-decoded
+      if (state.showHailMarkers !== prevHailMarkers) {
+        prevHailMarkers = state.showHailMarkers;
+        lastRenderedRef.current = '';
+        scheduleDisplay();
+      }
+
+      // Handle clutter filter edits — only REF keys carry the filter, so other
+      // products keep their frames
+      if (state.clutterFilter !== prevClutter) {
+        prevClutter = state.clutterFilter;
+        if (state.product === 'REF') {
+          lastRenderedRef.current = '';
+          pm.cancelAll();
+          onFrameChange();
+          startBackgroundPrefetch();
+        }
+      }
+
       // Apply radar opacity changes
       if (state.radarOpacity !== prevRadarOpacity) {
         prevRadarOpacity = state.radarOpacity;
-        try {
-          if (isMapUsable(map) && map.getLayer(RADAR_LAYER_ID)) {
-            map.setPaintProperty(RADAR_LAYER_ID, 'raster-opacity', state.radarOpacity);
-          }
-        } catch { /* map destroyed */ }
+        glLayerRef.current?.setOpacity(state.radarOpacity);
       }
 
       // Auto-prefetch ALL frames when scans are first loaded
@@ -267,7 +393,20 @@ export function RadarLayer() {
       prevScanCount = scanCount;
     });
 
-    // Re-add radar layer when basemap style changes (setStyle removes all custom layers)
+    // Two-site swipe: the main site only draws left of the divider
+    const applySwipeClip = () => {
+      const { site, mode, swipePosition } = useCompareStore.getState();
+      glLayerRef.current?.setClip(site && mode === 'swipe' ? { from: 0, to: swipePosition } : null);
+    };
+    applySwipeClip();
+    const unsubCompare = useCompareStore.subscribe(applySwipeClip);
+
+    // The mosaic replaces the single-site layer while it's shown
+    const unsubMosaic = useMosaicStore.subscribe((state, prev) => {
+      if (state.active !== prev.active && isMapUsable(map)) applyMosaicVisibility(map);
+    });
+
+    // Re-add radar layer when basemap style changes (setStyle removes all layers)
     const onStyleLoad = () => {
       lastRenderedRef.current = '';
       displayCurrentFrame();
@@ -277,6 +416,8 @@ export function RadarLayer() {
     return () => {
       unsubTimeline();
       unsubRadar();
+      unsubCompare();
+      unsubMosaic();
       pm.setOnFrameReady(null as any);
       cancelAnimationFrame(displayRafRef.current);
       try { map.off('style.load', onStyleLoad); } catch { /* map destroyed */ }
@@ -297,29 +438,53 @@ function findBeforeId(map: maplibregl.Map, candidates: string[]): string | undef
 }
 
 /**
- * Update or create the radar image layer on the map.
- *
- * Blob URLs are pre-computed in the worker pipeline (PNG encoding runs in
- * Web Workers, blob URL created on cache insert). Display is now instant:
- * just pass the pre-computed URL to MapLibre. No canvas, no toBlob, no async waits.
+ * The frame's stats with the scan's hail summary merged in while hail is
+ * shown (hail markers on or a hail product selected). A summary that isn't
+ * cached yet is requested, and `onReady` runs once it is.
  */
-function updateMapImage(map: maplibregl.Map, frame: RenderedFrame) {
-  const bounds = computeRadarBounds(frame.siteLat, frame.siteLon, frame.rangeKm);
+function withHailSummary(stats: FrameStats | undefined, scanFile: ScanFile, onReady: () => void): FrameStats | null {
+  if (!stats) return null;
+  const { showHailMarkers, product, freezingLevels, selectedSite } = useRadarStore.getState();
+  if (!showHailMarkers && !isHailProduct(product)) return stats;
+
+  const pm = getPrefetchManager();
+  const hail = pm.getHailSummary(scanFile.key, freezingLevels);
+  if (hail === undefined) {
+    if (selectedSite) {
+      pm.requestHailSummary(scanFile, selectedSite.lat, selectedSite.lon, freezingLevels).then((cached) => {
+        if (cached) onReady();
+      });
+    }
+    return stats;
+  }
+  return hail ? { ...stats, hail } : stats;
+}
 
-  const source = map.getSource(RADAR_SOURCE_ID) as maplibregl.ImageSource | undefined;
+/**
+ * Resolve the color table the layer should use for a product: the active
+ * (possibly imported) palette, else the built-in default.
+ */
+function resolveColorTable(product: RadarProduct) {
+  return getActiveColorTable(useRadarStore.getState(), product) ?? getColorTable(product);
+}
 
-  if (source) {
-    source.updateImage({
-      url: frame.blobUrl,
-      coordinates: bounds,
-    });
-  } else {
-    map.addSource(RADAR_SOURCE_ID, {
-      type: 'image',
-      url: frame.blobUrl,
-      coordinates: bounds,
-    });
+/**
+ * Show a frame on the radar layer, adding the layer if it isn't on the map
+ * (first frame, after a basemap style change, or after an event reset).
+ *
+ * Frames are polar moment data already decoded in the worker pipeline;
+ * display is a synchronous texture upload on the next map render.
+ */
+function updateMapImage(map: maplibregl.Map, layer: RadarGlLayer, frame: RenderedFrame) {
+  const product = frame.product as RadarProduct;
+  const { radarSmoothing, radarOpacity } = useRadarStore.getState();
 
+  layer.setFrame({ image: frame.image, siteLat: frame.siteLat, siteLon: frame.siteLon });
+  layer.setColorTable(resolveColorTable(product));
+  layer.setSmoothing(radarSmoothing);
+  layer.setOpacity(radarOpacity);
+
+  if (!map.getLayer(RADAR_LAYER_ID)) {
     const beforeId = findBeforeId(map, [
       'spc-watches-fill',
       'nws-warnings-fill',
@@ -327,16 +492,16 @@ function updateMapImage(map: maplibregl.Map, frame: RenderedFrame) {
       'lsr-reports-circles',
       'nexrad-sites-layer',
     ]);
+    map.addLayer(layer, beforeId);
+    applyMosaicVisibility(map);
+  }
+}
 
-    map.addLayer({
-      id: RADAR_LAYER_ID,
-      type: 'raster',
-      source: RADAR_SOURCE_ID,
-      paint: {
-        'raster-opacity': useRadarStore.getState().radarOpacity,
-        'raster-fade-duration': 0,
-        'raster-resampling': 'nearest',
-      },
-    }, beforeId);
+/** Hide the radar layer while the multi-radar mosaic stands in for it. */
+function applyMosaicVisibility(map: maplibregl.Map) {
+  if (!map.getLayer(RADAR_LAYER_ID)) return;
+  const visibility = useMosaicStore.getState().active ? 'none' : 'visible';
+  if (map.getLayoutProperty(RADAR_LAYER_ID, 'visibility') !== visibility) {
+    map.setLayoutProperty(RADAR_LAYER_ID, 'visibility', visibility);
   }
 }
@@ -7,15 +7,25 @@ import type { ColorStop } from '../../services/nexrad/colorTables';
 const PRODUCT_UNITS: Record<string, string> = {
   REF: 'dBZ',
   VEL: 'm/s',
+  SRV: 'm/s',
   ZDR: 'dB',
   CC: '',
   KDP: '°/km',
+  SW: 'm/s',
+  PHI: '°',
+  CREF: 'dBZ',
+  ET18: 'kft',
+  ET30: 'kft',
+  VIL: 'kg/m²',
+  SHI: 'J/m/s',
+  POSH: '%',
+  MESH: 'in',
 };
 
 /** Compute the visible value range for a color table (skip transparent REF entries). */
 function getVisibleRange(table: ColorStop[], product: string) {
   let startIdx = 0;
-  if (product === 'REF') {
+  if (product === 'REF' || product === 'CREF') {
     startIdx = table.findIndex((s) => s.a > 0.5);
     if (startIdx < 0) startIdx = 0;
   }
@@ -37,15 +47,18 @@ function computeTicks(table: ColorStop[], product: string): number[] {
 
   const targetTicks = 7;
   const rawStep = range / targetTicks;
-  const niceSteps = [5, 10, 15, 20, 25, 50];
+  // Fractional steps cover the narrow dual-pol ranges (CC spans ~0.2-1.05)
+  const niceSteps = [0.05, 0.1, 0.2, 0.25, 0.5, 1, 2, 2.5, 5, 10, 15, 20, 25, 50];
   const step = niceSteps.reduce((best, s) =>
     Math.abs(s - rawStep) < Math.abs(best - rawStep) ? s : best
   );
 
   const ticks: number[] = [];
   const first = Math.ceil(minVal / step) * step;
-  for (let v = first; v <= maxVal; v += step) {
-    ticks.push(v);
+  // Derive each tick from its index and round, so fractional steps don't
+  // accumulate floating-point error (0.30000000000000004)
+  for (let i = 0; first + i * step <= maxVal + 1e-9; i++) {
+    ticks.push(Math.round((first + i * step) * 1000) / 1000);
   }
   return ticks;
 }
@@ -116,7 +129,9 @@ export function RadarLegend() {
 
     const { minVal, maxVal } = getVisibleRange(activeTable, product);
     const val = minVal + frac * (maxVal - minVal);
-    const rounded = Math.round(val * 10) / 10;
+    // Narrow-range products (CC) need two decimals to be meaningful
+    const precision = maxVal - minVal < 5 ? 100 : 10;
+    const rounded = Math.round(val * precision) / precision;
 
     setHoverValue(rounded);
     setHoverColor(valueToColor(val, activeTable));
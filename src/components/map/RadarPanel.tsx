@@ -0,0 +1,56 @@
+import { MapContainer } from './MapContainer';
+import { PanelRadarLayer } from './PanelRadarLayer';
+import { PanelSync } from './PanelSync';
+import { PRODUCTS } from '../sidebar/ProductSelector';
+import { useLayoutStore } from '../../stores/layoutStore';
+import { useRadarStore } from '../../stores/radarStore';
+import { isVolumeProduct } from '../../services/nexrad/volumeProducts';
+import type { RadarProduct } from '../../services/nexrad/renderLogic';
+
+/**
+ * A secondary map panel of the multi-panel layout: its own map with a radar
+ * layer for the panel's product/elevation, linked to the main map's view and
+ * cursor. The header picks the product and tilt; everything else (time,
+ * palette, smoothing, processing) follows the main controls.
+ */
+export function RadarPanel({ panel }: { panel: number }) {
+  const view = useLayoutStore((s) => s.panels[panel - 1]);
+  const setPanelProduct = useLayoutStore((s) => s.setPanelProduct);
+  const setPanelElevation = useLayoutStore((s) => s.setPanelElevation);
+  const availableElevations = useRadarStore((s) => s.availableElevations);
+
+  if (!view) return null;
+  const volume = isVolumeProduct(view.product);
+
+  return (
+    <MapContainer secondary>
+      <PanelRadarLayer panel={panel} />
+      <PanelSync panel={panel} />
+      <div className="panel-header">
+        <select
+          value={view.product}
+          onChange={(e) => setPanelProduct(panel, e.target.value as RadarProduct)}
+          title="Product shown in this panel"
+        >
+          {PRODUCTS.map((p) => (
+            <option key={p.id} value={p.id} title={p.title}>{p.label}</option>
+          ))}
+        </select>
+        {availableElevations.length > 0 && (
+          <select
+            value={Math.min(view.elevationIndex, availableElevations.length - 1)}
+            disabled={volume}
+            onChange={(e) => setPanelElevation(panel, parseInt(e.target.value, 10))}
+            title={volume ? 'Volume product — derived from all elevations' : 'Elevation shown in this panel'}
+          >
+            {availableElevations.map((el, idx) => (
+              <option key={idx} value={idx}>
+                {typeof el === 'number' ? `${el.toFixed(1)}°` : `Tilt ${idx + 1}`}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+    </MapContainer>
+  );
+}
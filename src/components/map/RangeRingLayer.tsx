@@ -0,0 +1,207 @@
+/**
+ * Range rings, azimuth spokes and beam-height contours around the radar.
+ *
+ * Drawn on a 2D canvas laid over the map rather than as MapLibre layers so
+ * the export compositor can redraw the exact same picture onto screenshots
+ * and animation frames (the map canvas never contains it). Geometry comes
+ * from rangeRings.ts around the site of the current frame — getSiteForFrame,
+ * so multi-site events follow handoffs — and is re-projected on every map
+ * move. Beam-height contours use the displayed tilt's angle and are hidden
+ * for volume products.
+ *
+ * Each redraw publishes the projected (CSS pixel) geometry to a shared ref,
+ * read by overlayRenderer.ts the same way it reads DistanceBearingLayer's.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useMap } from './MapContext';
+import { useRadarStore, getSiteForFrame } from '../../stores/radarStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useRangeRingStore } from '../../stores/rangeRingStore';
+import { buildRangeRingGeometry, type LabeledPath } from '../../services/nexrad/rangeRings';
+import { isVolumeProduct } from '../../services/nexrad/volumeProducts';
+import { isMapUsable } from '../../utils/mapSafety';
+
+const RING_COLOR = 'rgba(230, 237, 243, 0.6)';
+const SPOKE_COLOR = 'rgba(230, 237, 243, 0.35)';
+const BEAM_COLOR = 'rgba(127, 212, 255, 0.85)';
+const HALO_COLOR = 'rgba(0, 0, 0, 0.75)';
+const FONT_MONO = '"SF Mono", "Cascadia Code", "Fira Code", monospace';
+
+type ScreenPoint = [number, number];
+
+interface ScreenPath {
+  points: ScreenPoint[];
+  label: string;
+  labelAt: ScreenPoint;
+}
+
+/** Overlay geometry projected to map-container CSS pixels. */
+export interface RangeRingScreenGeometry {
+  rings: ScreenPath[];
+  spokes: ScreenPath[];
+  beamContours: ScreenPath[];
+}
+
+/** Shared ref for the export compositor */
+let _currentGeometry: RangeRingScreenGeometry | null = null;
+
+export function getRangeRingScreenGeometry(): RangeRingScreenGeometry | null {
+  return _currentGeometry;
+}
+
+/**
+ * Draw projected range ring geometry. `scale` maps CSS pixels to the
+ * target context's pixels (devicePixelRatio live, canvas/container ratio
+ * in exports).
+ */
+export function paintRangeRings(
+  ctx: CanvasRenderingContext2D,
+  geometry: RangeRingScreenGeometry,
+  scale: number,
+): void {
+  ctx.save();
+  ctx.lineJoin = 'round';
+
+  ctx.lineWidth = 1 * scale;
+  ctx.strokeStyle = SPOKE_COLOR;
+  ctx.setLineDash([]);
+  for (const spoke of geometry.spokes) strokePath(ctx, spoke.points, scale);
+
+  ctx.lineWidth = 1.25 * scale;
+  ctx.strokeStyle = RING_COLOR;
+  for (const ring of geometry.rings) strokePath(ctx, ring.points, scale);
+
+  ctx.lineWidth = 1.5 * scale;
+  ctx.strokeStyle = BEAM_COLOR;
+  ctx.setLineDash([6 * scale, 4 * scale]);
+  for (const contour of geometry.beamContours) strokePath(ctx, contour.points, scale);
+  ctx.setLineDash([]);
+
+  ctx.font = `600 ${10 * scale}px ${FONT_MONO}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineWidth = 3 * scale;
+  ctx.strokeStyle = HALO_COLOR;
+  for (const ring of geometry.rings) drawLabel(ctx, ring, RING_COLOR, scale);
+  for (const spoke of geometry.spokes) drawLabel(ctx, spoke, RING_COLOR, scale);
+  for (const contour of geometry.beamContours) drawLabel(ctx, contour, BEAM_COLOR, scale);
+
+  ctx.restore();
+}
+
+function strokePath(ctx: CanvasRenderingContext2D, points: ScreenPoint[], scale: number): void {
+  if (points.length < 2) return;
+  ctx.beginPath();
+  ctx.moveTo(points[0][0] * scale, points[0][1] * scale);
+  for (let i = 1; i < points.length; i++) {
+    ctx.lineTo(points[i][0] * scale, points[i][1] * scale);
+  }
+  ctx.stroke();
+}
+
+function drawLabel(ctx: CanvasRenderingContext2D, path: ScreenPath, color: string, scale: number): void {
+  const x = path.labelAt[0] * scale;
+  const y = path.labelAt[1] * scale;
+  ctx.strokeText(path.label, x, y);
+  ctx.fillStyle = color;
+  ctx.fillText(path.label, x, y);
+}
+
+export function RangeRingLayer() {
+  const map = useMap();
+  const show = useRangeRingStore((s) => s.showRangeRings);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!map || !show || !canvas) {
+      _currentGeometry = null;
+      return;
+    }
+
+    const redraw = () => {
+      const ctx = canvas.getContext('2d');
+      if (!ctx || !isMapUsable(map)) return;
+
+      const container = map.getContainer();
+      const width = container.clientWidth;
+      const height = container.clientHeight;
+      const dpr = window.devicePixelRatio || 1;
+      if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+        canvas.width = Math.round(width * dpr);
+        canvas.height = Math.round(height * dpr);
+        canvas.style.width = `${width}px`;
+        canvas.style.height = `${height}px`;
+      }
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+      const radarState = useRadarStore.getState();
+      const { currentIndex } = useTimelineStore.getState();
+      const site = getSiteForFrame(currentIndex, radarState.scanFiles, radarState.selectedSite);
+      if (!site) {
+        _currentGeometry = null;
+        return;
+      }
+
+      const { availableElevations, elevationIndex, product } = radarState;
+      const elevationDeg = !isVolumeProduct(product) && elevationIndex < availableElevations.length
+        ? availableElevations[elevationIndex]
+        : null;
+      const geometry = buildRangeRingGeometry(site.lat, site.lon, useRangeRingStore.getState(), elevationDeg);
+
+      const project = (paths: LabeledPath[]): ScreenPath[] =>
+        paths.map((path) => {
+          const label = map.project(path.labelAt);
+          return {
+            points: path.points.map((p) => {
+              const pt = map.project(p);
+              return [pt.x, pt.y] as ScreenPoint;
+            }),
+            label: path.label,
+            labelAt: [label.x, label.y],
+          };
+        });
+
+      _currentGeometry = {
+        rings: project(geometry.rings),
+        spokes: project(geometry.spokes),
+        beamContours: project(geometry.beamContours),
+      };
+      paintRangeRings(ctx, _currentGeometry, dpr);
+    };
+
+    redraw();
+    map.on('move', redraw);
+    map.on('resize', redraw);
+    const unsubTimeline = useTimelineStore.subscribe((state, prev) => {
+      if (state.currentIndex !== prev.currentIndex) redraw();
+    });
+    const unsubRadar = useRadarStore.subscribe((state, prev) => {
+      if (
+        state.scanFiles !== prev.scanFiles ||
+        state.selectedSite !== prev.selectedSite ||
+        state.product !== prev.product ||
+        state.elevationIndex !== prev.elevationIndex ||
+        state.availableElevations !== prev.availableElevations
+      ) {
+        redraw();
+      }
+    });
+    const unsubSettings = useRangeRingStore.subscribe(redraw);
+
+    return () => {
+      map.off('move', redraw);
+      map.off('resize', redraw);
+      unsubTimeline();
+      unsubRadar();
+      unsubSettings();
+      _currentGeometry = null;
+      const ctx = canvas.getContext('2d');
+      ctx?.clearRect(0, 0, canvas.width, canvas.height);
+    };
+  }, [map, show]);
+
+  if (!show) return null;
+  return <canvas ref={canvasRef} className="range-ring-canvas" />;
+}
@@ -0,0 +1,146 @@
+/**
+ * Rotation (mesocyclone) marker layer.
+ *
+ * Draws the cyclonic couplets the worker found for the current frame (see
+ * rotationDetection.ts) as rings sized by couplet diameter and colored by
+ * delta-V, with a delta-V label. Markers come from the displayed frame's
+ * stats, so they follow scrubbing and playback like the attributes overlay.
+ *
+ * Toggleable via radarStore.showRotationMarkers.
+ */
+
+import { useEffect } from 'react';
+import { useMap } from './MapContext';
+import { isMapUsable } from '../../utils/mapSafety';
+import { useRadarStore } from '../../stores/radarStore';
+import type { RotationMarker } from '../../services/nexrad/rotationDetection';
+
+const SOURCE_ID = 'rotation-markers';
+const RING_LAYER = 'rotation-markers-ring';
+const LABEL_LAYER = 'rotation-markers-label';
+
+/**
+ * Build GeoJSON for the couplet markers (empty when hidden).
+ */
+function buildMarkersGeoJSON(markers: RotationMarker[]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: markers.map((m) => ({
+      type: 'Feature' as const,
+      properties: {
+        deltaV: m.deltaV,
+        diameterKm: m.diameterKm,
+        label: `${Math.round(m.deltaV)}`,
+      },
+      geometry: { type: 'Point' as const, coordinates: [m.lon, m.lat] },
+    })),
+  };
+}
+
+export function RotationLayer() {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!map) return;
+
+    const ensureLayers = () => {
+      if (!map.isStyleLoaded()) return;
+
+      if (!map.getSource(SOURCE_ID)) {
+        map.addSource(SOURCE_ID, {
+          type: 'geojson',
+          data: { type: 'FeatureCollection', features: [] },
+        });
+      }
+      if (!map.getLayer(RING_LAYER)) {
+        map.addLayer({
+          id: RING_LAYER,
+          type: 'circle',
+          source: SOURCE_ID,
+          paint: {
+            // Grows with couplet diameter, with a floor so small couplets stay visible
+            'circle-radius': ['interpolate', ['linear'], ['get', 'diameterKm'], 0, 8, 10, 18],
+            'circle-color': 'rgba(0, 0, 0, 0)',
+            'circle-stroke-width': 3,
+            // Delta-V (m/s): weak → moderate → strong → violent
+            'circle-stroke-color': [
+              'step', ['get', 'deltaV'],
+              '#ffff00',
+              30, '#ff9900',
+              40, '#ff0000',
+              55, '#ff00ff',
+            ],
+          },
+        });
+      }
+      if (!map.getLayer(LABEL_LAYER)) {
+        map.addLayer({
+          id: LABEL_LAYER,
+          type: 'symbol',
+          source: SOURCE_ID,
+          layout: {
+            'text-field': ['get', 'label'],
+            'text-font': ['Open Sans Bold', 'Arial Unicode MS Bold'],
+            'text-size': 11,
+            'text-offset': [0, 2],
+            'text-allow-overlap': true,
+          },
+          paint: {
+            'text-color': '#ffffff',
+            'text-halo-color': '#000000',
+            'text-halo-width': 1.5,
+          },
+        });
+      }
+    };
+
+    const updateVisuals = () => {
+      if (!isMapUsable(map)) return;
+      ensureLayers();
+      const { currentFrameStats, showRotationMarkers } = useRadarStore.getState();
+      const markers = showRotationMarkers ? currentFrameStats?.rotation ?? [] : [];
+
+      const src = map.getSource(SOURCE_ID);
+      if (src && 'setData' in src) {
+        (src as any).setData(buildMarkersGeoJSON(markers));
+      }
+
+      // Keep markers above the radar image
+      if (map.getLayer(RING_LAYER)) map.moveLayer(RING_LAYER);
+      if (map.getLayer(LABEL_LAYER)) map.moveLayer(LABEL_LAYER);
+    };
+
+    const removeLayers = () => {
+      try {
+        if (map.getLayer(LABEL_LAYER)) map.removeLayer(LABEL_LAYER);
+        if (map.getLayer(RING_LAYER)) map.removeLayer(RING_LAYER);
+        if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID);
+      } catch { /* map already destroyed */ }
+    };
+
+    const unsub = useRadarStore.subscribe((state, prev) => {
+      if (
+        state.currentFrameStats !== prev.currentFrameStats ||
+        state.showRotationMarkers !== prev.showRotationMarkers
+      ) {
+        updateVisuals();
+      }
+    });
+
+    const onStyleLoad = () => updateVisuals();
+
+    // Initialize
+    updateVisuals();
+    map.on('style.load', onStyleLoad);
+
+    return () => {
+      unsub();
+      try {
+        map.off('style.load', onStyleLoad);
+      } catch { /* map destroyed */ }
+      removeLayers();
+    };
+  }, [map]);
+
+  return null;
+}
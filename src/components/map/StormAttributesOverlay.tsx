@@ -2,8 +2,11 @@
  * Storm Attributes floating overlay.
  *
  * Displays computed radar statistics for the current frame:
- * VCP, max reflectivity, gate counts above severe thresholds,
- * max inbound/outbound velocity. Updates each frame as the
+ * VCP, max reflectivity, gate counts above severe thresholds, the volume's
+ * maximum estimated hail size (MESH, when hail processing is on),
+ * max inbound/outbound velocity, plus the strongest rotation couplets
+ * (delta-V, diameter, tilt, range/azimuth) and whether a tornado debris
+ * signature was found at one of them. Updates each frame as the
  * RadarLayer pushes stats to radarStore.
  *
  * Toggleable via radarStore.showStormAttributes and draggable.
@@ -11,6 +14,10 @@
 
 import { useCallback, useRef, useState } from 'react';
 import { useRadarStore } from '../../stores/radarStore';
+import { kmToMiles } from '../../utils/geo';
+
+/** Couplets listed in the overlay (the map shows all of them). */
+const MAX_LISTED_COUPLETS = 3;
 
 export function StormAttributesOverlay() {
   const stats = useRadarStore((s) => s.currentFrameStats);
@@ -58,6 +65,14 @@ export function StormAttributesOverlay() {
   const maxRefStr = maxRef !== null ? `${maxRef.toFixed(1)} dBZ` : '—';
   const maxInStr = maxIn !== null ? `${maxIn.toFixed(1)} kts` : '—';
   const maxOutStr = maxOut !== null ? `${maxOut.toFixed(1)} kts` : '—';
+  const couplets = Array.isArray(stats.rotation) ? stats.rotation.slice(0, MAX_LISTED_COUPLETS) : [];
+  const hail = stats.hail && typeof stats.hail.maxMeshIn === 'number' ? stats.hail : null;
+  const hailStr = hail
+    ? `${hail.maxMeshIn!.toFixed(2)}"${typeof hail.maxPosh === 'number' ? ` · ${Math.round(hail.maxPosh)}%` : ''}`
+    : '—';
+  const tds = Array.isArray(stats.tds) && stats.tds.length > 0
+    ? stats.tds.reduce((a, b) => (b.minCC < a.minCC ? b : a))
+    : null;
 
   const style: React.CSSProperties = pos
     ? { position: 'absolute', left: pos.x, top: pos.y, right: 'auto' }
@@ -85,12 +100,38 @@ export function StormAttributesOverlay() {
         <span className="storm-attrs-label">Gates 60+</span>
         <span className="storm-attrs-value storm-attrs-severe">{gates60.toLocaleString()}</span>
 
+        <span className="storm-attrs-label" title="Max estimated hail size (MESH) · probability of severe hail (POSH)">
+          Max Hail
+        </span>
+        <span className={`storm-attrs-value${hail ? ' storm-attrs-hail' : ''}`}>{hailStr}</span>
+
         <span className="storm-attrs-label">Max In</span>
         <span className="storm-attrs-value storm-attrs-vel-in">{maxInStr}</span>
 
         <span className="storm-attrs-label">Max Out</span>
         <span className="storm-attrs-value storm-attrs-vel-out">{maxOutStr}</span>
+
+        <span className="storm-attrs-label">Rotation</span>
+        <span className="storm-attrs-value">{couplets.length > 0 ? stats.rotation!.length : 'None'}</span>
+
+        <span className="storm-attrs-label">TDS</span>
+        <span className={`storm-attrs-value${tds ? ' storm-attrs-tds' : ''}`}>
+          {tds ? `CC ${tds.minCC.toFixed(2)}` : '—'}
+        </span>
       </div>
+      {couplets.length > 0 && (
+        <div className="storm-attrs-couplets">
+          {couplets.map((c, i) => (
+            <div key={i} className="storm-attrs-couplet">
+              <span className="storm-attrs-severe">ΔV {c.deltaV.toFixed(0)} m/s</span>
+              {' '}{c.diameterKm.toFixed(1)} km @ {c.elevationAngle.toFixed(1)}°
+              <div className="storm-attrs-couplet-loc">
+                {kmToMiles(c.rangeKm).toFixed(0)} mi / {Math.round(c.azimuth)}°
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,145 @@
+/**
+ * Event swath layer (rotation track / hail-core swath).
+ *
+ * Shows the static max-value image built by SwathControls as a single
+ * raster layer. It sits above the radar image but below the NWS tornado
+ * damage survey tracks, so surveyed paths can be compared directly against
+ * the radar-derived rotation track.
+ *
+ * The swath belongs to the loaded event, so it's dropped (and any running
+ * accumulation stopped) when a new set of scans is loaded.
+ *
+ * Toggleable via swathStore.showSwath.
+ */
+
+import { useEffect } from 'react';
+import maplibregl from 'maplibre-gl';
+import { useMap } from './MapContext';
+import { isMapUsable } from '../../utils/mapSafety';
+import { useSwathStore } from '../../stores/swathStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useRadarStore } from '../../stores/radarStore';
+import { getPrefetchManager } from '../../services/nexrad/prefetchManager';
+
+const SOURCE_ID = 'event-swath';
+const LAYER_ID = 'event-swath-layer';
+
+/** Layers the swath goes beneath — damage tracks first so they stay on top. */
+const BEFORE_CANDIDATES = [
+  'tornado-tracks-casing',
+  'spc-watches-fill',
+  'nws-warnings-fill',
+  'spc-mcds-fill',
+  'lsr-reports-circles',
+  'nexrad-sites-layer',
+];
+
+function findBeforeId(map: maplibregl.Map, candidates: string[]): string | undefined {
+  for (const id of candidates) {
+    if (map.getLayer(id)) return id;
+  }
+  return undefined;
+}
+
+export function SwathLayer() {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!map) return;
+    let shownUrl: string | null = null;
+
+    const removeLayers = () => {
+      shownUrl = null;
+      try {
+        if (map.getLayer(LAYER_ID)) map.removeLayer(LAYER_ID);
+        if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID);
+      } catch { /* map already destroyed */ }
+    };
+
+    const updateVisuals = () => {
+      if (!isMapUsable(map) || !map.isStyleLoaded()) return;
+      const { image, showSwath, swathOpacity } = useSwathStore.getState();
+
+      if (!image) {
+        removeLayers();
+        return;
+      }
+
+      const source = map.getSource(SOURCE_ID) as maplibregl.ImageSource | undefined;
+      if (source) {
+        if (shownUrl !== image.url) {
+          source.updateImage({ url: image.url, coordinates: image.coordinates });
+        }
+      } else {
+        map.addSource(SOURCE_ID, {
+          type: 'image',
+          url: image.url,
+          coordinates: image.coordinates,
+        });
+      }
+      shownUrl = image.url;
+
+      if (!map.getLayer(LAYER_ID)) {
+        map.addLayer({
+          id: LAYER_ID,
+          type: 'raster',
+          source: SOURCE_ID,
+          paint: {
+            'raster-opacity': swathOpacity,
+            'raster-fade-duration': 0,
+            'raster-resampling': 'nearest',
+          },
+        }, findBeforeId(map, BEFORE_CANDIDATES));
+      } else {
+        map.setPaintProperty(LAYER_ID, 'raster-opacity', swathOpacity);
+        // The radar layer is added lazily and may have landed above us
+        map.moveLayer(LAYER_ID, findBeforeId(map, BEFORE_CANDIDATES));
+      }
+      map.setLayoutProperty(LAYER_ID, 'visibility', showSwath ? 'visible' : 'none');
+    };
+
+    /* ── Subscriptions ──────────────────────────────────────────── */
+
+    const unsubSwath = useSwathStore.subscribe((state, prev) => {
+      if (
+        state.image !== prev.image ||
+        state.showSwath !== prev.showSwath ||
+        state.swathOpacity !== prev.swathOpacity
+      ) {
+        updateVisuals();
+      }
+    });
+
+    // The radar layer is re-created after style changes; re-place on the next frame
+    const unsubTimeline = useTimelineStore.subscribe((state, prev) => {
+      if (state.currentIndex !== prev.currentIndex && useSwathStore.getState().image) {
+        updateVisuals();
+      }
+    });
+
+    const unsubRadar = useRadarStore.subscribe((state, prev) => {
+      if (state.scanFiles !== prev.scanFiles) {
+        getPrefetchManager().cancelSwath();
+        useSwathStore.getState().clearSwath();
+      }
+    });
+
+    const onStyleLoad = () => updateVisuals();
+
+    // Initialize
+    updateVisuals();
+    map.on('style.load', onStyleLoad);
+
+    return () => {
+      unsubSwath();
+      unsubTimeline();
+      unsubRadar();
+      try {
+        map.off('style.load', onStyleLoad);
+      } catch { /* map destroyed */ }
+      removeLayers();
+    };
+  }, [map]);
+
+  return null;
+}
@@ -0,0 +1,43 @@
+import { useCallback } from 'react';
+import { useCompareStore } from '../../stores/compareStore';
+import { useRadarStore } from '../../stores/radarStore';
+import { CompareSiteLabel } from './CompareSiteLabel';
+
+/**
+ * Draggable vertical divider for the two-site swipe comparison: the main
+ * site is drawn left of it, the comparison site right of it. Only the
+ * handle takes pointer input, so the map stays pannable on both sides.
+ */
+export function SwipeDivider() {
+  const position = useCompareStore((s) => s.swipePosition);
+  const selectedSite = useRadarStore((s) => s.selectedSite);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const container = e.currentTarget.parentElement?.parentElement;
+    if (!container) return;
+    const handle = e.currentTarget;
+    handle.setPointerCapture(e.pointerId);
+
+    const onMove = (ev: PointerEvent) => {
+      const rect = container.getBoundingClientRect();
+      useCompareStore.getState().setSwipePosition((ev.clientX - rect.left) / rect.width);
+    };
+    const onUp = () => {
+      handle.removeEventListener('pointermove', onMove);
+      handle.removeEventListener('pointerup', onUp);
+      handle.removeEventListener('pointercancel', onUp);
+    };
+    handle.addEventListener('pointermove', onMove);
+    handle.addEventListener('pointerup', onUp);
+    handle.addEventListener('pointercancel', onUp);
+  }, []);
+
+  return (
+    <div className="swipe-divider" style={{ left: `${position * 100}%` }}>
+      <div className="swipe-handle" onPointerDown={handlePointerDown} title="Drag to compare sites" />
+      {selectedSite && <div className="swipe-label swipe-label-left">{selectedSite.id}</div>}
+      <CompareSiteLabel className="swipe-label swipe-label-right" />
+    </div>
+  );
+}
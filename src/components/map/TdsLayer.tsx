@@ -0,0 +1,183 @@
+/**
+ * Tornado debris signature (TDS) overlay.
+ *
+ * Shows every TDS detected in the loop up to the current frame (cumulative,
+ * like LSRs), each labelled with its detection time so debris lofting can be
+ * timed without flipping between REF, CC and ZDR. Signatures on the current
+ * frame are drawn solid; earlier ones fade back to a trail.
+ *
+ * Detections are collected into tdsStore by RadarLayer as frames render.
+ * They depend on the displayed tilt and on the couplets they're collocated
+ * with, so they're cleared when the event, elevation, dealiasing or rotation
+ * thresholds change and rebuilt as the loop re-renders.
+ *
+ * Toggleable via tdsStore.showTds.
+ */
+
+import { useEffect } from 'react';
+import { useMap } from './MapContext';
+import { isMapUsable } from '../../utils/mapSafety';
+import { useTdsStore, type TdsDetection } from '../../stores/tdsStore';
+import { useRadarStore } from '../../stores/radarStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+
+const SOURCE_ID = 'tds-detections';
+const FILL_LAYER = 'tds-detections-fill';
+const LABEL_LAYER = 'tds-detections-label';
+
+/** Detections within this of the frame time belong to the current frame. */
+const CURRENT_FRAME_SLOP_MS = 90 * 1000;
+
+function formatTimeZ(ms: number): string {
+  return `${new Date(ms).toISOString().slice(11, 16)}Z`;
+}
+
+/**
+ * Build GeoJSON for detections at or before `now` (all hidden when toggled off).
+ */
+function buildDetectionsGeoJSON(
+  detections: Record<number, TdsDetection[]>,
+  now: number | undefined,
+): GeoJSON.FeatureCollection {
+  const features: GeoJSON.Feature[] = [];
+  if (now === undefined) return { type: 'FeatureCollection', features };
+
+  for (const list of Object.values(detections)) {
+    for (const d of list) {
+      if (d.timestamp > now + CURRENT_FRAME_SLOP_MS) continue;
+      features.push({
+        type: 'Feature',
+        properties: {
+          current: Math.abs(d.timestamp - now) <= CURRENT_FRAME_SLOP_MS,
+          label: `TDS ${formatTimeZ(d.timestamp)}`,
+          minCC: d.minCC,
+        },
+        geometry: { type: 'Point', coordinates: [d.lon, d.lat] },
+      });
+    }
+  }
+  return { type: 'FeatureCollection', features };
+}
+
+export function TdsLayer() {
+  const map = useMap();
+
+  useEffect(() => {
+    if (!map) return;
+
+    const ensureLayers = () => {
+      if (!map.isStyleLoaded()) return;
+
+      if (!map.getSource(SOURCE_ID)) {
+        map.addSource(SOURCE_ID, {
+          type: 'geojson',
+          data: { type: 'FeatureCollection', features: [] },
+        });
+      }
+      if (!map.getLayer(FILL_LAYER)) {
+        map.addLayer({
+          id: FILL_LAYER,
+          type: 'circle',
+          source: SOURCE_ID,
+          paint: {
+            'circle-radius': ['case', ['get', 'current'], 9, 6],
+            'circle-color': '#b000ff',
+            'circle-opacity': ['case', ['get', 'current'], 0.85, 0.35],
+            'circle-stroke-color': '#ffffff',
+            'circle-stroke-width': ['case', ['get', 'current'], 2, 1],
+            'circle-stroke-opacity': ['case', ['get', 'current'], 1, 0.5],
+          },
+        });
+      }
+      if (!map.getLayer(LABEL_LAYER)) {
+        map.addLayer({
+          id: LABEL_LAYER,
+          type: 'symbol',
+          source: SOURCE_ID,
+          layout: {
+            'text-field': ['get', 'label'],
+            'text-font': ['Open Sans Bold', 'Arial Unicode MS Bold'],
+            'text-size': ['case', ['get', 'current'], 12, 10],
+            'text-anchor': 'left',
+            'text-offset': [1, 0],
+            'text-allow-overlap': false,
+          },
+          paint: {
+            'text-color': '#e0b0ff',
+            'text-halo-color': '#000000',
+            'text-halo-width': 1.5,
+            'text-opacity': ['case', ['get', 'current'], 1, 0.6],
+          },
+        });
+      }
+    };
+
+    const updateVisuals = () => {
+      if (!isMapUsable(map)) return;
+      ensureLayers();
+      const { detections, showTds } = useTdsStore.getState();
+      const { frameTimes, currentIndex } = useTimelineStore.getState();
+
+      const src = map.getSource(SOURCE_ID);
+      if (src && 'setData' in src) {
+        (src as any).setData(buildDetectionsGeoJSON(showTds ? detections : {}, frameTimes[currentIndex]));
+      }
+
+      // Keep signatures above the radar image
+      if (map.getLayer(FILL_LAYER)) map.moveLayer(FILL_LAYER);
+      if (map.getLayer(LABEL_LAYER)) map.moveLayer(LABEL_LAYER);
+    };
+
+    const removeLayers = () => {
+      try {
+        if (map.getLayer(LABEL_LAYER)) map.removeLayer(LABEL_LAYER);
+        if (map.getLayer(FILL_LAYER)) map.removeLayer(FILL_LAYER);
+        if (map.getSource(SOURCE_ID)) map.removeSource(SOURCE_ID);
+      } catch { /* map already destroyed */ }
+    };
+
+    /* ── Subscriptions ──────────────────────────────────────────── */
+
+    const unsubTds = useTdsStore.subscribe((state, prev) => {
+      if (state.detections !== prev.detections || state.showTds !== prev.showTds) {
+        updateVisuals();
+      }
+    });
+
+    const unsubTimeline = useTimelineStore.subscribe((state, prev) => {
+      if (state.currentIndex !== prev.currentIndex || state.frameTimes !== prev.frameTimes) {
+        updateVisuals();
+      }
+    });
+
+    // Anything that changes which detections a frame would produce
+    const unsubRadar = useRadarStore.subscribe((state, prev) => {
+      if (
+        state.scanFiles !== prev.scanFiles ||
+        state.elevationIndex !== prev.elevationIndex ||
+        state.velocityDealias !== prev.velocityDealias ||
+        state.rotationThresholds !== prev.rotationThresholds
+      ) {
+        useTdsStore.getState().clearDetections();
+      }
+    });
+
+    const onStyleLoad = () => updateVisuals();
+
+    // Initialize
+    updateVisuals();
+    map.on('style.load', onStyleLoad);
+
+    return () => {
+      unsubTds();
+      unsubTimeline();
+      unsubRadar();
+      try {
+        map.off('style.load', onStyleLoad);
+      } catch { /* map destroyed */ }
+      removeLayers();
+    };
+  }, [map]);
+
+  return null;
+}
@@ -0,0 +1,89 @@
+/**
+ * Reflectivity clutter / noise filter controls.
+ *
+ * Minimum dBZ threshold, speckle removal and the CC-based non-meteorological
+ * echo mask (clutterFilter.ts). The filter is part of every REF frame's
+ * cache key, so the threshold slider commits on release rather than on
+ * every step to avoid re-rendering the loop while dragging.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRadarStore } from '../../stores/radarStore';
+import { CC_MASK_THRESHOLD } from '../../services/nexrad/clutterFilter';
+
+const MIN_DBZ_RANGE = { min: -10, max: 40 };
+/** Threshold used when the minimum-dBZ filter is first switched on */
+const DEFAULT_MIN_DBZ = 10;
+
+export function ClutterFilterControls() {
+  const filter = useRadarStore((s) => s.clutterFilter);
+  const setFilter = useRadarStore((s) => s.setClutterFilter);
+
+  // Slider position while dragging — committed to the store on release
+  const [draftDbz, setDraftDbz] = useState(filter.minDbz ?? DEFAULT_MIN_DBZ);
+
+  useEffect(() => {
+    if (filter.minDbz !== null) setDraftDbz(filter.minDbz);
+  }, [filter.minDbz]);
+
+  const commitDbz = () => {
+    if (filter.minDbz !== null && draftDbz !== filter.minDbz) {
+      setFilter({ ...filter, minDbz: draftDbz });
+    }
+  };
+
+  return (
+    <div className="layer-toggle-group">
+      <span className="layer-toggle-label" style={{ fontSize: 12, marginBottom: 2 }}>
+        Clutter Filter
+      </span>
+
+      <label className="layer-toggle-row" title="Hide gates below a reflectivity threshold">
+        <input
+          type="checkbox"
+          checked={filter.minDbz !== null}
+          onChange={(e) => setFilter({ ...filter, minDbz: e.target.checked ? draftDbz : null })}
+        />
+        <span className="layer-toggle-label">Minimum dBZ</span>
+      </label>
+      {filter.minDbz !== null && (
+        <div className="opacity-slider-row">
+          <input
+            type="range"
+            min={MIN_DBZ_RANGE.min}
+            max={MIN_DBZ_RANGE.max}
+            step={1}
+            value={draftDbz}
+            onChange={(e) => setDraftDbz(Number(e.target.value))}
+            onPointerUp={commitDbz}
+            onKeyUp={commitDbz}
+            onBlur={commitDbz}
+            className="opacity-slider"
+          />
+          <span className="opacity-value">{draftDbz} dBZ</span>
+        </div>
+      )}
+
+      <label className="layer-toggle-row" title="Remove isolated gates with almost no echo around them">
+        <input
+          type="checkbox"
+          checked={filter.despeckle}
+          onChange={(e) => setFilter({ ...filter, despeckle: e.target.checked })}
+        />
+        <span className="layer-toggle-label">Remove speckle</span>
+      </label>
+
+      <label
+        className="layer-toggle-row"
+        title={`Hide echo with correlation coefficient below ${CC_MASK_THRESHOLD.toFixed(2)} (ground clutter, AP, birds, insects). Also hides tornado debris signatures.`}
+      >
+        <input
+          type="checkbox"
+          checked={filter.ccMask}
+          onChange={(e) => setFilter({ ...filter, ccMask: e.target.checked })}
+        />
+        <span className="layer-toggle-label">Mask non-weather echo (CC)</span>
+      </label>
+    </div>
+  );
+}
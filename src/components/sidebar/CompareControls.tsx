@@ -0,0 +1,225 @@
+/**
+ * Two-site comparison controls.
+ *
+ * Picks a second NEXRAD site, loads its scans over the loaded event's time
+ * range, and chooses how it's shown: its own linked panel, or a swipe
+ * divider over the main map. Frames are paired with the main timeline by
+ * nearest timestamp (scanAlignment.ts).
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useRadarStore, type NexradSite } from '../../stores/radarStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useCompareStore, type CompareMode } from '../../stores/compareStore';
+import { listScansForRange } from '../../services/nexrad/s3Client';
+import { MAX_ALIGN_OFFSET_MS } from '../../services/nexrad/scanAlignment';
+import { expandScansForSails, probeSailsSweepCount } from './EventPicker';
+import { getPublicAssetUrl } from '../../utils/baseUrl';
+
+interface StationFeature {
+  properties: { id: string; name: string; elevation: number; tz?: string };
+  geometry: { coordinates: [number, number] };
+}
+
+let stationsCache: StationFeature[] | null = null;
+
+const MODES: { id: CompareMode; label: string; title: string }[] = [
+  { id: 'panels', label: 'Side by side', title: 'Comparison site in its own panel' },
+  { id: 'swipe', label: 'Swipe', title: 'Comparison site over the main map, right of a draggable divider' },
+];
+
+/**
+ * Load a comparison site's scans over the main event's time range (padded
+ * by the alignment tolerance so the first and last frames can pair),
+ * probing SAILS and tagging each scan with the site, like a handoff segment.
+ */
+export async function loadCompareSite(site: NexradSite): Promise<void> {
+  const compare = useCompareStore.getState();
+  const { frameTimes } = useTimelineStore.getState();
+  if (frameTimes.length === 0) return;
+
+  compare.setSite(null);
+  compare.setScans([]);
+  compare.setLoading(true);
+  compare.setError(null);
+
+  try {
+    const scans = await listScansForRange(
+      site.id,
+      new Date(frameTimes[0] - MAX_ALIGN_OFFSET_MS),
+      new Date(frameTimes[frameTimes.length - 1] + MAX_ALIGN_OFFSET_MS),
+    );
+    if (scans.length === 0) {
+      compare.setError(`No scans found for ${site.id} in this time range`);
+      return;
+    }
+
+    const { sweepCount } = await probeSailsSweepCount(scans, site.lat, site.lon);
+    const tagged = expandScansForSails(scans, sweepCount).map((s) => ({
+      ...s,
+      siteId: site.id,
+      siteLat: site.lat,
+      siteLon: site.lon,
+    }));
+    tagged.sort((a, b) => a.timestamp - b.timestamp);
+
+    compare.setScans(tagged);
+    compare.setSite(site);
+  } catch (err) {
+    compare.setError(err instanceof Error ? err.message : `Failed to load ${site.id}`);
+  } finally {
+    compare.setLoading(false);
+  }
+}
+
+export function CompareControls() {
+  const scanFiles = useRadarStore((s) => s.scanFiles);
+  const selectedSite = useRadarStore((s) => s.selectedSite);
+  const site = useCompareStore((s) => s.site);
+  const mode = useCompareStore((s) => s.mode);
+  const setMode = useCompareStore((s) => s.setMode);
+  const loading = useCompareStore((s) => s.loading);
+  const error = useCompareStore((s) => s.error);
+
+  const [adding, setAdding] = useState(false);
+  const [siteQuery, setSiteQuery] = useState('');
+  const [stations, setStations] = useState<StationFeature[]>([]);
+  const [showResults, setShowResults] = useState(false);
+  const searchRef = useRef<HTMLDivElement>(null);
+
+  // Load stations once
+  useEffect(() => {
+    if (stationsCache) {
+      setStations(stationsCache);
+      return;
+    }
+    fetch(getPublicAssetUrl('nexrad-stations.geojson'))
+      .then((r) => r.json())
+      .then((geojson) => {
+        stationsCache = geojson.features;
+        setStations(geojson.features);
+      })
+      .catch(() => {});
+  }, []);
+
+  // Close dropdown on outside click
+  useEffect(() => {
+    if (!adding) return;
+    const handler = (e: MouseEvent) => {
+      if (searchRef.current && !searchRef.current.contains(e.target as Node)) {
+        setShowResults(false);
+      }
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [adding]);
+
+  const filteredStations = siteQuery.length > 0
+    ? stations
+        .filter((s) => {
+          const q = siteQuery.toUpperCase();
+          return s.properties.id.includes(q) || s.properties.name.toUpperCase().includes(q);
+        })
+        // The main site can't be compared with itself
+        .filter((s) => s.properties.id !== selectedSite?.id)
+        .slice(0, 8)
+    : [];
+
+  const handleSelect = useCallback((station: StationFeature) => {
+    const newSite: NexradSite = {
+      id: station.properties.id,
+      name: station.properties.name,
+      lat: station.geometry.coordinates[1],
+      lon: station.geometry.coordinates[0],
+      elevation: station.properties.elevation,
+      tz: station.properties.tz || 'UTC',
+    };
+    setAdding(false);
+    setSiteQuery('');
+    setShowResults(false);
+    loadCompareSite(newSite);
+  }, []);
+
+  // Only show when scans are loaded
+  if (scanFiles.length === 0) return null;
+
+  return (
+    <div className="segment-editor">
+      {site && (
+        <div className="segment-row">
+          <div className="segment-info">
+            <span className="segment-site-id">{site.id}</span>
+            <span className="segment-site-name">{site.name}</span>
+          </div>
+          <button
+            className="segment-remove-btn"
+            onClick={() => useCompareStore.getState().clear()}
+            title={`Stop comparing with ${site.id}`}
+          >
+            ×
+          </button>
+          <div className="product-selector" style={{ marginTop: 6 }}>
+            {MODES.map((m) => (
+              <button
+                key={m.id}
+                className={mode === m.id ? 'active' : ''}
+                onClick={() => setMode(m.id)}
+                title={m.title}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+
+      {adding ? (
+        <div className="segment-add-form" ref={searchRef}>
+          <input
+            type="text"
+            className="segment-site-search"
+            placeholder="Search site ID or city..."
+            value={siteQuery}
+            onChange={(e) => {
+              setSiteQuery(e.target.value);
+              setShowResults(true);
+            }}
+            onFocus={() => setShowResults(true)}
+            autoFocus
+          />
+          {showResults && filteredStations.length > 0 && (
+            <div className="segment-search-results">
+              {filteredStations.map((s) => (
+                <button
+                  key={s.properties.id}
+                  className="segment-search-result"
+                  onClick={() => handleSelect(s)}
+                >
+                  <strong>{s.properties.id}</strong>{' '}
+                  <span>{s.properties.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <button
+            className="segment-cancel-btn"
+            onClick={() => { setAdding(false); setSiteQuery(''); }}
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          className="add-handoff-btn"
+          onClick={() => setAdding(true)}
+          disabled={loading}
+          title="Show a second radar site at the same times"
+        >
+          {loading ? 'Loading comparison site…' : site ? '⇄ Change Compare Site' : '⇄ Compare With Site'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * Cross-section line controls for the Radar sidebar section.
+ *
+ * Lets users draw the A→B line on the map and show/hide or clear
+ * the vertical cross-section panel.
+ */
+
+import { useCrossSectionStore } from '../../stores/crossSectionStore';
+
+export function CrossSectionControls() {
+  const start = useCrossSectionStore((s) => s.start);
+  const end = useCrossSectionStore((s) => s.end);
+  const drawingMode = useCrossSectionStore((s) => s.drawingMode);
+  const showPanel = useCrossSectionStore((s) => s.showPanel);
+  const startDrawing = useCrossSectionStore((s) => s.startDrawing);
+  const cancelDrawing = useCrossSectionStore((s) => s.cancelDrawing);
+  const clearLine = useCrossSectionStore((s) => s.clearLine);
+  const setShowPanel = useCrossSectionStore((s) => s.setShowPanel);
+
+  const hasLine = start !== null && end !== null;
+
+  return (
+    <div className="layer-toggle-group">
+      <span className="layer-toggle-label" style={{ fontSize: 12, marginBottom: 2 }}>
+        Cross Section
+      </span>
+
+      {drawingMode ? (
+        <div className="storm-path-controls">
+          <span className="storm-path-hint">
+            Click point {start ? 'B' : 'A'} on the map (Esc to cancel)
+          </span>
+          <div className="storm-path-btn-row">
+            <button className="storm-path-btn" onClick={cancelDrawing}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="storm-path-controls">
+          <div className="storm-path-btn-row">
+            <button className="storm-path-btn" onClick={startDrawing}>
+              {hasLine ? 'Redraw' : 'Draw Line'}
+            </button>
+            {hasLine && (
+              <button className="storm-path-btn" onClick={() => setShowPanel(!showPanel)}>
+                {showPanel ? 'Hide' : 'Show'}
+              </button>
+            )}
+            {hasLine && (
+              <button className="storm-path-btn storm-path-clear" onClick={clearLine}>
+                Clear
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
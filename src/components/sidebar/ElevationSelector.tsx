@@ -1,4 +1,5 @@
 import { useRadarStore } from '../../stores/radarStore';
+import { isVolumeProduct } from '../../services/nexrad/volumeProducts';
 
 /**
  * Dropdown for selecting radar elevation angle.
@@ -10,13 +11,19 @@ export function ElevationSelector() {
   const elevationIndex = useRadarStore((s) => s.elevationIndex);
   const availableElevations = useRadarStore((s) => s.availableElevations);
   const setElevationIndex = useRadarStore((s) => s.setElevationIndex);
+  const product = useRadarStore((s) => s.product);
 
   if (availableElevations.length === 0) return null;
 
+  // Volume products use every tilt — the selected elevation doesn't apply
+  const volume = isVolumeProduct(product);
+
   return (
     <div className="elevation-selector">
       <select
         value={elevationIndex}
+        disabled={volume}
+        title={volume ? 'Volume product — derived from all elevations' : undefined}
         onChange={(e) => setElevationIndex(parseInt(e.target.value, 10))}
       >
         {availableElevations.map((el, idx) => (
@@ -0,0 +1,94 @@
+import { useRef, useState } from 'react';
+import { useRadarStore } from '../../stores/radarStore';
+import {
+  saveEventPackage,
+  openEventPackage,
+  EVENT_PACKAGE_EXTENSION,
+} from '../../services/export/eventPackage';
+
+/**
+ * Save / open offline event packages (eventPackage.ts). Saving downloads
+ * any scans not already in memory, so it shows progress and can be
+ * cancelled; opening replaces the current event without network access.
+ */
+export function EventPackageControls() {
+  const loading = useRadarStore((s) => s.loading);
+  const hasEvent = useRadarStore((s) => s.scanFiles.length > 0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [opening, setOpening] = useState(false);
+
+  const handleSave = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      await saveEventPackage((done, total) => setProgress({ done, total }), controller.signal);
+    } catch (err: any) {
+      if (err?.name !== 'AbortError') {
+        useRadarStore.getState().setError(
+          err instanceof Error ? err.message : 'Failed to save event package',
+        );
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const onInputChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so re-selecting the same file works
+    e.target.value = '';
+    if (!file) return;
+
+    setOpening(true);
+    try {
+      await openEventPackage(file);
+    } catch (err) {
+      useRadarStore.getState().setError(
+        err instanceof Error ? err.message : 'Failed to open event package',
+      );
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const busy = loading || opening || progress !== null;
+
+  return (
+    <div className="gpx-import-section">
+      <div style={{ display: 'flex', gap: 8 }}>
+        {progress ? (
+          <button className="gpx-import-btn" onClick={() => abortRef.current?.abort()}>
+            Cancel ({progress.done}/{progress.total})
+          </button>
+        ) : (
+          <button
+            className="gpx-import-btn"
+            onClick={handleSave}
+            disabled={busy || !hasEvent}
+            title="Save scans, overlays, chase tracks and storm path to one file for offline replay"
+          >
+            Save Event Package
+          </button>
+        )}
+        <button
+          className="gpx-import-btn"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy}
+          title="Open a saved event package"
+        >
+          {opening ? 'Opening…' : 'Open Package'}
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={EVENT_PACKAGE_EXTENSION}
+        onChange={onInputChange}
+        style={{ display: 'none' }}
+      />
+    </div>
+  );
+}
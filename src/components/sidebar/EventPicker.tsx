@@ -3,10 +3,14 @@ import { useRadarStore, type NexradSite, type RadarSegment } from '../../stores/
 import { useTimelineStore } from '../../stores/timelineStore';
 import { useOverlayStore } from '../../stores/overlayStore';
 import { useStormPathStore } from '../../stores/stormPathStore';
+import { useCompareStore } from '../../stores/compareStore';
+import { useMosaicStore } from '../../stores/mosaicStore';
+import { useDownloadStore } from '../../stores/downloadStore';
 import { listScansForRange, fetchScan } from '../../services/nexrad/s3Client';
 import { rawScanCache, frameCache } from '../../services/nexrad/frameCache';
 import { getWorkerPool, resetWorkerPool } from '../../services/nexrad/workerPool';
 import { getPrefetchManager } from '../../services/nexrad/prefetchManager';
+import { clearLocalScans } from '../../services/nexrad/localFiles';
 import { parseLocalDateTime, getTimezoneAbbr } from '../../utils/time';
 import { getPublicAssetUrl } from '../../utils/baseUrl';
 import type { ScanFile } from '../../services/nexrad/types';
@@ -40,7 +44,7 @@ function saveEvent(date: string, startTime: string, endTime: string): void {
  * but with different sweepIndex values. Timestamps are interpolated
  * between consecutive volumes so the timeline spacing is realistic.
  */
-function expandScansForSails(scans: ScanFile[], sweepCount: number): ScanFile[] {
+export function expandScansForSails(scans: ScanFile[], sweepCount: number): ScanFile[] {
   if (sweepCount <= 1) return scans;
 
   const expanded: ScanFile[] = [];
@@ -102,7 +106,7 @@ async function probeSingleFile(
  * found. This handles cases where the first file is truncated or from a
  * VCP transition where SAILS wasn't yet active.
  */
-async function probeSailsSweepCount(
+export async function probeSailsSweepCount(
   scans: ScanFile[],
   siteLat: number,
   siteLon: number,
@@ -309,12 +313,13 @@ export function EventPicker() {
     // Cancel all in-flight prefetch/downloads
     getPrefetchManager().cancelAll();
 
-    // Clear all caches (revokes blob URLs, frees ArrayBuffers)
+    // Clear all caches (frees decoded frames and raw scan ArrayBuffers)
     frameCache.clear();
     rawScanCache.clear();
+    clearLocalScans();
 
-    // Terminate worker pool to free worker-side parsed radar caches (~240-360 MB)
-    // and persistent OffscreenCanvas GPU memory. Workers recreate lazily on next load.
+    // Terminate worker pool to free worker-side parsed radar caches (~240-360 MB).
+    // Workers recreate lazily on next load.
     resetWorkerPool();
 
     // Reset radar state (scan files, progress, errors)
@@ -324,6 +329,7 @@ export function EventPicker() {
     radar.setElevationIndex(0);
     radar.setError(null);
     radar.setPrefetchProgress(null);
+    useDownloadStore.getState().setFrameStates([]);
 
     // Reset timeline
     const timeline = useTimelineStore.getState();
@@ -336,12 +342,15 @@ export function EventPicker() {
     // Clear storm path
     useStormPathStore.getState().clearPath();
 
+    // Leave two-site compare and the mosaic (their scans belong to this event)
+    useCompareStore.getState().clear();
+    useMosaicStore.getState().clear();
+
     // Remove radar layer from map
     const map = (window as any).__stormReplayMap;
     if (map) {
       try {
         if (map.getLayer('radar-layer')) map.removeLayer('radar-layer');
-        if (map.getSource('radar-image')) map.removeSource('radar-image');
       } catch { /* layer may already be gone */ }
     }
   }, []);
@@ -364,6 +373,9 @@ export function EventPicker() {
     getPrefetchManager().cancelAll();
     rawScanCache.clear();
     frameCache.clear();
+    clearLocalScans();
+    useCompareStore.getState().clear();
+    useMosaicStore.getState().clear();
 
     try {
       const tz = selectedSite.tz || 'UTC';
@@ -9,6 +9,7 @@ import { useRef, useCallback } from 'react';
 import { useMap } from '../map/MapContext';
 import { useExportStore, type ExportFormat } from '../../stores/exportStore';
 import { useTimelineStore } from '../../stores/timelineStore';
+import { MAX_INTERPOLATED_FRAMES } from '../../services/nexrad/frameInterpolation';
 import { useRadarStore } from '../../stores/radarStore';
 import { exportScreenshot } from '../../services/export/screenshotExporter';
 import { exportAnimation, downloadBlob } from '../../services/export/animationExporter';
@@ -29,6 +30,7 @@ export function ExportPanel() {
   const showStormAttrs = useExportStore((s) => s.showStormAttrs);
   const showRadarLegend = useExportStore((s) => s.showRadarLegend);
   const showDistanceBearing = useExportStore((s) => s.showDistanceBearing);
+  const showRangeRings = useExportStore((s) => s.showRangeRings);
   const setFormat = useExportStore((s) => s.setFormat);
   const setFps = useExportStore((s) => s.setFps);
   const setSpeed = useExportStore((s) => s.setSpeed);
@@ -38,10 +40,13 @@ export function ExportPanel() {
   const setShowStormAttrs = useExportStore((s) => s.setShowStormAttrs);
   const setShowRadarLegend = useExportStore((s) => s.setShowRadarLegend);
   const setShowDistanceBearing = useExportStore((s) => s.setShowDistanceBearing);
+  const setShowRangeRings = useExportStore((s) => s.setShowRangeRings);
 
   const frameTimes = useTimelineStore((s) => s.frameTimes);
   const loopStart = useTimelineStore((s) => s.loopStart);
   const loopEnd = useTimelineStore((s) => s.loopEnd);
+  const interpolationFrames = useTimelineStore((s) => s.interpolationFrames);
+  const setInterpolationFrames = useTimelineStore((s) => s.setInterpolationFrames);
 
   const scanFiles = useRadarStore((s) => s.scanFiles);
 
@@ -99,6 +104,7 @@ export function ExportPanel() {
         speed,
         startIndex,
         endIndex,
+        interpolationFrames,
         onProgress: (p, msg) => setProgress(p, msg),
         signal: controller.signal,
       });
@@ -121,7 +127,7 @@ export function ExportPanel() {
       abortRef.current = null;
       setTimeout(() => setExporting(false), 2000);
     }
-  }, [map, format, fps, speed, startIndex, endIndex, hasFrames, setExporting, setProgress]);
+  }, [map, format, fps, speed, startIndex, endIndex, interpolationFrames, hasFrames, setExporting, setProgress]);
 
   const handleCancel = useCallback(() => {
     abortRef.current?.abort();
@@ -193,6 +199,15 @@ export function ExportPanel() {
             />
             <span>Distance to Storm</span>
           </label>
+          <label className="export-row export-checkbox">
+            <input
+              type="checkbox"
+              checked={showRangeRings}
+              onChange={(e) => setShowRangeRings(e.target.checked)}
+              disabled={exporting}
+            />
+            <span>Range Rings</span>
+          </label>
         </div>
 
         {/* Animation-specific controls */}
@@ -230,6 +245,23 @@ export function ExportPanel() {
               </select>
             </div>
 
+            {/* In-between frames (shared with playback) */}
+            <div className="export-row">
+              <label className="export-label">In-between frames</label>
+              <select
+                className="export-select"
+                value={interpolationFrames}
+                onChange={(e) => setInterpolationFrames(Number(e.target.value))}
+                disabled={exporting}
+                title="In-between frames synthesized from storm motion between scans"
+              >
+                <option value={0}>Off (scans only)</option>
+                {Array.from({ length: MAX_INTERPOLATED_FRAMES }, (_, i) => i + 1).map((n) => (
+                  <option key={n} value={n}>{n} in-between</option>
+                ))}
+              </select>
+            </div>
+
             {/* Loop range toggle */}
             {hasLoopRange && (
               <label className="export-row export-checkbox">
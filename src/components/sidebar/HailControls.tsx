@@ -0,0 +1,154 @@
+/**
+ * Hail product controls.
+ *
+ * Toggles the hail cell marker layer and edits the environmental freezing
+ * levels (0 °C and −20 °C heights, km MSL) used by SHI / POSH / MESH.
+ * The levels are part of the hail products' cache keys and of the per-scan
+ * hail summaries behind the markers, so they're committed on blur/Enter
+ * like the rotation thresholds.
+ * "From sounding" fills them from the nearest upper-air sounding at or
+ * before the displayed scan.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRadarStore, getSiteForFrame, type FreezingLevels } from '../../stores/radarStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { isHailProduct } from '../../services/nexrad/volumeProducts';
+import { fetchNearestFreezingLevels } from '../../services/overlays/soundingService';
+
+type LevelField = keyof FreezingLevels;
+
+const FIELDS: { key: LevelField; label: string; title: string }[] = [
+  { key: 'zeroCKm', label: '0 °C', title: 'Height of the 0 °C (melting) level' },
+  { key: 'minus20CKm', label: '−20 °C', title: 'Height of the −20 °C level' },
+];
+
+function toDraft(l: FreezingLevels): Record<LevelField, string> {
+  return {
+    zeroCKm: String(l.zeroCKm),
+    minus20CKm: String(l.minus20CKm),
+  };
+}
+
+export function HailControls() {
+  const product = useRadarStore((s) => s.product);
+  const levels = useRadarStore((s) => s.freezingLevels);
+  const setLevels = useRadarStore((s) => s.setFreezingLevels);
+  const showMarkers = useRadarStore((s) => s.showHailMarkers);
+  const setShowMarkers = useRadarStore((s) => s.setShowHailMarkers);
+  const scanFiles = useRadarStore((s) => s.scanFiles);
+
+  // Local draft values — committed to the store on blur/Enter
+  const [draft, setDraft] = useState(() => toDraft(levels));
+  const [fetching, setFetching] = useState(false);
+  const [status, setStatus] = useState<{ text: string; error: boolean } | null>(null);
+
+  useEffect(() => {
+    setDraft(toDraft(levels));
+  }, [levels]);
+
+  const commit = () => {
+    const next = { ...levels };
+    for (const { key } of FIELDS) {
+      const v = parseFloat(draft[key]);
+      if (!isFinite(v) || v < 0 || v > 20) {
+        // Invalid input — revert to the stored values
+        setDraft(toDraft(levels));
+        return;
+      }
+      next[key] = v;
+    }
+    if (next.minus20CKm <= next.zeroCKm) {
+      // −20 °C must sit above the melting level
+      setDraft(toDraft(levels));
+      return;
+    }
+    if (FIELDS.some(({ key }) => next[key] !== levels[key])) {
+      setLevels(next);
+      setStatus(null);
+    }
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+  };
+
+  const fromSounding = async () => {
+    const { selectedSite } = useRadarStore.getState();
+    const index = useTimelineStore.getState().currentIndex;
+    const site = getSiteForFrame(index, scanFiles, selectedSite);
+    const scan = scanFiles[index];
+    if (!site || !scan) return;
+
+    setFetching(true);
+    setStatus(null);
+    try {
+      const result = await fetchNearestFreezingLevels(site.lat, site.lon, scan.timestamp);
+      if (!result) {
+        setStatus({ text: 'No usable sounding nearby', error: true });
+        return;
+      }
+      setLevels({ zeroCKm: result.zeroCKm, minus20CKm: result.minus20CKm });
+      const when = new Date(result.validTime);
+      const hour = String(when.getUTCHours()).padStart(2, '0');
+      setStatus({
+        text: `${result.stationId} ${hour}Z ${when.getUTCMonth() + 1}/${when.getUTCDate()} (${Math.round(result.distanceKm)} km)`,
+        error: false,
+      });
+    } catch (err) {
+      console.warn('[Hail] Sounding fetch failed:', err);
+      setStatus({ text: 'Sounding fetch failed', error: true });
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const showLevels = showMarkers || isHailProduct(product);
+
+  return (
+    <div className="layer-toggle-group">
+      <label className="layer-toggle-row">
+        <input
+          type="checkbox"
+          checked={showMarkers}
+          onChange={(e) => setShowMarkers(e.target.checked)}
+        />
+        <span className="layer-toggle-label">Hail markers</span>
+      </label>
+      {showLevels && (
+        <div className="storm-motion-controls">
+          {FIELDS.map(({ key, label, title }) => (
+            <div key={key} className="storm-motion-row">
+              <span className="hail-field-label">{label}</span>
+              <input
+                className="storm-motion-input"
+                type="number"
+                min={0}
+                step={0.1}
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                onBlur={commit}
+                onKeyDown={onKeyDown}
+                title={title}
+              />
+              <span className="storm-motion-unit">km MSL</span>
+            </div>
+          ))}
+          <div className="storm-path-btn-row">
+            <button
+              className="storm-path-btn"
+              onClick={fromSounding}
+              disabled={fetching || scanFiles.length === 0}
+              title="Use the nearest 00Z/12Z upper-air sounding at or before the displayed scan"
+            >
+              {fetching ? 'Fetching…' : 'From sounding'}
+            </button>
+          </div>
+          {status && (
+            <span className={`hail-sounding-status${status.error ? ' error' : ''}`}>{status.text}</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,9 @@ import { useOverlayStore } from '../../stores/overlayStore';
 import { useRadarStore } from '../../stores/radarStore';
 import { useTrackStore } from '../../stores/trackStore';
 import { useStormPathStore } from '../../stores/stormPathStore';
+import { useTdsStore } from '../../stores/tdsStore';
 import { CollapsibleSection } from './CollapsibleSection';
+import { RangeRingControls } from './RangeRingControls';
 
 function OpacitySlider({ value, onChange }: { value: number; onChange: (v: number) => void }) {
   return (
@@ -30,6 +32,11 @@ export function LayerToggles() {
   const setRadarOpacity = useRadarStore((s) => s.setRadarOpacity);
   const showStormAttributes = useRadarStore((s) => s.showStormAttributes);
   const setShowStormAttributes = useRadarStore((s) => s.setShowStormAttributes);
+  const showGateReadout = useRadarStore((s) => s.showGateReadout);
+  const setShowGateReadout = useRadarStore((s) => s.setShowGateReadout);
+  const showTds = useTdsStore((s) => s.showTds);
+  const setShowTds = useTdsStore((s) => s.setShowTds);
+  const tdsCount = useTdsStore((s) => Object.keys(s.detections).length);
 
   // ── Outlooks ──
   const outlooksVisible = useOverlayStore((s) => s.outlooksVisible);
@@ -123,7 +130,7 @@ export function LayerToggles() {
     <CollapsibleSection
       title="Layers"
       storageKey="layers"
-      helpText="Toggle NWS overlays on or off and adjust their opacity. Outlooks show the SPC convective outlook for the event day. Watches, Warnings, and Mesoscale Discussions (MDs) are fetched for the event time range. Enable Time-synced to show only overlays active at the current frame time. Reports show Local Storm Reports (LSRs). Surface Obs display ASOS/AWOS station data near the radar site."
+      helpText="Toggle NWS overlays on or off and adjust their opacity. Cursor readout shows the radar value, range and beam height under the mouse. Debris signatures mark tornado debris (high REF, low CC, near-zero ZDR at a rotation couplet) with the time each was detected. Range rings are centered on the radar of the current frame, with optional azimuth spokes and beam-height contours showing how high the displayed tilt's beam is at each range; they're included in exports. Outlooks show the SPC convective outlook for the event day. Watches, Warnings, and Mesoscale Discussions (MDs) are fetched for the event time range. Enable Time-synced to show only overlays active at the current frame time. Reports show Local Storm Reports (LSRs). Surface Obs display ASOS/AWOS station data near the radar site."
     >
       <div className="layer-toggles">
 
@@ -141,8 +148,30 @@ export function LayerToggles() {
             />
             <span className="layer-toggle-label">Storm attributes</span>
           </label>
+          <label className="layer-toggle-row sub-toggle">
+            <input
+              type="checkbox"
+              checked={showGateReadout}
+              onChange={(e) => setShowGateReadout(e.target.checked)}
+            />
+            <span className="layer-toggle-label">Cursor readout</span>
+          </label>
+          <label className="layer-toggle-row sub-toggle">
+            <input
+              type="checkbox"
+              checked={showTds}
+              onChange={(e) => setShowTds(e.target.checked)}
+            />
+            <span className="layer-toggle-label">
+              Debris signatures (TDS)
+              {tdsCount > 0 && <span className="layer-badge count">{tdsCount}</span>}
+            </span>
+          </label>
         </div>
 
+        {/* ── Range Rings ── */}
+        <RangeRingControls />
+
         {/* ── Outlooks ── */}
         <div className="layer-toggle-group">
           <div className="layer-toggle-header">
@@ -0,0 +1,263 @@
+/**
+ * Local NEXRAD Level 2 file import.
+ *
+ * Loads archive volumes from disk instead of the S3 bucket:
+ * 1. **Files / drag-and-drop** (all environments): pick or drop volume
+ *    files, or drop a whole folder.
+ * 2. **Folder** (browser directory picker, or the native dialog + IPC in
+ *    Electron): every volume in the folder.
+ *
+ * Files are identified and registered by localFiles.ts, then loaded like an
+ * S3 event — SAILS probe and sweep expansion per site, scans tagged with
+ * their site — so playback, prefetch and every product work unchanged.
+ * Volumes from several radars are kept on one timeline like a handoff.
+ */
+
+import { useRef, useState, useCallback } from 'react';
+import { useRadarStore, type NexradSite } from '../../stores/radarStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useCompareStore } from '../../stores/compareStore';
+import { useMosaicStore } from '../../stores/mosaicStore';
+import { rawScanCache, frameCache } from '../../services/nexrad/frameCache';
+import { getPrefetchManager } from '../../services/nexrad/prefetchManager';
+import {
+  clearLocalScans,
+  indexLocalScans,
+  isLocalScanKey,
+  type LocalScanEntry,
+  type IndexedLocalScan,
+} from '../../services/nexrad/localFiles';
+import { getPublicAssetUrl } from '../../utils/baseUrl';
+import { probeSailsSweepCount, expandScansForSails } from './EventPicker';
+import type { ScanFile } from '../../services/nexrad/types';
+
+const isElectron = !!window.electronAPI?.isElectron;
+
+let stationsCache: NexradSite[] | null = null;
+
+async function loadStations(): Promise<NexradSite[]> {
+  if (stationsCache) return stationsCache;
+  const res = await fetch(getPublicAssetUrl('nexrad-stations.geojson'));
+  const geojson = await res.json();
+  stationsCache = geojson.features.map((f: any) => ({
+    id: f.properties.id,
+    name: f.properties.name,
+    lat: f.geometry.coordinates[1],
+    lon: f.geometry.coordinates[0],
+    elevation: f.properties.elevation ?? 0,
+    tz: f.properties.tz || 'UTC',
+  }));
+  return stationsCache!;
+}
+
+/**
+ * Replace the current event with local Level 2 files. Returns a short
+ * summary for the import panel; errors go to the radar store like an S3
+ * load's.
+ */
+export async function loadLocalScans(entries: LocalScanEntry[]): Promise<string | null> {
+  const store = useRadarStore.getState();
+  const timeline = useTimelineStore.getState();
+
+  store.setLoading(true);
+  store.setError(null);
+  store.setCurrentFrameStats(null);
+
+  getPrefetchManager().cancelAll();
+  rawScanCache.clear();
+  frameCache.clear();
+  clearLocalScans();
+  useCompareStore.getState().clear();
+  useMosaicStore.getState().clear();
+
+  try {
+    const { scans, skipped } = await indexLocalScans(entries);
+    if (scans.length === 0) {
+      store.setError('No NEXRAD Level 2 volumes found in the selected files');
+      return null;
+    }
+
+    // Group by radar; volumes from sites missing in the station list can't be placed
+    const stations = await loadStations();
+    const bySite = new Map<string, IndexedLocalScan[]>();
+    for (const s of scans) {
+      const list = bySite.get(s.siteId) ?? [];
+      list.push(s);
+      bySite.set(s.siteId, list);
+    }
+    const unknown = [...bySite.keys()].filter((id) => !stations.some((st) => st.id === id));
+    for (const id of unknown) bySite.delete(id);
+    if (bySite.size === 0) {
+      store.setError(`Unknown radar site${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`);
+      return null;
+    }
+
+    // SAILS probe + expansion per site, keeping the site tags through expansion
+    const groups = [...bySite.entries()].sort((a, b) => b[1].length - a[1].length);
+    const expanded = await Promise.all(
+      groups.map(async ([siteId, group]) => {
+        const site = stations.find((st) => st.id === siteId)!;
+        const siteScans: ScanFile[] = group.map((g) => ({
+          ...g.scan,
+          siteId,
+          siteLat: site.lat,
+          siteLon: site.lon,
+        }));
+        const { sweepCount } = await probeSailsSweepCount(siteScans, site.lat, site.lon);
+        return expandScansForSails(siteScans, sweepCount).map((s) => ({
+          ...s,
+          siteId,
+          siteLat: site.lat,
+          siteLon: site.lon,
+        }));
+      }),
+    );
+
+    const allScans = expanded.flat().sort((a, b) => a.timestamp - b.timestamp);
+    const mainSite = stations.find((st) => st.id === groups[0][0])!;
+
+    store.setSelectedSite(mainSite);
+    store.setSegments([]);
+    timeline.setFrameTimes(allScans.map((s) => s.timestamp));
+    store.setScanFiles(allScans);
+    store.setAvailableElevations([]);
+    store.setElevationIndex(0);
+
+    const map = (window as any).__stormReplayMap;
+    if (map) {
+      map.flyTo({ center: [mainSite.lon, mainSite.lat], zoom: 8, duration: 1000 });
+    }
+
+    const volumes = groups.reduce((n, [, group]) => n + group.length, 0);
+    const notes = [
+      skipped.length > 0 ? `${skipped.length} skipped` : '',
+      unknown.length > 0 ? `unknown site ${unknown.join(', ')}` : '',
+    ].filter(Boolean);
+    return `${volumes} local volume${volumes === 1 ? '' : 's'} from ${groups.map(([id]) => id).join(', ')}` +
+      (notes.length > 0 ? ` (${notes.join('; ')})` : '');
+  } catch (err) {
+    store.setError(err instanceof Error ? err.message : 'Failed to load local files');
+    return null;
+  } finally {
+    store.setLoading(false);
+  }
+}
+
+/** Collect files from a drop, descending into dropped folders. */
+async function entriesFromDrop(dataTransfer: DataTransfer): Promise<LocalScanEntry[]> {
+  const roots = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((e): e is FileSystemEntry => !!e);
+  if (roots.length === 0) return entriesFromFiles(dataTransfer.files);
+
+  const files: File[] = [];
+  const walk = async (entry: FileSystemEntry): Promise<void> => {
+    if (entry.isFile) {
+      files.push(await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)));
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns batches until an empty one
+      for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+          reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        for (const child of batch) await walk(child);
+      }
+    }
+  };
+  for (const root of roots) await walk(root);
+  return entriesFromFiles(files);
+}
+
+function entriesFromFiles(files: FileList | File[]): LocalScanEntry[] {
+  return Array.from(files)
+    .filter((f) => f.size > 0 && !f.name.startsWith('.'))
+    .map((file) => ({ name: file.name, size: file.size, source: { kind: 'file', file } }));
+}
+
+export function LocalScanImport() {
+  const loading = useRadarStore((s) => s.loading);
+  // Summary only while the local event is the one loaded
+  const localLoaded = useRadarStore((s) => s.scanFiles.length > 0 && isLocalScanKey(s.scanFiles[0].key));
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [summary, setSummary] = useState<string | null>(null);
+
+  const load = useCallback(async (entries: LocalScanEntry[]) => {
+    setSummary(null);
+    if (entries.length === 0) {
+      useRadarStore.getState().setError('No files selected');
+      return;
+    }
+    setSummary(await loadLocalScans(entries));
+  }, []);
+
+  /** Native folder dialog + directory listing over IPC (Electron) */
+  const handleElectronFolder = useCallback(async () => {
+    if (!window.electronAPI) return;
+    const folder = await window.electronAPI.selectRadarFolder();
+    if (!folder) return;
+    const files = await window.electronAPI.listRadarFiles(folder);
+    load(files.map((f) => ({ name: f.name, size: f.size, source: { kind: 'path', path: f.path } })));
+  }, [load]);
+
+  const onInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files) load(entriesFromFiles(files));
+    // Reset so re-selecting the same files works
+    e.target.value = '';
+  };
+
+  const onDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    load(await entriesFromDrop(e.dataTransfer));
+  };
+
+  return (
+    <div className="gpx-import-section">
+      <div
+        className={`gpx-drop-zone${dragOver ? ' drag-over' : ''}`}
+        onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={onDrop}
+      >
+        <button
+          className="gpx-import-btn"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={loading}
+          title="Open NEXRAD Level 2 archive files (gzipped or raw)"
+        >
+          Open Level 2 Files
+        </button>
+        <button
+          className="gpx-import-btn"
+          onClick={() => (isElectron ? handleElectronFolder() : folderInputRef.current?.click())}
+          disabled={loading}
+          title="Open every Level 2 volume in a folder"
+        >
+          Folder
+        </button>
+        <span className="gpx-drop-hint">or drop here</span>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          onChange={onInputChange}
+          style={{ display: 'none' }}
+        />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          {...{ webkitdirectory: '' }}
+          onChange={onInputChange}
+          style={{ display: 'none' }}
+        />
+      </div>
+      {summary && localLoaded && <div className="site-info">{summary}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * Multi-radar mosaic controls.
+ *
+ * Picks the extra NEXRAD sites merged with the main site, loads their
+ * scans over the loaded event's time range, and chooses the compositing
+ * method. The mosaic itself is built per frame by MosaicLayer from each
+ * site's lowest sweep.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useRadarStore, type NexradSite } from '../../stores/radarStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useMosaicStore, type MosaicMethod } from '../../stores/mosaicStore';
+import { listScansForRange } from '../../services/nexrad/s3Client';
+import { MAX_ALIGN_OFFSET_MS } from '../../services/nexrad/scanAlignment';
+import { getPublicAssetUrl } from '../../utils/baseUrl';
+
+interface StationFeature {
+  properties: { id: string; name: string; elevation: number; tz?: string };
+  geometry: { coordinates: [number, number] };
+}
+
+let stationsCache: StationFeature[] | null = null;
+
+/** Extra sites beyond the main one (each adds a decode per frame) */
+const MAX_MOSAIC_SITES = 4;
+
+const METHOD_LABELS: Record<MosaicMethod, string> = {
+  max: 'Max value',
+  nearest: 'Nearest radar',
+};
+
+/**
+ * Load a mosaic site's scans over the main event's time range (padded by
+ * the alignment tolerance) and tag them with the site, like a handoff
+ * segment. No SAILS expansion — the mosaic uses each volume's lowest sweep.
+ */
+export async function loadMosaicSite(site: NexradSite): Promise<void> {
+  const mosaic = useMosaicStore.getState();
+  const { frameTimes } = useTimelineStore.getState();
+  if (frameTimes.length === 0) return;
+
+  mosaic.setLoadingSite(site.id);
+  mosaic.setError(null);
+
+  try {
+    const scans = await listScansForRange(
+      site.id,
+      new Date(frameTimes[0] - MAX_ALIGN_OFFSET_MS),
+      new Date(frameTimes[frameTimes.length - 1] + MAX_ALIGN_OFFSET_MS),
+    );
+    if (scans.length === 0) {
+      mosaic.setError(`No scans found for ${site.id} in this time range`);
+      return;
+    }
+
+    const tagged = scans
+      .map((s) => ({ ...s, siteId: site.id, siteLat: site.lat, siteLon: site.lon }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+    useMosaicStore.getState().addSite(site, tagged);
+  } catch (err) {
+    mosaic.setError(err instanceof Error ? err.message : `Failed to load ${site.id}`);
+  } finally {
+    useMosaicStore.getState().setLoadingSite(null);
+  }
+}
+
+export function MosaicControls() {
+  const scanFiles = useRadarStore((s) => s.scanFiles);
+  const selectedSite = useRadarStore((s) => s.selectedSite);
+  const product = useRadarStore((s) => s.product);
+  const sites = useMosaicStore((s) => s.sites);
+  const method = useMosaicStore((s) => s.method);
+  const showMosaic = useMosaicStore((s) => s.showMosaic);
+  const loadingSite = useMosaicStore((s) => s.loadingSite);
+  const error = useMosaicStore((s) => s.error);
+  const setMethod = useMosaicStore((s) => s.setMethod);
+  const setShowMosaic = useMosaicStore((s) => s.setShowMosaic);
+  const removeSite = useMosaicStore((s) => s.removeSite);
+
+  const [adding, setAdding] = useState(false);
+  const [siteQuery, setSiteQuery] = useState('');
+  const [stations, setStations] = useState<StationFeature[]>([]);
+  const [showResults, setShowResults] = useState(false);
+  const searchRef = useRef<HTMLDivElement>(null);
+
+  // Load stations once
+  useEffect(() => {
+    if (stationsCache) {
+      setStations(stationsCache);
+      return;
+    }
+    fetch(getPublicAssetUrl('nexrad-stations.geojson'))
+      .then((r) => r.json())
+      .then((geojson) => {
+        stationsCache = geojson.features;
+        setStations(geojson.features);
+      })
+      .catch(() => {});
+  }, []);
+
+  // Close dropdown on outside click
+  useEffect(() => {
+    if (!adding) return;
+    const handler = (e: MouseEvent) => {
+      if (searchRef.current && !searchRef.current.contains(e.target as Node)) {
+        setShowResults(false);
+      }
+    };
+    document.addEventListener('mousedown', handler);
+    return () => document.removeEventListener('mousedown', handler);
+  }, [adding]);
+
+  const filteredStations = siteQuery.length > 0
+    ? stations
+        .filter((s) => {
+          const q = siteQuery.toUpperCase();
+          return s.properties.id.includes(q) || s.properties.name.toUpperCase().includes(q);
+        })
+        // Skip the main site and sites already in the mosaic
+        .filter((s) => s.properties.id !== selectedSite?.id && !sites.some((m) => m.site.id === s.properties.id))
+        .slice(0, 8)
+    : [];
+
+  const handleSelect = useCallback((station: StationFeature) => {
+    const newSite: NexradSite = {
+      id: station.properties.id,
+      name: station.properties.name,
+      lat: station.geometry.coordinates[1],
+      lon: station.geometry.coordinates[0],
+      elevation: station.properties.elevation,
+      tz: station.properties.tz || 'UTC',
+    };
+    setAdding(false);
+    setSiteQuery('');
+    setShowResults(false);
+    loadMosaicSite(newSite);
+  }, []);
+
+  // Only show when scans are loaded
+  if (scanFiles.length === 0) return null;
+
+  const velocity = product === 'VEL' || product === 'SRV';
+
+  return (
+    <div className="segment-editor">
+      {sites.length > 0 && (
+        <div className="segment-list">
+          {selectedSite && (
+            <div className="segment-row">
+              <div className="segment-info">
+                <span className="segment-site-id">{selectedSite.id}</span>
+                <span className="segment-site-name">{selectedSite.name} (main)</span>
+              </div>
+            </div>
+          )}
+          {sites.map(({ site, scans }) => (
+            <div key={site.id} className="segment-row">
+              <div className="segment-info">
+                <span className="segment-site-id">{site.id}</span>
+                <span className="segment-site-name">{site.name}</span>
+                <span className="segment-site-name">{scans.length} scans</span>
+              </div>
+              <button
+                className="segment-remove-btn"
+                onClick={() => removeSite(site.id)}
+                title={`Remove ${site.id} from the mosaic`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {sites.length > 0 && (
+        <>
+          <div className="smoothing-row">
+            <label className="smoothing-label">Merge</label>
+            <select
+              className="smoothing-select"
+              value={method}
+              onChange={(e) => setMethod(e.target.value as MosaicMethod)}
+              title={velocity ? 'Velocity mosaics always use the nearest radar' : 'How overlapping radars are combined'}
+            >
+              {(Object.keys(METHOD_LABELS) as MosaicMethod[]).map((m) => (
+                <option key={m} value={m}>{METHOD_LABELS[m]}</option>
+              ))}
+            </select>
+          </div>
+          <label className="layer-toggle-row">
+            <input
+              type="checkbox"
+              checked={showMosaic}
+              onChange={(e) => setShowMosaic(e.target.checked)}
+            />
+            <span className="layer-toggle-label">Show mosaic</span>
+          </label>
+        </>
+      )}
+
+      {error && <div className="error-message">{error}</div>}
+
+      {adding ? (
+        <div className="segment-add-form" ref={searchRef}>
+          <input
+            type="text"
+            className="segment-site-search"
+            placeholder="Search site ID or city..."
+            value={siteQuery}
+            onChange={(e) => {
+              setSiteQuery(e.target.value);
+              setShowResults(true);
+            }}
+            onFocus={() => setShowResults(true)}
+            autoFocus
+          />
+          {showResults && filteredStations.length > 0 && (
+            <div className="segment-search-results">
+              {filteredStations.map((s) => (
+                <button
+                  key={s.properties.id}
+                  className="segment-search-result"
+                  onClick={() => handleSelect(s)}
+                >
+                  <strong>{s.properties.id}</strong>{' '}
+                  <span>{s.properties.name}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          <button
+            className="segment-cancel-btn"
+            onClick={() => { setAdding(false); setSiteQuery(''); }}
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <button
+          className="add-handoff-btn"
+          onClick={() => setAdding(true)}
+          disabled={!!loadingSite || sites.length >= MAX_MOSAIC_SITES}
+          title={sites.length >= MAX_MOSAIC_SITES
+            ? `Up to ${MAX_MOSAIC_SITES} extra sites`
+            : 'Merge another radar site into one mosaic layer'}
+        >
+          {loadingSite ? `Loading ${loadingSite}…` : '▦ Add Mosaic Site'}
+        </button>
+      )}
+    </div>
+  );
+}
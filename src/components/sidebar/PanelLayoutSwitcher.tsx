@@ -0,0 +1,38 @@
+import { useLayoutStore, type PanelLayout } from '../../stores/layoutStore';
+import { CollapsibleSection } from './CollapsibleSection';
+
+const LAYOUTS: { id: PanelLayout; label: string; title: string }[] = [
+  { id: 1, label: '1 panel', title: 'Single map' },
+  { id: 2, label: '2 panels', title: 'Main map + one product panel, side by side' },
+  { id: 4, label: '4 panels', title: 'Main map + three product panels, 2×2' },
+];
+
+/**
+ * Map layout switcher: single map, or 2 / 4 synchronized panels.
+ */
+export function PanelLayoutSwitcher() {
+  const layout = useLayoutStore((s) => s.layout);
+  const setLayout = useLayoutStore((s) => s.setLayout);
+
+  return (
+    <CollapsibleSection
+      title="Layout"
+      storageKey="layout"
+      defaultOpen={false}
+      helpText="Show 2 or 4 map panels side by side. The first panel is the main map with every overlay and follows the Radar controls; the others each pick their own product and elevation from the panel header. All panels share the time, pan/zoom and palette settings, and hovering one panel draws a crosshair at the same spot in the others."
+    >
+      <div className="product-selector">
+        {LAYOUTS.map((l) => (
+          <button
+            key={l.id}
+            className={layout === l.id ? 'active' : ''}
+            onClick={() => setLayout(l.id)}
+            title={l.title}
+          >
+            {l.label}
+          </button>
+        ))}
+      </div>
+    </CollapsibleSection>
+  );
+}
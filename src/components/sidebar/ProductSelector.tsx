@@ -1,13 +1,27 @@
 import { useRadarStore, type RadarProduct } from '../../stores/radarStore';
 
-const PRODUCTS: { id: RadarProduct; label: string; title: string }[] = [
+export const PRODUCTS: { id: RadarProduct; label: string; title: string }[] = [
   { id: 'REF', label: 'REF', title: 'Reflectivity (R)' },
   { id: 'VEL', label: 'VEL', title: 'Velocity (V)' },
+  { id: 'SRV', label: 'SRV', title: 'Storm-Relative Velocity (S)' },
+  { id: 'ZDR', label: 'ZDR', title: 'Differential Reflectivity (Z)' },
+  { id: 'CC', label: 'CC', title: 'Correlation Coefficient (C)' },
+  { id: 'KDP', label: 'KDP', title: 'Specific Differential Phase (K)' },
+  { id: 'SW', label: 'SW', title: 'Spectrum Width (W)' },
+  { id: 'PHI', label: 'PHI', title: 'Differential Phase (P)' },
+  { id: 'CREF', label: 'CREF', title: 'Composite Reflectivity (max in column)' },
+  { id: 'ET18', label: 'ET18', title: '18 dBZ Echo Tops (kft)' },
+  { id: 'ET30', label: 'ET30', title: '30 dBZ Echo Tops (kft)' },
+  { id: 'VIL', label: 'VIL', title: 'Vertically Integrated Liquid (kg/m²)' },
+  { id: 'SHI', label: 'SHI', title: 'Severe Hail Index (J/m/s)' },
+  { id: 'POSH', label: 'POSH', title: 'Probability of Severe Hail (%)' },
+  { id: 'MESH', label: 'MESH', title: 'Maximum Estimated Size of Hail (in)' },
 ];
 
 /**
- * Product selector buttons: REF, VEL (Phase 1).
- * ZDR, CC, KDP will be added in Phase 10.
+ * Product selector buttons: REF, VEL, storm-relative velocity (SRV), the dual-pol moments ZDR, CC, KDP,
+ * spectrum width (SW), differential phase (PHI), and the volume-derived
+ * composite reflectivity, echo tops, VIL and the SHI / POSH / MESH hail products.
  *
  * Renders inline content (no section wrapper) — grouped under
  * the "Radar" collapsible section in Sidebar.tsx.
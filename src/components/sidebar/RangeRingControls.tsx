@@ -0,0 +1,85 @@
+/**
+ * Range ring overlay controls — ring spacing and count, azimuth spoke
+ * spacing and the beam-height contour toggle (RangeRingLayer).
+ */
+
+import { useRangeRingStore } from '../../stores/rangeRingStore';
+
+const RING_INTERVALS_MI = [10, 20, 25, 50];
+const RING_COUNTS = [2, 4, 6, 8, 10];
+const SPOKE_INTERVALS_DEG = [0, 15, 30, 45, 90];
+
+export function RangeRingControls() {
+  const show = useRangeRingStore((s) => s.showRangeRings);
+  const ringIntervalMi = useRangeRingStore((s) => s.ringIntervalMi);
+  const ringCount = useRangeRingStore((s) => s.ringCount);
+  const spokeIntervalDeg = useRangeRingStore((s) => s.spokeIntervalDeg);
+  const showBeamHeight = useRangeRingStore((s) => s.showBeamHeight);
+  const setShow = useRangeRingStore((s) => s.setShowRangeRings);
+  const setRingIntervalMi = useRangeRingStore((s) => s.setRingIntervalMi);
+  const setRingCount = useRangeRingStore((s) => s.setRingCount);
+  const setSpokeIntervalDeg = useRangeRingStore((s) => s.setSpokeIntervalDeg);
+  const setShowBeamHeight = useRangeRingStore((s) => s.setShowBeamHeight);
+
+  return (
+    <div className="layer-toggle-group">
+      <label className="layer-toggle-row">
+        <input
+          type="checkbox"
+          checked={show}
+          onChange={(e) => setShow(e.target.checked)}
+        />
+        <span className="layer-toggle-label">Range rings</span>
+      </label>
+      {show && (
+        <>
+          <div className="smoothing-row sub-toggle">
+            <label className="smoothing-label">Every</label>
+            <select
+              className="smoothing-select"
+              value={ringIntervalMi}
+              onChange={(e) => setRingIntervalMi(Number(e.target.value))}
+            >
+              {RING_INTERVALS_MI.map((mi) => (
+                <option key={mi} value={mi}>{mi} mi</option>
+              ))}
+            </select>
+            <select
+              className="smoothing-select"
+              value={ringCount}
+              onChange={(e) => setRingCount(Number(e.target.value))}
+              title="Number of rings"
+            >
+              {RING_COUNTS.map((n) => (
+                <option key={n} value={n}>{n} rings</option>
+              ))}
+            </select>
+          </div>
+          <div className="smoothing-row sub-toggle">
+            <label className="smoothing-label">Spokes</label>
+            <select
+              className="smoothing-select"
+              value={spokeIntervalDeg}
+              onChange={(e) => setSpokeIntervalDeg(Number(e.target.value))}
+            >
+              {SPOKE_INTERVALS_DEG.map((deg) => (
+                <option key={deg} value={deg}>{deg === 0 ? 'Off' : `Every ${deg}°`}</option>
+              ))}
+            </select>
+          </div>
+          <label
+            className="layer-toggle-row sub-toggle"
+            title="Height of the beam centerline on the displayed tilt (kft above the radar)"
+          >
+            <input
+              type="checkbox"
+              checked={showBeamHeight}
+              onChange={(e) => setShowBeamHeight(e.target.checked)}
+            />
+            <span className="layer-toggle-label">Beam height contours</span>
+          </label>
+        </>
+      )}
+    </div>
+  );
+}
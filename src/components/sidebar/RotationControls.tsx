@@ -0,0 +1,95 @@
+/**
+ * Rotation detection controls.
+ *
+ * Toggles the mesocyclone marker layer and edits the couplet thresholds
+ * (minimum azimuthal shear, minimum delta-V, maximum diameter). Thresholds
+ * are part of every frame's cache key, so they're committed on blur/Enter
+ * rather than per keystroke to avoid re-rendering the loop while typing.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRadarStore, type RotationThresholds } from '../../stores/radarStore';
+
+type ThresholdField = keyof RotationThresholds;
+
+const FIELDS: { key: ThresholdField; label: string; unit: string; title: string }[] = [
+  { key: 'minShear', label: 'Shear', unit: '×10⁻³/s', title: 'Minimum cyclonic azimuthal shear' },
+  { key: 'minDeltaV', label: 'ΔV', unit: 'm/s', title: 'Minimum inbound-to-outbound velocity difference' },
+  { key: 'maxDiameterKm', label: 'Diam', unit: 'km', title: 'Maximum inbound-to-outbound distance' },
+];
+
+function toDraft(t: RotationThresholds): Record<ThresholdField, string> {
+  return {
+    minShear: String(t.minShear),
+    minDeltaV: String(t.minDeltaV),
+    maxDiameterKm: String(t.maxDiameterKm),
+  };
+}
+
+export function RotationControls() {
+  const thresholds = useRadarStore((s) => s.rotationThresholds);
+  const setThresholds = useRadarStore((s) => s.setRotationThresholds);
+  const showMarkers = useRadarStore((s) => s.showRotationMarkers);
+  const setShowMarkers = useRadarStore((s) => s.setShowRotationMarkers);
+
+  // Local draft values — committed to the store on blur/Enter
+  const [draft, setDraft] = useState(() => toDraft(thresholds));
+
+  useEffect(() => {
+    setDraft(toDraft(thresholds));
+  }, [thresholds]);
+
+  const commit = () => {
+    const next = { ...thresholds };
+    for (const { key } of FIELDS) {
+      const v = parseFloat(draft[key]);
+      if (!isFinite(v) || v <= 0) {
+        // Invalid input — revert to the stored values
+        setDraft(toDraft(thresholds));
+        return;
+      }
+      next[key] = v;
+    }
+    if (FIELDS.some(({ key }) => next[key] !== thresholds[key])) {
+      setThresholds(next);
+    }
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+  };
+
+  return (
+    <div className="layer-toggle-group">
+      <label className="layer-toggle-row">
+        <input
+          type="checkbox"
+          checked={showMarkers}
+          onChange={(e) => setShowMarkers(e.target.checked)}
+        />
+        <span className="layer-toggle-label">Rotation markers</span>
+      </label>
+      {showMarkers && (
+        <div className="storm-motion-controls">
+          {FIELDS.map(({ key, label, unit, title }) => (
+            <div key={key} className="storm-motion-row">
+              <span className="rotation-field-label">{label}</span>
+              <input
+                className="storm-motion-input"
+                type="number"
+                min={0}
+                step="any"
+                value={draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: e.target.value })}
+                onBlur={commit}
+                onKeyDown={onKeyDown}
+                title={title}
+              />
+              <span className="storm-motion-unit">{unit}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
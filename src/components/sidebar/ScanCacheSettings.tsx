@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { useScanCacheStore } from '../../stores/scanCacheStore';
+import { useDownloadStore } from '../../stores/downloadStore';
+import { scanDiskCache } from '../../services/nexrad/scanDiskCache';
+import {
+  frameCache,
+  rawScanCache,
+  resolveMemoryBudget,
+  type CacheStats,
+} from '../../services/nexrad/frameCache';
+import { CollapsibleSection } from './CollapsibleSection';
+
+const GB = 1024 ** 3;
+const SIZE_LIMITS = [0.5 * GB, 1 * GB, 2 * GB, 5 * GB, 10 * GB, 20 * GB];
+/** In-memory budgets; 0 = auto from device RAM */
+const MEMORY_BUDGETS = [0, 0.25 * GB, 0.5 * GB, 1 * GB, 2 * GB, 4 * GB];
+/** Download-all bandwidth caps (Mbit/s); 0 = unlimited */
+const BANDWIDTH_LIMITS = [0, 5, 10, 25, 50, 100];
+
+/** Format bytes as a short human-readable size */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < GB) return `${(bytes / (1024 * 1024)).toFixed(0)} MB`;
+  return `${(bytes / GB).toFixed(1)} GB`;
+}
+
+/** "120 MB of 384 MB · 312 frames (48 pinned) · 93% hits, 12 evicted" */
+function formatCacheStats(stats: CacheStats, noun: string): string {
+  const lookups = stats.hits + stats.misses;
+  const parts = [
+    `${formatBytes(stats.bytes)} of ${formatBytes(stats.budgetBytes)}`,
+    `${stats.entries} ${noun}${stats.entries === 1 ? '' : 's'}` +
+      (stats.pinnedEntries > 0 ? ` (${stats.pinnedEntries} pinned)` : ''),
+  ];
+  if (lookups > 0) {
+    parts.push(`${Math.round((stats.hits / lookups) * 100)}% hits, ${stats.evictions} evicted`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Scan cache settings: the persistent on-disk cache (scanDiskCache.ts) —
+ * on/off, size cap, current usage and a clear button — and the in-memory
+ * frame/raw scan budget with live cache statistics (frameCache.ts), and the
+ * background download bandwidth cap (downloadStore.ts).
+ */
+export function ScanCacheSettings() {
+  const enabled = useScanCacheStore((s) => s.enabled);
+  const maxBytes = useScanCacheStore((s) => s.maxBytes);
+  const usedBytes = useScanCacheStore((s) => s.usedBytes);
+  const entryCount = useScanCacheStore((s) => s.entryCount);
+  const setEnabled = useScanCacheStore((s) => s.setEnabled);
+  const setMaxBytes = useScanCacheStore((s) => s.setMaxBytes);
+  const memoryBudgetBytes = useScanCacheStore((s) => s.memoryBudgetBytes);
+  const setMemoryBudgetBytes = useScanCacheStore((s) => s.setMemoryBudgetBytes);
+  const bandwidthLimitMbps = useDownloadStore((s) => s.bandwidthLimitMbps);
+  const setBandwidthLimitMbps = useDownloadStore((s) => s.setBandwidthLimitMbps);
+
+  const [available, setAvailable] = useState(true);
+  const [clearing, setClearing] = useState(false);
+  const [memoryStats, setMemoryStats] = useState(() => ({
+    frames: frameCache.stats,
+    raw: rawScanCache.stats,
+  }));
+
+  // Load the index so usage is shown before the first fetch
+  useEffect(() => {
+    scanDiskCache.init().then(setAvailable);
+  }, []);
+
+  // Memory caches change on every frame — poll rather than publish
+  useEffect(() => {
+    const id = setInterval(() => {
+      setMemoryStats({ frames: frameCache.stats, raw: rawScanCache.stats });
+    }, 1000);
+    return () => clearInterval(id);
+  }, []);
+
+  const handleClear = async () => {
+    setClearing(true);
+    await scanDiskCache.clear();
+    setClearing(false);
+  };
+
+  return (
+    <CollapsibleSection
+      title="Storage"
+      storageKey="storage"
+      defaultOpen={false}
+      helpText="Downloaded radar scans are kept on disk so events you've loaded before open without downloading again, even after restarting. The oldest-used scans are removed once the cache reaches its size limit. Clear Cache deletes every stored scan. Memory sets how much RAM decoded frames and downloaded scans may use while the app is open (Auto picks a size from your device's memory); frames in the current loop range are kept ahead of everything else so long loops play without re-rendering. Download limit caps how fast the whole event is cached in the background after loading (frames you're watching are never slowed); frames that keep failing are marked red on the timeline, and reloading the event resumes from the scans already on disk."
+    >
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        {!available && (
+          <div className="error-message">Persistent storage isn't available here</div>
+        )}
+        <label className="layer-toggle-row">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+            disabled={!available}
+          />
+          <span className="layer-toggle-label">Keep downloaded scans</span>
+        </label>
+        <div className="smoothing-row">
+          <label className="smoothing-label">Limit</label>
+          <select
+            className="smoothing-select"
+            value={maxBytes}
+            onChange={(e) => setMaxBytes(Number(e.target.value))}
+            disabled={!available}
+          >
+            {SIZE_LIMITS.map((bytes) => (
+              <option key={bytes} value={bytes}>{formatBytes(bytes)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="site-info">
+          {formatBytes(usedBytes)} of {formatBytes(maxBytes)} · {entryCount} scan{entryCount === 1 ? '' : 's'}
+        </div>
+        <button
+          className="clear-all-btn"
+          onClick={handleClear}
+          disabled={!available || clearing || entryCount === 0}
+        >
+          {clearing ? 'Clearing…' : 'Clear Cache'}
+        </button>
+        <div className="smoothing-row">
+          <label className="smoothing-label">Memory</label>
+          <select
+            className="smoothing-select"
+            value={memoryBudgetBytes}
+            onChange={(e) => setMemoryBudgetBytes(Number(e.target.value))}
+          >
+            {MEMORY_BUDGETS.map((bytes) => (
+              <option key={bytes} value={bytes}>
+                {bytes === 0 ? `Auto (${formatBytes(resolveMemoryBudget(0))})` : formatBytes(bytes)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="site-info">Frames: {formatCacheStats(memoryStats.frames, 'frame')}</div>
+        <div className="site-info">Scans: {formatCacheStats(memoryStats.raw, 'scan')}</div>
+        <div className="smoothing-row">
+          <label className="smoothing-label">Download limit</label>
+          <select
+            className="smoothing-select"
+            value={bandwidthLimitMbps}
+            onChange={(e) => setBandwidthLimitMbps(Number(e.target.value))}
+          >
+            {BANDWIDTH_LIMITS.map((mbps) => (
+              <option key={mbps} value={mbps}>{mbps === 0 ? 'Unlimited' : `${mbps} Mbit/s`}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </CollapsibleSection>
+  );
+}
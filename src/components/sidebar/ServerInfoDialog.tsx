@@ -1,15 +1,32 @@
 import { useState, useEffect } from 'react';
+import { useDataSourceStore, type ArchiveId } from '../../stores/dataSourceStore';
+import { ARCHIVE_PRESETS, getRadarDataSource } from '../../services/nexrad/s3Client';
 
 const STORAGE_KEY = 'storm-replay-server-info-seen';
 
+const ARCHIVE_OPTIONS: { id: ArchiveId; label: string }[] = [
+  { id: 'unidata', label: ARCHIVE_PRESETS.unidata.label },
+  { id: 'noaa', label: ARCHIVE_PRESETS.noaa.label },
+  { id: 'custom', label: 'Custom (mirror or local server)' },
+];
+
 /**
  * Small info dialog that shows on first visit with instructions
- * on how to start the dev server. Re-accessible via a "?" button
+ * on how to start the dev server, plus the radar data source (which
+ * Level 2 archive scans come from). Re-accessible via a "?" button
  * rendered at the bottom of the sidebar.
  */
 export function ServerInfoDialog() {
   const [open, setOpen] = useState(false);
   const isElectron = !!(window as any).electronAPI?.isElectron;
+  const archive = useDataSourceStore((s) => s.archive);
+  const customUrl = useDataSourceStore((s) => s.customUrl);
+  const setArchive = useDataSourceStore((s) => s.setArchive);
+  const setCustomUrl = useDataSourceStore((s) => s.setCustomUrl);
+
+  // URL being typed — committed on blur / Enter
+  const [draftUrl, setDraftUrl] = useState(customUrl);
+  useEffect(() => setDraftUrl(customUrl), [customUrl]);
 
   // Show automatically on first visit (web only)
   useEffect(() => {
@@ -20,8 +37,7 @@ export function ServerInfoDialog() {
     }
   }, [isElectron]);
 
-  // Hide entirely in Electron — dev server instructions are irrelevant
-  if (isElectron) return null;
+  const activeUrl = open ? getRadarDataSource().url : '';
 
   return (
     <>
@@ -29,7 +45,7 @@ export function ServerInfoDialog() {
       <button
         className="server-info-help-btn"
         onClick={() => setOpen(true)}
-        title="Server info & help"
+        title={isElectron ? 'Radar data source' : 'Server info & help'}
       >
         ?
       </button>
@@ -39,27 +55,58 @@ export function ServerInfoDialog() {
         <div className="server-info-overlay" onClick={() => setOpen(false)}>
           <div className="server-info-dialog" onClick={(e) => e.stopPropagation()}>
             <div className="server-info-header">
-              <span>Getting Started</span>
+              <span>{isElectron ? 'Radar Data' : 'Getting Started'}</span>
               <button className="server-info-close" onClick={() => setOpen(false)}>
                 &times;
               </button>
             </div>
 
             <div className="server-info-body">
-              <p className="server-info-label">Start the dev server:</p>
-              <pre className="server-info-code">
-                <code>cd ~/Documents/Claude/storm-replay{'\n'}npm run dev</code>
-              </pre>
+              {/* Dev server instructions are irrelevant in Electron */}
+              {!isElectron && (
+                <>
+                  <p className="server-info-label">Start the dev server:</p>
+                  <pre className="server-info-code">
+                    <code>cd ~/Documents/Claude/storm-replay{'\n'}npm run dev</code>
+                  </pre>
+
+                  <p className="server-info-label">Open the app:</p>
+                  <pre className="server-info-code">
+                    <code>http://localhost:5173</code>
+                  </pre>
 
-              <p className="server-info-label">Open the app:</p>
-              <pre className="server-info-code">
-                <code>http://localhost:5173</code>
-              </pre>
+                  <p className="server-info-label">Stop the server:</p>
+                  <pre className="server-info-code">
+                    <code>Ctrl + C</code>
+                  </pre>
+                </>
+              )}
 
-              <p className="server-info-label">Stop the server:</p>
-              <pre className="server-info-code">
-                <code>Ctrl + C</code>
-              </pre>
+              <p className="server-info-label">Radar data source:</p>
+              <select
+                className="server-info-select"
+                value={archive}
+                onChange={(e) => setArchive(e.target.value as ArchiveId)}
+              >
+                {ARCHIVE_OPTIONS.map((o) => (
+                  <option key={o.id} value={o.id}>{o.label}</option>
+                ))}
+              </select>
+              {archive === 'custom' && (
+                <input
+                  type="url"
+                  className="server-info-input"
+                  placeholder="https://mirror.example.com/nexrad-level2"
+                  value={draftUrl}
+                  onChange={(e) => setDraftUrl(e.target.value)}
+                  onBlur={() => setCustomUrl(draftUrl)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') setCustomUrl(draftUrl); }}
+                />
+              )}
+              <p className="server-info-note">
+                Listing and downloading from {activeUrl}. Custom sources must serve the
+                S3 ListObjectsV2 API with the YYYY/MM/DD/SITE/ layout. Applies to the next load.
+              </p>
             </div>
           </div>
         </div>
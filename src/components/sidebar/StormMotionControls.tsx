@@ -0,0 +1,101 @@
+/**
+ * Storm motion controls for the SRV (storm-relative velocity) product.
+ *
+ * Only shown while SRV is the active product. Direction and speed are
+ * committed on blur/Enter so typing doesn't trigger a re-render of every
+ * frame per keystroke. "From path" derives the motion from the drawn
+ * storm path (first → last waypoint).
+ */
+
+import { useEffect, useState } from 'react';
+import { useRadarStore } from '../../stores/radarStore';
+import { useStormPathStore, getStormMotionFromPath } from '../../stores/stormPathStore';
+import { bearingToCardinal } from '../../utils/geo';
+
+export function StormMotionControls() {
+  const product = useRadarStore((s) => s.product);
+  const stormMotion = useRadarStore((s) => s.stormMotion);
+  const setStormMotion = useRadarStore((s) => s.setStormMotion);
+  const waypoints = useStormPathStore((s) => s.waypoints);
+
+  // Local draft values — committed to the store on blur/Enter
+  const [dirText, setDirText] = useState(String(stormMotion.direction));
+  const [spdText, setSpdText] = useState(String(stormMotion.speed));
+
+  useEffect(() => {
+    setDirText(String(stormMotion.direction));
+    setSpdText(String(stormMotion.speed));
+  }, [stormMotion]);
+
+  if (product !== 'SRV') return null;
+
+  const pathMotion = getStormMotionFromPath(waypoints);
+
+  const commit = () => {
+    const dir = parseFloat(dirText);
+    const spd = parseFloat(spdText);
+    if (!isFinite(dir) || !isFinite(spd) || spd < 0) {
+      // Invalid input — revert to the stored values
+      setDirText(String(stormMotion.direction));
+      setSpdText(String(stormMotion.speed));
+      return;
+    }
+    const direction = Math.round(((dir % 360) + 360) % 360);
+    const speed = Math.round(spd);
+    if (direction !== stormMotion.direction || speed !== stormMotion.speed) {
+      setStormMotion({ direction, speed });
+    }
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+  };
+
+  return (
+    <div className="layer-toggle-group">
+      <span className="layer-toggle-label" style={{ fontSize: 12, marginBottom: 2 }}>
+        Storm Motion
+      </span>
+      <div className="storm-motion-controls">
+        <div className="storm-motion-row">
+          <input
+            className="storm-motion-input"
+            type="number"
+            min={0}
+            max={359}
+            value={dirText}
+            onChange={(e) => setDirText(e.target.value)}
+            onBlur={commit}
+            onKeyDown={onKeyDown}
+            title="Direction the storm is moving from (degrees)"
+          />
+          <span className="storm-motion-unit">° ({bearingToCardinal(stormMotion.direction)})</span>
+          <input
+            className="storm-motion-input"
+            type="number"
+            min={0}
+            max={120}
+            value={spdText}
+            onChange={(e) => setSpdText(e.target.value)}
+            onBlur={commit}
+            onKeyDown={onKeyDown}
+            title="Storm speed (knots)"
+          />
+          <span className="storm-motion-unit">kt</span>
+        </div>
+        <div className="storm-path-btn-row">
+          <button
+            className="storm-path-btn"
+            onClick={() => pathMotion && setStormMotion(pathMotion)}
+            disabled={!pathMotion}
+            title={pathMotion
+              ? `Use drawn storm path: ${pathMotion.direction}° at ${pathMotion.speed} kt`
+              : 'Draw a storm path (at least 2 points at different times) first'}
+          >
+            From storm path
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+/**
+ * Event swath controls.
+ *
+ * Builds a rotation track (max cyclonic azimuthal shear) or a reflectivity /
+ * hail-core swath (max REF) across every frame of the event — or just the
+ * loop range — on the displayed elevation. Scans come through the prefetch
+ * manager's bulk download path (sharing the raw scan cache with Download
+ * All) and are sampled in the worker pool; the per-scan grids are max-merged
+ * here and redrawn periodically so the swath grows on the map while it runs.
+ */
+
+import { useSwathStore, type SwathKind } from '../../stores/swathStore';
+import { useRadarStore, getActiveColorTable, getProcessingOptions } from '../../stores/radarStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { getPrefetchManager } from '../../services/nexrad/prefetchManager';
+import {
+  computeSwathGrid,
+  mergeSwathMax,
+  colorizeSwath,
+  swathGridCoordinates,
+  type SwathGridSpec,
+} from '../../services/nexrad/swath';
+import { REF_COLOR_TABLE, ROTATION_TRACK_COLOR_TABLE, type ColorStop } from '../../services/nexrad/colorTables';
+import { playChime } from '../../utils/chime';
+
+/** Minimum time between intermediate swath redraws (ms). */
+const REDRAW_INTERVAL_MS = 1500;
+
+const KIND_LABELS: Record<SwathKind, string> = {
+  rotation: 'Rotation track',
+  ref: 'Hail core (max REF)',
+};
+
+/** Colorize the accumulated grid and encode it as a PNG blob URL. */
+async function renderSwathUrl(values: Float32Array, grid: SwathGridSpec, colorTable: ColorStop[]): Promise<string> {
+  const canvas = document.createElement('canvas');
+  canvas.width = grid.width;
+  canvas.height = grid.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get 2d context');
+  ctx.putImageData(new ImageData(colorizeSwath(values, colorTable), grid.width, grid.height), 0, 0);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('Swath PNG encoding failed');
+  return URL.createObjectURL(blob);
+}
+
+export function SwathControls() {
+  const kind = useSwathStore((s) => s.kind);
+  const useLoopRange = useSwathStore((s) => s.useLoopRange);
+  const showSwath = useSwathStore((s) => s.showSwath);
+  const swathOpacity = useSwathStore((s) => s.swathOpacity);
+  const image = useSwathStore((s) => s.image);
+  const imageKind = useSwathStore((s) => s.imageKind);
+  const running = useSwathStore((s) => s.running);
+  const progress = useSwathStore((s) => s.progress);
+  const setKind = useSwathStore((s) => s.setKind);
+  const setUseLoopRange = useSwathStore((s) => s.setUseLoopRange);
+  const setShowSwath = useSwathStore((s) => s.setShowSwath);
+  const setSwathOpacity = useSwathStore((s) => s.setSwathOpacity);
+  const endRun = useSwathStore((s) => s.endRun);
+  const clearSwath = useSwathStore((s) => s.clearSwath);
+
+  const scanFiles = useRadarStore((s) => s.scanFiles);
+  const loopStart = useTimelineStore((s) => s.loopStart);
+  const loopEnd = useTimelineStore((s) => s.loopEnd);
+
+  const hasLoopRange = loopStart !== null && loopEnd !== null;
+
+  const start = async () => {
+    const radarState = useRadarStore.getState();
+    const { selectedSite, elevationIndex } = radarState;
+    if (!selectedSite || scanFiles.length === 0) return;
+
+    // One grid covering every site in the event (multi-site handoffs)
+    const sites = [{ lat: selectedSite.lat, lon: selectedSite.lon }];
+    for (const scan of scanFiles) {
+      if (scan.siteLat == null || scan.siteLon == null) continue;
+      if (!sites.some((s) => s.lat === scan.siteLat && s.lon === scan.siteLon)) {
+        sites.push({ lat: scan.siteLat, lon: scan.siteLon });
+      }
+    }
+    const grid = computeSwathGrid(sites);
+    if (!grid) return;
+
+    const runKind = kind;
+    const colorTable = runKind === 'ref'
+      ? getActiveColorTable(radarState, 'REF') ?? REF_COLOR_TABLE
+      : ROTATION_TRACK_COLOR_TABLE;
+    const first = useLoopRange && hasLoopRange ? Math.min(loopStart!, loopEnd!) : 0;
+    const last = useLoopRange && hasLoopRange ? Math.max(loopStart!, loopEnd!) : scanFiles.length - 1;
+
+    const acc = new Float32Array(grid.width * grid.height).fill(NaN);
+    let dirty = false;
+    let lastDraw = 0;
+    let drawing: Promise<void> | null = null;
+
+    const runId = useSwathStore.getState().beginRun(last - first + 1);
+    const isCurrent = () => useSwathStore.getState().runId === runId;
+
+    const redraw = async () => {
+      dirty = false;
+      lastDraw = performance.now();
+      try {
+        const url = await renderSwathUrl(acc, grid, colorTable);
+        if (!isCurrent()) {
+          URL.revokeObjectURL(url);
+          return;
+        }
+        useSwathStore.getState().setImage({ url, coordinates: swathGridCoordinates(grid) }, runKind);
+      } catch (err) {
+        console.warn('[Swath] Redraw failed:', err);
+      }
+    };
+
+    await getPrefetchManager().accumulateSwath(
+      scanFiles,
+      runKind,
+      grid,
+      elevationIndex,
+      selectedSite.lat,
+      selectedSite.lon,
+      first,
+      last,
+      (values) => {
+        mergeSwathMax(acc, values);
+        dirty = true;
+        if (!drawing && performance.now() - lastDraw >= REDRAW_INTERVAL_MS) {
+          drawing = redraw().finally(() => { drawing = null; });
+        }
+      },
+      (completed, total) => {
+        if (isCurrent()) useSwathStore.getState().setProgress({ completed, total });
+      },
+      getProcessingOptions(radarState),
+    );
+
+    if (!isCurrent()) return;
+    if (drawing) await drawing;
+    if (dirty) await redraw();
+    if (!isCurrent()) return;
+
+    const finished = useSwathStore.getState().progress;
+    useSwathStore.getState().endRun();
+    if (finished && finished.completed >= finished.total) playChime();
+  };
+
+  const cancel = () => {
+    // Keep whatever has been merged so far
+    getPrefetchManager().cancelSwath();
+    endRun();
+  };
+
+  const clear = () => {
+    getPrefetchManager().cancelSwath();
+    clearSwath();
+  };
+
+  return (
+    <div className="layer-toggle-group">
+      <span className="layer-toggle-label" style={{ fontSize: 12, marginBottom: 2 }}>
+        Event Swath
+      </span>
+
+      <div className="storm-path-controls">
+        <div className="smoothing-row">
+          <label className="smoothing-label">Field</label>
+          <select
+            className="smoothing-select"
+            value={kind}
+            onChange={(e) => setKind(e.target.value as SwathKind)}
+            disabled={running}
+          >
+            {(Object.keys(KIND_LABELS) as SwathKind[]).map((k) => (
+              <option key={k} value={k}>{KIND_LABELS[k]}</option>
+            ))}
+          </select>
+        </div>
+
+        {hasLoopRange && (
+          <label className="layer-toggle-row">
+            <input
+              type="checkbox"
+              checked={useLoopRange}
+              onChange={(e) => setUseLoopRange(e.target.checked)}
+              disabled={running}
+            />
+            <span className="layer-toggle-label">Loop range only</span>
+          </label>
+        )}
+
+        {running && progress && (
+          <div className="export-progress-area">
+            <div className="export-progress-bar">
+              <div
+                className="export-progress-fill"
+                style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <div className="export-progress-text">
+              {progress.completed}/{progress.total} scans
+            </div>
+          </div>
+        )}
+
+        <div className="storm-path-btn-row">
+          {running ? (
+            <button className="storm-path-btn" onClick={cancel}>
+              Stop
+            </button>
+          ) : (
+            <button className="storm-path-btn" onClick={start} disabled={scanFiles.length === 0}>
+              {image ? 'Rebuild' : 'Build Swath'}
+            </button>
+          )}
+          {image && (
+            <button className="storm-path-btn" onClick={() => setShowSwath(!showSwath)}>
+              {showSwath ? 'Hide' : 'Show'}
+            </button>
+          )}
+          {image && (
+            <button className="storm-path-btn storm-path-clear" onClick={clear}>
+              Clear
+            </button>
+          )}
+        </div>
+
+        {image && (
+          <div className="opacity-slider-row" title={imageKind ? `${KIND_LABELS[imageKind]} opacity` : 'Swath opacity'}>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={Math.round(swathOpacity * 100)}
+              onChange={(e) => setSwathOpacity(Number(e.target.value) / 100)}
+              className="opacity-slider"
+            />
+            <span className="opacity-value">{Math.round(swathOpacity * 100)}%</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
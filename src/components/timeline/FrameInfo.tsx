@@ -1,9 +1,11 @@
 import { useTimelineStore } from '../../stores/timelineStore';
 import { useRadarStore, getSiteForFrame } from '../../stores/radarStore';
+import { useDownloadStore } from '../../stores/downloadStore';
 import { formatLocalTime, formatLocalDate, getTimezoneAbbr } from '../../utils/time';
 
 /**
- * Displays current frame metadata: timestamp, site ID, VCP, elevation, cache progress.
+ * Displays current frame metadata: timestamp, site ID, VCP, elevation, cache
+ * progress and failed downloads.
  * Shows SAILS sweep indicator when sub-volume sweeps are available.
  */
 export function FrameInfo() {
@@ -15,6 +17,7 @@ export function FrameInfo() {
   const availableElevations = useRadarStore((s) => s.availableElevations);
   const prefetchProgress = useRadarStore((s) => s.prefetchProgress);
   const scanFiles = useRadarStore((s) => s.scanFiles);
+  const failedFrames = useDownloadStore((s) => s.frameStates.filter((st) => st === 'failed').length);
 
   const currentTime = frameTimes[currentIndex] ?? 0;
   const totalFrames = frameTimes.length;
@@ -59,6 +62,11 @@ export function FrameInfo() {
           Caching: {prefetchProgress.completed}/{prefetchProgress.total}
         </span>
       )}
+      {failedFrames > 0 && (
+        <span className="cache-failed" title="Frames that failed to download after retries">
+          {failedFrames} failed
+        </span>
+      )}
       {totalFrames > 0 && (
         <span className="frame-counter">
           {currentIndex + 1} / {totalFrames}
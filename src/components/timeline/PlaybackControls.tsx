@@ -1,9 +1,12 @@
 import { useTimelineStore } from '../../stores/timelineStore';
+import { MAX_INTERPOLATED_FRAMES } from '../../services/nexrad/frameInterpolation';
 
 const SPEEDS = [1, 2, 4, 8, 16];
+const INTERPOLATION_OPTIONS = Array.from({ length: MAX_INTERPOLATED_FRAMES + 1 }, (_, i) => i);
 
 /**
- * Transport controls: step back, play/pause, step forward, speed selector.
+ * Transport controls: step back, play/pause, step forward, speed selector,
+ * in-between frame count for interpolated playback.
  */
 export function PlaybackControls() {
   const playing = useTimelineStore((s) => s.playing);
@@ -17,6 +20,8 @@ export function PlaybackControls() {
   const goToEnd = useTimelineStore((s) => s.goToEnd);
   const loopEnabled = useTimelineStore((s) => s.loopEnabled);
   const toggleLoop = useTimelineStore((s) => s.toggleLoop);
+  const interpolationFrames = useTimelineStore((s) => s.interpolationFrames);
+  const setInterpolationFrames = useTimelineStore((s) => s.setInterpolationFrames);
 
   const disabled = frameTimes.length === 0;
 
@@ -60,6 +65,20 @@ export function PlaybackControls() {
           </button>
         ))}
       </div>
+
+      <select
+        className="interpolation-select"
+        value={interpolationFrames}
+        onChange={(e) => setInterpolationFrames(Number(e.target.value))}
+        disabled={disabled}
+        title="In-between frames synthesized from storm motion for smoother playback"
+      >
+        {INTERPOLATION_OPTIONS.map((n) => (
+          <option key={n} value={n}>
+            {n === 0 ? 'Interp: off' : `Interp: ${n}`}
+          </option>
+        ))}
+      </select>
     </div>
   );
 }
@@ -1,10 +1,39 @@
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
 import { useTimelineStore } from '../../stores/timelineStore';
 import { useRadarStore } from '../../stores/radarStore';
+import { useDownloadStore, type FrameDownloadState } from '../../stores/downloadStore';
 import { formatLocalTime, getTimezoneAbbr } from '../../utils/time';
 
+const STATUS_COLORS: Record<FrameDownloadState, string> = {
+  queued: 'transparent',
+  downloading: 'rgba(88, 166, 255, 0.35)',
+  decoded: 'rgba(88, 166, 255, 0.15)',
+  missing: 'rgba(139, 148, 158, 0.45)',
+  failed: 'rgba(248, 81, 73, 0.75)',
+};
+
 /**
- * Timeline scrubber track with draggable playhead, loop region, cache progress,
+ * Hard-edged gradient with one band per run of equal frame states. Frame i
+ * is centered on its tick at i / (n - 1), so bands split halfway between ticks.
+ */
+function statusGradient(states: FrameDownloadState[]): string {
+  const n = states.length;
+  const edge = (i: number) => Math.max(0, Math.min(100, ((i - 0.5) / (n - 1)) * 100)).toFixed(2);
+  const stops: string[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= n; i++) {
+    if (i < n && states[i] === states[runStart]) continue;
+    const color = STATUS_COLORS[states[runStart]];
+    stops.push(`${color} ${edge(runStart)}%`, `${color} ${edge(i)}%`);
+    runStart = i;
+  }
+  return `linear-gradient(to right, ${stops.join(', ')})`;
+}
+
+/**
+ * Timeline scrubber track with draggable playhead, loop region, per-frame
+ * download status (decoded, in progress, no data for the product, failed;
+ * frames not reached yet left bare),
  * and hover tooltip showing the timestamp at the cursor position.
  */
 export function Scrubber() {
@@ -18,7 +47,7 @@ export function Scrubber() {
   const loopEnabled = useTimelineStore((s) => s.loopEnabled);
   const setCurrentIndex = useTimelineStore((s) => s.setCurrentIndex);
   const setPlaying = useTimelineStore((s) => s.setPlaying);
-  const prefetchProgress = useRadarStore((s) => s.prefetchProgress);
+  const frameStates = useDownloadStore((s) => s.frameStates);
   const segments = useRadarStore((s) => s.segments);
   const scanFiles = useRadarStore((s) => s.scanFiles);
 
@@ -89,7 +118,9 @@ export function Scrubber() {
         : null;
       const tz = seg?.site.tz ?? useRadarStore.getState().selectedSite?.tz ?? 'UTC';
       const siteLabel = scan?.siteId ? ` (${scan.siteId})` : '';
-      const time = `${formatLocalTime(ts, tz)} ${getTimezoneAbbr(ts, tz)}${siteLabel}`;
+      const frameState = useDownloadStore.getState().frameStates[index];
+      const status = frameState === 'failed' ? ' — download failed' : frameState === 'missing' ? ' — no data' : '';
+      const time = `${formatLocalTime(ts, tz)} ${getTimezoneAbbr(ts, tz)}${siteLabel}${status}`;
 
       setHoverInfo({
         x: e.clientX - rect.left,
@@ -112,10 +143,13 @@ export function Scrubber() {
       }
     : null;
 
-  // Cache progress percentage (0-100)
-  const cachePercent = prefetchProgress
-    ? Math.round((prefetchProgress.completed / Math.max(prefetchProgress.total, 1)) * 100)
-    : null;
+  // Download status strip — hidden once every frame is decoded
+  const statusBackground = useMemo(
+    () => frameStates.length === totalFrames && totalFrames > 1 && frameStates.some((st) => st !== 'decoded')
+      ? statusGradient(frameStates)
+      : null,
+    [frameStates, totalFrames],
+  );
 
   return (
     <div className="scrubber-container">
@@ -126,11 +160,11 @@ export function Scrubber() {
         onMouseMove={handleTrackMouseMove}
         onMouseLeave={handleTrackMouseLeave}
       >
-        {/* Cache progress bar (behind everything, shows how many frames are pre-rendered) */}
-        {cachePercent !== null && cachePercent < 100 && (
+        {/* Download status (behind everything, shows which frames are pre-rendered or failed) */}
+        {statusBackground && (
           <div
-            className="scrubber-cache-progress"
-            style={{ width: `${cachePercent}%` }}
+            className="scrubber-download-status"
+            style={{ background: statusBackground }}
           />
         )}
 
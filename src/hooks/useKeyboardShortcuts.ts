@@ -16,8 +16,17 @@ import { useRadarStore } from '../stores/radarStore';
  * 1-5          = Speed (1x, 2x, 4x, 8x, 16x)
  * R            = Switch to REF
  * V            = Switch to VEL
+ * S            = Switch to SRV
+ * Z            = Switch to ZDR
+ * C            = Switch to CC
+ * K            = Switch to KDP
+ * W            = Switch to SW
+ * P            = Switch to PHI
  * Home         = Go to start
  * End          = Go to end
+ *
+ * Keys held with Ctrl/Cmd/Alt are ignored, so Cmd/Ctrl+W (close window),
+ * Cmd/Ctrl+P (print) and the like keep working in the Electron build.
  */
 export function useKeyboardShortcuts() {
   useEffect(() => {
@@ -33,6 +42,9 @@ export function useKeyboardShortcuts() {
         return;
       }
 
+      // Leave Ctrl/Cmd/Alt combos to the browser and OS (copy, reload, …)
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
       const timeline = useTimelineStore.getState();
       const radar = useRadarStore.getState();
 
@@ -103,6 +115,42 @@ export function useKeyboardShortcuts() {
           radar.setProduct('VEL');
           break;
 
+        case 's':
+        case 'S':
+          e.preventDefault();
+          radar.setProduct('SRV');
+          break;
+
+        case 'z':
+        case 'Z':
+          e.preventDefault();
+          radar.setProduct('ZDR');
+          break;
+
+        case 'c':
+        case 'C':
+          e.preventDefault();
+          radar.setProduct('CC');
+          break;
+
+        case 'k':
+        case 'K':
+          e.preventDefault();
+          radar.setProduct('KDP');
+          break;
+
+        case 'w':
+        case 'W':
+          e.preventDefault();
+          radar.setProduct('SW');
+          break;
+
+        case 'p':
+        case 'P':
+          e.preventDefault();
+          radar.setProduct('PHI');
+          break;
+
         case 'Home':
           e.preventDefault();
           timeline.goToStart();
@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { useTimelineStore } from '../stores/timelineStore';
+import { useRadarStore } from '../stores/radarStore';
+import { frameCache, rawScanCache } from '../services/nexrad/frameCache';
+
+/**
+ * Hook that keeps the scans of the current loop range pinned in the frame
+ * and raw scan caches, so playing a long loop doesn't evict the frames it
+ * is about to show again. Nothing is pinned while looping is off.
+ * Activated once in AppShell.
+ */
+export function useLoopCachePinning() {
+  useEffect(() => {
+    let prevSignature = '';
+
+    const update = () => {
+      const { frameTimes, loopStart, loopEnd, loopEnabled } = useTimelineStore.getState();
+      const { scanFiles } = useRadarStore.getState();
+
+      const count = Math.min(frameTimes.length, scanFiles.length);
+      const first = loopEnabled && count > 0 ? Math.min(loopStart ?? 0, count - 1) : 0;
+      const last = loopEnabled && count > 0 ? Math.min(loopEnd ?? count - 1, count - 1) : -1;
+
+      // Only re-pin when the range or the event changes, not on every tick
+      const signature = `${first}:${last}:${count}:${scanFiles[0]?.key ?? ''}`;
+      if (signature === prevSignature) return;
+      prevSignature = signature;
+
+      const scans = last >= first ? scanFiles.slice(first, last + 1) : [];
+      frameCache.pinScans(scans);
+      rawScanCache.pinKeys(scans.map((s) => s.key));
+    };
+
+    update();
+    const unsubTimeline = useTimelineStore.subscribe(update);
+    const unsubRadar = useRadarStore.subscribe(update);
+    return () => {
+      unsubTimeline();
+      unsubRadar();
+    };
+  }, []);
+}
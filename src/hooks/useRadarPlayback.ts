@@ -1,6 +1,6 @@
 import { useEffect, useRef } from 'react';
-import { useTimelineStore } from '../stores/timelineStore';
-import { useRadarStore } from '../stores/radarStore';
+import { useTimelineStore, BASE_FRAME_INTERVAL_MS } from '../stores/timelineStore';
+import { useRadarStore, getProcessingOptions } from '../stores/radarStore';
 import { frameCache, FrameCache } from '../services/nexrad/frameCache';
 
 /**
@@ -13,6 +13,12 @@ import { frameCache, FrameCache } from '../services/nexrad/frameCache';
  * Cache-aware: at high speeds (≥8x), skips frames that aren't cached yet
  * to prevent playback from stalling. At normal speeds, advances one-by-one
  * even if the frame isn't cached (prefetch manager is working on it).
+ *
+ * With interpolation on, the in-between frames are shown through subFrame
+ * at evenly spaced points of the scan interval. The scan rate is unchanged:
+ * when the interval is shorter than a few animation frames (8x/16x), the
+ * in-between frames whose slot already passed are skipped rather than
+ * delaying the next scan. In-between frames aren't drawn across a loop wrap.
  */
 export function useRadarPlayback() {
   const rafRef = useRef<number>(0);
@@ -20,20 +26,23 @@ export function useRadarPlayback() {
 
   useEffect(() => {
     const tick = (now: number) => {
-      const { playing, speed, stepForward, currentIndex, frameTimes, loopStart, loopEnd, loopEnabled } =
-        useTimelineStore.getState();
+      const {
+        playing, speed, stepForward, currentIndex, frameTimes, loopStart, loopEnd, loopEnabled,
+        interpolationFrames, subFrame, setSubFrame,
+      } = useTimelineStore.getState();
 
       if (playing && frameTimes.length > 0) {
-        const baseInterval = 500; // ms per frame at 1x
-        const interval = baseInterval / speed;
+        const interval = BASE_FRAME_INTERVAL_MS / speed;
+        const elapsed = now - lastStepRef.current;
 
-        if (now - lastStepRef.current >= interval) {
-          const { product, elevationIndex, scanFiles, paletteVersion, radarSmoothing } = useRadarStore.getState();
+        if (elapsed >= interval) {
+          const radarState = useRadarStore.getState();
+          const { product, elevationIndex, scanFiles, paletteVersion } = radarState;
+          const maxIndex = loopEnabled && loopEnd !== null ? loopEnd : frameTimes.length - 1;
 
           if (speed >= 8 && scanFiles.length > 0) {
             // At high speeds, skip uncached frames to maintain smooth playback.
             // Look ahead up to `speed` frames for a cached one.
-            const maxIndex = loopEnabled && loopEnd !== null ? loopEnd : frameTimes.length - 1;
             const minIndex = loopEnabled && loopStart !== null ? loopStart : 0;
             const maxSkip = Math.min(Math.ceil(speed / 2), 8);
 
@@ -48,7 +57,7 @@ export function useRadarPlayback() {
               const scan = scanFiles[candidateIdx];
               if (!scan) continue;
 
-              const key = FrameCache.makeKey(scan.key, scan.timestamp, product, elevationIndex, paletteVersion, radarSmoothing, scan.sweepIndex);
+              const key = FrameCache.makeKey(scan.key, scan.timestamp, product, elevationIndex, paletteVersion, scan.sweepIndex, getProcessingOptions(radarState));
               if (frameCache.has(key)) {
                 // Jump to the cached frame
                 useTimelineStore.getState().setCurrentIndex(candidateIdx);
@@ -67,6 +76,22 @@ export function useRadarPlayback() {
           }
 
           lastStepRef.current = now;
+        } else if (interpolationFrames > 0) {
+          // In-between frame whose slot in the scan interval has been reached
+          const target = Math.min(
+            interpolationFrames,
+            Math.floor((elapsed / interval) * (interpolationFrames + 1)),
+          );
+          const radarState = useRadarStore.getState();
+          const { product, elevationIndex, scanFiles, paletteVersion } = radarState;
+          const maxIndex = loopEnabled && loopEnd !== null ? loopEnd : frameTimes.length - 1;
+          const scan = scanFiles[currentIndex];
+
+          if (target > subFrame && currentIndex < maxIndex && scan) {
+            const key = FrameCache.makeKey(scan.key, scan.timestamp, product, elevationIndex, paletteVersion, scan.sweepIndex, getProcessingOptions(radarState));
+            const subKey = FrameCache.makeInterpolatedKey(key, target, interpolationFrames);
+            if (speed < 8 || frameCache.has(subKey)) setSubFrame(target);
+          }
         }
       }
 
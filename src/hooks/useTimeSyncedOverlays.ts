@@ -55,6 +55,10 @@ export function useTimeSyncedOverlays() {
           prevStartRef.current = startMs;
           prevEndRef.current = endMs;
 
+          // Overlays restored from an event package — nothing to fetch
+          const packaged = useOverlayStore.getState().packagedRange;
+          if (packaged && packaged[0] === startMs && packaged[1] === endMs) return;
+
           // Guard against duplicate concurrent fetches
           if (fetchingRef.current) return;
           fetchingRef.current = true;
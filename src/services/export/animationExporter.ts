@@ -3,7 +3,8 @@
  *
  * Iterates through radar frames, captures the composited map canvas for each,
  * and encodes into a downloadable video file. Optionally composites React
- * overlay components (Storm Attributes, Radar Legend, Distance to Storm).
+ * overlay components (Storm Attributes, Radar Legend, Distance to Storm)
+ * and the range ring overlay.
  *
  * MP4: WebCodecs VideoEncoder (H.264 High Profile) + mp4-muxer
  *   → DaVinci Resolve-compatible, high bitrate, up to 4K
@@ -12,15 +13,18 @@
  *   → Quick sharing, social media, smaller files
  *
  * Each radar frame is held for multiple video frames to produce smooth
- * constant-frame-rate output at the selected fps and speed.
+ * constant-frame-rate output at the selected fps and speed. With
+ * interpolation on, each scan interval is split between the scan and its
+ * synthesized in-between frames (see frameInterpolation.ts) — same
+ * duration, smoother motion.
  */
 
 import type maplibregl from 'maplibre-gl';
 import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
 // @ts-ignore — gifenc has no TypeScript declarations
 import { GIFEncoder, quantize, applyPalette } from 'gifenc';
-import { useTimelineStore } from '../../stores/timelineStore';
-import { useRadarStore } from '../../stores/radarStore';
+import { useTimelineStore, BASE_FRAME_INTERVAL_MS } from '../../stores/timelineStore';
+import { useRadarStore, getProcessingOptions } from '../../stores/radarStore';
 import { useExportStore } from '../../stores/exportStore';
 import { frameCache, FrameCache } from '../nexrad/frameCache';
 import {
@@ -37,11 +41,21 @@ export interface AnimationOptions {
   speed: number;
   startIndex: number;
   endIndex: number;
+  /** In-between frames per scan pair (0 = scans only) */
+  interpolationFrames?: number;
   onProgress: (progress: number, message: string) => void;
   /** AbortSignal for cancellation */
   signal?: AbortSignal;
 }
 
+/** One captured map state: a scan, or in-between frame `subFrame` after it. */
+interface ExportShot {
+  index: number;
+  subFrame: number;
+  /** Video frames (MP4) / duration units (GIF) to hold this shot */
+  holds: number;
+}
+
 export interface AnimationResult {
   blob: Blob;
   filename: string;
@@ -55,7 +69,7 @@ export interface AnimationResult {
  * Export an animation (MP4 or GIF) from the current map view.
  */
 export async function exportAnimation(opts: AnimationOptions): Promise<AnimationResult> {
-  const { map, format, fps, speed, startIndex, endIndex, onProgress, signal } = opts;
+  const { map, format, fps, speed, startIndex, endIndex, interpolationFrames = 0, onProgress } = opts;
 
   const canvas = map.getCanvas();
   const width = canvas.width;
@@ -70,26 +84,28 @@ export async function exportAnimation(opts: AnimationOptions): Promise<Animation
 
   // Calculate how many video frames per radar frame
   // At 1x speed, radar advances every 500ms → at 30fps, that's 15 video frames per radar frame
-  const radarIntervalMs = 500 / speed;
+  const radarIntervalMs = BASE_FRAME_INTERVAL_MS / speed;
   const videoFramesPerRadar = Math.max(1, Math.round(fps * radarIntervalMs / 1000));
-  const totalVideoFrames = radarFrameCount * videoFramesPerRadar;
+  const shots = planShots(startIndex, endIndex, interpolationFrames, videoFramesPerRadar);
+  const totalVideoFrames = shots.reduce((sum, shot) => sum + shot.holds, 0);
   const durationSeconds = totalVideoFrames / fps;
 
   console.log(
-    `[Export] Starting ${format.toUpperCase()} export: ${radarFrameCount} radar frames × ` +
-    `${videoFramesPerRadar} video frames each = ${totalVideoFrames} total @ ${fps}fps ` +
+    `[Export] Starting ${format.toUpperCase()} export: ${radarFrameCount} radar frames ` +
+    `(${shots.length} with in-between frames) = ${totalVideoFrames} video frames @ ${fps}fps ` +
     `(${durationSeconds.toFixed(1)}s) — ${exportWidth}×${exportHeight}`,
   );
 
   // Capture overlay options and positions once before export starts
-  const { showStormAttrs, showRadarLegend, showDistanceBearing } =
+  const { showStormAttrs, showRadarLegend, showDistanceBearing, showRangeRings } =
     useExportStore.getState();
   const overlayOptions: OverlayOptions = {
     showStormAttrs,
     showRadarLegend,
     showDistanceBearing,
+    showRangeRings,
   };
-  const anyOverlays = showStormAttrs || showRadarLegend || showDistanceBearing;
+  const anyOverlays = showStormAttrs || showRadarLegend || showDistanceBearing || showRangeRings;
   const overlayPositions = anyOverlays ? captureOverlayPositions(canvas) : null;
 
   // Compute scale factor for overlay drawing
@@ -101,12 +117,12 @@ export async function exportAnimation(opts: AnimationOptions): Promise<Animation
 
   if (format === 'mp4') {
     return exportMP4(
-      opts, exportWidth, exportHeight, videoFramesPerRadar, totalVideoFrames,
+      opts, exportWidth, exportHeight, shots, totalVideoFrames,
       anyOverlays, overlayOptions, overlayPositions, overlayScale,
     );
   } else {
     return exportGIF(
-      opts, exportWidth, exportHeight, videoFramesPerRadar, totalVideoFrames,
+      opts, exportWidth, exportHeight, shots, totalVideoFrames,
       anyOverlays, overlayOptions, overlayPositions, overlayScale,
     );
   }
@@ -118,14 +134,14 @@ async function exportMP4(
   opts: AnimationOptions,
   exportWidth: number,
   exportHeight: number,
-  videoFramesPerRadar: number,
+  shots: ExportShot[],
   totalVideoFrames: number,
   anyOverlays: boolean,
   overlayOptions: OverlayOptions,
   overlayPositions: OverlayPositions | null,
   overlayScale: number,
 ): Promise<AnimationResult> {
-  const { map, fps, startIndex, endIndex, onProgress, signal } = opts;
+  const { map, fps, onProgress, signal } = opts;
   const canvas = map.getCanvas();
 
   // Bitrate scales with resolution: ~20 Mbps at 1080p, ~50 Mbps at 4K
@@ -172,11 +188,12 @@ async function exportMP4(
 
   let videoFrameIndex = 0;
 
-  for (let radarIdx = startIndex; radarIdx <= endIndex; radarIdx++) {
+  for (let shotIdx = 0; shotIdx < shots.length; shotIdx++) {
+    const shot = shots[shotIdx];
     if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
 
     // Set timeline to this frame and wait for it to render
-    await setFrameAndWait(map, radarIdx);
+    await setFrameAndWait(map, shot.index, shot.subFrame);
     // Ensure overlay data subscriptions have processed
     await new Promise<void>((r) => requestAnimationFrame(() => r()));
 
@@ -192,7 +209,7 @@ async function exportMP4(
     }
 
     // Capture as VideoFrame and encode for each video frame hold
-    for (let hold = 0; hold < videoFramesPerRadar; hold++) {
+    for (let hold = 0; hold < shot.holds; hold++) {
       if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
 
       const timestampMicros = Math.round(videoFrameIndex * (1_000_000 / fps));
@@ -210,8 +227,8 @@ async function exportMP4(
       videoFrameIndex++;
     }
 
-    const progress = (radarIdx - startIndex + 1) / (endIndex - startIndex + 1);
-    onProgress(progress * 0.9, `Encoding frame ${radarIdx - startIndex + 1}/${endIndex - startIndex + 1}...`);
+    const progress = (shotIdx + 1) / shots.length;
+    onProgress(progress * 0.9, `Encoding frame ${shotIdx + 1}/${shots.length}...`);
   }
 
   // Clean up compositing canvas
@@ -251,19 +268,20 @@ async function exportGIF(
   opts: AnimationOptions,
   exportWidth: number,
   exportHeight: number,
-  videoFramesPerRadar: number,
+  shots: ExportShot[],
   totalVideoFrames: number,
   anyOverlays: boolean,
   overlayOptions: OverlayOptions,
   overlayPositions: OverlayPositions | null,
   overlayScale: number,
 ): Promise<AnimationResult> {
-  const { map, fps, startIndex, endIndex, onProgress, signal } = opts;
+  const { map, fps, onProgress, signal } = opts;
   const canvas = map.getCanvas();
 
   // For GIF, we use a lower frame rate to keep file size manageable
-  // Each radar frame gets a delay in centiseconds (GIF timing unit)
-  const delayPerRadarFrame = Math.round((videoFramesPerRadar / fps) * 100); // centiseconds
+  // Each shot gets a delay in centiseconds (GIF timing unit)
+  const shotDelay = (shot: ExportShot) => Math.round((shot.holds / fps) * 100);
+  let totalDelay = 0;
 
   // Scale down for GIF to keep file size reasonable (max 800px wide)
   const maxGifWidth = 800;
@@ -292,10 +310,11 @@ async function exportGIF(
     compCtx = compCanvas.getContext('2d')!;
   }
 
-  for (let radarIdx = startIndex; radarIdx <= endIndex; radarIdx++) {
+  for (let shotIdx = 0; shotIdx < shots.length; shotIdx++) {
+    const shot = shots[shotIdx];
     if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
 
-    await setFrameAndWait(map, radarIdx);
+    await setFrameAndWait(map, shot.index, shot.subFrame);
     // Ensure overlay data subscriptions have processed
     await new Promise<void>((r) => requestAnimationFrame(() => r()));
 
@@ -315,13 +334,15 @@ async function exportGIF(
     const palette = quantize(imageData.data, 256);
     const indexed = applyPalette(imageData.data, palette);
 
+    const delay = shotDelay(shot);
+    totalDelay += delay;
     gif.writeFrame(indexed, finalGifWidth, finalGifHeight, {
       palette,
-      delay: delayPerRadarFrame,
+      delay,
     });
 
-    const progress = (radarIdx - startIndex + 1) / (endIndex - startIndex + 1);
-    onProgress(progress * 0.95, `Encoding GIF frame ${radarIdx - startIndex + 1}/${endIndex - startIndex + 1}...`);
+    const progress = (shotIdx + 1) / shots.length;
+    onProgress(progress * 0.95, `Encoding GIF frame ${shotIdx + 1}/${shots.length}...`);
 
     // Yield to keep UI responsive
     await new Promise((r) => setTimeout(r, 0));
@@ -343,7 +364,7 @@ async function exportGIF(
   onProgress(1, 'Done!');
   console.log(
     `[Export] GIF complete: ${filename} — ${(blob.size / 1024 / 1024).toFixed(1)} MB, ` +
-    `${finalGifWidth}×${finalGifHeight}, ${endIndex - startIndex + 1} frames`,
+    `${finalGifWidth}×${finalGifHeight}, ${shots.length} frames`,
   );
 
   return {
@@ -351,29 +372,69 @@ async function exportGIF(
     filename,
     width: finalGifWidth,
     height: finalGifHeight,
-    totalFrames: endIndex - startIndex + 1,
-    duration: (endIndex - startIndex + 1) * delayPerRadarFrame / 100,
+    totalFrames: shots.length,
+    duration: totalDelay / 100,
   };
 }
 
 /* ── Helpers ───────────────────────────────────────────────────────────── */
 
 /**
- * Set the timeline to a specific frame index, wait for the radar frame
- * to be available in cache, then wait for MapLibre to render.
+ * Lay out the captured shots: each scan followed by its in-between frames,
+ * splitting the scan's hold between them so the duration doesn't change.
+ * When there are fewer holds than sub-frames, the sub-frames that round to
+ * zero holds are dropped. The last scan gets no in-between frames, and
+ * neither does a radar-site handoff (different geometry).
  */
-async function setFrameAndWait(map: maplibregl.Map, frameIndex: number): Promise<void> {
+function planShots(startIndex: number, endIndex: number, steps: number, videoFramesPerRadar: number): ExportShot[] {
   const { scanFiles } = useRadarStore.getState();
-  const { frameTimes } = useTimelineStore.getState();
-  const { product, elevationIndex, paletteVersion } = useRadarStore.getState();
+  const shots: ExportShot[] = [];
+  for (let index = startIndex; index <= endIndex; index++) {
+    const scan = scanFiles[index];
+    const next = scanFiles[index + 1];
+    const split = steps > 0 && index < endIndex && !!scan && !!next &&
+      scan.siteLat === next.siteLat && scan.siteLon === next.siteLon;
+    if (!split) {
+      shots.push({ index, subFrame: 0, holds: videoFramesPerRadar });
+      continue;
+    }
+    // Cumulative rounding: sub-frame s covers [s, s + 1) / (steps + 1) of the
+    // hold. Rounding up keeps the scan itself (sub-frame 0) in every case.
+    const parts = steps + 1;
+    for (let subFrame = 0; subFrame < parts; subFrame++) {
+      const holds = Math.ceil((subFrame + 1) * videoFramesPerRadar / parts) -
+        Math.ceil(subFrame * videoFramesPerRadar / parts);
+      if (holds > 0) shots.push({ index, subFrame, holds });
+    }
+  }
+  return shots;
+}
+
+/**
+ * Set the timeline to a specific frame index (and in-between frame), wait
+ * for the radar frame to be available in cache, then wait for MapLibre to render.
+ */
+async function setFrameAndWait(map: maplibregl.Map, frameIndex: number, subFrame = 0): Promise<void> {
+  const { scanFiles } = useRadarStore.getState();
+  const radarState = useRadarStore.getState();
+  const { product, elevationIndex, paletteVersion } = radarState;
+  const timeline = useTimelineStore.getState();
 
   // Set the timeline index (triggers RadarLayer to display the frame)
-  useTimelineStore.getState().setCurrentIndex(frameIndex);
+  timeline.setCurrentIndex(frameIndex);
+  if (subFrame > 0) timeline.setSubFrame(subFrame);
 
   // Wait for the radar frame to be in cache
   if (frameIndex < scanFiles.length) {
     const scan = scanFiles[frameIndex];
-    const key = FrameCache.makeKey(scan.key, scan.timestamp, product, elevationIndex, paletteVersion);
+    const scanKey = FrameCache.makeKey(
+      scan.key, scan.timestamp, product, elevationIndex, paletteVersion,
+      scan.sweepIndex, getProcessingOptions(radarState),
+    );
+    // RadarLayer requests the in-between frames once both scans are cached
+    const key = subFrame > 0
+      ? FrameCache.makeInterpolatedKey(scanKey, subFrame, timeline.interpolationFrames)
+      : scanKey;
     let attempts = 0;
     while (!frameCache.has(key) && attempts < 200) { // Max 10 seconds
       await new Promise((r) => setTimeout(r, 50));
@@ -388,7 +449,7 @@ async function setFrameAndWait(map: maplibregl.Map, frameIndex: number): Promise
 /** Wait for MapLibre to complete a render cycle. */
 function waitForMapRender(map: maplibregl.Map): Promise<void> {
   return new Promise((resolve) => {
-    // Use two render cycles to ensure the image source has been updated
+    // Use two render cycles to ensure the radar layer has drawn the new frame
     map.once('render', () => {
       requestAnimationFrame(() => {
         map.once('render', () => resolve());
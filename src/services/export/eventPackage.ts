@@ -0,0 +1,250 @@
+/**
+ * Offline event packages.
+ *
+ * Bundles everything needed to replay an event — the Level 2 scan files,
+ * the scan list and handoff segments, every overlay data set, chase tracks
+ * and the storm path — into a single `.srevent` file, and restores it
+ * later without touching the network.
+ *
+ * Container layout:
+ *   8 bytes  magic "SRPKG\r\n\x1a" (catches text-mode mangling like PNG's)
+ *   4 bytes  manifest length (uint32 LE)
+ *   N bytes  manifest JSON (UTF-8)
+ *   …        scan files back to back; offsets in the manifest are relative
+ *            to the end of the manifest
+ *
+ * Scans are stored as downloaded (gzip/bzip2 intact). On open, each one is
+ * registered as a slice of the package File under a `local:` key
+ * (localFiles.ts), so bytes are only read when a frame is needed.
+ */
+
+import { useRadarStore, type NexradSite, type RadarSegment } from '../../stores/radarStore';
+import { useTimelineStore } from '../../stores/timelineStore';
+import { useOverlayStore, type PackagedOverlays } from '../../stores/overlayStore';
+import { useTrackStore, type ChaseTrack } from '../../stores/trackStore';
+import { useStormPathStore, type StormWaypoint } from '../../stores/stormPathStore';
+import { useCompareStore } from '../../stores/compareStore';
+import { useMosaicStore } from '../../stores/mosaicStore';
+import { useDownloadStore } from '../../stores/downloadStore';
+import { rawScanCache, frameCache } from '../nexrad/frameCache';
+import { getPrefetchManager } from '../nexrad/prefetchManager';
+import { resetWorkerPool } from '../nexrad/workerPool';
+import { fetchScan } from '../nexrad/s3Client';
+import { clearLocalScans, registerLocalScan } from '../nexrad/localFiles';
+import type { ScanFile } from '../nexrad/types';
+import { downloadBlob } from './animationExporter';
+
+export const EVENT_PACKAGE_EXTENSION = '.srevent';
+
+const MAGIC = new Uint8Array([0x53, 0x52, 0x50, 0x4b, 0x47, 0x0d, 0x0a, 0x1a]); // SRPKG\r\n\x1a
+const HEADER_BYTES = MAGIC.length + 4;
+const FORMAT_VERSION = 1;
+
+interface PackagedScan {
+  /** Scan key when the package was saved */
+  key: string;
+  /** Byte offset within the scan data section */
+  offset: number;
+  length: number;
+}
+
+interface EventPackageManifest {
+  format: 'storm-replay-event';
+  version: number;
+  /** Save time (UTC ms) */
+  createdAt: number;
+  selectedSite: NexradSite | null;
+  segments: RadarSegment[];
+  scanFiles: ScanFile[];
+  scans: PackagedScan[];
+  overlays: PackagedOverlays;
+  tracks: ChaseTrack[];
+  stormPath: StormWaypoint[];
+}
+
+/* ── Save ─────────────────────────────────────────────────────────── */
+
+/**
+ * Bundle the loaded event into a package and download it. Scans already in
+ * memory are reused; the rest come through fetchScan (persistent cache,
+ * then the data source). Each scan is copied into its own Blob part as it
+ * arrives, so the browser can page the package out instead of holding
+ * every scan in memory at once.
+ *
+ * @param onProgress - Called after each scan file with (done, total)
+ * @param signal - Aborts the download of remaining scans
+ */
+export async function saveEventPackage(
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const radar = useRadarStore.getState();
+  const { scanFiles } = radar;
+  if (scanFiles.length === 0) throw new Error('No event loaded');
+
+  // SAILS sweeps share their volume's file — store each file once
+  const keys = [...new Set(scanFiles.map((s) => s.key))];
+  const parts: Blob[] = [];
+  const scans: PackagedScan[] = [];
+  let offset = 0;
+
+  onProgress?.(0, keys.length);
+  for (const key of keys) {
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    let buffer = rawScanCache.get(key);
+    // A cached buffer transferred to a worker is detached (zero length)
+    if (!buffer || buffer.byteLength === 0) buffer = await fetchScan(key, signal);
+    parts.push(new Blob([buffer]));
+    scans.push({ key, offset, length: buffer.byteLength });
+    offset += buffer.byteLength;
+    onProgress?.(parts.length, keys.length);
+  }
+
+  const overlay = useOverlayStore.getState();
+  const manifest: EventPackageManifest = {
+    format: 'storm-replay-event',
+    version: FORMAT_VERSION,
+    createdAt: Date.now(),
+    selectedSite: radar.selectedSite,
+    segments: radar.segments,
+    scanFiles,
+    scans,
+    overlays: {
+      warnings: overlay.warnings,
+      watches: overlay.watches,
+      mcds: overlay.mcds,
+      outlooks: overlay.outlooks,
+      lsrs: overlay.lsrs,
+      surfaceObs: overlay.surfaceObs,
+      surfaceObsStations: overlay.surfaceObsStations,
+      tornadoTracks: overlay.tornadoTracks,
+    },
+    tracks: useTrackStore.getState().tracks,
+    stormPath: useStormPathStore.getState().waypoints,
+  };
+
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new Uint8Array(HEADER_BYTES);
+  header.set(MAGIC);
+  new DataView(header.buffer).setUint32(MAGIC.length, manifestBytes.length, true);
+
+  const blob = new Blob([header, manifestBytes, ...parts], { type: 'application/octet-stream' });
+  const siteId = radar.selectedSite?.id ?? scanFiles[0].siteId ?? 'event';
+  downloadBlob(blob, `storm-replay-${siteId}-${formatDate(scanFiles[0].timestamp)}${EVENT_PACKAGE_EXTENSION}`);
+}
+
+/* ── Open ─────────────────────────────────────────────────────────── */
+
+/**
+ * Replace the current event with a saved package. Throws if the file isn't
+ * a readable event package; nothing is cleared in that case. Otherwise the
+ * current event is reset the way Clear All does before the package loads.
+ */
+export async function openEventPackage(file: Blob): Promise<void> {
+  const { manifest, dataStart } = await readManifest(file);
+
+  // Validate before touching the loaded event
+  const packaged = new Set(manifest.scans.map((scan) => scan.key));
+  if (!manifest.scanFiles.some((s) => packaged.has(s.key))) {
+    throw new Error('Event package contains no scans');
+  }
+
+  const store = useRadarStore.getState();
+  const timeline = useTimelineStore.getState();
+
+  timeline.setPlaying(false);
+  getPrefetchManager().cancelAll();
+  rawScanCache.clear();
+  frameCache.clear();
+  clearLocalScans();
+  resetWorkerPool();
+  store.setError(null);
+  store.setCurrentFrameStats(null);
+  store.setPrefetchProgress(null);
+  useDownloadStore.getState().setFrameStates([]);
+  timeline.clearLoop();
+  useCompareStore.getState().clear();
+  useMosaicStore.getState().clear();
+
+  // Each scan reads straight from its slice of the package file
+  const keyMap = new Map<string, string>();
+  for (const scan of manifest.scans) {
+    const start = dataStart + scan.offset;
+    const name = scan.key.split('/').pop() || scan.key;
+    keyMap.set(scan.key, registerLocalScan(name, {
+      kind: 'file',
+      file: file.slice(start, start + scan.length),
+    }));
+  }
+  const scanFiles = manifest.scanFiles
+    .filter((s) => keyMap.has(s.key))
+    .map((s) => ({ ...s, key: keyMap.get(s.key)! }));
+
+  // Overlays go in before the frame times change so useTimeSyncedOverlays
+  // recognizes the range and doesn't refetch
+  const frameTimes = scanFiles.map((s) => s.timestamp);
+  useOverlayStore.getState().restorePackagedOverlays(
+    manifest.overlays,
+    [frameTimes[0], frameTimes[frameTimes.length - 1]],
+  );
+
+  const tracks = useTrackStore.getState();
+  tracks.clearTracks();
+  for (const track of manifest.tracks) tracks.addTrack(track);
+
+  const stormPath = useStormPathStore.getState();
+  stormPath.clearPath();
+  for (const wp of manifest.stormPath) stormPath.addWaypoint(wp);
+
+  if (manifest.selectedSite) store.setSelectedSite(manifest.selectedSite);
+  store.setSegments(manifest.segments);
+  timeline.setFrameTimes(frameTimes);
+  store.setScanFiles(scanFiles);
+  store.setAvailableElevations([]);
+  store.setElevationIndex(0);
+
+  const site = manifest.selectedSite ?? manifest.segments[0]?.site;
+  const map = (window as any).__stormReplayMap;
+  if (map && site) {
+    map.flyTo({ center: [site.lon, site.lat], zoom: 8, duration: 1000 });
+  }
+}
+
+/* ── Helpers ──────────────────────────────────────────────────────── */
+
+async function readManifest(file: Blob): Promise<{ manifest: EventPackageManifest; dataStart: number }> {
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  if (header.length < HEADER_BYTES || MAGIC.some((b, i) => header[i] !== b)) {
+    throw new Error('Not a StormReplay event package');
+  }
+
+  const manifestLength = new DataView(header.buffer).getUint32(MAGIC.length, true);
+  const dataStart = HEADER_BYTES + manifestLength;
+  if (dataStart > file.size) throw new Error('Event package is truncated');
+
+  let manifest: EventPackageManifest;
+  try {
+    manifest = JSON.parse(await file.slice(HEADER_BYTES, dataStart).text());
+  } catch {
+    throw new Error('Event package is damaged');
+  }
+  if (manifest.format !== 'storm-replay-event') throw new Error('Not a StormReplay event package');
+  if (manifest.version > FORMAT_VERSION) {
+    throw new Error('Event package was saved by a newer version of StormReplay');
+  }
+
+  const last = manifest.scans[manifest.scans.length - 1];
+  if (last && dataStart + last.offset + last.length > file.size) {
+    throw new Error('Event package is truncated');
+  }
+  return { manifest, dataStart };
+}
+
+/** UTC ms → YYYYMMDD */
+function formatDate(ms: number): string {
+  const d = new Date(ms);
+  const y = d.getUTCFullYear();
+  const m = String(d.getUTCMonth() + 1).padStart(2, '0');
+  const day = String(d.getUTCDate()).padStart(2, '0');
+  return `${y}${m}${day}`;
+}
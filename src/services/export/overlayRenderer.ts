@@ -3,13 +3,18 @@
  *
  * Provides Canvas 2D drawing functions that reproduce the three React
  * map overlays (Storm Attributes, Radar Legend, Distance to Storm)
- * so they can be composited onto screenshots and animation frames.
+ * so they can be composited onto screenshots and animation frames, and
+ * redraws the range ring canvas (RangeRingLayer) beneath them.
  */
 
 import { useRadarStore, getActiveColorTable } from '../../stores/radarStore';
 import { getDistanceBearingData } from '../../components/map/DistanceBearingLayer';
+import { getRangeRingScreenGeometry, paintRangeRings } from '../../components/map/RangeRingLayer';
 import { valueToColor } from '../nexrad/renderLogic';
 import type { ColorStop } from '../nexrad/colorTables';
+import { kmToMiles } from '../../utils/geo';
+import type { TdsRegion } from '../nexrad/tdsDetection';
+import type { HailSummary } from '../nexrad/hailProducts';
 
 /* ── Theme constants (hardcoded — Canvas 2D can't use CSS vars) ───── */
 
@@ -22,15 +27,27 @@ const ACCENT = '#58a6ff';
 const COLOR_SEVERE = '#ff4444';
 const COLOR_VEL_IN = '#44cc44';
 const COLOR_VEL_OUT = '#ff6644';
+const COLOR_TDS = '#d07bff';
+const COLOR_HAIL = '#7fd4ff';
 const FONT_MONO = '"SF Mono", "Cascadia Code", "Fira Code", monospace';
 const FONT_SANS = '-apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif';
 
 const PRODUCT_UNITS: Record<string, string> = {
   REF: 'dBZ',
   VEL: 'm/s',
+  SRV: 'm/s',
   ZDR: 'dB',
   CC: '',
   KDP: '°/km',
+  SW: 'm/s',
+  PHI: '°',
+  CREF: 'dBZ',
+  ET18: 'kft',
+  ET30: 'kft',
+  VIL: 'kg/m²',
+  SHI: 'J/m/s',
+  POSH: '%',
+  MESH: 'in',
 };
 
 /* ── Types ────────────────────────────────────────────────────────── */
@@ -39,6 +56,8 @@ export interface OverlayOptions {
   showStormAttrs: boolean;
   showRadarLegend: boolean;
   showDistanceBearing: boolean;
+  /** Range rings are map-anchored, so they need no captured position */
+  showRangeRings: boolean;
 }
 
 /** Position and size of a DOM overlay element, in canvas pixel coordinates. */
@@ -131,6 +150,11 @@ export function drawOverlaysOntoContext(
   options: OverlayOptions,
   scale: number,
 ): void {
+  // Map-anchored geometry first, so the boxed overlays sit on top
+  if (options.showRangeRings) {
+    const rings = getRangeRingScreenGeometry();
+    if (rings) paintRangeRings(ctx, rings, scale);
+  }
   if (options.showRadarLegend && positions.radarLegend) {
     drawRadarLegendOverlay(ctx, positions.radarLegend, scale);
   }
@@ -179,6 +203,7 @@ function drawStormAttributesOverlay(
       typeof stats.gatesAbove60 === 'number' ? stats.gatesAbove60.toLocaleString() : '0',
       COLOR_SEVERE,
     ],
+    hailRow(stats.hail),
     [
       'Max In',
       typeof stats.maxInboundVel === 'number' ? `${stats.maxInboundVel.toFixed(1)} kts` : '—',
@@ -189,6 +214,12 @@ function drawStormAttributesOverlay(
       typeof stats.maxOutboundVel === 'number' ? `${stats.maxOutboundVel.toFixed(1)} kts` : '—',
       COLOR_VEL_OUT,
     ],
+    [
+      'Rotation',
+      Array.isArray(stats.rotation) && stats.rotation.length > 0 ? String(stats.rotation.length) : 'None',
+      TEXT_PRIMARY,
+    ],
+    tdsRow(stats.tds),
   ];
 
   const startY = rect.y + 24 * scale;
@@ -210,9 +241,44 @@ function drawStormAttributesOverlay(
     ctx.fillText(value, valueX, y);
   });
 
+  // Couplet list (matches the DOM overlay: strongest 3, two lines each)
+  const couplets = Array.isArray(stats.rotation) ? stats.rotation.slice(0, 3) : [];
+  let y = startY + rows.length * lineHeight + 6 * scale;
+  ctx.textAlign = 'left';
+  for (const c of couplets) {
+    ctx.font = `${11 * scale}px ${FONT_MONO}`;
+    ctx.fillStyle = COLOR_SEVERE;
+    const dv = `ΔV ${c.deltaV.toFixed(0)} m/s`;
+    ctx.fillText(dv, labelX, y);
+    ctx.fillStyle = TEXT_PRIMARY;
+    ctx.fillText(
+      ` ${c.diameterKm.toFixed(1)} km @ ${c.elevationAngle.toFixed(1)}°`,
+      labelX + ctx.measureText(dv).width,
+      y,
+    );
+    ctx.font = `${10 * scale}px ${FONT_MONO}`;
+    ctx.fillStyle = TEXT_MUTED;
+    ctx.fillText(`${kmToMiles(c.rangeKm).toFixed(0)} mi / ${Math.round(c.azimuth)}°`, labelX, y + 13 * scale);
+    y += 29 * scale;
+  }
+
   ctx.textAlign = 'left'; // reset
 }
 
+/** Max Hail row: volume MESH (inches) and POSH, when hail processing ran. */
+function hailRow(hail: HailSummary | undefined): [string, string, string] {
+  if (!hail || typeof hail.maxMeshIn !== 'number') return ['Max Hail', '—', TEXT_PRIMARY];
+  const posh = typeof hail.maxPosh === 'number' ? ` · ${Math.round(hail.maxPosh)}%` : '';
+  return ['Max Hail', `${hail.maxMeshIn.toFixed(2)}"${posh}`, COLOR_HAIL];
+}
+
+/** TDS row: lowest CC among the frame's debris signatures, if any. */
+function tdsRow(tds: TdsRegion[] | undefined): [string, string, string] {
+  if (!Array.isArray(tds) || tds.length === 0) return ['TDS', '—', TEXT_PRIMARY];
+  const minCC = Math.min(...tds.map((t) => t.minCC));
+  return ['TDS', `CC ${minCC.toFixed(2)}`, COLOR_TDS];
+}
+
 /* ── Distance & Bearing drawing ───────────────────────────────────── */
 
 function drawDistanceBearingOverlay(
@@ -393,7 +459,7 @@ function getVisibleRange(
   product: string,
 ): { minVal: number; maxVal: number } {
   let startIdx = 0;
-  if (product === 'REF') {
+  if (product === 'REF' || product === 'CREF') {
     startIdx = table.findIndex((s) => s.a > 0.5);
     if (startIdx < 0) startIdx = 0;
   }
@@ -406,14 +472,17 @@ function getVisibleRange(
 function computeTicks(minVal: number, maxVal: number, range: number): number[] {
   const targetTicks = 7;
   const rawStep = range / targetTicks;
-  const niceSteps = [5, 10, 15, 20, 25, 50];
+  // Fractional steps cover the narrow dual-pol ranges (CC spans ~0.2-1.05)
+  const niceSteps = [0.05, 0.1, 0.2, 0.25, 0.5, 1, 2, 2.5, 5, 10, 15, 20, 25, 50];
   const step = niceSteps.reduce((best, s) =>
     Math.abs(s - rawStep) < Math.abs(best - rawStep) ? s : best,
   );
   const ticks: number[] = [];
   const first = Math.ceil(minVal / step) * step;
-  for (let v = first; v <= maxVal; v += step) {
-    ticks.push(v);
+  // Derive each tick from its index and round, so fractional steps don't
+  // accumulate floating-point error (0.30000000000000004)
+  for (let i = 0; first + i * step <= maxVal + 1e-9; i++) {
+    ticks.push(Math.round((first + i * step) * 1000) / 1000);
   }
   return ticks;
 }
@@ -7,6 +7,8 @@
  * Storm) onto the image based on export store settings.
  *
  * Requires `preserveDrawingBuffer: true` on the MapLibre map instance.
+ *
+ * Also exports the vertical cross-section panel's canvas as-is.
  */
 
 import type maplibregl from 'maplibre-gl';
@@ -36,14 +38,15 @@ export async function exportScreenshot(
   const exportHeight = canvas.height;
 
   // Read overlay options from store
-  const { showStormAttrs, showRadarLegend, showDistanceBearing } =
+  const { showStormAttrs, showRadarLegend, showDistanceBearing, showRangeRings } =
     useExportStore.getState();
   const overlayOptions: OverlayOptions = {
     showStormAttrs,
     showRadarLegend,
     showDistanceBearing,
+    showRangeRings,
   };
-  const anyOverlays = showStormAttrs || showRadarLegend || showDistanceBearing;
+  const anyOverlays = showStormAttrs || showRadarLegend || showDistanceBearing || showRangeRings;
 
   let exportCanvas: HTMLCanvasElement;
   if (anyOverlays) {
@@ -74,6 +77,22 @@ export async function exportScreenshot(
   );
 }
 
+/**
+ * Download a rendered cross-section canvas as PNG.
+ *
+ * @param canvas - Cross-section panel canvas (axes and title already drawn)
+ * @param filename - Download filename (defaults to timestamped name)
+ */
+export async function exportCrossSection(
+  canvas: HTMLCanvasElement,
+  filename?: string,
+): Promise<void> {
+  const blob = await canvasToBlob(canvas);
+  const name = filename ?? `storm-replay-xsect-${formatTimestamp()}.png`;
+  downloadBlob(blob, name);
+  console.log(`[Export] Cross-section saved: ${name} (${canvas.width}×${canvas.height})`);
+}
+
 /** Wait for MapLibre to complete a render cycle. */
 function waitForRender(map: maplibregl.Map): Promise<void> {
   return new Promise((resolve) => {
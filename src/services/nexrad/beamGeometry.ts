@@ -0,0 +1,48 @@
+/**
+ * Radar beam geometry under the standard 4/3 effective-earth-radius model.
+ *
+ * Pure math, no DOM or parser dependencies — shared by the worker (volume
+ * gridding) and the main thread (readouts, overlays).
+ */
+
+/** 4/3 × mean earth radius (km) — standard atmospheric refraction model. */
+export const EFFECTIVE_EARTH_RADIUS_KM = (4 / 3) * 6371;
+
+const DEG2RAD = Math.PI / 180;
+
+/**
+ * Height of the beam centerline above the radar (km) at a slant range.
+ */
+export function beamHeightKm(slantKm: number, elevationDeg: number): number {
+  const re = EFFECTIVE_EARTH_RADIUS_KM;
+  const sinE = Math.sin(elevationDeg * DEG2RAD);
+  return Math.sqrt(slantKm * slantKm + re * re + 2 * slantKm * re * sinE) - re;
+}
+
+/**
+ * Distance along the ground (km) to the point beneath the beam at a slant range.
+ */
+export function groundRangeKm(slantKm: number, elevationDeg: number): number {
+  const re = EFFECTIVE_EARTH_RADIUS_KM;
+  const h = beamHeightKm(slantKm, elevationDeg);
+  return re * Math.asin((slantKm * Math.cos(elevationDeg * DEG2RAD)) / (re + h));
+}
+
+/**
+ * Slant range (km) at which a beam at `elevationDeg` is above a ground range.
+ * Inverse of groundRangeKm — used to sample sweeps on a ground-range grid.
+ */
+export function slantRangeForGroundKm(groundKm: number, elevationDeg: number): number {
+  const re = EFFECTIVE_EARTH_RADIUS_KM;
+  const phi = groundKm / re;
+  return (re * Math.sin(phi)) / Math.cos(elevationDeg * DEG2RAD + phi);
+}
+
+/**
+ * Beam height (km) above a ground range — convenience for column sampling.
+ */
+export function beamHeightAtGroundKm(groundKm: number, elevationDeg: number): number {
+  const re = EFFECTIVE_EARTH_RADIUS_KM;
+  const phi = groundKm / re;
+  return (re * Math.cos(elevationDeg * DEG2RAD)) / Math.cos(elevationDeg * DEG2RAD + phi) - re;
+}
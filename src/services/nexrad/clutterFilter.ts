@@ -0,0 +1,135 @@
+/**
+ * Reflectivity clutter and noise filtering.
+ *
+ * Three independent filters, applied in the worker before REF is encoded
+ * (and before cross-section / gate-readout sampling, which read the same
+ * moment data):
+ * - Minimum dBZ: gates below the threshold are dropped
+ * - Non-meteorological mask: gates whose correlation coefficient is below
+ *   CC_MASK_THRESHOLD (ground clutter, AP, biological targets, chaff) are
+ *   dropped — note this also removes debris signatures
+ * - Speckle removal: gates with fewer than SPECKLE_MIN_NEIGHBORS echo gates
+ *   among their eight neighbours (adjacent radials × adjacent gates) are
+ *   dropped; runs after the other two so their leftovers are cleaned up too
+ *
+ * The active filter is part of ProcessingOptions and folded into REF cache
+ * keys (FrameCache.makeKey), so changing it re-renders instead of reusing
+ * stale frames.
+ */
+
+export interface ClutterFilter {
+  /** Drop gates below this reflectivity (dBZ); null = off */
+  minDbz: number | null;
+  /** Drop isolated echo gates */
+  despeckle: boolean;
+  /** Drop gates with low correlation coefficient (non-meteorological echo) */
+  ccMask: boolean;
+}
+
+export const DEFAULT_CLUTTER_FILTER: ClutterFilter = {
+  minDbz: null,
+  despeckle: false,
+  ccMask: false,
+};
+
+/** Correlation coefficient below which an echo is treated as non-meteorological. */
+export const CC_MASK_THRESHOLD = 0.8;
+/** Echo neighbours (of 8) a gate needs to survive speckle removal. */
+const SPECKLE_MIN_NEIGHBORS = 2;
+
+/** Whether any filter is switched on. */
+export function isClutterFilterActive(filter: ClutterFilter | undefined): filter is ClutterFilter {
+  return !!filter && (filter.minDbz !== null || filter.despeckle || filter.ccMask);
+}
+
+/** Compact signature of an active filter, for cache keys. */
+export function clutterFilterSignature(filter: ClutterFilter): string {
+  return `${filter.minDbz ?? 'x'}-${filter.despeckle ? 1 : 0}-${filter.ccMask ? 1 : 0}`;
+}
+
+/**
+ * Filtered REF radials keyed by the parser's first REF radial object (stable
+ * for the lifetime of a parsed scan), so the render, cross-section and gate
+ * readout of one tilt share a single pass per filter setting.
+ */
+const filterCache = new WeakMap<object, { signature: string; radials: any[] }>();
+
+/**
+ * Apply the filter to one tilt's REF radials (parser shape). `ccRadials` is
+ * the same tilt's CC moment; the CC mask is skipped when it's missing or
+ * doesn't line up radial-for-radial. Returns new radials — the parsed scan
+ * is left untouched.
+ */
+export function filterReflectivity(refRadials: any[], ccRadials: any[] | null, filter: ClutterFilter): any[] {
+  const first = refRadials.find((r: any) => r != null);
+  const signature = clutterFilterSignature(filter);
+  const cached = first ? filterCache.get(first) : undefined;
+  if (cached && cached.signature === signature) return cached.radials;
+
+  const useCc = filter.ccMask && Array.isArray(ccRadials) && ccRadials.length === refRadials.length;
+
+  // Threshold + CC mask per gate
+  const out = refRadials.map((radial: any, i: number) => {
+    if (!radial?.moment_data) return radial;
+    const data: (number | null)[] = radial.moment_data;
+    const cc = useCc ? ccRadials![i] : null;
+    const filtered = new Array(data.length);
+    for (let g = 0; g < data.length; g++) {
+      const v = data[g];
+      if (v === null || v === undefined) {
+        filtered[g] = null;
+        continue;
+      }
+      if (filter.minDbz !== null && v < filter.minDbz) {
+        filtered[g] = null;
+        continue;
+      }
+      if (cc?.moment_data) {
+        const rangeKm = radial.first_gate + g * radial.gate_size;
+        const cg = Math.floor((rangeKm - cc.first_gate) / cc.gate_size);
+        const rho = cg >= 0 && cg < cc.moment_data.length ? cc.moment_data[cg] : null;
+        if (rho !== null && rho !== undefined && rho < CC_MASK_THRESHOLD) {
+          filtered[g] = null;
+          continue;
+        }
+      }
+      filtered[g] = v;
+    }
+    return { ...radial, moment_data: filtered };
+  });
+
+  const result = filter.despeckle ? despeckle(out) : out;
+  if (first) filterCache.set(first, { signature, radials: result });
+  return result;
+}
+
+/**
+ * Drop gates with too few echo neighbours. Radials are in scan order, so
+ * the previous / next radial (wrapping) are the azimuthal neighbours.
+ */
+function despeckle(radials: any[]): any[] {
+  const n = radials.length;
+  const has = (r: any, g: number) => {
+    const d = r?.moment_data;
+    return !!d && g >= 0 && g < d.length && d[g] !== null && d[g] !== undefined;
+  };
+
+  return radials.map((radial: any, i: number) => {
+    if (!radial?.moment_data) return radial;
+    const prev = radials[(i - 1 + n) % n];
+    const next = radials[(i + 1) % n];
+    const data: (number | null)[] = radial.moment_data;
+    const kept = data.slice();
+    for (let g = 0; g < data.length; g++) {
+      if (data[g] === null) continue;
+      let neighbors = 0;
+      for (let dg = -1; dg <= 1; dg++) {
+        if (has(prev, g + dg)) neighbors++;
+        if (has(next, g + dg)) neighbors++;
+        if (dg !== 0 && has(radial, g + dg)) neighbors++;
+      }
+      if (neighbors < SPECKLE_MIN_NEIGHBORS) kept[g] = null;
+    }
+    return { ...radial, moment_data: kept };
+  });
+}
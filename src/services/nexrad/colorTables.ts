@@ -71,6 +71,217 @@ export const VEL_COLOR_TABLE: ColorStop[] = [
   { value: 64, r: 255, g: 0, b: 0, a: 0.85 },
 ];
 
+/**
+ * Differential reflectivity (dB) color table.
+ * Near-zero ZDR (grays/white) flags tumbling hail and debris;
+ * high ZDR (reds/magentas) marks large drops along ZDR arcs.
+ * Range: -4 to +8 dB
+ */
+export const ZDR_COLOR_TABLE: ColorStop[] = [
+  { value: -4, r: 70, g: 70, b: 70, a: 0.85 },
+  { value: -2, r: 120, g: 120, b: 120, a: 0.85 },
+  { value: -1, r: 160, g: 160, b: 160, a: 0.85 },
+  { value: 0, r: 210, g: 210, b: 210, a: 0.85 },
+  { value: 0.5, r: 0, g: 0, b: 150, a: 0.85 },
+  { value: 1, r: 0, g: 90, b: 220, a: 0.85 },
+  { value: 1.5, r: 0, g: 170, b: 255, a: 0.85 },
+  { value: 2, r: 0, g: 200, b: 100, a: 0.85 },
+  { value: 2.5, r: 0, g: 230, b: 0, a: 0.85 },
+  { value: 3, r: 255, g: 255, b: 0, a: 0.85 },
+  { value: 4, r: 255, g: 180, b: 0, a: 0.85 },
+  { value: 5, r: 255, g: 100, b: 0, a: 0.85 },
+  { value: 6, r: 230, g: 0, b: 0, a: 0.85 },
+  { value: 7, r: 255, g: 0, b: 200, a: 0.85 },
+  { value: 8, r: 255, g: 255, b: 255, a: 0.85 },
+];
+
+/**
+ * Correlation coefficient (unitless) color table.
+ * Low CC (purples/blues, < 0.8) indicates non-meteorological scatterers
+ * such as lofted debris; pure rain sits in the 0.97-1.0 reds.
+ * Range: 0.2 to 1.05
+ */
+export const CC_COLOR_TABLE: ColorStop[] = [
+  { value: 0.2, r: 40, g: 0, b: 80, a: 0.85 },
+  { value: 0.45, r: 100, g: 0, b: 160, a: 0.85 },
+  { value: 0.6, r: 20, g: 20, b: 220, a: 0.85 },
+  { value: 0.7, r: 0, g: 140, b: 255, a: 0.85 },
+  { value: 0.75, r: 0, g: 200, b: 200, a: 0.85 },
+  { value: 0.8, r: 0, g: 220, b: 0, a: 0.85 },
+  { value: 0.85, r: 140, g: 230, b: 0, a: 0.85 },
+  { value: 0.9, r: 255, g: 255, b: 0, a: 0.85 },
+  { value: 0.93, r: 255, g: 170, b: 0, a: 0.85 },
+  { value: 0.95, r: 255, g: 80, b: 0, a: 0.85 },
+  { value: 0.97, r: 220, g: 0, b: 0, a: 0.85 },
+  { value: 0.99, r: 160, g: 0, b: 60, a: 0.85 },
+  { value: 1.02, r: 255, g: 200, b: 255, a: 0.85 },
+  { value: 1.05, r: 255, g: 255, b: 255, a: 0.85 },
+];
+
+/**
+ * Specific differential phase (°/km) color table.
+ * Near-zero KDP is transparent so only liquid-water-laden cores show.
+ * Range: -2 to +10 °/km
+ */
+export const KDP_COLOR_TABLE: ColorStop[] = [
+  { value: -2, r: 100, g: 100, b: 100, a: 0.6 },
+  { value: -0.5, r: 0, g: 0, b: 0, a: 0 },
+  { value: 0.5, r: 0, g: 90, b: 220, a: 0.85 },
+  { value: 1, r: 0, g: 170, b: 255, a: 0.85 },
+  { value: 1.5, r: 0, g: 200, b: 100, a: 0.85 },
+  { value: 2, r: 0, g: 230, b: 0, a: 0.85 },
+  { value: 3, r: 255, g: 255, b: 0, a: 0.85 },
+  { value: 4, r: 255, g: 170, b: 0, a: 0.85 },
+  { value: 5, r: 255, g: 80, b: 0, a: 0.85 },
+  { value: 6, r: 220, g: 0, b: 0, a: 0.85 },
+  { value: 8, r: 255, g: 0, b: 200, a: 0.85 },
+  { value: 10, r: 255, g: 255, b: 255, a: 0.85 },
+];
+
+/**
+ * Spectrum width (m/s) color table.
+ * Wide spectrum width (oranges/reds) highlights turbulence, shear zones
+ * and mesocyclone cores; low values are transparent.
+ * Range: 0 to 20+ m/s
+ */
+export const SW_COLOR_TABLE: ColorStop[] = [
+  { value: 0, r: 0, g: 0, b: 0, a: 0 },
+  { value: 1, r: 60, g: 60, b: 60, a: 0.6 },
+  { value: 2, r: 110, g: 110, b: 110, a: 0.85 },
+  { value: 4, r: 0, g: 120, b: 200, a: 0.85 },
+  { value: 6, r: 0, g: 200, b: 0, a: 0.85 },
+  { value: 8, r: 255, g: 255, b: 0, a: 0.85 },
+  { value: 10, r: 255, g: 170, b: 0, a: 0.85 },
+  { value: 12, r: 255, g: 80, b: 0, a: 0.85 },
+  { value: 15, r: 220, g: 0, b: 0, a: 0.85 },
+  { value: 20, r: 255, g: 0, b: 200, a: 0.85 },
+];
+
+/**
+ * Differential phase (degrees) color table.
+ * PHI accumulates with range through heavy rain, so a steep along-radial
+ * color progression marks attenuation-prone paths behind intense cores.
+ * Range: 0 to 360°
+ */
+export const PHI_COLOR_TABLE: ColorStop[] = [
+  { value: 0, r: 40, g: 0, b: 80, a: 0.85 },
+  { value: 30, r: 60, g: 20, b: 160, a: 0.85 },
+  { value: 60, r: 0, g: 80, b: 220, a: 0.85 },
+  { value: 90, r: 0, g: 170, b: 255, a: 0.85 },
+  { value: 120, r: 0, g: 200, b: 120, a: 0.85 },
+  { value: 150, r: 0, g: 230, b: 0, a: 0.85 },
+  { value: 180, r: 180, g: 240, b: 0, a: 0.85 },
+  { value: 210, r: 255, g: 255, b: 0, a: 0.85 },
+  { value: 240, r: 255, g: 170, b: 0, a: 0.85 },
+  { value: 270, r: 255, g: 80, b: 0, a: 0.85 },
+  { value: 300, r: 220, g: 0, b: 0, a: 0.85 },
+  { value: 330, r: 255, g: 0, b: 200, a: 0.85 },
+  { value: 360, r: 255, g: 255, b: 255, a: 0.85 },
+];
+
+/**
+ * Echo tops (kft) color table, shared by the 18 dBZ and 30 dBZ tops.
+ * Range: 0 to 70 kft
+ */
+export const ET_COLOR_TABLE: ColorStop[] = [
+  { value: 0, r: 0, g: 0, b: 0, a: 0 },
+  { value: 5, r: 100, g: 100, b: 100, a: 0.7 },
+  { value: 10, r: 0, g: 110, b: 200, a: 0.85 },
+  { value: 15, r: 0, g: 170, b: 255, a: 0.85 },
+  { value: 20, r: 0, g: 160, b: 0, a: 0.85 },
+  { value: 25, r: 0, g: 220, b: 0, a: 0.85 },
+  { value: 30, r: 255, g: 255, b: 0, a: 0.85 },
+  { value: 35, r: 230, g: 190, b: 0, a: 0.85 },
+  { value: 40, r: 255, g: 144, b: 0, a: 0.85 },
+  { value: 45, r: 255, g: 0, b: 0, a: 0.85 },
+  { value: 50, r: 190, g: 0, b: 0, a: 0.85 },
+  { value: 55, r: 255, g: 0, b: 255, a: 0.85 },
+  { value: 60, r: 150, g: 60, b: 200, a: 0.85 },
+  { value: 70, r: 255, g: 255, b: 255, a: 0.85 },
+];
+
+/**
+ * Vertically integrated liquid (kg/m²) color table.
+ * Range: 0 to 80 kg/m²
+ */
+export const VIL_COLOR_TABLE: ColorStop[] = [
+  { value: 0, r: 0, g: 0, b: 0, a: 0 },
+  { value: 1, r: 90, g: 90, b: 90, a: 0.6 },
+  { value: 5, r: 0, g: 120, b: 200, a: 0.85 },
+  { value: 10, r: 0, g: 180, b: 0, a: 0.85 },
+  { value: 15, r: 0, g: 240, b: 0, a: 0.85 },
+  { value: 20, r: 255, g: 255, b: 0, a: 0.85 },
+  { value: 30, r: 255, g: 170, b: 0, a: 0.85 },
+  { value: 40, r: 255, g: 0, b: 0, a: 0.85 },
+  { value: 50, r: 190, g: 0, b: 0, a: 0.85 },
+  { value: 60, r: 255, g: 0, b: 255, a: 0.85 },
+  { value: 70, r: 150, g: 60, b: 200, a: 0.85 },
+  { value: 80, r: 255, g: 255, b: 255, a: 0.85 },
+];
+
+/**
+ * Severe hail index (J m⁻¹ s⁻¹) color table.
+ * Range: 0 to 500 — weak values stay faint so hail cores stand out.
+ */
+export const SHI_COLOR_TABLE: ColorStop[] = [
+  { value: 0, r: 0, g: 0, b: 0, a: 0 },
+  { value: 5, r: 90, g: 90, b: 90, a: 0.5 },
+  { value: 20, r: 0, g: 150, b: 220, a: 0.8 },
+  { value: 50, r: 0, g: 200, b: 0, a: 0.85 },
+  { value: 100, r: 255, g: 255, b: 0, a: 0.85 },
+  { value: 150, r: 255, g: 150, b: 0, a: 0.85 },
+  { value: 250, r: 255, g: 0, b: 0, a: 0.85 },
+  { value: 350, r: 255, g: 0, b: 255, a: 0.85 },
+  { value: 500, r: 255, g: 255, b: 255, a: 0.85 },
+];
+
+/**
+ * Probability of severe hail (%) color table.
+ * Range: 0 to 100 — NWS-style 10 % steps, transparent below 10 %.
+ */
+export const POSH_COLOR_TABLE: ColorStop[] = [
+  { value: 0, r: 0, g: 0, b: 0, a: 0 },
+  { value: 10, r: 120, g: 120, b: 120, a: 0.6 },
+  { value: 30, r: 0, g: 160, b: 255, a: 0.85 },
+  { value: 50, r: 0, g: 200, b: 0, a: 0.85 },
+  { value: 70, r: 255, g: 255, b: 0, a: 0.85 },
+  { value: 80, r: 255, g: 150, b: 0, a: 0.85 },
+  { value: 90, r: 255, g: 0, b: 0, a: 0.85 },
+  { value: 100, r: 255, g: 0, b: 255, a: 0.85 },
+];
+
+/**
+ * Maximum estimated size of hail (inches) color table.
+ * Range: 0 to 4 in — the 1" severe threshold is where the colors turn warm.
+ */
+export const MESH_COLOR_TABLE: ColorStop[] = [
+  { value: 0, r: 0, g: 0, b: 0, a: 0 },
+  { value: 0.25, r: 90, g: 90, b: 90, a: 0.5 },
+  { value: 0.5, r: 0, g: 150, b: 220, a: 0.8 },
+  { value: 0.75, r: 0, g: 200, b: 0, a: 0.85 },
+  { value: 1, r: 255, g: 255, b: 0, a: 0.85 },
+  { value: 1.5, r: 255, g: 150, b: 0, a: 0.85 },
+  { value: 2, r: 255, g: 0, b: 0, a: 0.85 },
+  { value: 2.75, r: 255, g: 0, b: 255, a: 0.85 },
+  { value: 4, r: 255, g: 255, b: 255, a: 0.85 },
+];
+
+/**
+ * Rotation track (max cyclonic azimuthal shear, ×10⁻³ s⁻¹) color table.
+ * Range: 0 to 25 — weak shear stays transparent so tracks stand out.
+ */
+export const ROTATION_TRACK_COLOR_TABLE: ColorStop[] = [
+  { value: 0, r: 0, g: 0, b: 0, a: 0 },
+  { value: 4, r: 110, g: 110, b: 110, a: 0.5 },
+  { value: 6, r: 0, g: 160, b: 255, a: 0.8 },
+  { value: 8, r: 0, g: 210, b: 0, a: 0.85 },
+  { value: 10, r: 255, g: 255, b: 0, a: 0.9 },
+  { value: 13, r: 255, g: 150, b: 0, a: 0.9 },
+  { value: 16, r: 255, g: 0, b: 0, a: 0.9 },
+  { value: 20, r: 255, g: 0, b: 255, a: 0.9 },
+  { value: 25, r: 255, g: 255, b: 255, a: 0.9 },
+];
+
 // ── Built-in alternative palettes ────────────────────────────────────
 
 /**
@@ -160,6 +371,48 @@ export const BUILTIN_PALETTES: Record<string, Record<string, ColorStop[]>> = {
     'NWS Default': VEL_COLOR_TABLE,
     'Scope': VEL_SCOPE_TABLE,
   },
+  SRV: {
+    'NWS Default': VEL_COLOR_TABLE,
+    'Scope': VEL_SCOPE_TABLE,
+  },
+  ZDR: {
+    'NWS Default': ZDR_COLOR_TABLE,
+  },
+  CC: {
+    'NWS Default': CC_COLOR_TABLE,
+  },
+  KDP: {
+    'NWS Default': KDP_COLOR_TABLE,
+  },
+  SW: {
+    'NWS Default': SW_COLOR_TABLE,
+  },
+  PHI: {
+    'NWS Default': PHI_COLOR_TABLE,
+  },
+  CREF: {
+    'NWS Default': REF_COLOR_TABLE,
+    'Scope': REF_SCOPE_TABLE,
+    'Classic': REF_CLASSIC_TABLE,
+  },
+  ET18: {
+    'NWS Default': ET_COLOR_TABLE,
+  },
+  ET30: {
+    'NWS Default': ET_COLOR_TABLE,
+  },
+  VIL: {
+    'NWS Default': VIL_COLOR_TABLE,
+  },
+  SHI: {
+    'NWS Default': SHI_COLOR_TABLE,
+  },
+  POSH: {
+    'NWS Default': POSH_COLOR_TABLE,
+  },
+  MESH: {
+    'NWS Default': MESH_COLOR_TABLE,
+  },
 };
 
 /**
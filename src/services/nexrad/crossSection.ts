@@ -0,0 +1,141 @@
+/**
+ * Vertical cross-section sampling through a parsed radar volume.
+ *
+ * Runs in the worker against the cached ParsedRadarData. The user's line is
+ * split into evenly spaced columns; for each column and each tilt we find
+ * the gate above that ground point (4/3-earth beam geometry) and paint it
+ * over the height span of the beam (±half the 0.95° beamwidth). Where beams
+ * of adjacent tilts overlap, the tilt whose centerline is closest wins.
+ *
+ * The result is a row-major Float32Array (row 0 = top of the section,
+ * NaN = no data) that the main thread colors and annotates.
+ */
+
+import { getMomentData, type ParsedRadarData, type RadarProduct, type ProcessingOptions } from './renderLogic';
+import { slantRangeForGroundKm, beamHeightAtGroundKm } from './beamGeometry';
+import { buildAzimuthMap, azimuthBin } from './volumeProducts';
+import { haversineDistance, calculateBearing } from '../../utils/geo';
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+export interface CrossSectionResult {
+  /** width × height values, row-major, row 0 = maxHeightKm; NaN = no data */
+  values: Float32Array;
+  width: number;
+  height: number;
+  /** Length of the section line (km) */
+  distanceKm: number;
+  /** Height of the top row (km above radar level) */
+  maxHeightKm: number;
+  product: RadarProduct;
+  /** Volume timestamp (ms) */
+  timestamp: number;
+  /** Tilt angles (degrees) that contributed data */
+  elevations: number[];
+}
+
+/** Horizontal resolution: columns along the line. */
+export const CROSS_SECTION_WIDTH = 480;
+/** Vertical resolution: height bins. */
+export const CROSS_SECTION_HEIGHT = 240;
+/** Top of the section (km) — ~59 kft, above nearly all storm tops. */
+export const CROSS_SECTION_MAX_HEIGHT_KM = 18;
+
+/** WSR-88D half-power beamwidth (degrees). */
+const BEAM_WIDTH_DEG = 0.95;
+
+/**
+ * Sample a vertical cross-section from `start` to `end` through every tilt.
+ * Returns null when no tilt has data for the product.
+ */
+export function sampleCrossSection(
+  parsed: ParsedRadarData,
+  product: RadarProduct,
+  start: LatLon,
+  end: LatLon,
+  processing?: ProcessingOptions,
+): CrossSectionResult | null {
+  const { radar, elevations, elevationNumbers, trueCoords, timestamp } = parsed;
+  const width = CROSS_SECTION_WIDTH;
+  const height = CROSS_SECTION_HEIGHT;
+  const dz = CROSS_SECTION_MAX_HEIGHT_KM / height;
+
+  // Column geometry relative to the radar
+  const colGround = new Float64Array(width);
+  const colBin = new Int32Array(width);
+  for (let i = 0; i < width; i++) {
+    const t = (i + 0.5) / width;
+    const lat = start.lat + (end.lat - start.lat) * t;
+    const lon = start.lon + (end.lon - start.lon) * t;
+    colGround[i] = haversineDistance(trueCoords.lat, trueCoords.lon, lat, lon);
+    colBin[i] = azimuthBin(calculateBearing(trueCoords.lat, trueCoords.lon, lat, lon));
+  }
+
+  const values = new Float32Array(width * height).fill(NaN);
+  const bestDist = new Float32Array(width * height).fill(Infinity);
+  const used: number[] = [];
+
+  for (let e = 0; e < elevationNumbers.length; e++) {
+    const angle = elevations[e];
+    let radials: any[] | null;
+    let azimuths: number[];
+    try {
+      radar.setElevation(elevationNumbers[e]);
+      radials = getMomentData(radar, product, processing);
+      azimuths = radar.getAzimuth();
+    } catch {
+      continue;
+    }
+    if (!radials) continue;
+
+    const azMap = buildAzimuthMap(azimuths);
+    let contributed = false;
+
+    for (let i = 0; i < width; i++) {
+      const ri = azMap[colBin[i]];
+      const radial = ri >= 0 ? radials[ri] : null;
+      if (!radial?.moment_data) continue;
+
+      const ground = colGround[i];
+      const slant = slantRangeForGroundKm(ground, angle);
+      const gi = Math.floor((slant - radial.first_gate) / radial.gate_size);
+      if (gi < 0 || gi >= radial.gate_count) continue;
+      const v = radial.moment_data[gi];
+      if (v === null || v === undefined) continue;
+
+      const hCenter = beamHeightAtGroundKm(ground, angle);
+      const hLo = beamHeightAtGroundKm(ground, angle - BEAM_WIDTH_DEG / 2);
+      const hHi = beamHeightAtGroundKm(ground, angle + BEAM_WIDTH_DEG / 2);
+      const yLo = Math.max(0, Math.floor(hLo / dz));
+      const yHi = Math.min(height - 1, Math.ceil(hHi / dz));
+
+      for (let y = yLo; y <= yHi; y++) {
+        const d = Math.abs((y + 0.5) * dz - hCenter);
+        const idx = (height - 1 - y) * width + i;
+        if (d < bestDist[idx]) {
+          bestDist[idx] = d;
+          values[idx] = v;
+        }
+      }
+      contributed = true;
+    }
+
+    if (contributed) used.push(angle);
+  }
+
+  if (used.length === 0) return null;
+
+  return {
+    values,
+    width,
+    height,
+    distanceKm: haversineDistance(start.lat, start.lon, end.lat, end.lon),
+    maxHeightKm: CROSS_SECTION_MAX_HEIGHT_KM,
+    product,
+    timestamp,
+    elevations: used,
+  };
+}
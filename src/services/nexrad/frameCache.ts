@@ -1,131 +1,276 @@
 import type { RenderedFrame } from './types';
+import type { RadarProduct, ProcessingOptions } from './renderLogic';
+import { isVolumeProduct, isHailProduct } from './volumeProducts';
+import { clutterFilterSignature } from './clutterFilter';
+import { useScanCacheStore } from '../../stores/scanCacheStore';
+
+const MB = 1024 * 1024;
+
+/** Share of the memory budget given to decoded frames; raw scans get the rest */
+const FRAME_BUDGET_SHARE = 0.75;
+
+/** Rough per-frame overhead beyond the typed arrays (stats, markers, object) */
+const FRAME_OVERHEAD_BYTES = 1024;
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  budgetBytes: number;
+  /** Entries protected from eviction (current loop range) */
+  pinnedEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  bytes: number;
+  pinned: boolean;
+}
 
 /**
- * LRU cache for rendered radar frames (pre-computed blob URLs).
- *
- * Keys are formatted as `${scanKey}_${timestamp}_${product}_${elevation}_pv${paletteVersion}`.
- * On eviction, revokes the blob URL to release browser blob storage.
- *
- * Memory budget: Each entry is a blob URL string + ~100-300KB PNG in blob storage.
- * 250 entries ≈ 25-75 MB — much smaller than old ImageBitmap approach (12.3 MB each).
- * Sized to hold an entire event (typically 100-200 frames) for lag-free scrubbing.
+ * LRU map bounded by total byte size rather than entry count. Eviction
+ * takes the least-recently-used unpinned entries first; pinned entries only
+ * go once nothing unpinned is left to evict. The newest entry is always
+ * kept, even if it's larger than the whole budget.
  */
-export class FrameCache {
-  private cache = new Map<string, RenderedFrame>();
-  private maxSize: number;
+abstract class ByteBudgetCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private totalBytes = 0;
+  private budgetBytes: number;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
 
-  constructor(maxSize = 250) {
-    this.maxSize = maxSize;
+  constructor(budgetBytes: number) {
+    this.budgetBytes = budgetBytes;
   }
 
-  static makeKey(scanKeyOrSiteId: string, timestamp: number, product: string, elevation: number, paletteVersion = 0, smoothing: string = 'none', sweepIndex?: number): string {
-    const base = `${scanKeyOrSiteId}_${timestamp}_${product}_${elevation}_pv${paletteVersion}_sm${smoothing}`;
-    return sweepIndex !== undefined ? `${base}_sw${sweepIndex}` : base;
-  }
+  protected abstract sizeOf(value: T): number;
+  protected abstract isPinned(key: string): boolean;
 
-  get(key: string): RenderedFrame | undefined {
-    const frame = this.cache.get(key);
-    if (frame) {
-      // Move to end (most recently used)
-      this.cache.delete(key);
-      this.cache.set(key, frame);
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
     }
-    return frame;
+    // Move to end (most recently used)
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
   }
 
-  set(key: string, frame: RenderedFrame): void {
-    // If key already exists, revoke old blob URL and delete
-    if (this.cache.has(key)) {
-      const old = this.cache.get(key);
-      if (old?.blobUrl) URL.revokeObjectURL(old.blobUrl);
-      this.cache.delete(key);
-    }
-
-    // Evict oldest entries if at capacity
-    while (this.cache.size >= this.maxSize) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey !== undefined) {
-        const old = this.cache.get(oldestKey);
-        if (old?.blobUrl) URL.revokeObjectURL(old.blobUrl);
-        this.cache.delete(oldestKey);
-      }
-    }
-
-    this.cache.set(key, frame);
+  set(key: string, value: T): void {
+    this.remove(key);
+    const bytes = this.sizeOf(value);
+    this.evict(bytes);
+    this.entries.set(key, { value, bytes, pinned: this.isPinned(key) });
+    this.totalBytes += bytes;
   }
 
   has(key: string): boolean {
-    return this.cache.has(key);
+    return this.entries.has(key);
   }
 
   clear(): void {
-    // Revoke all blob URLs before clearing
-    for (const frame of this.cache.values()) {
-      if (frame?.blobUrl) URL.revokeObjectURL(frame.blobUrl);
-    }
-    this.cache.clear();
+    this.entries.clear();
+    this.totalBytes = 0;
+  }
+
+  /** Change the byte budget, evicting right away if it shrank. */
+  setBudget(budgetBytes: number): void {
+    this.budgetBytes = budgetBytes;
+    this.evict(0);
   }
 
   get size(): number {
-    return this.cache.size;
+    return this.entries.size;
+  }
+
+  get stats(): CacheStats {
+    let pinnedEntries = 0;
+    for (const entry of this.entries.values()) if (entry.pinned) pinnedEntries++;
+    return {
+      entries: this.entries.size,
+      bytes: this.totalBytes,
+      budgetBytes: this.budgetBytes,
+      pinnedEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  /** Re-evaluate every entry's pin after the pinned set changed. */
+  protected refreshPins(): void {
+    for (const [key, entry] of this.entries) entry.pinned = this.isPinned(key);
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+  }
+
+  private evict(incoming: number): void {
+    // Map iteration is oldest-first; deleting while iterating is safe
+    for (const evictPinned of [false, true]) {
+      for (const [key, entry] of this.entries) {
+        if (this.totalBytes + incoming <= this.budgetBytes) return;
+        if (entry.pinned !== evictPinned) continue;
+        this.remove(key);
+        this.evictions++;
+      }
+    }
   }
 }
 
 /**
- * LRU cache for raw scan ArrayBuffers to avoid re-downloading.
- * Each scan is ~1-8 MB (larger for dual-pol 2020+ data).
- * Cap at 15 entries ≈ 15-120 MB max. Kept moderate since raw scans
- * are only needed for re-render (product/palette switch), not display.
- * With SAILS, multiple sub-frames share the same S3 key, so effective
- * coverage is higher than the entry count suggests.
+ * LRU cache for decoded radar frames (polar moment data, see polarImage.ts).
+ *
+ * Keys are formatted as `${scanKey}_${timestamp}_${product}_${elevation}_pv${paletteVersion}`,
+ * with suffixes for SAILS sweep and any product-specific processing
+ * (e.g. the storm motion used for SRV, the REF clutter filters, rotation thresholds used for the markers, the freezing levels of the hail products). Volume products (CREF, echo tops, VIL, hail)
+ * are keyed per volume: elevation and sweep are replaced by `vol`.
+ * Palette and smoothing are applied by the GPU at draw time, so they are not
+ * part of the key — switching them reuses every cached frame.
+ *
+ * Memory budget: each entry is ~2 bytes per echo gate plus run markers for
+ * the empty stretches — typically 50-400KB, a few MB for a widespread-rain
+ * super-res tilt — and is charged at its typed arrays' byte length. Frames
+ * hold no blob URLs or GPU resources, so eviction just drops the reference.
+ * Frames of the scans in the current loop range are pinned (see
+ * pinScans), so a loop longer than the budget allows still keeps its own
+ * frames while other products and times are evicted around it.
  */
-export class RawScanCache {
-  private cache = new Map<string, ArrayBuffer>();
-  private maxSize: number;
+export class FrameCache extends ByteBudgetCache<RenderedFrame> {
+  /** `${scanKey}_${timestamp}_` of each pinned scan — the start of its frame keys */
+  private pinnedPrefixes = new Set<string>();
 
-  constructor(maxSize = 15) {
-    this.maxSize = maxSize;
+  constructor(budgetBytes = 384 * MB) {
+    super(budgetBytes);
   }
 
-  get(key: string): ArrayBuffer | undefined {
-    const buf = this.cache.get(key);
-    if (buf) {
-      // Move to end (most recently used)
-      this.cache.delete(key);
-      this.cache.set(key, buf);
+  static makeKey(scanKeyOrSiteId: string, timestamp: number, product: RadarProduct, elevation: number, paletteVersion = 0, sweepIndex?: number, processing?: ProcessingOptions): string {
+    const volume = isVolumeProduct(product);
+    let key = `${scanKeyOrSiteId}_${timestamp}_${product}_${volume ? 'vol' : elevation}_pv${paletteVersion}`;
+    if (sweepIndex !== undefined && !volume) key += `_sw${sweepIndex}`;
+    // Dealiasing changes VEL/SRV pixels and the velocity stats stored with every frame
+    if (processing?.dealias) key += '_da';
+    // Rotation thresholds change the couplet markers — only frames that store them carry the option
+    if (processing?.rotation) {
+      const { minShear, minDeltaV, maxDiameterKm } = processing.rotation;
+      key += `_rot${minShear}-${minDeltaV}-${maxDiameterKm}`;
+    }
+    // Freezing levels only change the hail products (hail markers are fetched per scan)
+    if (isHailProduct(product) && processing?.hail) {
+      const { zeroCKm, minus20CKm } = processing.hail;
+      key += `_fz${zeroCKm}-${minus20CKm}`;
+    }
+    // Only SRV depends on storm motion — other products keep their cached frames
+    if (product === 'SRV' && processing?.stormMotion) {
+      const { direction, speed } = processing.stormMotion;
+      key += `_mo${direction}-${speed}`;
     }
-    return buf;
+    // Clutter filters only touch REF pixels
+    if (product === 'REF' && processing?.clutter) {
+      key += `_cf${clutterFilterSignature(processing.clutter)}`;
+    }
+    return key;
   }
 
-  set(key: string, buffer: ArrayBuffer): void {
-    if (this.cache.has(key)) {
-      this.cache.delete(key);
-    }
+  /**
+   * Key for in-between frame `step` of `steps` following the frame at `key`.
+   * Inherits everything that made the source frame unique.
+   */
+  static makeInterpolatedKey(key: string, step: number, steps: number): string {
+    return `${key}_ip${step}of${steps}`;
+  }
 
-    // Evict oldest entries if at capacity
-    while (this.cache.size >= this.maxSize) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey !== undefined) {
-        this.cache.delete(oldestKey);
-      }
+  /**
+   * Pin every frame (any product, elevation or in-between step) of the given
+   * scans. Replaces the previous pinned set; pass [] to unpin.
+   */
+  pinScans(scans: { key: string; timestamp: number }[]): void {
+    this.pinnedPrefixes = new Set(scans.map((s) => `${s.key}_${s.timestamp}_`));
+    this.refreshPins();
+  }
+
+  protected sizeOf(frame: RenderedFrame): number {
+    return frame.image.encoded.byteLength + frame.image.azimuths.byteLength + FRAME_OVERHEAD_BYTES;
+  }
+
+  protected isPinned(key: string): boolean {
+    if (this.pinnedPrefixes.size === 0) return false;
+    // Scan keys contain underscores too, so try each one as the prefix end
+    for (let i = key.indexOf('_'); i !== -1; i = key.indexOf('_', i + 1)) {
+      if (this.pinnedPrefixes.has(key.slice(0, i + 1))) return true;
     }
+    return false;
+  }
+}
+
+/**
+ * LRU cache for raw scan ArrayBuffers to avoid re-downloading.
+ * Each scan is ~1-8 MB (larger for dual-pol 2020+ data) and is charged at
+ * its byteLength. Kept to a smaller share of the budget since raw scans
+ * are only needed for re-render (product/palette switch), not display.
+ * With SAILS, multiple sub-frames share the same S3 key, so one entry
+ * covers several frames. Scans in the loop range are pinned like frames.
+ */
+export class RawScanCache extends ByteBudgetCache<ArrayBuffer> {
+  private pinnedKeys = new Set<string>();
 
-    this.cache.set(key, buffer);
+  constructor(budgetBytes = 128 * MB) {
+    super(budgetBytes);
   }
 
-  has(key: string): boolean {
-    return this.cache.has(key);
+  /** Pin the given scan keys, replacing the previous set. */
+  pinKeys(keys: Iterable<string>): void {
+    this.pinnedKeys = new Set(keys);
+    this.refreshPins();
   }
 
-  clear(): void {
-    this.cache.clear();
+  protected sizeOf(buffer: ArrayBuffer): number {
+    return buffer.byteLength;
   }
 
-  get size(): number {
-    return this.cache.size;
+  protected isPinned(key: string): boolean {
+    return this.pinnedKeys.has(key);
   }
 }
 
+/* ── Budget ───────────────────────────────────────────────────────── */
+
+/**
+ * Memory budget in bytes for a scanCacheStore setting (0 = auto). Auto is
+ * an eighth of device RAM within 256 MB–1 GB; navigator.deviceMemory is
+ * Chromium-only (and capped at 8 GB), so elsewhere it's 512 MB.
+ */
+export function resolveMemoryBudget(setting: number): number {
+  if (setting > 0) return setting;
+  const deviceGb = typeof navigator !== 'undefined'
+    ? (navigator as Navigator & { deviceMemory?: number }).deviceMemory
+    : undefined;
+  if (!deviceGb) return 512 * MB;
+  return Math.min(1024 * MB, Math.max(256 * MB, (deviceGb * 1024 * MB) / 8));
+}
+
+function applyMemoryBudget(setting: number): void {
+  const budget = resolveMemoryBudget(setting);
+  frameCache.setBudget(Math.round(budget * FRAME_BUDGET_SHARE));
+  rawScanCache.setBudget(Math.round(budget * (1 - FRAME_BUDGET_SHARE)));
+}
+
 // Singleton instances
 export const frameCache = new FrameCache();
 export const rawScanCache = new RawScanCache();
+
+applyMemoryBudget(useScanCacheStore.getState().memoryBudgetBytes);
+useScanCacheStore.subscribe((state, prev) => {
+  if (state.memoryBudgetBytes !== prev.memoryBudgetBytes) applyMemoryBudget(state.memoryBudgetBytes);
+});
@@ -0,0 +1,303 @@
+/**
+ * Temporal frame interpolation: in-between frames for smooth playback.
+ *
+ * Consecutive volume scans are ~4-5 minutes apart, so storms jump from
+ * frame to frame. Given two decoded frames of the same product and site,
+ * this estimates where the echoes moved and synthesizes frames at evenly
+ * spaced times between them by advection:
+ *
+ *   1. Both frames are sampled onto a coarse Cartesian raster (CELL_KM) and
+ *      block-matched: each BLOCK_CELLS² block of the first frame is searched
+ *      ±SEARCH_CELLS in the second for the best match (mean absolute
+ *      difference of the normalized field). Echo-free blocks borrow their
+ *      neighbours' motion, then the field is smoothed.
+ *   2. For an in-between time t (0-1), each output gate at p looks back
+ *      along the motion to the first frame (p − t·d) and forward to the
+ *      second (p + (1 − t)·d) and blends the two values. Where only one side
+ *      has echo, the nearer frame in time wins — cells grow and decay
+ *      instead of cross-fading.
+ *
+ * Output frames use the first frame's polar geometry, so they render and
+ * cache exactly like decoded frames. Runs in the radar worker.
+ */
+
+import { decodePolarImage, encodePolarGrid, type PolarImage } from './polarImage';
+import { buildAzimuthMap, azimuthBin } from './volumeProducts';
+
+/** Upper bound on in-between frames per scan pair. */
+export const MAX_INTERPOLATED_FRAMES = 4;
+
+/** Motion raster cell size (km). */
+const CELL_KM = 2;
+/** Motion is estimated within this range of the radar (km); farther gates use the edge blocks. */
+const MAX_MOTION_RANGE_KM = 300;
+/** Block size for matching (cells) — 24 km blocks. */
+const BLOCK_CELLS = 12;
+/** Search radius (cells) — ±12 km per scan interval covers ~45 m/s storm motion. */
+const SEARCH_CELLS = 6;
+/** Blocks with less echo than this (fraction of cells) take their neighbours' motion. */
+const MIN_BLOCK_COVERAGE = 0.15;
+/** Normalized value of the weakest echo, so echo vs. no echo always costs something. */
+const ECHO_FLOOR = 0.1;
+
+interface MotionField {
+  /** Blocks per side */
+  size: number;
+  /** Raster half-width (km) */
+  halfKm: number;
+  /** Per-block displacement from the first frame to the second (km east / north) */
+  east: Float32Array;
+  north: Float32Array;
+}
+
+type Sampler = (eastKm: number, northKm: number) => number;
+
+/**
+ * Nearest-gate lookup into a frame at a flat east/north offset from the
+ * site. Returns NaN where the frame has no data.
+ */
+function makeSampler(image: PolarImage): Sampler {
+  const codes = decodePolarImage(image);
+  const azMap = buildAzimuthMap(Array.from(image.azimuths));
+  const { gateCount, firstGateKm, gateSizeKm, rangeKm, valueMin, valueStep } = image;
+  return (east, north) => {
+    const r = Math.sqrt(east * east + north * north);
+    if (r >= rangeKm || r < firstGateKm) return NaN;
+    const row = azMap[azimuthBin((Math.atan2(east, north) * 180) / Math.PI)];
+    if (row < 0) return NaN;
+    const g = Math.floor((r - firstGateKm) / gateSizeKm);
+    if (g >= gateCount) return NaN;
+    const code = codes[row * gateCount + g];
+    return code === 0 ? NaN : valueMin + (code - 1) * valueStep;
+  };
+}
+
+/** Highest value a frame can hold. */
+function valueMax(image: PolarImage): number {
+  return image.valueMin + 65534 * image.valueStep;
+}
+
+// ── Motion estimation ───────────────────────────────────────────────
+
+/**
+ * Sample a frame onto the motion raster, normalized to ECHO_FLOOR..1
+ * over [lo, lo + span] (0 = no echo). Row 0 is the northern edge.
+ */
+function rasterize(sample: Sampler, cells: number, halfKm: number, lo: number, span: number): Float32Array {
+  const out = new Float32Array(cells * cells);
+  for (let j = 0; j < cells; j++) {
+    const north = halfKm - (j + 0.5) * CELL_KM;
+    for (let i = 0; i < cells; i++) {
+      const v = sample(-halfKm + (i + 0.5) * CELL_KM, north);
+      if (v === v) out[j * cells + i] = ECHO_FLOOR + (1 - ECHO_FLOOR) * Math.min(1, Math.max(0, (v - lo) / span));
+    }
+  }
+  return out;
+}
+
+function estimateMotion(a: PolarImage, b: PolarImage, sampleA: Sampler, sampleB: Sampler): MotionField {
+  const blockKm = BLOCK_CELLS * CELL_KM;
+  const size = 2 * Math.ceil(Math.min(a.rangeKm, MAX_MOTION_RANGE_KM) / blockKm);
+  const halfKm = (size * blockKm) / 2;
+  const cells = size * BLOCK_CELLS;
+
+  const lo = Math.min(a.valueMin, b.valueMin);
+  const span = Math.max(valueMax(a), valueMax(b)) - lo || 1;
+  const fieldA = rasterize(sampleA, cells, halfKm, lo, span);
+  const fieldB = rasterize(sampleB, cells, halfKm, lo, span);
+
+  const east = new Float32Array(size * size).fill(NaN);
+  const north = new Float32Array(size * size).fill(NaN);
+  const minEcho = MIN_BLOCK_COVERAGE * BLOCK_CELLS * BLOCK_CELLS;
+
+  for (let by = 0; by < size; by++) {
+    for (let bx = 0; bx < size; bx++) {
+      const i0 = bx * BLOCK_CELLS;
+      const j0 = by * BLOCK_CELLS;
+
+      let echo = 0;
+      for (let j = j0; j < j0 + BLOCK_CELLS; j++) {
+        for (let i = i0; i < i0 + BLOCK_CELLS; i++) {
+          if (fieldA[j * cells + i] > 0) echo++;
+        }
+      }
+      if (echo < minEcho) continue;
+
+      let bestCost = Infinity;
+      let bestDx = 0;
+      let bestDy = 0;
+      for (let dy = -SEARCH_CELLS; dy <= SEARCH_CELLS; dy++) {
+        for (let dx = -SEARCH_CELLS; dx <= SEARCH_CELLS; dx++) {
+          let cost = 0;
+          let n = 0;
+          for (let j = j0; j < j0 + BLOCK_CELLS; j++) {
+            const jb = j + dy;
+            if (jb < 0 || jb >= cells) continue;
+            for (let i = i0; i < i0 + BLOCK_CELLS; i++) {
+              const ib = i + dx;
+              if (ib < 0 || ib >= cells) continue;
+              const va = fieldA[j * cells + i];
+              const vb = fieldB[jb * cells + ib];
+              if (va === 0 && vb === 0) continue;
+              cost += Math.abs(va - vb);
+              n++;
+            }
+          }
+          if (n === 0) continue;
+          // Slight preference for small displacements breaks ties on uniform echo
+          cost = (cost / n) * (1 + 0.02 * Math.hypot(dx, dy) / SEARCH_CELLS);
+          if (cost < bestCost) {
+            bestCost = cost;
+            bestDx = dx;
+            bestDy = dy;
+          }
+        }
+      }
+      east[by * size + bx] = bestDx * CELL_KM;
+      north[by * size + bx] = -bestDy * CELL_KM;
+    }
+  }
+
+  fillAndSmooth(east, north, size);
+  return { size, halfKm, east, north };
+}
+
+/**
+ * Fill echo-free blocks from their neighbours (growing outward), then
+ * smooth with one 3×3 mean pass so neighbouring cells don't tear apart.
+ */
+function fillAndSmooth(east: Float32Array, north: Float32Array, size: number): void {
+  let missing = 0;
+  for (let k = 0; k < east.length; k++) if (east[k] !== east[k]) missing++;
+  if (missing === east.length) {
+    east.fill(0);
+    north.fill(0);
+    return;
+  }
+
+  while (missing > 0) {
+    const fillE = east.slice();
+    const fillN = north.slice();
+    for (let by = 0; by < size; by++) {
+      for (let bx = 0; bx < size; bx++) {
+        const k = by * size + bx;
+        if (east[k] === east[k]) continue;
+        let se = 0;
+        let sn = 0;
+        let n = 0;
+        for (let y = Math.max(0, by - 1); y <= Math.min(size - 1, by + 1); y++) {
+          for (let x = Math.max(0, bx - 1); x <= Math.min(size - 1, bx + 1); x++) {
+            const e = east[y * size + x];
+            if (e !== e) continue;
+            se += e;
+            sn += north[y * size + x];
+            n++;
+          }
+        }
+        if (n > 0) {
+          fillE[k] = se / n;
+          fillN[k] = sn / n;
+          missing--;
+        }
+      }
+    }
+    east.set(fillE);
+    north.set(fillN);
+  }
+
+  const srcE = east.slice();
+  const srcN = north.slice();
+  for (let by = 0; by < size; by++) {
+    for (let bx = 0; bx < size; bx++) {
+      let se = 0;
+      let sn = 0;
+      let n = 0;
+      for (let y = Math.max(0, by - 1); y <= Math.min(size - 1, by + 1); y++) {
+        for (let x = Math.max(0, bx - 1); x <= Math.min(size - 1, bx + 1); x++) {
+          se += srcE[y * size + x];
+          sn += srcN[y * size + x];
+          n++;
+        }
+      }
+      east[by * size + bx] = se / n;
+      north[by * size + bx] = sn / n;
+    }
+  }
+}
+
+/** Bilinear motion between block centers (clamped at the raster edge). Writes [east, north] into out. */
+function motionAt(field: MotionField, eastKm: number, northKm: number, out: Float64Array): void {
+  const { size, halfKm } = field;
+  const blockKm = (2 * halfKm) / size;
+  const fx = Math.min(size - 1, Math.max(0, (eastKm + halfKm) / blockKm - 0.5));
+  const fy = Math.min(size - 1, Math.max(0, (halfKm - northKm) / blockKm - 0.5));
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(size - 1, x0 + 1);
+  const y1 = Math.min(size - 1, y0 + 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const k00 = y0 * size + x0;
+  const k01 = y0 * size + x1;
+  const k10 = y1 * size + x0;
+  const k11 = y1 * size + x1;
+  const w00 = (1 - tx) * (1 - ty);
+  const w01 = tx * (1 - ty);
+  const w10 = (1 - tx) * ty;
+  const w11 = tx * ty;
+  out[0] = field.east[k00] * w00 + field.east[k01] * w01 + field.east[k10] * w10 + field.east[k11] * w11;
+  out[1] = field.north[k00] * w00 + field.north[k01] * w01 + field.north[k10] * w10 + field.north[k11] * w11;
+}
+
+// ── Synthesis ───────────────────────────────────────────────────────
+
+/**
+ * Synthesize `count` frames evenly spaced in time between `from` and `to`
+ * (exclusive), in order. Both frames must come from the same site.
+ */
+export function interpolateFrames(from: PolarImage, to: PolarImage, count: number): PolarImage[] {
+  const n = Math.min(Math.max(0, Math.floor(count)), MAX_INTERPOLATED_FRAMES);
+  if (n === 0) return [];
+
+  const sampleA = makeSampler(from);
+  const sampleB = makeSampler(to);
+  const motion = estimateMotion(from, to, sampleA, sampleB);
+
+  const { radialCount, gateCount, firstGateKm, gateSizeKm, rangeKm, azimuths } = from;
+
+  // Gate positions and motion are the same for every in-between frame
+  const gateE = new Float32Array(radialCount * gateCount);
+  const gateN = new Float32Array(radialCount * gateCount);
+  const moveE = new Float32Array(radialCount * gateCount);
+  const moveN = new Float32Array(radialCount * gateCount);
+  const d = new Float64Array(2);
+  for (let row = 0; row < radialCount; row++) {
+    const az = (azimuths[row] * Math.PI) / 180;
+    const sin = Math.sin(az);
+    const cos = Math.cos(az);
+    for (let g = 0; g < gateCount; g++) {
+      const k = row * gateCount + g;
+      const r = firstGateKm + (g + 0.5) * gateSizeKm;
+      gateE[k] = r * sin;
+      gateN[k] = r * cos;
+      motionAt(motion, gateE[k], gateN[k], d);
+      moveE[k] = d[0];
+      moveN[k] = d[1];
+    }
+  }
+
+  const frames: PolarImage[] = [];
+  for (let step = 1; step <= n; step++) {
+    const t = step / (n + 1);
+    const values = new Float32Array(radialCount * gateCount).fill(NaN);
+    for (let k = 0; k < values.length; k++) {
+      const va = sampleA(gateE[k] - t * moveE[k], gateN[k] - t * moveN[k]);
+      const vb = sampleB(gateE[k] + (1 - t) * moveE[k], gateN[k] + (1 - t) * moveN[k]);
+      if (va === va && vb === vb) values[k] = va + (vb - va) * t;
+      else if (va === va && t < 0.5) values[k] = va;
+      else if (vb === vb && t >= 0.5) values[k] = vb;
+    }
+    frames.push(encodePolarGrid(values, gateCount, azimuths.slice(), firstGateKm, gateSizeKm, rangeKm));
+  }
+  return frames;
+}
@@ -0,0 +1,125 @@
+/**
+ * Single-gate lookup for the cursor readout.
+ *
+ * Runs in the worker against the cached ParsedRadarData. The cursor's
+ * lat/lon is converted to azimuth + ground range from the radar, then to
+ * slant range along the displayed tilt (4/3-earth beam geometry), and the
+ * gate under it is read from the same radials renderFromParsed draws —
+ * including the SAILS sweep remap, split-cut fallback and SRV/dealias
+ * processing — so the readout always matches the pixel under the mouse.
+ *
+ * Volume products are read from the ground-range grid instead; they have no
+ * single tilt, so slant range and beam height are omitted.
+ */
+
+import {
+  getMomentData,
+  resolveSweepElevation,
+  type ParsedRadarData,
+  type RadarProduct,
+  type ProcessingOptions,
+} from './renderLogic';
+import { isVolumeProduct, isHailProduct, getVolumeProducts, buildAzimuthMap, azimuthBin } from './volumeProducts';
+import { getHailProducts, DEFAULT_FREEZING_LEVELS } from './hailProducts';
+import { slantRangeForGroundKm, beamHeightKm } from './beamGeometry';
+import { haversineDistance, calculateBearing } from '../../utils/geo';
+import type { LatLon } from './crossSection';
+
+export interface GateQueryResult {
+  /** Gate value in product units; null = below threshold / no data */
+  value: number | null;
+  product: RadarProduct;
+  /** Azimuth from the radar to the query point (degrees true) */
+  azimuth: number;
+  /** Great-circle distance from the radar (km) */
+  groundRangeKm: number;
+  /** Distance along the beam (km); null for volume products */
+  slantRangeKm: number | null;
+  /** Beam centerline height above the radar (km); null for volume products */
+  beamHeightKm: number | null;
+  /** Tilt angle the value came from (degrees); null for volume products */
+  elevationAngle: number | null;
+  lat: number;
+  lon: number;
+}
+
+// SAILS detection walks every elevation and logs; memoize per volume so a
+// stream of hover queries doesn't repeat it.
+const sweepCache = new WeakMap<ParsedRadarData, Map<string, number>>();
+
+function resolveCached(parsed: ParsedRadarData, elevationNumber: number, sweepIndex?: number): number {
+  let byKey = sweepCache.get(parsed);
+  if (!byKey) {
+    byKey = new Map();
+    sweepCache.set(parsed, byKey);
+  }
+  const key = `${elevationNumber}_${sweepIndex ?? ''}`;
+  let resolved = byKey.get(key);
+  if (resolved === undefined) {
+    resolved = resolveSweepElevation(parsed.radar, elevationNumber, sweepIndex).elevationNumber;
+    byKey.set(key, resolved);
+  }
+  return resolved;
+}
+
+/** Read a gate value, mapping parser nulls/undefined to null. */
+function readGate(radial: any, rangeKm: number): number | null {
+  if (!radial?.moment_data) return null;
+  const gi = Math.floor((rangeKm - radial.first_gate) / radial.gate_size);
+  if (gi < 0 || gi >= radial.gate_count) return null;
+  const v = radial.moment_data[gi];
+  return v === null || v === undefined ? null : v;
+}
+
+/**
+ * Look up the gate under `point` on the displayed tilt/sweep of `product`.
+ * Returns null when the product has no data at this elevation.
+ */
+export function queryGate(
+  parsed: ParsedRadarData,
+  product: RadarProduct,
+  elevationNumber: number,
+  point: LatLon,
+  sweepIndex?: number,
+  processing?: ProcessingOptions,
+): GateQueryResult | null {
+  const { radar, trueCoords } = parsed;
+  const azimuth = calculateBearing(trueCoords.lat, trueCoords.lon, point.lat, point.lon);
+  const groundRangeKm = haversineDistance(trueCoords.lat, trueCoords.lon, point.lat, point.lon);
+  const base = { product, azimuth, groundRangeKm, lat: point.lat, lon: point.lon };
+
+  if (isVolumeProduct(product)) {
+    const grid = isHailProduct(product)
+      ? getHailProducts(parsed, processing?.hail ?? DEFAULT_FREEZING_LEVELS)
+      : getVolumeProducts(parsed);
+    if (!grid) return null;
+    const radials = (grid as Record<string, any>)[product] as any[];
+    const ri = buildAzimuthMap(grid.azimuths)[azimuthBin(azimuth)];
+    const value = ri >= 0 ? readGate(radials[ri], groundRangeKm) : null;
+    return { ...base, value, slantRangeKm: null, beamHeightKm: null, elevationAngle: null };
+  }
+
+  let elevNumber = resolveCached(parsed, elevationNumber, sweepIndex);
+  radar.setElevation(elevNumber);
+  let radials = getMomentData(radar, product, processing);
+  if (!radials && elevNumber < 17) {
+    elevNumber++;
+    radar.setElevation(elevNumber);
+    radials = getMomentData(radar, product, processing);
+  }
+  if (!radials) return null;
+
+  const azimuths: number[] = radar.getAzimuth();
+  const ri = buildAzimuthMap(azimuths)[azimuthBin(azimuth)];
+  const radial = ri >= 0 ? radials[ri] : null;
+  const elevationAngle: number = radar.data?.[elevNumber]?.[0]?.record?.elevation_angle ?? 0.5;
+
+  const slantRangeKm = slantRangeForGroundKm(groundRangeKm, elevationAngle);
+  return {
+    ...base,
+    value: readGate(radial, slantRangeKm),
+    slantRangeKm,
+    beamHeightKm: beamHeightKm(slantRangeKm, elevationAngle),
+    elevationAngle,
+  };
+}
@@ -0,0 +1,816 @@
+/**
+ * WebGL radar layer (MapLibre custom layer).
+ *
+ * Draws a PolarImage straight from its moment data: the frame is uploaded
+ * as a gateCount × radialCount texture of 16-bit codes, and a fragment
+ * shader maps every screen pixel back to (range, azimuth), reads the gate
+ * and colors it through a lookup-table texture built from the active color
+ * table. Gates stay crisp at any zoom, and palette / smoothing / opacity
+ * changes only touch a uniform or the LUT — no worker round-trip.
+ *
+ * Geometry matches the swath grids and the previous image-source renderer:
+ * flat east/north km from the site (east scaled by cos(site lat), north
+ * from true latitude), so overlays sampled the same way line up exactly.
+ *
+ * Textures (all NEAREST, CLAMP_TO_EDGE, so NPOT sizes work in WebGL1):
+ *   - data:      LUMINANCE_ALPHA, gateCount × radialCount, L = low byte, A = high byte
+ *   - azimuths:  LUMINANCE_ALPHA, radialCount × 1, azimuth × 100 as 16 bits
+ *   - azIndex:   LUMINANCE_ALPHA, AZ_BINS × 1, first row at or before each bin
+ *   - lut:       RGBA, LUT_SIZE × 1, straight alpha over [first stop, last stop]
+ *
+ * Shaders are GLSL ES 1.00 so they run on both WebGL1 and WebGL2 contexts.
+ *
+ * setClip() limits drawing to a vertical band of the canvas (scissor test),
+ * for the two-site swipe comparison.
+ *
+ * GridGlLayer draws a lat/lon value grid (the multi-radar mosaic) the same
+ * way: 16-bit codes in a data texture, colored through the same LUT, with
+ * nearest or null-aware bilinear sampling per the smoothing mode. Grid rows
+ * are evenly spaced in Mercator Y (swath.ts), so the grid maps linearly
+ * onto its quad.
+ */
+
+import type maplibregl from 'maplibre-gl';
+import { decodePolarImage, type PolarImage } from './polarImage';
+import type { SmoothingMode } from './renderLogic';
+import type { ColorStop } from './colorTables';
+import type { SwathGridSpec } from './swath';
+
+/** Horizontal band of the canvas to draw in, as fractions of its width (0 = left edge). */
+export interface RadarGlClip {
+  from: number;
+  to: number;
+}
+
+/** A decoded frame and where to draw it. */
+export interface RadarGlFrame {
+  image: PolarImage;
+  siteLat: number;
+  siteLon: number;
+}
+
+/** A lat/lon value grid quantized for GridGlLayer (see encodeGridFrame). */
+export interface GridGlFrame {
+  grid: SwathGridSpec;
+  /** Row-major width × height codes, 0 = no data */
+  codes: Uint16Array;
+  /** Value of code 1; code c decodes to valueMin + (c - 1) × valueStep */
+  valueMin: number;
+  valueStep: number;
+}
+
+const KM_PER_DEG_LAT = 111.32;
+/** Azimuth lookup bins (0.25° each) — the shader refines forward from the bin's row. */
+const AZ_BINS = 1440;
+/** Color lookup resolution across the color table's value range. */
+const LUT_SIZE = 2048;
+
+const SMOOTHING_CODE: Record<SmoothingMode, number> = { none: 0, low: 1, high: 2 };
+
+// ── Shaders ─────────────────────────────────────────────────────────
+
+/** 16-bit code decoding and LUT coloring, shared by both fragment shaders. */
+const SHADER_COMMON = `
+uniform sampler2D u_lut;
+uniform vec2 u_value;      // value of code 1, value step per code
+uniform vec2 u_lutRange;   // first / last color stop value
+uniform float u_opacity;
+
+const float LUT_SIZE = ${LUT_SIZE.toFixed(1)};
+
+float decode16(vec4 t) {
+  return floor(t.r * 255.0 + 0.5) + floor(t.a * 255.0 + 0.5) * 256.0;
+}
+
+/** Premultiplied color for a value; alpha 0 below the table or where it's transparent. */
+vec4 lutColor(float value) {
+  if (value < u_lutRange.x) return vec4(0.0);
+  float t = clamp((value - u_lutRange.x) / max(u_lutRange.y - u_lutRange.x, 1e-6), 0.0, 1.0);
+  vec4 color = texture2D(u_lut, vec2((floor(t * (LUT_SIZE - 1.0) + 0.5) + 0.5) / LUT_SIZE, 0.5));
+  return vec4(color.rgb * color.a, color.a) * u_opacity;
+}
+`;
+
+const VERTEX_SHADER = `
+attribute vec2 a_offset;
+uniform mat4 u_matrix;
+varying vec2 v_offset;
+
+void main() {
+  v_offset = a_offset;
+  gl_Position = u_matrix * vec4(a_offset, 0.0, 1.0);
+}
+`;
+
+const FRAGMENT_SHADER = `
+precision highp float;
+
+varying vec2 v_offset;
+
+uniform sampler2D u_data;
+uniform sampler2D u_azimuths;
+uniform sampler2D u_azIndex;
+uniform vec2 u_dataSize;   // gates, radials
+uniform vec3 u_gate;       // first gate km, gate size km, max range km
+uniform vec3 u_site;       // site Mercator y, site latitude, km per degree longitude
+uniform float u_smoothing; // 0 none, 1 low, 2 high
+${SHADER_COMMON}
+const float PI = 3.141592653589793;
+const float KM_PER_DEG_LAT = ${KM_PER_DEG_LAT.toFixed(2)};
+const float AZ_BINS = ${AZ_BINS.toFixed(1)};
+const float ASPECT_THRESHOLD = 2.0;
+const int MAX_EXTRA_SAMPLES = 4;
+
+float rowAzimuth(float row) {
+  return decode16(texture2D(u_azimuths, vec2((row + 0.5) / u_dataSize.y, 0.5))) / 100.0;
+}
+
+/** Clockwise angular distance from a to b (0-360). */
+float angDiff(float a, float b) {
+  return mod(b - a + 360.0, 360.0);
+}
+
+/** Rows bracketing azimuth az (with 360° wraparound) and the fraction between them. */
+vec3 bracket(float az) {
+  float n = u_dataSize.y;
+  float bin = min(floor(az / 360.0 * AZ_BINS), AZ_BINS - 1.0);
+  float lo = decode16(texture2D(u_azIndex, vec2((bin + 0.5) / AZ_BINS, 0.5)));
+  float hi = mod(lo + 1.0, n);
+  float azLo = rowAzimuth(lo);
+  float azHi = rowAzimuth(hi);
+  for (int i = 0; i < 3; i++) {
+    if (angDiff(azLo, az) < angDiff(azLo, azHi)) break;
+    lo = hi;
+    azLo = azHi;
+    hi = mod(lo + 1.0, n);
+    azHi = rowAzimuth(hi);
+  }
+  float gap = angDiff(azLo, azHi);
+  return vec3(lo, hi, gap > 0.0 ? angDiff(azLo, az) / gap : 0.0);
+}
+
+/** x = value, y = 1 when the gate has data. */
+vec2 gateValue(float row, float gate) {
+  if (gate < 0.0 || gate >= u_dataSize.x) return vec2(0.0);
+  vec2 uv = vec2((gate + 0.5) / u_dataSize.x, (row + 0.5) / u_dataSize.y);
+  float code = decode16(texture2D(u_data, uv));
+  if (code < 0.5) return vec2(0.0);
+  return vec2(u_value.x + (code - 1.0) * u_value.y, 1.0);
+}
+
+/**
+ * Bilinear interpolation in polar space with null-aware fallback — the
+ * weighted average of the valid corners, so echo edges fade instead of
+ * leaving holes.
+ */
+vec2 sampleBilinear(float az, float gf) {
+  vec3 b = bracket(az);
+  float g0 = floor(gf);
+  float gt = gf - g0;
+  vec2 v00 = gateValue(b.x, g0);
+  vec2 v01 = gateValue(b.x, g0 + 1.0);
+  vec2 v10 = gateValue(b.y, g0);
+  vec2 v11 = gateValue(b.y, g0 + 1.0);
+  float w00 = (1.0 - b.z) * (1.0 - gt) * v00.y;
+  float w01 = (1.0 - b.z) * gt * v01.y;
+  float w10 = b.z * (1.0 - gt) * v10.y;
+  float w11 = b.z * gt * v11.y;
+  float wSum = w00 + w01 + w10 + w11;
+  if (wSum <= 0.0) return vec2(0.0);
+  return vec2((v00.x * w00 + v01.x * w01 + v10.x * w10 + v11.x * w11) / wSum, 1.0);
+}
+
+/**
+ * Bilinear plus Gaussian-weighted azimuthal averaging where radials are
+ * much wider than gates are long (far range), smoothing the stair-steps.
+ */
+vec2 sampleAdaptive(float az, float gf, float rangeKm) {
+  float avgDeltaAz = 360.0 / u_dataSize.y;
+  float aspect = rangeKm * avgDeltaAz * (PI / 180.0) / u_gate.y;
+  vec2 center = sampleBilinear(az, gf);
+  if (aspect <= ASPECT_THRESHOLD) return center;
+
+  float numExtra = min(ceil((aspect - ASPECT_THRESHOLD) / 2.0), float(MAX_EXTRA_SAMPLES));
+  float sigma = avgDeltaAz / 3.0;
+  float invTwoSigmaSq = 1.0 / (2.0 * sigma * sigma);
+  float azStep = avgDeltaAz / (numExtra + 1.0);
+
+  float vSum = center.x * center.y;
+  float wSum = center.y;
+  for (int i = 1; i <= MAX_EXTRA_SAMPLES; i++) {
+    if (float(i) > numExtra) break;
+    float offset = float(i) * azStep;
+    float w = exp(-(offset * offset) * invTwoSigmaSq);
+    vec2 vp = sampleBilinear(mod(az + offset, 360.0), gf);
+    vec2 vm = sampleBilinear(mod(az - offset + 360.0, 360.0), gf);
+    vSum += (vp.x * vp.y + vm.x * vm.y) * w;
+    wSum += (vp.y + vm.y) * w;
+  }
+  return wSum > 0.0 ? vec2(vSum / wSum, 1.0) : vec2(0.0);
+}
+
+void main() {
+  // Mercator offset from the site → flat east/north km
+  float east = v_offset.x * 360.0 * u_site.z;
+  float lat = degrees(2.0 * atan(exp(PI * (1.0 - 2.0 * (u_site.x + v_offset.y)))) - PI / 2.0);
+  float north = (lat - u_site.y) * KM_PER_DEG_LAT;
+  float rangeKm = length(vec2(east, north));
+  if (rangeKm > u_gate.z || rangeKm < u_gate.x) discard;
+
+  float az = degrees(atan(east, north));
+  if (az < 0.0) az += 360.0;
+  float gf = (rangeKm - u_gate.x) / u_gate.y;
+
+  vec2 v;
+  if (u_smoothing < 0.5) {
+    vec3 b = bracket(az);
+    v = gateValue(b.z < 0.5 ? b.x : b.y, floor(gf));
+  } else if (u_smoothing < 1.5) {
+    v = sampleBilinear(az, gf);
+  } else {
+    v = sampleAdaptive(az, gf, rangeKm);
+  }
+  if (v.y < 0.5) discard;
+
+  vec4 color = lutColor(v.x);
+  if (color.a <= 0.0) discard;
+  gl_FragColor = color;
+}
+`;
+
+const GRID_FRAGMENT_SHADER = `
+precision highp float;
+
+varying vec2 v_offset;     // Mercator offset from the grid's NW corner
+
+uniform sampler2D u_data;
+uniform vec2 u_dataSize;   // columns, rows
+uniform vec2 u_extent;     // grid width, height in Mercator units
+uniform float u_smoothing; // 0 none, else bilinear
+${SHADER_COMMON}
+/** x = value, y = 1 when the cell has data. */
+vec2 cellValue(float col, float row) {
+  if (col < 0.0 || row < 0.0 || col >= u_dataSize.x || row >= u_dataSize.y) return vec2(0.0);
+  float code = decode16(texture2D(u_data, (vec2(col, row) + 0.5) / u_dataSize));
+  if (code < 0.5) return vec2(0.0);
+  return vec2(u_value.x + (code - 1.0) * u_value.y, 1.0);
+}
+
+void main() {
+  vec2 cell = v_offset / u_extent * u_dataSize;
+
+  vec2 v;
+  if (u_smoothing < 0.5) {
+    v = cellValue(floor(cell.x), floor(cell.y));
+  } else {
+    // Null-aware bilinear between cell centers, like the radar layer's
+    vec2 p = cell - 0.5;
+    vec2 p0 = floor(p);
+    vec2 f = p - p0;
+    vec2 v00 = cellValue(p0.x, p0.y);
+    vec2 v10 = cellValue(p0.x + 1.0, p0.y);
+    vec2 v01 = cellValue(p0.x, p0.y + 1.0);
+    vec2 v11 = cellValue(p0.x + 1.0, p0.y + 1.0);
+    float w00 = (1.0 - f.x) * (1.0 - f.y) * v00.y;
+    float w10 = f.x * (1.0 - f.y) * v10.y;
+    float w01 = (1.0 - f.x) * f.y * v01.y;
+    float w11 = f.x * f.y * v11.y;
+    float wSum = w00 + w10 + w01 + w11;
+    v = wSum > 0.0
+      ? vec2((v00.x * w00 + v10.x * w10 + v01.x * w01 + v11.x * w11) / wSum, 1.0)
+      : vec2(0.0);
+  }
+  if (v.y < 0.5) discard;
+
+  vec4 color = lutColor(v.x);
+  if (color.a <= 0.0) discard;
+  gl_FragColor = color;
+}
+`;
+
+// ── Texture builders ────────────────────────────────────────────────
+
+/**
+ * Color table → RGBA lookup over [first stop, last stop]. Stepped (largest
+ * stop ≤ value, like valueToColor) without smoothing; interpolated (like
+ * valueToRGBA) with it, so smoothed fields get smooth gradients.
+ */
+function buildLut(table: ColorStop[], interpolate: boolean): { pixels: Uint8Array; min: number; max: number } {
+  const pixels = new Uint8Array(LUT_SIZE * 4);
+  if (table.length === 0) return { pixels, min: 0, max: 1 };
+  const min = table[0].value;
+  const max = table[table.length - 1].value;
+  const span = max - min;
+
+  let lo = 0;
+  for (let i = 0; i < LUT_SIZE; i++) {
+    const value = span > 0 ? min + (i / (LUT_SIZE - 1)) * span : min;
+    while (lo < table.length - 1 && table[lo + 1].value <= value) lo++;
+    const a = table[lo];
+    const b = table[Math.min(lo + 1, table.length - 1)];
+    const range = b.value - a.value;
+    const t = interpolate && range > 0 ? Math.min(1, Math.max(0, (value - a.value) / range)) : 0;
+    pixels[i * 4] = Math.round(a.r + (b.r - a.r) * t);
+    pixels[i * 4 + 1] = Math.round(a.g + (b.g - a.g) * t);
+    pixels[i * 4 + 2] = Math.round(a.b + (b.b - a.b) * t);
+    pixels[i * 4 + 3] = Math.round((a.a + (b.a - a.a) * t) * 255);
+  }
+  return { pixels, min, max: span > 0 ? max : min + 1 };
+}
+
+/** Sorted row azimuths as 16-bit centidegrees. */
+function buildAzimuthCodes(azimuths: Float32Array): Uint16Array {
+  const codes = new Uint16Array(azimuths.length);
+  for (let i = 0; i < azimuths.length; i++) {
+    const az = ((azimuths[i] % 360) + 360) % 360;
+    codes[i] = Math.min(35999, Math.round(az * 100));
+  }
+  return codes;
+}
+
+/**
+ * For each AZ_BINS bin, the last row whose azimuth is at or before the bin
+ * start (wrapping to the last row before the first radial).
+ */
+function buildAzimuthIndex(azimuths: Float32Array): Uint16Array {
+  const index = new Uint16Array(AZ_BINS);
+  const n = azimuths.length;
+  let row = -1;
+  for (let bin = 0; bin < AZ_BINS; bin++) {
+    const start = (bin * 360) / AZ_BINS;
+    while (row + 1 < n && azimuths[row + 1] <= start) row++;
+    index[bin] = row < 0 ? n - 1 : row;
+  }
+  return index;
+}
+
+function asBytes(data: Uint16Array): Uint8Array {
+  return new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+}
+
+function latToMercatorY(lat: number): number {
+  const rad = (lat * Math.PI) / 180;
+  return (1 - Math.log(Math.tan(Math.PI / 4 + rad / 2)) / Math.PI) / 2;
+}
+
+/**
+ * The map's projection matrix translated to a Mercator anchor. The anchor
+ * is folded in in double precision, so the float32 vertex offsets stay
+ * small and gates don't jitter at high zoom.
+ */
+function anchoredMatrix(options: maplibregl.CustomRenderMethodInput, x: number, y: number): Float32Array {
+  const m = options.defaultProjectionData.mainMatrix;
+  const matrix = new Float32Array(16);
+  for (let i = 0; i < 16; i++) matrix[i] = m[i];
+  for (let r = 0; r < 4; r++) matrix[12 + r] = m[r] * x + m[4 + r] * y + m[12 + r];
+  return matrix;
+}
+
+/**
+ * Quantize a value grid (NaN = no data) to 16-bit codes over its own value
+ * range, the same scheme PolarImage uses. Half the size of the floats, so
+ * callers can keep recent grids around.
+ */
+export function encodeGridFrame(values: Float32Array, grid: SwathGridSpec): GridGlFrame {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (v !== v) continue; // NaN
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min === Infinity) {
+    min = 0;
+    max = 0;
+  }
+
+  const valueStep = max > min ? (max - min) / 0xfffe : 1;
+  const codes = new Uint16Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (v === v) codes[i] = 1 + Math.round((v - min) / valueStep);
+  }
+  return { grid, codes, valueMin: min, valueStep };
+}
+
+// ── Layer ───────────────────────────────────────────────────────────
+
+type GL = WebGLRenderingContext | WebGL2RenderingContext;
+
+interface GlResources {
+  program: WebGLProgram;
+  quad: WebGLBuffer;
+  data: WebGLTexture;
+  azimuths: WebGLTexture;
+  azIndex: WebGLTexture;
+  lut: WebGLTexture;
+  aOffset: number;
+  uniforms: Record<string, WebGLUniformLocation | null>;
+}
+
+const UNIFORMS = [
+  'u_matrix', 'u_data', 'u_azimuths', 'u_azIndex', 'u_lut', 'u_dataSize',
+  'u_gate', 'u_value', 'u_lutRange', 'u_site', 'u_smoothing', 'u_opacity',
+];
+
+/**
+ * The radar frame as a MapLibre custom layer. Add it once; swap frames with
+ * setFrame() and restyle with setColorTable() / setSmoothing() /
+ * setOpacity(). Texture uploads are deferred to render(), where MapLibre
+ * expects GL state to be touched.
+ */
+export class RadarGlLayer implements maplibregl.CustomLayerInterface {
+  readonly id: string;
+  readonly type = 'custom' as const;
+  readonly renderingMode = '2d' as const;
+
+  private map: maplibregl.Map | null = null;
+  private res: GlResources | null = null;
+
+  private frame: RadarGlFrame | null = null;
+  private decoded: Uint16Array | null = null;
+  private colorTable: ColorStop[] = [];
+  private smoothing: SmoothingMode = 'none';
+  private opacity = 1;
+  private lutRange = { min: 0, max: 1 };
+  private clip: RadarGlClip | null = null;
+
+  private frameDirty = false;
+  private lutDirty = false;
+
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  // ── Public setters ──
+
+  setFrame(frame: RadarGlFrame): void {
+    this.frame = frame;
+    this.decoded = decodePolarImage(frame.image, this.decoded ?? undefined);
+    this.frameDirty = true;
+    this.map?.triggerRepaint();
+  }
+
+  setColorTable(table: ColorStop[]): void {
+    if (table === this.colorTable) return;
+    this.colorTable = table;
+    this.lutDirty = true;
+    this.map?.triggerRepaint();
+  }
+
+  setSmoothing(mode: SmoothingMode): void {
+    if (mode === this.smoothing) return;
+    // Stepped vs interpolated LUT follows the smoothing mode
+    if ((mode === 'none') !== (this.smoothing === 'none')) this.lutDirty = true;
+    this.smoothing = mode;
+    this.map?.triggerRepaint();
+  }
+
+  setOpacity(opacity: number): void {
+    if (opacity === this.opacity) return;
+    this.opacity = opacity;
+    this.map?.triggerRepaint();
+  }
+
+  setClip(clip: RadarGlClip | null): void {
+    if (clip?.from === this.clip?.from && clip?.to === this.clip?.to) return;
+    this.clip = clip;
+    this.map?.triggerRepaint();
+  }
+
+  // ── CustomLayerInterface ──
+
+  onAdd(map: maplibregl.Map, gl: GL): void {
+    this.map = map;
+    const program = linkProgram(gl, VERTEX_SHADER, FRAGMENT_SHADER);
+    const uniforms: GlResources['uniforms'] = {};
+    for (const name of UNIFORMS) uniforms[name] = gl.getUniformLocation(program, name);
+    this.res = {
+      program,
+      quad: gl.createBuffer()!,
+      data: createTexture(gl),
+      azimuths: createTexture(gl),
+      azIndex: createTexture(gl),
+      lut: createTexture(gl),
+      aOffset: gl.getAttribLocation(program, 'a_offset'),
+      uniforms,
+    };
+    // Fresh GL objects — everything must be uploaded again
+    this.frameDirty = this.frame !== null;
+    this.lutDirty = true;
+  }
+
+  onRemove(_map: maplibregl.Map, gl: GL): void {
+    const res = this.res;
+    if (res) {
+      gl.deleteProgram(res.program);
+      gl.deleteBuffer(res.quad);
+      for (const tex of [res.data, res.azimuths, res.azIndex, res.lut]) gl.deleteTexture(tex);
+    }
+    this.res = null;
+    this.map = null;
+  }
+
+  render(gl: GL, options: maplibregl.CustomRenderMethodInput): void {
+    const res = this.res;
+    const frame = this.frame;
+    if (!res || !frame || !this.decoded || this.colorTable.length === 0) return;
+    const { image, siteLat, siteLon } = frame;
+
+    if (this.frameDirty || this.lutDirty) this.upload(gl, res);
+
+    // Quad covering the range circle, as Mercator offsets from the site
+    const siteX = (siteLon + 180) / 360;
+    const siteY = latToMercatorY(siteLat);
+    const kmPerDegLon = KM_PER_DEG_LAT * Math.cos((siteLat * Math.PI) / 180);
+    const dLat = image.rangeKm / KM_PER_DEG_LAT;
+    const dx = image.rangeKm / kmPerDegLon / 360;
+    const north = latToMercatorY(siteLat + dLat) - siteY;
+    const south = latToMercatorY(siteLat - dLat) - siteY;
+
+    gl.useProgram(res.program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, res.quad);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-dx, north, dx, north, -dx, south, dx, south]), gl.DYNAMIC_DRAW);
+    gl.enableVertexAttribArray(res.aOffset);
+    gl.vertexAttribPointer(res.aOffset, 2, gl.FLOAT, false, 0, 0);
+
+    const u = res.uniforms;
+    gl.uniformMatrix4fv(u.u_matrix, false, anchoredMatrix(options, siteX, siteY));
+    gl.uniform2f(u.u_dataSize, image.gateCount, image.radialCount);
+    gl.uniform3f(u.u_gate, image.firstGateKm, image.gateSizeKm, image.rangeKm);
+    gl.uniform2f(u.u_value, image.valueMin, image.valueStep);
+    gl.uniform2f(u.u_lutRange, this.lutRange.min, this.lutRange.max);
+    gl.uniform3f(u.u_site, siteY, siteLat, kmPerDegLon);
+    gl.uniform1f(u.u_smoothing, SMOOTHING_CODE[this.smoothing]);
+    gl.uniform1f(u.u_opacity, this.opacity);
+
+    const textures: [WebGLTexture, string][] = [
+      [res.data, 'u_data'],
+      [res.azimuths, 'u_azimuths'],
+      [res.azIndex, 'u_azIndex'],
+      [res.lut, 'u_lut'],
+    ];
+    textures.forEach(([tex, name], unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, tex);
+      gl.uniform1i(u[name], unit);
+    });
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.STENCIL_TEST);
+    if (this.clip) {
+      const width = gl.drawingBufferWidth;
+      const x0 = Math.round(Math.max(0, this.clip.from) * width);
+      const x1 = Math.round(Math.min(1, this.clip.to) * width);
+      gl.enable(gl.SCISSOR_TEST);
+      gl.scissor(x0, 0, Math.max(0, x1 - x0), gl.drawingBufferHeight);
+    }
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    if (this.clip) gl.disable(gl.SCISSOR_TEST);
+    gl.disableVertexAttribArray(res.aOffset);
+  }
+
+  // ── Private ──
+
+  private upload(gl: GL, res: GlResources): void {
+    const prevAlignment = gl.getParameter(gl.UNPACK_ALIGNMENT);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+
+    if (this.frameDirty && this.frame && this.decoded) {
+      const { image } = this.frame;
+      gl.bindTexture(gl.TEXTURE_2D, res.data);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.LUMINANCE_ALPHA, image.gateCount, image.radialCount, 0,
+        gl.LUMINANCE_ALPHA, gl.UNSIGNED_BYTE, asBytes(this.decoded));
+      gl.bindTexture(gl.TEXTURE_2D, res.azimuths);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.LUMINANCE_ALPHA, image.radialCount, 1, 0,
+        gl.LUMINANCE_ALPHA, gl.UNSIGNED_BYTE, asBytes(buildAzimuthCodes(image.azimuths)));
+      gl.bindTexture(gl.TEXTURE_2D, res.azIndex);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.LUMINANCE_ALPHA, AZ_BINS, 1, 0,
+        gl.LUMINANCE_ALPHA, gl.UNSIGNED_BYTE, asBytes(buildAzimuthIndex(image.azimuths)));
+      this.frameDirty = false;
+    }
+
+    if (this.lutDirty) {
+      const lut = buildLut(this.colorTable, this.smoothing !== 'none');
+      gl.bindTexture(gl.TEXTURE_2D, res.lut);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, LUT_SIZE, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, lut.pixels);
+      this.lutRange = { min: lut.min, max: lut.max };
+      this.lutDirty = false;
+    }
+
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, prevAlignment);
+  }
+}
+
+const GRID_UNIFORMS = [
+  'u_matrix', 'u_data', 'u_lut', 'u_dataSize', 'u_extent',
+  'u_value', 'u_lutRange', 'u_smoothing', 'u_opacity',
+];
+
+interface GridGlResources {
+  program: WebGLProgram;
+  quad: WebGLBuffer;
+  data: WebGLTexture;
+  lut: WebGLTexture;
+  aOffset: number;
+  uniforms: Record<string, WebGLUniformLocation | null>;
+}
+
+/**
+ * A lat/lon value grid as a MapLibre custom layer, colored like
+ * RadarGlLayer. Swap grids with setGrid(); restyling works the same way.
+ */
+export class GridGlLayer implements maplibregl.CustomLayerInterface {
+  readonly id: string;
+  readonly type = 'custom' as const;
+  readonly renderingMode = '2d' as const;
+
+  private map: maplibregl.Map | null = null;
+  private res: GridGlResources | null = null;
+
+  private frame: GridGlFrame | null = null;
+  private colorTable: ColorStop[] = [];
+  private smoothing: SmoothingMode = 'none';
+  private opacity = 1;
+  private lutRange = { min: 0, max: 1 };
+
+  private frameDirty = false;
+  private lutDirty = false;
+
+  constructor(id: string) {
+    this.id = id;
+  }
+
+  // ── Public setters ──
+
+  setGrid(frame: GridGlFrame): void {
+    if (frame === this.frame) return;
+    this.frame = frame;
+    this.frameDirty = true;
+    this.map?.triggerRepaint();
+  }
+
+  setColorTable(table: ColorStop[]): void {
+    if (table === this.colorTable) return;
+    this.colorTable = table;
+    this.lutDirty = true;
+    this.map?.triggerRepaint();
+  }
+
+  setSmoothing(mode: SmoothingMode): void {
+    if (mode === this.smoothing) return;
+    if ((mode === 'none') !== (this.smoothing === 'none')) this.lutDirty = true;
+    this.smoothing = mode;
+    this.map?.triggerRepaint();
+  }
+
+  setOpacity(opacity: number): void {
+    if (opacity === this.opacity) return;
+    this.opacity = opacity;
+    this.map?.triggerRepaint();
+  }
+
+  // ── CustomLayerInterface ──
+
+  onAdd(map: maplibregl.Map, gl: GL): void {
+    this.map = map;
+    const program = linkProgram(gl, VERTEX_SHADER, GRID_FRAGMENT_SHADER);
+    const uniforms: GridGlResources['uniforms'] = {};
+    for (const name of GRID_UNIFORMS) uniforms[name] = gl.getUniformLocation(program, name);
+    this.res = {
+      program,
+      quad: gl.createBuffer()!,
+      data: createTexture(gl),
+      lut: createTexture(gl),
+      aOffset: gl.getAttribLocation(program, 'a_offset'),
+      uniforms,
+    };
+    this.frameDirty = this.frame !== null;
+    this.lutDirty = true;
+  }
+
+  onRemove(_map: maplibregl.Map, gl: GL): void {
+    const res = this.res;
+    if (res) {
+      gl.deleteProgram(res.program);
+      gl.deleteBuffer(res.quad);
+      gl.deleteTexture(res.data);
+      gl.deleteTexture(res.lut);
+    }
+    this.res = null;
+    this.map = null;
+  }
+
+  render(gl: GL, options: maplibregl.CustomRenderMethodInput): void {
+    const res = this.res;
+    const frame = this.frame;
+    if (!res || !frame || this.colorTable.length === 0) return;
+    const { grid } = frame;
+
+    if (this.frameDirty || this.lutDirty) this.upload(gl, res);
+
+    // Quad over the grid, as Mercator offsets from its NW corner
+    const originX = (grid.west + 180) / 360;
+    const originY = latToMercatorY(grid.north);
+    const width = (grid.east - grid.west) / 360;
+    const height = latToMercatorY(grid.south) - originY;
+
+    gl.useProgram(res.program);
+    gl.bindBuffer(gl.ARRAY_BUFFER, res.quad);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, width, 0, 0, height, width, height]), gl.DYNAMIC_DRAW);
+    gl.enableVertexAttribArray(res.aOffset);
+    gl.vertexAttribPointer(res.aOffset, 2, gl.FLOAT, false, 0, 0);
+
+    const u = res.uniforms;
+    gl.uniformMatrix4fv(u.u_matrix, false, anchoredMatrix(options, originX, originY));
+    gl.uniform2f(u.u_dataSize, grid.width, grid.height);
+    gl.uniform2f(u.u_extent, width, height);
+    gl.uniform2f(u.u_value, frame.valueMin, frame.valueStep);
+    gl.uniform2f(u.u_lutRange, this.lutRange.min, this.lutRange.max);
+    gl.uniform1f(u.u_smoothing, SMOOTHING_CODE[this.smoothing]);
+    gl.uniform1f(u.u_opacity, this.opacity);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, res.data);
+    gl.uniform1i(u.u_data, 0);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, res.lut);
+    gl.uniform1i(u.u_lut, 1);
+
+    gl.enable(gl.BLEND);
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+    gl.disable(gl.DEPTH_TEST);
+    gl.disable(gl.STENCIL_TEST);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    gl.disableVertexAttribArray(res.aOffset);
+  }
+
+  // ── Private ──
+
+  private upload(gl: GL, res: GridGlResources): void {
+    const prevAlignment = gl.getParameter(gl.UNPACK_ALIGNMENT);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+
+    if (this.frameDirty && this.frame) {
+      const { grid, codes } = this.frame;
+      gl.bindTexture(gl.TEXTURE_2D, res.data);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.LUMINANCE_ALPHA, grid.width, grid.height, 0,
+        gl.LUMINANCE_ALPHA, gl.UNSIGNED_BYTE, asBytes(codes));
+      this.frameDirty = false;
+    }
+
+    if (this.lutDirty) {
+      const lut = buildLut(this.colorTable, this.smoothing !== 'none');
+      gl.bindTexture(gl.TEXTURE_2D, res.lut);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, LUT_SIZE, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, lut.pixels);
+      this.lutRange = { min: lut.min, max: lut.max };
+      this.lutDirty = false;
+    }
+
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, prevAlignment);
+  }
+}
+
+// ── GL helpers ──────────────────────────────────────────────────────
+
+function createTexture(gl: GL): WebGLTexture {
+  const tex = gl.createTexture()!;
+  gl.bindTexture(gl.TEXTURE_2D, tex);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+  return tex;
+}
+
+function compileShader(gl: GL, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`[RadarGL] Shader compile failed: ${log}`);
+  }
+  return shader;
+}
+
+function linkProgram(gl: GL, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const vs = compileShader(gl, gl.VERTEX_SHADER, vertexSource);
+  const fs = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+  const program = gl.createProgram()!;
+  gl.attachShader(program, vs);
+  gl.attachShader(program, fs);
+  gl.linkProgram(program);
+  gl.deleteShader(vs);
+  gl.deleteShader(fs);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+    gl.deleteProgram(program);
+    throw new Error(`[RadarGL] Program link failed: ${log}`);
+  }
+  return program;
+}
@@ -0,0 +1,270 @@
+/**
+ * Hail products from the volume scan: SHI, POSH and MESH (Witt et al. 1998).
+ *
+ * Each grid column from volumeProducts is integrated for hail kinetic energy
+ * above the melting level:
+ *
+ *   E(Z)  = 5×10⁻⁶ · 10^(0.084·Z) · W(Z)       W(Z) ramps 0→1 over 40–50 dBZ
+ *   W_T(H) ramps 0→1 between the 0 °C and −20 °C heights
+ *   SHI   = 0.1 · ∫ W_T(H) · E(Z) dH            (J m⁻¹ s⁻¹, H in m)
+ *   POSH  = 29 · ln(SHI / WT) + 50               WT = 57.5·H₀ − 121 (H₀ in km ARL)
+ *   MESH  = 2.54 · SHI^0.5                       (mm — reported here in inches)
+ *
+ * The freezing levels are environmental inputs (entered by the user or read
+ * from a nearby sounding) in km MSL; they're converted to heights above the
+ * radar using the antenna height from the volume header. Results are cached
+ * per parsed volume and freezing levels, on top of the cached column layout
+ * shared with CREF / echo tops / VIL.
+ *
+ * Hail cells are connected areas of MESH ≥ HAIL_CELL_MIN_IN; each reports its
+ * largest MESH and POSH at the location of the largest MESH. Positions use
+ * the same flat ground-range projection as the rendered volume image.
+ */
+
+import type { ParsedRadarData } from './renderLogic';
+import { getVolumeColumns, readColumn, gridRadial, GATE_KM, type VolumeColumns } from './volumeProducts';
+
+export interface FreezingLevels {
+  /** Height of the 0 °C level (km MSL) */
+  zeroCKm: number;
+  /** Height of the −20 °C level (km MSL) */
+  minus20CKm: number;
+}
+
+/** Typical warm-season levels, used until the user enters event values. */
+export const DEFAULT_FREEZING_LEVELS: FreezingLevels = {
+  zeroCKm: 4.0,
+  minus20CKm: 6.8,
+};
+
+export interface HailCell {
+  lat: number;
+  lon: number;
+  /** Maximum expected hail size (inches) */
+  meshIn: number;
+  /** Probability of severe hail (%) */
+  posh: number;
+  /** Azimuth from the radar (degrees) */
+  azimuth: number;
+  /** Ground range from the radar (km) */
+  rangeKm: number;
+}
+
+/** Per-frame hail summary stored with frame stats. */
+export interface HailSummary {
+  /** Largest MESH anywhere in the volume (inches) */
+  maxMeshIn: number | null;
+  /** Largest POSH anywhere in the volume (%) */
+  maxPosh: number | null;
+  /** Hail cells, largest MESH first */
+  cells: HailCell[];
+}
+
+export interface HailProductGrid extends HailSummary {
+  /** Azimuth (degrees) of each grid radial */
+  azimuths: number[];
+  /** Maximum ground range covered (km) */
+  rangeKm: number;
+  SHI: any[];
+  POSH: any[];
+  MESH: any[];
+}
+
+/** Hail kinetic energy is only counted above this reflectivity (dBZ). */
+const Z_LOWER = 40;
+/** ...and at full weight above this (dBZ). */
+const Z_UPPER = 50;
+/** Smallest MESH that starts a hail cell (inches). */
+const HAIL_CELL_MIN_IN = 0.75;
+/** Ignore cells smaller than this many grid bins. */
+const MIN_CELL_BINS = 2;
+/** Report at most this many cells, largest first. */
+const MAX_CELLS = 15;
+const MM_PER_INCH = 25.4;
+const KM_PER_DEG_LAT = 111.32;
+
+const hailCache = new WeakMap<ParsedRadarData, { key: string; grid: HailProductGrid | null }>();
+
+/**
+ * Get (or compute and cache) the hail products for a parsed scan at the
+ * given freezing levels. Leaves the radar's selected elevation changed —
+ * callers must re-select.
+ */
+export function getHailProducts(parsed: ParsedRadarData, levels: FreezingLevels): HailProductGrid | null {
+  const key = `${levels.zeroCKm}-${levels.minus20CKm}`;
+  const cached = hailCache.get(parsed);
+  if (cached && cached.key === key) return cached.grid;
+
+  let grid: HailProductGrid | null = null;
+  try {
+    const columns = getVolumeColumns(parsed);
+    grid = columns ? computeHailProducts(parsed, columns, levels) : null;
+  } catch (err) {
+    console.warn('[hailProducts] computation failed:', err);
+  }
+  hailCache.set(parsed, { key, grid });
+  return grid;
+}
+
+function computeHailProducts(
+  parsed: ParsedRadarData,
+  columns: VolumeColumns,
+  levels: FreezingLevels,
+): HailProductGrid {
+  const { azimuths, nRange, rangeKm } = columns;
+  const nAz = azimuths.length;
+
+  // Column heights are above the antenna — move the freezing levels there too
+  const antennaKm = antennaHeightKm(parsed.radar);
+  const h0 = (levels.zeroCKm - antennaKm) * 1000;
+  const hm20 = Math.max(h0 + 1, (levels.minus20CKm - antennaKm) * 1000);
+  // POSH warning threshold, floored so a very low melting level can't go ≤ 0
+  const wt = Math.max(20, 57.5 * (h0 / 1000) - 121);
+
+  const SHI: any[] = new Array(nAz);
+  const POSH: any[] = new Array(nAz);
+  const MESH: any[] = new Array(nAz);
+  const meshGrid = new Float32Array(nAz * nRange);
+  const poshGrid = new Float32Array(nAz * nRange);
+
+  const colH = new Float64Array(columns.sweeps.length);
+  const colV = new Float64Array(columns.sweeps.length);
+
+  for (let a = 0; a < nAz; a++) {
+    const shi: (number | null)[] = new Array(nRange).fill(null);
+    const posh: (number | null)[] = new Array(nRange).fill(null);
+    const mesh: (number | null)[] = new Array(nRange).fill(null);
+
+    for (let g = 0; g < nRange; g++) {
+      const n = readColumn(columns, a, g, colH, colV);
+      if (n < 2) continue;
+
+      const index = integrateShi(colH, colV, n, h0, hm20);
+      if (index <= 0) continue;
+      const p = Math.min(100, Math.max(0, 29 * Math.log(index / wt) + 50));
+      const m = (2.54 * Math.sqrt(index)) / MM_PER_INCH;
+
+      shi[g] = index;
+      if (p > 0) posh[g] = p;
+      mesh[g] = m;
+      meshGrid[a * nRange + g] = m;
+      poshGrid[a * nRange + g] = p;
+    }
+
+    SHI[a] = gridRadial(nRange, shi);
+    POSH[a] = gridRadial(nRange, posh);
+    MESH[a] = gridRadial(nRange, mesh);
+  }
+
+  let maxMeshIn: number | null = null;
+  let maxPosh: number | null = null;
+  for (let i = 0; i < meshGrid.length; i++) {
+    if (meshGrid[i] > 0 && (maxMeshIn === null || meshGrid[i] > maxMeshIn)) maxMeshIn = meshGrid[i];
+    if (poshGrid[i] > 0 && (maxPosh === null || poshGrid[i] > maxPosh)) maxPosh = poshGrid[i];
+  }
+
+  const cells = findHailCells(parsed, azimuths, nRange, meshGrid, poshGrid);
+  return { azimuths, rangeKm, SHI, POSH, MESH, cells, maxMeshIn, maxPosh };
+}
+
+/**
+ * SHI for one column (heights in km above the antenna, lowest first),
+ * trapezoid-integrated between samples.
+ */
+function integrateShi(h: Float64Array, v: Float64Array, n: number, h0: number, hm20: number): number {
+  let total = 0;
+  let prevH = h[0] * 1000;
+  let prevF = shiIntegrand(prevH, v[0], h0, hm20);
+  for (let k = 1; k < n; k++) {
+    const hk = h[k] * 1000;
+    const fk = shiIntegrand(hk, v[k], h0, hm20);
+    const dh = hk - prevH;
+    if (dh > 0) total += ((prevF + fk) / 2) * dh;
+    prevH = hk;
+    prevF = fk;
+  }
+  return 0.1 * total;
+}
+
+function shiIntegrand(heightM: number, dbz: number, h0: number, hm20: number): number {
+  if (dbz <= Z_LOWER || heightM <= h0) return 0;
+  const wz = dbz >= Z_UPPER ? 1 : (dbz - Z_LOWER) / (Z_UPPER - Z_LOWER);
+  const wt = heightM >= hm20 ? 1 : (heightM - h0) / (hm20 - h0);
+  return 5e-6 * Math.pow(10, 0.084 * dbz) * wz * wt;
+}
+
+/**
+ * Group MESH ≥ HAIL_CELL_MIN_IN bins into connected cells (4-neighbour,
+ * wrapping in azimuth). Returns cells sorted by MESH, largest first.
+ */
+function findHailCells(
+  parsed: ParsedRadarData,
+  azimuths: number[],
+  nRange: number,
+  meshGrid: Float32Array,
+  poshGrid: Float32Array,
+): HailCell[] {
+  const nAz = azimuths.length;
+  const { lat: siteLat, lon: siteLon } = parsed.trueCoords;
+  const kmPerDegLon = KM_PER_DEG_LAT * Math.cos((siteLat * Math.PI) / 180);
+  const visited = new Uint8Array(meshGrid.length);
+  const cells: HailCell[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < meshGrid.length; start++) {
+    if (visited[start] || meshGrid[start] < HAIL_CELL_MIN_IN) continue;
+
+    let count = 0;
+    let best = start;
+    let bestPosh = 0;
+    stack.push(start);
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const idx = stack.pop()!;
+      count++;
+      if (meshGrid[idx] > meshGrid[best]) best = idx;
+      if (poshGrid[idx] > bestPosh) bestPosh = poshGrid[idx];
+
+      const a = Math.floor(idx / nRange);
+      const g = idx % nRange;
+      const neighbours = [
+        ((a + 1) % nAz) * nRange + g,
+        ((a - 1 + nAz) % nAz) * nRange + g,
+        g + 1 < nRange ? idx + 1 : -1,
+        g > 0 ? idx - 1 : -1,
+      ];
+      for (const nb of neighbours) {
+        if (nb < 0 || visited[nb] || meshGrid[nb] < HAIL_CELL_MIN_IN) continue;
+        visited[nb] = 1;
+        stack.push(nb);
+      }
+    }
+    if (count < MIN_CELL_BINS) continue;
+
+    const azimuth = azimuths[Math.floor(best / nRange)];
+    const rangeKm = ((best % nRange) + 0.5) * GATE_KM;
+    const az = (azimuth * Math.PI) / 180;
+    cells.push({
+      lat: siteLat + (rangeKm * Math.cos(az)) / KM_PER_DEG_LAT,
+      lon: siteLon + (rangeKm * Math.sin(az)) / kmPerDegLon,
+      meshIn: meshGrid[best],
+      posh: bestPosh,
+      azimuth,
+      rangeKm,
+    });
+  }
+
+  cells.sort((a, b) => b.meshIn - a.meshIn);
+  return cells.slice(0, MAX_CELLS);
+}
+
+/** Antenna height (km MSL) from the volume header: site elevation + feedhorn height. */
+function antennaHeightKm(radar: any): number {
+  try {
+    const vol = radar.getHeader?.()?.[0]?.volume;
+    if (vol && typeof vol.elevation === 'number') {
+      return (vol.elevation + (vol.feedhorn_height ?? 0)) / 1000;
+    }
+  } catch { /* header unavailable */ }
+  return 0;
+}
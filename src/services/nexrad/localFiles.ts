@@ -0,0 +1,205 @@
+/**
+ * Local NEXRAD Level 2 archive files.
+ *
+ * Files dropped on the app, picked with a file/folder input, listed from a
+ * folder over Electron IPC, or unpacked from an event package
+ * (eventPackage.ts) are registered here under `local:` scan keys.
+ * fetchScan (s3Client.ts) routes those keys back to readLocalScan, so local
+ * scans go through the same ScanFile → PrefetchManager → worker flow as S3
+ * ones. The worker already handles whole-file gzip, so files are read as-is.
+ *
+ * Each file's volume time and radar site come from the archive filename
+ * (KTLX20130520_201643_V06[.gz|.ar2v]) when it follows the NCEI/Unidata
+ * naming, otherwise from the 24-byte AR2V volume header.
+ */
+
+import type { ScanFile } from './types';
+
+export const LOCAL_KEY_PREFIX = 'local:';
+
+/** Where a registered file's bytes come from (a File or a slice of one) */
+export type LocalScanSource =
+  | { kind: 'file'; file: Blob }
+  | { kind: 'path'; path: string };
+
+export interface LocalScanEntry {
+  name: string;
+  size: number;
+  source: LocalScanSource;
+}
+
+/** A local scan whose time and site have been identified */
+export interface IndexedLocalScan {
+  scan: ScanFile;
+  siteId: string;
+}
+
+/** Bytes read for header sniffing when a filename doesn't parse */
+const HEADER_PROBE_BYTES = 64 * 1024;
+const VOLUME_HEADER_BYTES = 24;
+
+const registry = new Map<string, LocalScanSource>();
+
+export function isLocalScanKey(key: string): boolean {
+  return key.startsWith(LOCAL_KEY_PREFIX);
+}
+
+/** Forget every registered file (new event / clear all). */
+export function clearLocalScans(): void {
+  registry.clear();
+}
+
+/**
+ * Register one scan whose time and site are already known (event packages)
+ * and return its scan key.
+ */
+export function registerLocalScan(name: string, source: LocalScanSource): string {
+  const key = uniqueKey(name);
+  registry.set(key, source);
+  return key;
+}
+
+/**
+ * Read a registered local scan's bytes. Throws for unknown keys (e.g. a
+ * `local:` key left over after the files were cleared).
+ */
+export async function readLocalScan(key: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+  const source = registry.get(key);
+  if (!source) throw new Error(`Local file no longer available: ${key.slice(LOCAL_KEY_PREFIX.length)}`);
+  const buffer = await readSource(source);
+  if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+  return buffer;
+}
+
+/**
+ * Identify and register local files. Files that aren't Level 2 volumes
+ * (no parsable filename or AR2V header, metadata-only MDM files) are
+ * returned in `skipped` instead of failing the whole import.
+ */
+export async function indexLocalScans(
+  entries: LocalScanEntry[],
+): Promise<{ scans: IndexedLocalScan[]; skipped: string[] }> {
+  const scans: IndexedLocalScan[] = [];
+  const skipped: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.includes('MDM') || entry.name.startsWith('NWS_')) {
+      skipped.push(entry.name);
+      continue;
+    }
+
+    let info = parseArchiveFilename(entry.name);
+    if (!info) {
+      try {
+        info = parseVolumeHeader(await readHeaderBytes(entry.source));
+      } catch {
+        info = null;
+      }
+    }
+    if (!info) {
+      skipped.push(entry.name);
+      continue;
+    }
+
+    const key = registerLocalScan(entry.name, entry.source);
+    scans.push({
+      scan: { key, timestamp: info.timestamp, size: entry.size },
+      siteId: info.siteId,
+    });
+  }
+
+  scans.sort((a, b) => a.scan.timestamp - b.scan.timestamp);
+  return { scans, skipped };
+}
+
+/* ── Identification ───────────────────────────────────────────────── */
+
+interface VolumeInfo {
+  siteId: string;
+  timestamp: number;
+}
+
+/** KTLX20130520_201643_V06 (any suffix) → site + volume start time */
+function parseArchiveFilename(filename: string): VolumeInfo | null {
+  const match = filename.match(/^([A-Z]{4})(\d{4})(\d{2})(\d{2})_(\d{2})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [, siteId, year, month, day, hour, min, sec] = match;
+  return { siteId, timestamp: Date.UTC(+year, +month - 1, +day, +hour, +min, +sec) };
+}
+
+/**
+ * Parse the Level 2 volume header: "AR2V0006." + 3-char extension number,
+ * then big-endian modified Julian date (day 1 = 1970-01-01), milliseconds
+ * past midnight, and the 4-char ICAO.
+ */
+function parseVolumeHeader(bytes: Uint8Array): VolumeInfo | null {
+  if (bytes.length < VOLUME_HEADER_BYTES) return null;
+  const tag = String.fromCharCode(...bytes.subarray(0, 4));
+  if (tag !== 'AR2V' && tag !== 'ARCH') return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const julianDays = view.getUint32(12);
+  const msOfDay = view.getUint32(16);
+  const siteId = String.fromCharCode(...bytes.subarray(20, 24)).trim();
+  if (julianDays === 0 || !/^[A-Z]{4}$/.test(siteId)) return null;
+
+  return { siteId, timestamp: (julianDays - 1) * 86400000 + msOfDay };
+}
+
+/** First bytes of a file, gunzipped when the whole file is gzip-compressed. */
+async function readHeaderBytes(source: LocalScanSource): Promise<Uint8Array> {
+  const head = source.kind === 'file'
+    ? new Uint8Array(await source.file.slice(0, HEADER_PROBE_BYTES).arrayBuffer())
+    : await window.electronAPI!.readRadarFile(source.path, HEADER_PROBE_BYTES);
+
+  if (head.length < 2 || head[0] !== 0x1f || head[1] !== 0x8b) return head;
+
+  // Gzipped: inflate just enough for the volume header. The probe is a
+  // truncated stream, so the decompressor errors at the end — take the
+  // first chunk it yields.
+  const stream = new Blob([head]).stream().pipeThrough(new DecompressionStream('gzip'));
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  try {
+    while (length < VOLUME_HEADER_BYTES) {
+      const { done, value } = await reader.read();
+      if (done || !value) break;
+      chunks.push(value);
+      length += value.length;
+    }
+  } catch {
+    // Truncated input — use whatever was inflated
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  const out = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+/* ── Helpers ──────────────────────────────────────────────────────── */
+
+async function readSource(source: LocalScanSource): Promise<ArrayBuffer> {
+  if (source.kind === 'file') return source.file.arrayBuffer();
+  if (!window.electronAPI) throw new Error('Local folders are only available in the desktop app');
+  const bytes = await window.electronAPI.readRadarFile(source.path);
+  // IPC hands back a view that may not span its whole buffer
+  return bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength
+    ? bytes.buffer as ArrayBuffer
+    : bytes.slice().buffer as ArrayBuffer;
+}
+
+/** Scan keys must be unique — the same filename may come from two folders. */
+function uniqueKey(name: string): string {
+  let key = `${LOCAL_KEY_PREFIX}${name}`;
+  for (let n = 2; registry.has(key); n++) {
+    key = `${LOCAL_KEY_PREFIX}${name}#${n}`;
+  }
+  return key;
+}
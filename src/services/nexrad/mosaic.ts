@@ -0,0 +1,105 @@
+/**
+ * Multi-radar mosaic: several sites' lowest sweeps merged onto one grid.
+ *
+ * Each participating site contributes the decoded frame (PolarImage) of its
+ * scan nearest the current time. Frames are resampled in the worker onto
+ * the same Mercator-row lat/lon grid the event swath uses (swath.ts), so
+ * the result is drawn on the map as a single grid (GridGlLayer).
+ *
+ * Compositing:
+ * - 'nearest' — each cell takes the closest radar that covers it, the usual
+ *   choice for velocity and for keeping each site's beam height lowest
+ * - 'max'     — each cell takes the largest value any radar reports there,
+ *   which fills in attenuation and beam blockage for reflectivity
+ */
+
+import { computeSwathGrid, type SwathGridSpec } from './swath';
+import { decodePolarImage, type PolarImage } from './polarImage';
+import { buildAzimuthMap, azimuthBin } from './volumeProducts';
+
+export type MosaicMethod = 'nearest' | 'max';
+
+export interface MosaicInput {
+  image: PolarImage;
+  siteLat: number;
+  siteLon: number;
+}
+
+/** Mosaic cell size (km) — coarser than the swath, it's rebuilt every frame. */
+const MOSAIC_CELL_KM = 1;
+const KM_PER_DEG_LAT = 111.32;
+
+/**
+ * Build a grid covering every participating site's full range.
+ */
+export function computeMosaicGrid(sites: { lat: number; lon: number }[]): SwathGridSpec | null {
+  return computeSwathGrid(sites, MOSAIC_CELL_KM);
+}
+
+/**
+ * Resample the frames onto `spec` and merge them (NaN = no data).
+ */
+export function composeMosaic(inputs: MosaicInput[], method: MosaicMethod, spec: SwathGridSpec): Float32Array {
+  const { west, north, east, south, width, height } = spec;
+  const values = new Float32Array(width * height).fill(NaN);
+  if (inputs.length === 0) return values;
+
+  const sources = inputs.map(({ image, siteLat, siteLon }) => ({
+    image,
+    siteLat,
+    siteLon,
+    codes: decodePolarImage(image),
+    azMap: buildAzimuthMap(Array.from(image.azimuths)),
+    kmPerDegLon: KM_PER_DEG_LAT * Math.cos((siteLat * Math.PI) / 180),
+  }));
+
+  const dLon = (east - west) / width;
+  const mercN = latToMercY(north);
+  const dMerc = (mercN - latToMercY(south)) / height;
+
+  for (let y = 0; y < height; y++) {
+    const lat = mercYToLat(mercN - (y + 0.5) * dMerc);
+    for (let x = 0; x < width; x++) {
+      const lon = west + (x + 0.5) * dLon;
+      let best = NaN;
+      let bestRange = Infinity;
+
+      for (const src of sources) {
+        const { image } = src;
+        const dy = (lat - src.siteLat) * KM_PER_DEG_LAT;
+        if (Math.abs(dy) > image.rangeKm) continue;
+        const dx = (lon - src.siteLon) * src.kmPerDegLon;
+        const rangeKm = Math.hypot(dx, dy);
+        if (rangeKm > image.rangeKm || rangeKm < image.firstGateKm) continue;
+        // Nearest: a closer radar that covers the cell wins, echo or not
+        if (method === 'nearest' && rangeKm >= bestRange) continue;
+
+        const row = src.azMap[azimuthBin(((Math.atan2(dx, dy) * 180) / Math.PI + 360) % 360)];
+        const gate = Math.floor((rangeKm - image.firstGateKm) / image.gateSizeKm);
+        if (row < 0 || gate >= image.gateCount) continue;
+
+        const code = src.codes[row * image.gateCount + gate];
+        const v = code === 0 ? NaN : image.valueMin + (code - 1) * image.valueStep;
+        if (method === 'nearest') {
+          best = v;
+          bestRange = rangeKm;
+        } else if (v === v && !(v <= best)) {
+          best = v;
+        }
+      }
+
+      values[y * width + x] = best;
+    }
+  }
+
+  return values;
+}
+
+function latToMercY(lat: number): number {
+  const rad = (lat * Math.PI) / 180;
+  return Math.log(Math.tan(Math.PI / 4 + rad / 2));
+}
+
+function mercYToLat(y: number): number {
+  return ((2 * Math.atan(Math.exp(y)) - Math.PI / 2) * 180) / Math.PI;
+}
@@ -17,12 +17,13 @@
  */
 
 import type { ColorStop } from './colorTables';
+import type { RadarProduct } from './renderLogic';
 
 // ── Types ────────────────────────────────────────────────────────────
 
 export interface PalParseResult {
   /** Auto-detected product from `product:` header, or null */
-  product: 'REF' | 'VEL' | null;
+  product: RadarProduct | null;
   /** Units string from header (e.g. "DBZ", "KTS") */
   units: string | null;
   /** Pre-expanded color stops, sorted by value */
@@ -40,7 +41,7 @@ interface RawPalStop {
 
 // ── Product code mapping ─────────────────────────────────────────────
 
-const PRODUCT_MAP: Record<string, 'REF' | 'VEL'> = {
+const PRODUCT_MAP: Record<string, RadarProduct> = {
   BR: 'REF',
   N0Q: 'REF',
   N0R: 'REF',
@@ -49,7 +50,28 @@ const PRODUCT_MAP: Record<string, 'REF' | 'VEL'> = {
   BV: 'VEL',
   N0U: 'VEL',
   N0V: 'VEL',
-  SRV: 'VEL',
+  SRV: 'SRV',
+  N0S: 'SRV',
+  ZDR: 'ZDR',
+  N0X: 'ZDR',
+  CC: 'CC',
+  RHO: 'CC',
+  N0C: 'CC',
+  KDP: 'KDP',
+  N0K: 'KDP',
+  SW: 'SW',
+  BSW: 'SW',
+  PHI: 'PHI',
+  CR: 'CREF',
+  NCR: 'CREF',
+  ET: 'ET18',
+  EET: 'ET18',
+  VIL: 'VIL',
+  DVL: 'VIL',
+  SHI: 'SHI',
+  POSH: 'POSH',
+  MESH: 'MESH',
+  HAIL: 'MESH',
 };
 
 // Default alpha when not specified (matches existing NWS tables)
@@ -66,7 +88,7 @@ const DEFAULT_ALPHA = 0.85;
  */
 export function parsePalFile(text: string): PalParseResult {
   const lines = text.split(/\r?\n/);
-  let product: 'REF' | 'VEL' | null = null;
+  let product: RadarProduct | null = null;
   let units: string | null = null;
   const rawStops: RawPalStop[] = [];
 
@@ -105,8 +127,11 @@ export function parsePalFile(text: string): PalParseResult {
   // Sort by value ascending
   rawStops.sort((a, b) => a.value - b.value);
 
-  // Expand gradients into discrete steps
-  const stops = expandGradientStops(rawStops);
+  // Expand gradients into discrete steps. Dual-pol palettes span only a few
+  // units (CC is 0-1), so 1-unit steps would collapse them to a handful of bands.
+  const span = rawStops.length > 1 ? rawStops[rawStops.length - 1].value - rawStops[0].value : 0;
+  const stepSize = span <= 2 ? 0.01 : span <= 20 ? 0.1 : 1;
+  const stops = expandGradientStops(rawStops, stepSize);
 
   return { product, units, stops };
 }
@@ -172,11 +197,12 @@ function parseColorLine(line: string): RawPalStop | null {
  * Color (gradient) entries are interpolated at integer intervals from
  * their value to the next stop's value, with RGB rounded to integers.
  *
- * Rounding is critical: it ensures adjacent gates at e.g. 35.1 and 35.2 dBZ
- * produce identical `rgba()` strings, preserving the gate batching optimization
- * in drawPolarData().
+ * Rounding keeps the expanded stops on whole RGB values, so the stepped
+ * color lookup (legend, cross-section, the radar layer's LUT) shows clean
+ * bands rather than near-duplicate shades.
  *
- * @param stepSize - Expansion interval. Default 1 (1 dBZ or 1 m/s).
+ * @param stepSize - Expansion interval. Default 1 (1 dBZ or 1 m/s); fractional
+ *   steps (0.1, 0.01) are used for dual-pol products with narrow value ranges.
  */
 export function expandGradientStops(rawStops: RawPalStop[], stepSize = 1): ColorStop[] {
   if (rawStops.length === 0) return [];
@@ -215,8 +241,11 @@ export function expandGradientStops(rawStops: RawPalStop[], stepSize = 1): Color
         continue;
       }
 
-      // Generate interpolated stops at each step
-      for (let v = curr.value; v < next.value; v += stepSize) {
+      // Generate interpolated stops at each step. Values are derived from the
+      // step index (not accumulated) so fractional steps don't drift.
+      const stepCount = Math.ceil(range / stepSize - 1e-9);
+      for (let i = 0; i < stepCount; i++) {
+        const v = roundValue(curr.value + i * stepSize);
         const t = (v - curr.value) / range; // 0..1 interpolation parameter
         result.push({
           value: v,
@@ -252,6 +281,11 @@ function lerp(a: number, b: number, t: number): number {
   return a + (b - a) * t;
 }
 
+/** Round a stop value to 4 decimal places to absorb floating-point step error */
+function roundValue(v: number): number {
+  return Math.round(v * 10000) / 10000;
+}
+
 /** Round alpha to 2 decimal places for consistent rgba() string output */
 function roundAlpha(a: number): number {
   return Math.round(a * 100) / 100;
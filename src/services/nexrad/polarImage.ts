@@ -0,0 +1,165 @@
+/**
+ * Compact polar frame format shared by the worker and the WebGL renderer.
+ *
+ * Instead of rasterizing radials into a PNG, the worker ships the moment
+ * data itself: radials sorted by azimuth, each gate quantized to a 16-bit
+ * code (0 = no data) over the frame's own value range. Runs of empty gates
+ * — most of any scan — are collapsed to a (0, length) pair, so a cached
+ * frame costs roughly two bytes per echo gate.
+ *
+ * The main thread expands a frame into a gateCount × radialCount Uint16Array
+ * right before uploading it as a texture; the color table is applied in the
+ * fragment shader, so palette and smoothing changes never touch the cache.
+ */
+
+export interface PolarImage {
+  /** Rows in the data texture (radials, sorted by azimuth) */
+  radialCount: number;
+  /** Columns in the data texture (gates per radial) */
+  gateCount: number;
+  /** Range to the start of gate 0 (km) */
+  firstGateKm: number;
+  gateSizeKm: number;
+  /** Maximum range drawn (km) */
+  rangeKm: number;
+  /** Azimuth (degrees) of each row, ascending */
+  azimuths: Float32Array;
+  /** Value of code 1; code c decodes to valueMin + (c - 1) × valueStep */
+  valueMin: number;
+  valueStep: number;
+  /** Row-major codes with empty-gate runs collapsed to (0, runLength) */
+  encoded: Uint16Array;
+}
+
+/** Highest code — 65535 levels over the frame's value range. */
+const MAX_CODE = 0xffff;
+
+/**
+ * Encode parser-shaped radials ({first_gate, gate_size, gate_count,
+ * moment_data}) with their azimuths. Returns null when no radial has data.
+ */
+export function encodePolarImage(radials: any[], azimuths: number[], rangeKm: number): PolarImage | null {
+  const r0 = radials.find((r: any) => r != null && r.moment_data);
+  if (!r0) return null;
+
+  // Rows sorted by azimuth so the shader can bracket a direction by search
+  const order: number[] = [];
+  for (let i = 0; i < radials.length; i++) {
+    if (radials[i]?.moment_data && typeof azimuths[i] === 'number') order.push(i);
+  }
+  order.sort((a, b) => azimuths[a] - azimuths[b]);
+
+  let gateCount = 0;
+  for (const i of order) {
+    const n = Math.min(radials[i].gate_count ?? radials[i].moment_data.length, radials[i].moment_data.length);
+    if (n > gateCount) gateCount = n;
+  }
+  if (order.length === 0 || gateCount === 0) return null;
+
+  const values = new Float32Array(order.length * gateCount).fill(NaN);
+  const azOut = new Float32Array(order.length);
+  for (let row = 0; row < order.length; row++) {
+    const radial = radials[order[row]];
+    azOut[row] = azimuths[order[row]];
+    const data = radial.moment_data;
+    const n = Math.min(radial.gate_count ?? data.length, data.length);
+    const base = row * gateCount;
+    for (let g = 0; g < n; g++) {
+      const v = data[g];
+      if (v !== null && v !== undefined && isFinite(v)) values[base + g] = v;
+    }
+  }
+
+  return encodePolarGrid(values, gateCount, azOut, r0.first_gate, r0.gate_size, rangeKm);
+}
+
+/**
+ * Encode a row-major gateCount × radialCount value grid (NaN = no data)
+ * whose rows are already sorted by azimuth.
+ */
+export function encodePolarGrid(
+  values: Float32Array,
+  gateCount: number,
+  azimuths: Float32Array,
+  firstGateKm: number,
+  gateSizeKm: number,
+  rangeKm: number,
+): PolarImage {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (v !== v) continue; // NaN
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  if (min === Infinity) {
+    min = 0;
+    max = 0;
+  }
+
+  const valueStep = max > min ? (max - min) / (MAX_CODE - 1) : 1;
+  // Worst case (alternating echo / gap) is 1.5 words per gate
+  const out = new Uint16Array(Math.ceil(values.length * 1.5) + 2);
+  let w = 0;
+  let run = 0;
+  const flushRun = () => {
+    while (run > 0) {
+      const len = Math.min(run, MAX_CODE);
+      out[w++] = 0;
+      out[w++] = len;
+      run -= len;
+    }
+  };
+
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (v !== v) {
+      run++;
+      continue;
+    }
+    flushRun();
+    out[w++] = 1 + Math.round((v - min) / valueStep);
+  }
+  flushRun();
+
+  return {
+    radialCount: azimuths.length,
+    gateCount,
+    firstGateKm,
+    gateSizeKm,
+    rangeKm,
+    azimuths,
+    valueMin: min,
+    valueStep,
+    encoded: out.slice(0, w),
+  };
+}
+
+/**
+ * Expand a frame's codes into a row-major gateCount × radialCount array.
+ * Reuses `target` when it's the right size.
+ */
+export function decodePolarImage(image: PolarImage, target?: Uint16Array): Uint16Array {
+  const size = image.radialCount * image.gateCount;
+  const out = target && target.length === size ? target : new Uint16Array(size);
+  const { encoded } = image;
+  let o = 0;
+  for (let i = 0; i < encoded.length && o < size; i++) {
+    const code = encoded[i];
+    if (code === 0) {
+      const len = encoded[++i];
+      out.fill(0, o, o + len);
+      o += len;
+    } else {
+      out[o++] = code;
+    }
+  }
+  if (o < size) out.fill(0, o);
+  return out;
+}
+
+/** Bytes held by a frame (what FrameCache pays per entry). */
+export function polarImageBytes(image: PolarImage): number {
+  return image.encoded.byteLength + image.azimuths.byteLength;
+}
@@ -2,27 +2,65 @@
  * Prefetch manager for radar frames.
  *
  * Orchestrates ahead-of-playback downloading and rendering:
- * - Maintains a sliding window around the current frame index
- * - Downloads scans in parallel (up to MAX_CONCURRENT_DOWNLOADS)
- * - Dispatches decode+render to the worker pool
+ * - Maintains a sliding window around the current frame index. While
+ *   playing, the look-ahead and download concurrency adapt to the measured
+ *   download bandwidth, the worker pool's decode time and the playback
+ *   speed (see planWindow), follow playback order through the loop wrap,
+ *   and the rest of a short loop region is queued behind the window
+ * - Downloads scans in parallel (MIN–MAX_CONCURRENT_DOWNLOADS)
+ * - Dispatches decode to the worker pool
  * - Caches results in the FrameCache for instant display
  * - Supports cancellation when user jumps to a new position
- * - "Download All" mode for pre-caching the entire event
- * - Custom color table support: color table is passed to each worker job
+ * - "Download All" mode for pre-caching the entire event — resumable via
+ *   the persistent scan cache, retrying failed frames with backoff,
+ *   optionally bandwidth-limited, reporting per-frame status
  * - SAILS support: scanFile.sweepIndex is threaded through to the worker
  *   for per-sweep rendering; rawScanCache is keyed by S3 key so multiple
  *   sweeps from the same volume share a single download.
+ * - Processing options (e.g. SRV storm motion) are threaded through to the
+ *   worker and folded into each frame's cache key.
+ * - Swath accumulation walks a frame range through the same bulk download
+ *   path, sampling each scan onto a shared grid instead of rendering it.
+ * - In-between frames for smooth playback are synthesized by the worker
+ *   from two cached frames and cached under FrameCache.makeInterpolatedKey.
+ * - Hail summaries (volume MESH/POSH maxima and hail cells) are requested
+ *   per scan apart from the frames, so the hail markers never change a
+ *   frame's cache key.
  */
 
-import { fetchScan } from './s3Client';
+import { fetchScan, scanCacheKey } from './s3Client';
+import { scanDiskCache } from './scanDiskCache';
+import { isLocalScanKey } from './localFiles';
 import { getWorkerPool } from './workerPool';
 import { frameCache, rawScanCache, FrameCache } from './frameCache';
 import type { ScanFile } from './types';
-import type { ColorStop } from './colorTables';
-
-const LOOK_AHEAD = 3;
+import type { RadarProduct, ProcessingOptions } from './renderLogic';
+import type { FreezingLevels, HailSummary } from './hailProducts';
+import type { SwathKind, SwathGridSpec } from './swath';
+import { useTimelineStore, BASE_FRAME_INTERVAL_MS } from '../../stores/timelineStore';
+import { useDownloadStore, type FrameDownloadState } from '../../stores/downloadStore';
+
+/** Look-ahead when paused or stepping, and the floor while playing */
+const MIN_LOOK_AHEAD = 3;
+const MAX_LOOK_AHEAD = 32;
 const LOOK_BEHIND = 1;
-const MAX_CONCURRENT_DOWNLOADS = 2;
+const MIN_CONCURRENT_DOWNLOADS = 2;
+const MAX_CONCURRENT_DOWNLOADS = 6;
+/** Loop regions up to this many frames are queued in full while playing */
+const MAX_LOOP_FILL = 60;
+/** Assumed until the first downloads and decodes are measured */
+const DEFAULT_BANDWIDTH_BPS = 2 * 1024 * 1024;
+const DEFAULT_SCAN_BYTES = 6 * 1024 * 1024;
+const DEFAULT_RENDER_MS = 300;
+/** Weight of each new sample in the bandwidth / scan size moving averages */
+const EWMA_ALPHA = 0.3;
+/** Parallel jobs for bulk walks (download-all, swath accumulation). */
+const BULK_CONCURRENCY = 4;
+/** Download-all tries per frame before marking it failed */
+const MAX_DOWNLOAD_ATTEMPTS = 4;
+const RETRY_BASE_MS = 1000;
+/** Hail summaries kept (one per scan and freezing levels, a few KB each) */
+const HAIL_SUMMARY_LIMIT = 128;
 
 /**
  * Look up the actual 1-based elevation number for a given elevation index.
@@ -41,15 +79,14 @@ type FrameReadyCallback = (cacheKey: string) => void;
 interface PrefetchJob {
   cacheKey: string;
   scanFile: ScanFile;
-  product: 'REF' | 'VEL';
+  product: RadarProduct;
   elevationNumber: number;
   siteLat: number;
   siteLon: number;
   priority: number; // 0 = highest (current frame)
   abortController: AbortController;
-  colorTable?: ColorStop[];
-  smoothing?: 'none' | 'low' | 'high';
   sweepIndex?: number;
+  processing?: ProcessingOptions;
 }
 
 export class PrefetchManager {
@@ -57,9 +94,25 @@ export class PrefetchManager {
   private pendingKeys = new Set<string>();
   private jobQueue: PrefetchJob[] = [];
   private onFrameReady: FrameReadyCallback | null = null;
+  private frameReadyListeners = new Set<FrameReadyCallback>();
   private downloadAllActive = false;
   private downloadAllAbort: AbortController | null = null;
   private downloadAllProgress = { completed: 0, total: 0 };
+  private swathAbort: AbortController | null = null;
+  private pendingInterpolations = new Set<string>();
+  /** Hail summary per hailSummaryKey (null = volume has no hail grid), oldest first */
+  private hailSummaries = new Map<string, HailSummary | null>();
+  private pendingHailSummaries = new Map<string, Promise<boolean>>();
+  /** Removes the current download-all's frame-ready listener */
+  private stopFrameStateTracking: (() => void) | null = null;
+  /** performance.now() before which the next throttled download may not start */
+  private throttleNextAt = 0;
+  /** Current download concurrency (set by updateWindow) */
+  private maxConcurrent = MIN_CONCURRENT_DOWNLOADS;
+  /** Per-download throughput (bytes/s), moving average */
+  private bandwidthBps = DEFAULT_BANDWIDTH_BPS;
+  private avgScanBytes = DEFAULT_SCAN_BYTES;
+  private measured = false;
 
   /**
    * Register a callback for when a frame becomes available in the cache.
@@ -68,6 +121,17 @@ export class PrefetchManager {
     this.onFrameReady = cb;
   }
 
+  /**
+   * Add a further frame-ready listener (e.g. a secondary map panel).
+   * Returns a function that removes it.
+   */
+  addFrameReadyListener(cb: FrameReadyCallback): () => void {
+    this.frameReadyListeners.add(cb);
+    return () => {
+      this.frameReadyListeners.delete(cb);
+    };
+  }
+
   /**
    * Update the prefetch window based on current playback position.
    * Cancels out-of-window jobs and queues new ones.
@@ -75,18 +139,31 @@ export class PrefetchManager {
   async updateWindow(
     currentIndex: number,
     scanFiles: ScanFile[],
-    product: 'REF' | 'VEL',
+    product: RadarProduct,
     elevationIndex: number,
     siteLat: number,
     siteLon: number,
-    colorTable?: ColorStop[],
     paletteVersion = 0,
-    smoothing: 'none' | 'low' | 'high' = 'none',
+    processing?: ProcessingOptions,
   ): Promise<void> {
     if (scanFiles.length === 0) return;
 
     const elevationNumber = await resolveElevationNumber(elevationIndex);
 
+    const { lookAhead, concurrency } = this.planWindow(scanFiles[currentIndex]);
+    this.maxConcurrent = concurrency;
+
+    // Playback order from the current frame, as stepForward walks it:
+    // wraps to the loop start when looping, otherwise stops at the end
+    const { playing, loopStart, loopEnd, loopEnabled } = useTimelineStore.getState();
+    const minIndex = loopEnabled && loopStart !== null ? loopStart : 0;
+    const maxIndex = Math.min(loopEnabled && loopEnd !== null ? loopEnd : scanFiles.length - 1, scanFiles.length - 1);
+    const visited = new Set<number>([currentIndex]);
+    const next = (idx: number): number | null => {
+      const n = idx + 1 > maxIndex ? (loopEnabled ? minIndex : null) : idx + 1;
+      return n === null || visited.has(n) ? null : n;
+    };
+
     // Compute window indices
     const windowIndices: { index: number; priority: number }[] = [];
 
@@ -94,18 +171,28 @@ export class PrefetchManager {
     windowIndices.push({ index: currentIndex, priority: 0 });
 
     // Look-ahead
-    for (let i = 1; i <= LOOK_AHEAD; i++) {
-      const idx = currentIndex + i;
-      if (idx < scanFiles.length) {
-        windowIndices.push({ index: idx, priority: i <= 2 ? 1 : (i <= 4 ? 2 : 3) });
-      }
+    let idx: number | null = currentIndex;
+    for (let i = 1; i <= lookAhead; i++) {
+      idx = next(idx);
+      if (idx === null) break;
+      visited.add(idx);
+      windowIndices.push({ index: idx, priority: i <= 2 ? 1 : (i <= 4 ? 2 : 3) });
     }
 
     // Look-behind
     for (let i = 1; i <= LOOK_BEHIND; i++) {
-      const idx = currentIndex - i;
-      if (idx >= 0) {
-        windowIndices.push({ index: idx, priority: 4 });
+      const behind = currentIndex - i;
+      if (behind >= 0 && !visited.has(behind)) {
+        visited.add(behind);
+        windowIndices.push({ index: behind, priority: 4 });
+      }
+    }
+
+    // Rest of the loop region, so every pass after the first plays from cache
+    const loopLength = maxIndex - minIndex + 1;
+    if (playing && loopEnabled && loopLength <= MAX_LOOP_FILL) {
+      for (let i = minIndex; i <= maxIndex; i++) {
+        if (!visited.has(i)) windowIndices.push({ index: i, priority: 5 });
       }
     }
 
@@ -115,7 +202,7 @@ export class PrefetchManager {
 
     for (const { index, priority } of windowIndices) {
       const scan = scanFiles[index];
-      const key = FrameCache.makeKey(scan.key, scan.timestamp, product, elevationIndex, paletteVersion, smoothing, scan.sweepIndex);
+      const key = FrameCache.makeKey(scan.key, scan.timestamp, product, elevationIndex, paletteVersion, scan.sweepIndex, processing);
       windowKeys.add(key);
 
       // Skip if already cached or already being fetched
@@ -132,9 +219,8 @@ export class PrefetchManager {
         siteLon: scan.siteLon ?? siteLon,
         priority,
         abortController: new AbortController(),
-        colorTable,
-        smoothing,
         sweepIndex: scan.sweepIndex,
+        processing,
       });
     }
 
@@ -148,12 +234,13 @@ export class PrefetchManager {
       }
     }
 
-    // Abort all queued (waiting) jobs — they're from a previous window position
+    // Abort all queued (waiting) jobs — they're from a previous window position.
+    // Direct requests (requestFrame) stay pending until they finish.
     for (const queuedJob of this.jobQueue) {
       queuedJob.abortController.abort();
+      this.pendingKeys.delete(queuedJob.cacheKey);
     }
     this.jobQueue = [];
-    this.pendingKeys.clear();
 
     // Sort by priority and enqueue
     jobs.sort((a, b) => a.priority - b.priority);
@@ -163,7 +250,7 @@ export class PrefetchManager {
       this.jobQueue.push(job);
     }
 
-    // Drain the queue (starts jobs up to MAX_CONCURRENT_DOWNLOADS)
+    // Drain the queue (starts jobs up to the current concurrency)
     this.drainQueue();
   }
 
@@ -173,15 +260,14 @@ export class PrefetchManager {
    */
   async requestFrame(
     scanFile: ScanFile,
-    product: 'REF' | 'VEL',
+    product: RadarProduct,
     elevationIndex: number,
     siteLat: number,
     siteLon: number,
-    colorTable?: ColorStop[],
     paletteVersion = 0,
-    smoothing: 'none' | 'low' | 'high' = 'none',
+    processing?: ProcessingOptions,
   ): Promise<boolean> {
-    const key = FrameCache.makeKey(scanFile.key, scanFile.timestamp, product, elevationIndex, paletteVersion, smoothing, scanFile.sweepIndex);
+    const key = FrameCache.makeKey(scanFile.key, scanFile.timestamp, product, elevationIndex, paletteVersion, scanFile.sweepIndex, processing);
 
     if (frameCache.has(key)) return true;
     if (this.activeDownloads.has(key) || this.pendingKeys.has(key)) return false;
@@ -197,9 +283,8 @@ export class PrefetchManager {
       siteLon: scanFile.siteLon ?? siteLon,
       priority: 0,
       abortController: new AbortController(),
-      colorTable,
-      smoothing,
       sweepIndex: scanFile.sweepIndex,
+      processing,
     };
 
     this.pendingKeys.add(key);
@@ -207,6 +292,79 @@ export class PrefetchManager {
     return false;
   }
 
+  /**
+   * Synthesize the `steps` in-between frames from the cached frame at `fromKey`
+   * to the one at `toKey`, caching each as makeInterpolatedKey(fromKey, step, steps).
+   * No-op unless both frames are cached and come from the same site (a mosaic
+   * handoff can't be morphed). Resolves once the frames are cached (or skipped);
+   * onFrameReady fires for each.
+   */
+  async requestInterpolation(fromKey: string, toKey: string, steps: number): Promise<void> {
+    if (steps <= 0) return;
+    const lastKey = FrameCache.makeInterpolatedKey(fromKey, steps, steps);
+    if (frameCache.has(lastKey) || this.pendingInterpolations.has(lastKey)) return;
+
+    const from = frameCache.get(fromKey);
+    const to = frameCache.get(toKey);
+    if (!from || !to) return;
+    if (from.siteLat !== to.siteLat || from.siteLon !== to.siteLon) return;
+
+    this.pendingInterpolations.add(lastKey);
+    try {
+      const result = await getWorkerPool().interpolateFrames({ from: from.image, to: to.image, count: steps });
+      const images = result.interpolated ?? [];
+      images.forEach((image, i) => {
+        const t = (i + 1) / (steps + 1);
+        const key = FrameCache.makeInterpolatedKey(fromKey, i + 1, steps);
+        frameCache.set(key, {
+          image,
+          timestamp: Math.round(from.timestamp + (to.timestamp - from.timestamp) * t),
+          product: from.product,
+          elevation: from.elevation,
+          siteLat: from.siteLat,
+          siteLon: from.siteLon,
+          rangeKm: from.rangeKm,
+          stats: t < 0.5 ? from.stats : to.stats,
+          interpolated: true,
+        });
+        this.notifyFrameReady(key);
+      });
+    } catch (err: any) {
+      if (err?.message !== 'Cancelled') {
+        console.warn('[Prefetch] Interpolation failed', err?.message);
+      }
+    } finally {
+      this.pendingInterpolations.delete(lastKey);
+    }
+  }
+
+  /**
+   * Cached hail summary for a scan at the given freezing levels: undefined
+   * until requestHailSummary has fetched it, null when the volume can't be
+   * gridded.
+   */
+  getHailSummary(scanKey: string, levels: FreezingLevels): HailSummary | null | undefined {
+    return this.hailSummaries.get(hailSummaryKey(scanKey, levels));
+  }
+
+  /**
+   * Grid a scan's hail products in the worker and cache the summary for
+   * getHailSummary. Concurrent requests for the same scan share one worker
+   * call. Resolves true once the summary is cached, false if it failed.
+   */
+  requestHailSummary(scanFile: ScanFile, siteLat: number, siteLon: number, levels: FreezingLevels): Promise<boolean> {
+    const key = hailSummaryKey(scanFile.key, levels);
+    if (this.hailSummaries.has(key)) return Promise.resolve(true);
+
+    let pending = this.pendingHailSummaries.get(key);
+    if (!pending) {
+      pending = this.fetchHailSummary(key, scanFile, siteLat, siteLon, levels)
+        .finally(() => this.pendingHailSummaries.delete(key));
+      this.pendingHailSummaries.set(key, pending);
+    }
+    return pending;
+  }
+
   /**
    * Cancel all active and pending downloads.
    */
@@ -228,40 +386,56 @@ export class PrefetchManager {
       this.downloadAllActive = false;
       this.downloadAllAbort = null;
     }
+    // Frame states refer to the old keys
+    this.stopFrameStateTracking?.();
+    this.stopFrameStateTracking = null;
   }
 
   /**
-   * Download and pre-render ALL frames for the current event.
+   * Download and pre-decode ALL frames for the current event.
    *
    * Uses spiral ordering from startIndex (current position) outward so
    * frames near the user's position are cached first. Maintains a rolling
    * concurrency pool of BULK_CONCURRENCY parallel downloads for maximum
    * throughput without overwhelming the browser.
+   *
+   * Resumable: scans go through fetchScan and so the persistent scan cache,
+   * so restarting (new product, settings change, app reload and reopening
+   * the event) only downloads what's missing. A failing frame is retried
+   * with exponential backoff and then marked failed without stopping the
+   * rest; a scan without data for the product is marked missing at once. Network downloads are paced to the download store's bandwidth
+   * limit. onFrameStates receives the per-frame status after every change;
+   * frames decoded later by the playback window are marked decoded too.
+   *
+   * Resolves true when every frame was attempted, false if cancelled.
    */
   async downloadAll(
     scanFiles: ScanFile[],
-    product: 'REF' | 'VEL',
+    product: RadarProduct,
     elevationIndex: number,
     siteLat: number,
     siteLon: number,
     onProgress?: (completed: number, total: number) => void,
-    colorTable?: ColorStop[],
     paletteVersion = 0,
     startIndex = 0,
-    smoothing: 'none' | 'low' | 'high' = 'none',
-  ): Promise<void> {
+    processing?: ProcessingOptions,
+    onFrameStates?: (states: FrameDownloadState[]) => void,
+  ): Promise<boolean> {
     // Cancel any existing download-all before starting new one
     if (this.downloadAllActive) {
       this.downloadAllAbort?.abort();
     }
+    this.stopFrameStateTracking?.();
 
     this.downloadAllActive = true;
-    this.downloadAllAbort = new AbortController();
+    const abort = new AbortController();
+    this.downloadAllAbort = abort;
 
     const elevationNumber = await resolveElevationNumber(elevationIndex);
-    const signal = this.downloadAllAbort.signal;
+    const signal = abort.signal;
     const total = scanFiles.length;
-    const BULK_CONCURRENCY = 4;
+    const keys = scanFiles.map((scan) =>
+      FrameCache.makeKey(scan.key, scan.timestamp, product, elevationIndex, paletteVersion, scan.sweepIndex, processing));
 
     // Generate spiral order: [startIndex, start+1, start-1, start+2, start-2, ...]
     // Ensures frames near the user's current position are cached first.
@@ -276,83 +450,322 @@ export class PrefetchManager {
       if (behind >= 0) orderedIndices.push(behind);
     }
 
-    // Count already-cached frames for accurate initial progress
-    let completed = 0;
-    for (const idx of orderedIndices) {
-      const scan = scanFiles[idx];
-      const key = FrameCache.makeKey(scan.key, scan.timestamp, product, elevationIndex, paletteVersion, smoothing, scan.sweepIndex);
-      if (frameCache.has(key)) {
-        completed++;
-      }
-    }
+    // Already-cached frames count as decoded for accurate initial progress
+    const states: FrameDownloadState[] = keys.map((key) => (frameCache.has(key) ? 'decoded' : 'queued'));
+    let completed = states.filter((st) => st === 'decoded').length;
+    let running = true;
+    const setState = (idx: number, state: FrameDownloadState) => {
+      if (states[idx] === state) return;
+      if (state === 'decoded') completed++;
+      else if (states[idx] === 'decoded') completed--;
+      states[idx] = state;
+      onFrameStates?.([...states]);
+      // Progress belongs to the run; later window decodes only fix up states
+      if (running) onProgress?.(completed, total);
+    };
+    onFrameStates?.([...states]);
     onProgress?.(completed, total);
 
-    // Concurrent limiter: always maintain BULK_CONCURRENCY active jobs.
-    // Unlike batch processing, a new job starts immediately when one finishes.
-    const active = new Set<Promise<void>>();
-
-    for (const idx of orderedIndices) {
-      if (signal.aborted) break;
-
-      const scan = scanFiles[idx];
-      const key = FrameCache.makeKey(scan.key, scan.timestamp, product, elevationIndex, paletteVersion, smoothing, scan.sweepIndex);
-
-      // Skip already cached (counted above)
-      if (frameCache.has(key)) continue;
+    // Frames the playback window decodes (or a failed frame decoded later)
+    const indexByKey = new Map(keys.map((key, i) => [key, i]));
+    this.stopFrameStateTracking = this.addFrameReadyListener((key) => {
+      const idx = indexByKey.get(key);
+      if (idx !== undefined) setState(idx, 'decoded');
+    });
 
-      // Wait if at concurrency limit — as soon as one finishes, we proceed
-      if (active.size >= BULK_CONCURRENCY) {
-        await Promise.race(active);
+    await this.runBulk(orderedIndices, signal, async (idx) => {
+      // Skip already cached (e.g. decoded by the playback window meanwhile)
+      if (frameCache.has(keys[idx])) {
+        setState(idx, 'decoded');
+        return;
       }
-      if (signal.aborted) break;
 
+      const scan = scanFiles[idx];
       const job: PrefetchJob = {
-        cacheKey: key,
+        cacheKey: keys[idx],
         scanFile: scan,
         product,
         elevationNumber,
         siteLat: scan.siteLat ?? siteLat,
         siteLon: scan.siteLon ?? siteLon,
         priority: 5,
-        abortController: this.downloadAllAbort!,
-        colorTable,
-        smoothing,
+        abortController: abort,
         sweepIndex: scan.sweepIndex,
+        processing,
       };
 
-      const p = this.processJobAsync(job).then(() => {
-        completed++;
-        onProgress?.(completed, total);
+      setState(idx, 'downloading');
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await this.throttleDownload(scan, signal);
+          const cached = await this.fetchDecodeRender(job);
+          if (!signal.aborted) setState(idx, cached ? 'decoded' : 'missing');
+          return;
+        } catch (err: any) {
+          if (signal.aborted || err?.name === 'AbortError' || err?.message === 'Cancelled') return;
+          if (attempt >= MAX_DOWNLOAD_ATTEMPTS) {
+            console.warn(`[Prefetch] Giving up on ${scan.key} after ${attempt} attempts:`, err?.message);
+            setState(idx, 'failed');
+            return;
+          }
+          // 1s, 2s, 4s… with jitter so parallel failures don't retry in lockstep
+          const delay = RETRY_BASE_MS * 2 ** (attempt - 1) + Math.random() * RETRY_BASE_MS / 4;
+          if (!(await sleep(delay, signal))) return;
+        }
+      }
+    });
+
+    running = false;
+    if (this.downloadAllAbort === abort) {
+      this.downloadAllActive = false;
+      this.downloadAllAbort = null;
+    }
+    return !signal.aborted;
+  }
+
+  /**
+   * Whether download-all is in progress.
+   */
+  get isDownloadingAll(): boolean {
+    return this.downloadAllActive;
+  }
+
+  /**
+   * Walk scanFiles[startIndex..endIndex] and sample each scan's swath field
+   * (max shear or REF) onto `grid`. Scans are fetched through the raw scan
+   * cache, so frames already pulled by download-all aren't downloaded
+   * again. Each sampled grid is handed to onFrame as it arrives — merging
+   * is the caller's job.
+   *
+   * Runs independently of download-all; a new accumulation cancels the
+   * previous one. Resolves when done or cancelled.
+   */
+  async accumulateSwath(
+    scanFiles: ScanFile[],
+    kind: SwathKind,
+    grid: SwathGridSpec,
+    elevationIndex: number,
+    siteLat: number,
+    siteLon: number,
+    startIndex: number,
+    endIndex: number,
+    onFrame: (values: Float32Array, index: number) => void,
+    onProgress?: (completed: number, total: number) => void,
+    processing?: ProcessingOptions,
+  ): Promise<void> {
+    this.swathAbort?.abort();
+    const abort = new AbortController();
+    this.swathAbort = abort;
+    const signal = abort.signal;
+
+    const elevationNumber = await resolveElevationNumber(elevationIndex);
+    const indices: number[] = [];
+    for (let i = Math.max(0, startIndex); i <= Math.min(endIndex, scanFiles.length - 1); i++) {
+      indices.push(i);
+    }
+    const total = indices.length;
+    let completed = 0;
+    onProgress?.(completed, total);
+
+    await this.runBulk(indices, signal, async (idx) => {
+      const scan = scanFiles[idx];
+      try {
+        const buffer = await this.fetchRaw(scan, signal);
+        if (!buffer || signal.aborted) return;
+        const result = await getWorkerPool().sampleSwath({
+          scanBuffer: buffer.slice(0),
+          scanKey: scan.key,
+          elevationNumber,
+          siteLat: scan.siteLat ?? siteLat,
+          siteLon: scan.siteLon ?? siteLon,
+          kind,
+          grid,
+          sweepIndex: scan.sweepIndex,
+          processing,
+        });
+        if (signal.aborted) return;
+        if (result.swathValues) onFrame(result.swathValues, idx);
+      } catch (err: any) {
+        if (err?.name !== 'AbortError' && err?.message !== 'Cancelled') {
+          console.warn(`[Prefetch] Swath sample failed: ${scan.key}`, err?.message);
+        }
+      }
+      if (signal.aborted) return;
+      completed++;
+      onProgress?.(completed, total);
+    });
+
+    if (this.swathAbort === abort) this.swathAbort = null;
+  }
+
+  /**
+   * Stop a running swath accumulation (already-merged frames are kept by the caller).
+   */
+  cancelSwath(): void {
+    this.swathAbort?.abort();
+    this.swathAbort = null;
+  }
+
+  // ── Private ────────────────────────────────────────────────────────
+
+  /**
+   * Size the prefetch window for the current playback state. Paused, it's
+   * the minimum. Playing, one frame is shown every BASE_FRAME_INTERVAL_MS /
+   * speed; a frame costs its share of a scan download (SAILS sweeps share
+   * one file) plus a decode, and decodes run on the worker pool in
+   * parallel. Concurrency is raised until downloads keep pace with
+   * playback, and the look-ahead reaches as far as playback gets while a
+   * newly queued frame is downloaded and decoded.
+   */
+  private planWindow(scan: ScanFile | undefined): { lookAhead: number; concurrency: number } {
+    const { playing, speed } = useTimelineStore.getState();
+    if (!playing) return { lookAhead: MIN_LOOK_AHEAD, concurrency: MIN_CONCURRENT_DOWNLOADS };
+
+    const pool = getWorkerPool();
+    const framePeriodMs = BASE_FRAME_INTERVAL_MS / Math.max(speed, 1);
+    const downloadMs = (this.avgScanBytes / this.bandwidthBps) * 1000 / (scan?.sweepCount ?? 1);
+    const renderMs = pool.averageRenderMs ?? DEFAULT_RENDER_MS;
+
+    const concurrency = clamp(
+      Math.ceil(downloadMs / framePeriodMs),
+      MIN_CONCURRENT_DOWNLOADS,
+      MAX_CONCURRENT_DOWNLOADS,
+    );
+    // Frames wait for a free worker once decoding is the bottleneck
+    const decodeMs = renderMs * Math.max(1, concurrency / Math.max(pool.size, 1));
+    const lookAhead = clamp(
+      Math.ceil((downloadMs + decodeMs) / framePeriodMs) + concurrency,
+      MIN_LOOK_AHEAD,
+      MAX_LOOK_AHEAD,
+    );
+    return { lookAhead, concurrency };
+  }
+
+  /**
+   * Wait for the scan's turn under the download-all bandwidth limit.
+   * Each network download reserves a time slot sized by the scan's listed
+   * size, so the average rate stays under the cap. Scans already in memory,
+   * on disk or local aren't limited.
+   */
+  private async throttleDownload(scan: ScanFile, signal: AbortSignal): Promise<void> {
+    const limitMbps = useDownloadStore.getState().bandwidthLimitMbps;
+    if (limitMbps <= 0 || scan.size <= 0) return;
+    if (rawScanCache.has(scan.key) || isLocalScanKey(scan.key) || (await scanDiskCache.has(scanCacheKey(scan.key)))) return;
+
+    const now = performance.now();
+    const start = Math.max(now, this.throttleNextAt);
+    this.throttleNextAt = start + (scan.size * 8) / (limitMbps * 1e6) * 1000;
+    if (!(await sleep(start - now, signal))) throw new DOMException('Aborted', 'AbortError');
+  }
+
+  /** Fold one network fetch into the bandwidth estimate. */
+  private recordDownload(bytes: number, ms: number): void {
+    if (bytes <= 0) return;
+    const bps = bytes / Math.max(ms / 1000, 0.001);
+    if (!this.measured) {
+      this.bandwidthBps = bps;
+      this.avgScanBytes = bytes;
+      this.measured = true;
+    } else {
+      this.bandwidthBps += EWMA_ALPHA * (bps - this.bandwidthBps);
+      this.avgScanBytes += EWMA_ALPHA * (bytes - this.avgScanBytes);
+    }
+  }
+
+  private notifyFrameReady(cacheKey: string): void {
+    this.onFrameReady?.(cacheKey);
+    for (const listener of this.frameReadyListeners) listener(cacheKey);
+  }
+
+  /**
+   * Run `task` for each index, keeping up to BULK_CONCURRENCY in flight.
+   * Unlike batch processing, a new task starts as soon as one finishes.
+   */
+  private async runBulk(
+    indices: number[],
+    signal: AbortSignal,
+    task: (index: number) => Promise<void>,
+  ): Promise<void> {
+    const active = new Set<Promise<void>>();
+
+    for (const idx of indices) {
+      if (signal.aborted) break;
+
+      // Wait if at concurrency limit — as soon as one finishes, we proceed
+      if (active.size >= BULK_CONCURRENCY) {
+        await Promise.race(active);
+      }
+      if (signal.aborted) break;
+
+      const p = task(idx).then(() => {
         active.delete(p);
       });
       active.add(p);
     }
 
-    // Wait for remaining in-flight jobs
+    // Wait for remaining in-flight tasks
     if (active.size > 0) {
       await Promise.all(active);
     }
-
-    this.downloadAllActive = false;
-    this.downloadAllAbort = null;
   }
 
   /**
-   * Whether download-all is in progress.
+   * Get raw scan data (memory cache → disk cache → network). Keyed by S3
+   * key — multiple sweeps from the same volume share one download. Returns
+   * null if aborted. Only network fetches feed the bandwidth estimate; local
+   * files and disk-cache hits take milliseconds and would inflate it.
    */
-  get isDownloadingAll(): boolean {
-    return this.downloadAllActive;
+  private async fetchRaw(scanFile: ScanFile, signal: AbortSignal): Promise<ArrayBuffer | null> {
+    let buffer = rawScanCache.get(scanFile.key);
+    if (!buffer) {
+      const fromNetwork = !isLocalScanKey(scanFile.key) && !(await scanDiskCache.has(scanCacheKey(scanFile.key)));
+      const started = performance.now();
+      buffer = await fetchScan(scanFile.key, signal);
+      if (signal.aborted) return null;
+      if (fromNetwork) this.recordDownload(buffer.byteLength, performance.now() - started);
+      rawScanCache.set(scanFile.key, buffer);
+    }
+    return buffer;
   }
 
-  // ── Private ────────────────────────────────────────────────────────
+  /** Fetch the scan, grid it in the worker and cache the summary under `key` */
+  private async fetchHailSummary(
+    key: string,
+    scanFile: ScanFile,
+    siteLat: number,
+    siteLon: number,
+    levels: FreezingLevels,
+  ): Promise<boolean> {
+    try {
+      const buffer = await this.fetchRaw(scanFile, new AbortController().signal);
+      if (!buffer) return false;
+      const result = await getWorkerPool().hailSummary({
+        scanBuffer: buffer.slice(0),
+        scanKey: scanFile.key,
+        siteLat: scanFile.siteLat ?? siteLat,
+        siteLon: scanFile.siteLon ?? siteLon,
+        processing: { hail: levels },
+      });
+      this.hailSummaries.set(key, result.hail ?? null);
+      if (this.hailSummaries.size > HAIL_SUMMARY_LIMIT) {
+        this.hailSummaries.delete(this.hailSummaries.keys().next().value!);
+      }
+      return true;
+    } catch (err: any) {
+      if (err?.name !== 'AbortError' && err?.message !== 'Cancelled') {
+        console.warn(`[Prefetch] Hail summary failed: ${scanFile.key}`, err?.message);
+      }
+      return false;
+    }
+  }
 
   /**
-   * Drain the job queue: start jobs up to MAX_CONCURRENT_DOWNLOADS.
+   * Drain the job queue: start jobs up to the current concurrency.
    * Called after queue changes and after each job completes.
    * No busy-wait — each completed job triggers the next dequeue.
    */
   private drainQueue(): void {
-    while (this.activeDownloads.size < MAX_CONCURRENT_DOWNLOADS && this.jobQueue.length > 0) {
+    while (this.activeDownloads.size < this.maxConcurrent && this.jobQueue.length > 0) {
       const job = this.jobQueue.shift()!;
 
       // Skip if already aborted (window moved on)
@@ -384,26 +797,28 @@ export class PrefetchManager {
       if (err?.name !== 'AbortError' && err?.message !== 'Cancelled') {
         console.warn(`[Prefetch] Failed: ${job.scanFile.key}`, err?.message);
       }
+    } finally {
+      this.pendingKeys.delete(job.cacheKey);
     }
   }
 
-  private async fetchDecodeRender(job: PrefetchJob): Promise<void> {
-    const { cacheKey, scanFile, product, elevationNumber, siteLat, siteLon, abortController, colorTable, smoothing, sweepIndex } = job;
+  /**
+   * Fetch, decode and cache one frame. Resolves true when the frame was
+   * cached; false when aborted or the scan has no image for the product
+   * (e.g. a tilt without that moment).
+   */
+  private async fetchDecodeRender(job: PrefetchJob): Promise<boolean> {
+    const { cacheKey, scanFile, product, elevationNumber, siteLat, siteLon, abortController, sweepIndex, processing } = job;
     const signal = abortController.signal;
 
     // 1. Get raw scan data (memory cache → network)
-    // Key by S3 key — multiple sweeps from the same volume share one download
-    let buffer = rawScanCache.get(scanFile.key);
-    if (!buffer) {
-      buffer = await fetchScan(scanFile.key, signal);
-      if (signal.aborted) return;
-      rawScanCache.set(scanFile.key, buffer);
-    }
+    const buffer = await this.fetchRaw(scanFile, signal);
+    if (!buffer) return false;
 
     // 2. Copy buffer for worker (transfer makes original unusable)
     const bufferCopy = buffer.slice(0);
 
-    // 3. Dispatch to worker pool for decode + render
+    // 3. Dispatch to worker pool for decode
     const pool = getWorkerPool();
     const result = await pool.process({
       scanBuffer: bufferCopy,
@@ -412,23 +827,18 @@ export class PrefetchManager {
       elevationNumber,
       siteLat,
       siteLon,
-      colorTable,
-      smoothing,
       sweepIndex,
+      processing,
     });
 
     if (signal.aborted) {
-      return;
+      return false;
     }
 
-    if (result.imageBuffer) {
-      // 4. Create blob URL from the worker's PNG ArrayBuffer (instant, ~0ms)
-      const blob = new Blob([result.imageBuffer], { type: 'image/png' });
-      const blobUrl = URL.createObjectURL(blob);
-
-      // 5. Store in frame cache with pre-computed blob URL
+    if (result.image) {
+      // 4. Store the polar frame — coloring happens on the GPU at display time
       frameCache.set(cacheKey, {
-        blobUrl,
+        image: result.image,
         timestamp: result.sweepTimestamp ?? result.timestamp!,
         product: result.product!,
         elevation: result.elevation!,
@@ -438,7 +848,7 @@ export class PrefetchManager {
         stats: result.frameStats,
       });
 
-      // 6. Store elevations metadata if available
+      // 5. Store elevations metadata if available
       if (result.elevations && result.elevations.length > 0) {
         // Import dynamically to avoid circular deps
         const { useRadarStore } = await import('../../stores/radarStore');
@@ -448,12 +858,40 @@ export class PrefetchManager {
         }
       }
 
-      // 7. Notify listener
-      this.onFrameReady?.(cacheKey);
+      // 6. Notify listener
+      this.notifyFrameReady(cacheKey);
+      return true;
     }
+    return false;
   }
 }
 
+/** Hail summaries cover the whole volume — keyed per scan, not per sweep */
+function hailSummaryKey(scanKey: string, levels: FreezingLevels): string {
+  return `${scanKey}_fz${levels.zeroCKm}-${levels.minus20CKm}`;
+}
+
+/** Resolves true after `ms`, or false as soon as `signal` aborts. */
+function sleep(ms: number, signal: AbortSignal): Promise<boolean> {
+  if (signal.aborted) return Promise.resolve(false);
+  if (ms <= 0) return Promise.resolve(true);
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
 // ── Singleton ─────────────────────────────────────────────────────────
 
 let instance: PrefetchManager | null = null;
@@ -1,15 +1,35 @@
 /**
- * Radar decode + render Web Worker.
+ * Radar decode Web Worker.
  *
  * Moves the entire heavy pipeline off the main thread:
- *   pako.ungzip → Buffer.from → Level2Radar parse → OffscreenCanvas render → ImageBitmap
+ *   pako.ungzip → Buffer.from → Level2Radar parse → PolarImage encode
+ *
+ * Frames are returned as quantized polar moment data (polarImage.ts) rather
+ * than pixels — the main thread colors them on the GPU, so palette and
+ * smoothing changes never come back here.
  *
  * Includes a parsed-radar LRU cache so that product switches (REF→VEL)
- * skip the expensive gunzip+parse (~300-500ms) and only re-render (~100-200ms).
+ * skip the expensive gunzip+parse (~300-500ms) and only re-encode (~20-50ms).
  *
  * SAILS support: when sweepIndex is specified, renders only the requested sweep
  * from within a volume. Multiple sub-frame entries share the same parsed cache entry.
  *
+ * Cross-sections: 'cross-section' requests sample the parsed volume along a
+ * line and return a height × distance value grid instead of an image.
+ *
+ * Gate queries: 'gate-query' requests read the single gate under the map
+ * cursor (value, range, beam height) for the hover readout.
+ *
+ * Hail summaries: 'hail-summary' requests grid the volume's MESH/POSH (cached
+ * per scan and freezing levels) and return only the maxima and hail cells,
+ * so hail markers never change a frame's cache key.
+ *
+ * Swaths: 'swath' requests sample one scan's shear or reflectivity onto a
+ * shared lat/lon grid; the main thread max-merges the grids across the loop.
+ *
+ * Mosaics: 'mosaic' requests merge several sites' decoded frames onto one
+ * lat/lon grid (no scan parsing — the frames come from the frame cache).
+ *
  * Buffer polyfill: nexrad-level-2-data does `file instanceof Buffer` internally.
  * We assign the `buffer` npm package's Buffer to globalThis before any imports
  * of the library, so the instanceof check passes within the worker bundle.
@@ -27,37 +47,48 @@ import {
   renderFromParsed,
   detectSailsElevations,
   computeFrameStats,
-  CANVAS_SIZE,
   type ParsedRadarData,
+  type RadarProduct,
+  type ProcessingOptions,
 } from './renderLogic';
-import type { ColorStop } from './colorTables';
+import { sampleCrossSection, type LatLon, type CrossSectionResult } from './crossSection';
+import { queryGate, type GateQueryResult } from './gateQuery';
+import { getRotationMarkers, type RotationMarker } from './rotationDetection';
+import { getTdsRegions, type TdsRegion } from './tdsDetection';
+import { getHailProducts, type HailSummary } from './hailProducts';
+import { sampleSwath, type SwathKind, type SwathGridSpec } from './swath';
+import { interpolateFrames } from './frameInterpolation';
+import { composeMosaic, type MosaicInput, type MosaicMethod } from './mosaic';
+import type { PolarImage } from './polarImage';
 
 // ── Message types ───────────────────────────────────────────────────
 
 export interface WorkerRequest {
   id: number;
-  type: 'decode-render' | 'probe-sweeps';
+  type: 'decode-render' | 'probe-sweeps' | 'cross-section' | 'gate-query' | 'hail-summary' | 'swath' | 'interpolate' | 'mosaic';
   payload: {
     scanBuffer: ArrayBuffer;
     scanKey?: string; // S3 key for parsed-radar cache lookup
-    product: 'REF' | 'VEL';
+    product: RadarProduct;
     elevationNumber: number;
     siteLat: number;
     siteLon: number;
-    canvasSize?: number;
-    colorTable?: ColorStop[]; // Custom color palette (serialized, ~1-2KB)
-    smoothing?: 'none' | 'low' | 'high';  // Polar-space interpolation mode
     sweepIndex?: number; // 0-based sweep within volume (SAILS sub-frame)
+    processing?: ProcessingOptions; // Product-specific processing (e.g. SRV storm motion)
+    crossSection?: { start: LatLon; end: LatLon }; // Line endpoints for 'cross-section'
+    point?: LatLon; // Cursor position for 'gate-query'
+    swath?: { kind: SwathKind; grid: SwathGridSpec }; // Field + target grid for 'swath'
+    interpolate?: { from: PolarImage; to: PolarImage; count: number }; // Frame pair for 'interpolate'
+    mosaic?: { frames: MosaicInput[]; method: MosaicMethod; grid: SwathGridSpec }; // Site frames + target grid for 'mosaic'
   };
 }
 
 export interface WorkerResponse {
   id: number;
-  type: 'frame-ready' | 'error' | 'sweep-probe';
+  type: 'frame-ready' | 'no-data' | 'error' | 'sweep-probe' | 'cross-section' | 'gate-value' | 'hail-summary' | 'swath' | 'interpolated' | 'mosaic';
   payload: {
-    /** PNG image as ArrayBuffer (transferred zero-copy) for instant blob URL creation */
-    imageBuffer?: ArrayBuffer;
-    imageBitmap?: ImageBitmap; // Legacy — unused, kept for type compat
+    /** Polar moment data (encoded + azimuth buffers transferred zero-copy) */
+    image?: PolarImage;
     timestamp?: number;
     product?: string;
     elevation?: number;
@@ -83,7 +114,23 @@ export interface WorkerResponse {
       gatesAbove60: number;
       maxInboundVel: number | null;
       maxOutboundVel: number | null;
+      rotation?: RotationMarker[];
+      tds?: TdsRegion[];
     };
+    /** Sampled cross-section grid (values buffer transferred zero-copy) */
+    crossSection?: CrossSectionResult;
+    /** Gate under the cursor; null when the product has no data at this tilt */
+    gate?: GateQueryResult | null;
+    /** Gate query sent without scan bytes and the scan isn't in this worker's cache */
+    scanMissing?: boolean;
+    /** Volume hail maxima and cells; null when the volume can't be gridded */
+    hail?: HailSummary | null;
+    /** One scan sampled onto the swath grid (NaN = no data); null when the tilt has no data */
+    swathValues?: Float32Array | null;
+    /** In-between frames, in time order (buffers transferred zero-copy) */
+    interpolated?: PolarImage[];
+    /** Merged multi-site grid (NaN = no data) */
+    mosaicValues?: Float32Array;
   };
 }
 
@@ -115,24 +162,6 @@ function setCachedParsed(key: string, data: ParsedRadarData): void {
   parsedCache.set(key, data);
 }
 
-// ── Persistent canvas ───────────────────────────────────────────────
-// Reuse a single OffscreenCanvas across renders to avoid GPU memory churn.
-// Each 1800×1800 canvas = ~12.96 MB in GPU/backing store. Creating a new
-// one per frame during rapid downloadAll causes GC to fall behind, leaking
-// GPU memory until the browser OOMs. Safe to reuse because workers process
-// one job at a time and convertToBlob() copies the pixel data to the blob.
-let persistentCanvas: OffscreenCanvas | null = null;
-let persistentCtx: OffscreenCanvasRenderingContext2D | null = null;
-
-function createCanvas(w: number, h: number) {
-  if (!persistentCanvas || persistentCanvas.width !== w || persistentCanvas.height !== h) {
-    persistentCanvas = new OffscreenCanvas(w, h);
-    persistentCtx = persistentCanvas.getContext('2d') as OffscreenCanvasRenderingContext2D | null;
-    if (!persistentCtx) throw new Error('Failed to get OffscreenCanvas 2d context');
-  }
-  return { ctx: persistentCtx!, canvas: persistentCanvas };
-}
-
 // ── Helper: parse or get cached ─────────────────────────────────────
 
 function getOrParseScan(
@@ -159,7 +188,7 @@ function getOrParseScan(
 
 // ── Worker message handler ──────────────────────────────────────────
 
-self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
   const { id, type, payload } = e.data;
 
   // ── Probe sweep count (lightweight, no rendering) ──
@@ -190,13 +219,138 @@ self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
     return;
   }
 
+  // ── Vertical cross-section sampling ──
+  if (type === 'cross-section') {
+    const { scanBuffer, scanKey, siteLat, siteLon, product, processing, crossSection } = payload;
+    try {
+      const parsed = getOrParseScan(scanBuffer, scanKey, siteLat, siteLon);
+      if (!parsed || !crossSection) {
+        postResponse({ id, type: 'error', payload: { error: 'cross-section: no parsed scan or line' } });
+        return;
+      }
+      const result = sampleCrossSection(parsed, product, crossSection.start, crossSection.end, processing);
+      if (!result) {
+        postResponse({ id, type: 'error', payload: { error: `cross-section: no ${product} data in volume` } });
+        return;
+      }
+      const response: WorkerResponse = { id, type: 'cross-section', payload: { crossSection: result } };
+      (self as any).postMessage(response, [result.values.buffer]);
+    } catch (err: any) {
+      console.error('[Worker] cross-section error:', err);
+      postResponse({ id, type: 'error', payload: { error: err?.message ?? String(err) } });
+    }
+    return;
+  }
+
+  // ── Single-gate lookup for the hover readout ──
+  if (type === 'gate-query') {
+    const { scanBuffer, scanKey, siteLat, siteLon, product, elevationNumber, sweepIndex, processing, point } = payload;
+    try {
+      // An empty buffer means "only if already parsed" — the main thread
+      // sends the scan bytes on a miss
+      if (scanBuffer.byteLength === 0 && !(scanKey && getCachedParsed(scanKey))) {
+        postResponse({ id, type: 'gate-value', payload: { gate: null, scanMissing: true } });
+        return;
+      }
+      const parsed = getOrParseScan(scanBuffer, scanKey, siteLat, siteLon);
+      if (!parsed || !point) {
+        postResponse({ id, type: 'error', payload: { error: 'gate-query: no parsed scan or point' } });
+        return;
+      }
+      const gate = queryGate(parsed, product, elevationNumber, point, sweepIndex, processing);
+      postResponse({ id, type: 'gate-value', payload: { gate } });
+    } catch (err: any) {
+      postResponse({ id, type: 'error', payload: { error: err?.message ?? String(err) } });
+    }
+    return;
+  }
+
+  // ── Volume hail maxima and cells for the hail markers ──
+  if (type === 'hail-summary') {
+    const { scanBuffer, scanKey, siteLat, siteLon, processing } = payload;
+    try {
+      const parsed = getOrParseScan(scanBuffer, scanKey, siteLat, siteLon);
+      if (!parsed || !processing?.hail) {
+        postResponse({ id, type: 'error', payload: { error: 'hail-summary: no parsed scan or freezing levels' } });
+        return;
+      }
+      const elevation = parsed.radar.elevation;
+      try {
+        const grid = getHailProducts(parsed, processing.hail);
+        const hail = grid ? { maxMeshIn: grid.maxMeshIn, maxPosh: grid.maxPosh, cells: grid.cells } : null;
+        postResponse({ id, type: 'hail-summary', payload: { hail } });
+      } finally {
+        // Gridding walks every tilt; leave the cached scan where it was
+        parsed.radar.setElevation(elevation);
+      }
+    } catch (err: any) {
+      console.error('[Worker] hail-summary error:', err);
+      postResponse({ id, type: 'error', payload: { error: err?.message ?? String(err) } });
+    }
+    return;
+  }
+
+  // ── Swath sampling (one scan onto the shared grid) ──
+  if (type === 'swath') {
+    const { scanBuffer, scanKey, siteLat, siteLon, elevationNumber, sweepIndex, processing, swath } = payload;
+    try {
+      const parsed = getOrParseScan(scanBuffer, scanKey, siteLat, siteLon);
+      if (!parsed || !swath) {
+        postResponse({ id, type: 'error', payload: { error: 'swath: no parsed scan or grid' } });
+        return;
+      }
+      const swathValues = sampleSwath(parsed, swath.kind, elevationNumber, swath.grid, sweepIndex, processing);
+      const response: WorkerResponse = { id, type: 'swath', payload: { swathValues } };
+      (self as any).postMessage(response, swathValues ? [swathValues.buffer] : []);
+    } catch (err: any) {
+      console.error('[Worker] swath error:', err);
+      postResponse({ id, type: 'error', payload: { error: err?.message ?? String(err) } });
+    }
+    return;
+  }
+
+  // ── Interpolate: synthesize in-between frames (no scan parsing) ──
+  if (type === 'interpolate') {
+    const { interpolate } = payload;
+    try {
+      if (!interpolate) {
+        postResponse({ id, type: 'error', payload: { error: 'interpolate: no frame pair' } });
+        return;
+      }
+      const frames = interpolateFrames(interpolate.from, interpolate.to, interpolate.count);
+      const response: WorkerResponse = { id, type: 'interpolated', payload: { interpolated: frames } };
+      (self as any).postMessage(response, frames.flatMap((f) => [f.encoded.buffer, f.azimuths.buffer]));
+    } catch (err: any) {
+      console.error('[Worker] interpolate error:', err);
+      postResponse({ id, type: 'error', payload: { error: err?.message ?? String(err) } });
+    }
+    return;
+  }
+
+  // ── Mosaic: merge site frames onto one grid (no scan parsing) ──
+  if (type === 'mosaic') {
+    const { mosaic } = payload;
+    try {
+      if (!mosaic) {
+        postResponse({ id, type: 'error', payload: { error: 'mosaic: no frames or grid' } });
+        return;
+      }
+      const mosaicValues = composeMosaic(mosaic.frames, mosaic.method, mosaic.grid);
+      const response: WorkerResponse = { id, type: 'mosaic', payload: { mosaicValues } };
+      (self as any).postMessage(response, [mosaicValues.buffer]);
+    } catch (err: any) {
+      console.error('[Worker] mosaic error:', err);
+      postResponse({ id, type: 'error', payload: { error: err?.message ?? String(err) } });
+    }
+    return;
+  }
+
   if (type !== 'decode-render') {
     postResponse({ id, type: 'error', payload: { error: `Unknown message type: ${type}` } });
     return;
   }
 
-  const { scanBuffer, scanKey, product, elevationNumber, siteLat, siteLon, canvasSize, colorTable, smoothing, sweepIndex } = payload;
-  const size = canvasSize ?? CANVAS_SIZE;
+  const { scanBuffer, scanKey, product, elevationNumber, siteLat, siteLon, sweepIndex, processing } = payload;
 
   try {
     const parsed = getOrParseScan(scanBuffer, scanKey, siteLat, siteLon);
@@ -206,32 +360,44 @@ self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
       return;
     }
 
-    const result = renderFromParsed(parsed, product, elevationNumber, size, { createCanvas }, colorTable, smoothing, sweepIndex);
+    const result = renderFromParsed(parsed, product, elevationNumber, sweepIndex, processing);
 
+    // The scan parsed but has no data for this product at this tilt — not an
+    // error, so the caller can mark the frame missing instead of retrying
     if (!result) {
-      postResponse({ id, type: 'error', payload: { error: 'renderFromParsed returned null (no data at elevation)' } });
+      postResponse({ id, type: 'no-data', payload: { timestamp: parsed.timestamp, product } });
       return;
     }
 
-    // Convert OffscreenCanvas to PNG blob, then to ArrayBuffer for zero-copy transfer.
-    // This moves the expensive PNG encoding off the main thread entirely.
-    const blob = await (result.canvas as OffscreenCanvas).convertToBlob({ type: 'image/png' });
-    const imageBuffer = await blob.arrayBuffer();
-
     // Compute frame stats for the storm attributes overlay.
     // Wrapped separately so a stats failure doesn't lose the rendered frame.
     let frameStats: WorkerResponse['payload']['frameStats'] | undefined;
     try {
-      frameStats = computeFrameStats(parsed.radar, parsed.vcp, result.elevation);
+      frameStats = computeFrameStats(parsed.radar, parsed.vcp, result.elevation, processing);
     } catch (statsErr) {
       console.warn('[Worker] computeFrameStats failed:', statsErr);
     }
 
+    // Couplet markers from azimuthal shear on the displayed tilt — only for
+    // frames that carry them (cached per scan, tilt and thresholds)
+    if (frameStats && processing?.rotation) {
+      const elevation = parsed.radar.elevation;
+      try {
+        frameStats.rotation = getRotationMarkers(parsed, processing, processing.rotation);
+        // Debris signatures only count when collocated with a couplet
+        frameStats.tds = getTdsRegions(parsed, frameStats.rotation);
+      } catch (rotErr) {
+        console.warn('[Worker] rotation/TDS detection failed:', rotErr);
+      } finally {
+        parsed.radar.setElevation(elevation);
+      }
+    }
+
     const response: WorkerResponse = {
       id,
       type: 'frame-ready',
       payload: {
-        imageBuffer,
+        image: result.image,
         timestamp: result.timestamp,
         product: result.product,
         elevation: result.elevation,
@@ -248,8 +414,8 @@ self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
       },
     };
 
-    // Transfer the ArrayBuffer (zero-copy)
-    (self as any).postMessage(response, [imageBuffer]);
+    // Transfer the polar buffers (zero-copy)
+    (self as any).postMessage(response, [result.image.encoded.buffer, result.image.azimuths.buffer]);
   } catch (err: any) {
     postResponse({
       id,
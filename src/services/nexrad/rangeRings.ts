@@ -0,0 +1,138 @@
+/**
+ * Range ring, azimuth spoke and beam-height contour geometry.
+ *
+ * Pure math around one radar site — returns lon/lat polylines with labels
+ * that the map overlay (RangeRingLayer) and the export compositor project
+ * to screen space. Rings and spokes follow great circles from the site;
+ * beam-height contours are the ground ranges at which the beam centerline
+ * of the displayed tilt reaches each height (4/3 earth model, so they're
+ * circles too).
+ */
+
+import { beamHeightAtGroundKm } from './beamGeometry';
+
+export type LonLat = [number, number];
+
+export interface RangeRingSettings {
+  /** Distance between rings (statute miles) */
+  ringIntervalMi: number;
+  /** Number of rings drawn outward from the site */
+  ringCount: number;
+  /** Angle between azimuth spokes (degrees); 0 = no spokes */
+  spokeIntervalDeg: number;
+  /** Draw beam-height contours for the displayed elevation angle */
+  showBeamHeight: boolean;
+}
+
+export interface LabeledPath {
+  points: LonLat[];
+  label: string;
+  /** Where the label is drawn */
+  labelAt: LonLat;
+}
+
+export interface RangeRingGeometry {
+  site: LonLat;
+  rings: LabeledPath[];
+  spokes: LabeledPath[];
+  beamContours: LabeledPath[];
+}
+
+const MI_TO_KM = 1.609344;
+const KM_TO_KFT = 3.28084;
+const EARTH_RADIUS_KM = 6371;
+const DEG2RAD = Math.PI / 180;
+
+/** Vertices per ring (one every 2°) */
+const RING_SEGMENTS = 180;
+/** Ring labels sit on this bearing */
+const RING_LABEL_AZ = 0;
+/** Beam-height labels sit on this bearing, clear of the ring labels */
+const BEAM_LABEL_AZ = 135;
+/** Candidate contour spacings (kft) — the finest one that fits MAX_BEAM_CONTOURS wins */
+const BEAM_STEPS_KFT = [5, 10, 20, 40];
+const MAX_BEAM_CONTOURS = 8;
+
+/**
+ * Build the overlay geometry around a site. `elevationDeg` is the displayed
+ * tilt's angle (null for volume products / no scan) — beam contours are
+ * skipped without it.
+ */
+export function buildRangeRingGeometry(
+  siteLat: number,
+  siteLon: number,
+  settings: RangeRingSettings,
+  elevationDeg: number | null,
+): RangeRingGeometry {
+  const intervalKm = settings.ringIntervalMi * MI_TO_KM;
+  const maxKm = intervalKm * settings.ringCount;
+
+  const rings: LabeledPath[] = [];
+  for (let i = 1; i <= settings.ringCount; i++) {
+    rings.push(circle(siteLat, siteLon, intervalKm * i, `${settings.ringIntervalMi * i} mi`, RING_LABEL_AZ));
+  }
+
+  const spokes: LabeledPath[] = [];
+  if (settings.spokeIntervalDeg > 0 && maxKm > 0) {
+    for (let az = 0; az < 360; az += settings.spokeIntervalDeg) {
+      const end = destinationPoint(siteLat, siteLon, az, maxKm);
+      spokes.push({
+        points: [[siteLon, siteLat], end],
+        label: `${az}°`,
+        labelAt: end,
+      });
+    }
+  }
+
+  const beamContours: LabeledPath[] = [];
+  if (settings.showBeamHeight && elevationDeg !== null && maxKm > 0) {
+    const topKft = beamHeightAtGroundKm(maxKm, elevationDeg) * KM_TO_KFT;
+    const step = BEAM_STEPS_KFT.find((s) => topKft / s <= MAX_BEAM_CONTOURS)
+      ?? BEAM_STEPS_KFT[BEAM_STEPS_KFT.length - 1];
+    for (let kft = step; kft <= topKft; kft += step) {
+      const groundKm = groundRangeForBeamHeight(kft / KM_TO_KFT, elevationDeg, maxKm);
+      beamContours.push(circle(siteLat, siteLon, groundKm, `${kft} kft`, BEAM_LABEL_AZ));
+    }
+  }
+
+  return { site: [siteLon, siteLat], rings, spokes, beamContours };
+}
+
+/* ── Helpers ──────────────────────────────────────────────────────── */
+
+function circle(lat: number, lon: number, radiusKm: number, label: string, labelAz: number): LabeledPath {
+  const points: LonLat[] = [];
+  for (let i = 0; i <= RING_SEGMENTS; i++) {
+    points.push(destinationPoint(lat, lon, (i * 360) / RING_SEGMENTS, radiusKm));
+  }
+  return { points, label, labelAt: destinationPoint(lat, lon, labelAz, radiusKm) };
+}
+
+/** Great-circle destination from a start point, bearing (deg) and distance (km). */
+function destinationPoint(lat: number, lon: number, bearingDeg: number, distKm: number): LonLat {
+  const d = distKm / EARTH_RADIUS_KM;
+  const brg = bearingDeg * DEG2RAD;
+  const lat1 = lat * DEG2RAD;
+  const lon1 = lon * DEG2RAD;
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(d) + Math.cos(lat1) * Math.sin(d) * Math.cos(brg));
+  const lon2 = lon1 + Math.atan2(
+    Math.sin(brg) * Math.sin(d) * Math.cos(lat1),
+    Math.cos(d) - Math.sin(lat1) * Math.sin(lat2),
+  );
+  return [lon2 / DEG2RAD, lat2 / DEG2RAD];
+}
+
+/**
+ * Ground range (km) at which the beam reaches `heightKm` — bisection on
+ * beamHeightAtGroundKm, which increases monotonically with range.
+ */
+function groundRangeForBeamHeight(heightKm: number, elevationDeg: number, maxKm: number): number {
+  let lo = 0;
+  let hi = maxKm;
+  for (let i = 0; i < 40; i++) {
+    const mid = (lo + hi) / 2;
+    if (beamHeightAtGroundKm(mid, elevationDeg) < heightKm) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
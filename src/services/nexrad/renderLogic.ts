@@ -1,108 +1,69 @@
 /**
- * Pure rendering logic for NEXRAD radar data.
- * This module has NO DOM dependencies — it works with both:
- *   - CanvasRenderingContext2D (main thread, document.createElement('canvas'))
- *   - OffscreenCanvasRenderingContext2D (Web Worker, new OffscreenCanvas())
+ * Pure decode logic for NEXRAD radar data.
+ * This module has NO DOM dependencies, so the radar.worker can import it
+ * directly.
  *
- * Extracted from renderer.ts so the radar.worker can import it directly.
+ * Frames leave the worker as polar moment data (see polarImage.ts); the
+ * color table and smoothing are applied on the GPU by glRenderer.ts. The
+ * color helpers here serve the legend, cross-section and swath images.
  */
 
-import { REF_COLOR_TABLE, VEL_COLOR_TABLE, type ColorStop } from './colorTables';
+import {
+  REF_COLOR_TABLE,
+  VEL_COLOR_TABLE,
+  ZDR_COLOR_TABLE,
+  CC_COLOR_TABLE,
+  KDP_COLOR_TABLE,
+  SW_COLOR_TABLE,
+  PHI_COLOR_TABLE,
+  ET_COLOR_TABLE,
+  SHI_COLOR_TABLE,
+  POSH_COLOR_TABLE,
+  MESH_COLOR_TABLE,
+  VIL_COLOR_TABLE,
+  type ColorStop,
+} from './colorTables';
+import { isVolumeProduct, isHailProduct, getVolumeProducts, type VolumeProduct } from './volumeProducts';
+import { getHailProducts, DEFAULT_FREEZING_LEVELS, type FreezingLevels } from './hailProducts';
+import type { RotationThresholds } from './rotationDetection';
+import { filterReflectivity, isClutterFilterActive, type ClutterFilter } from './clutterFilter';
+import { encodePolarImage, type PolarImage } from './polarImage';
 
-export const CANVAS_SIZE = 1800;
+/**
+ * Radar products the pipeline can decode and render. Volume products
+ * (CREF, ET18, ET30, VIL and the SHI/POSH/MESH hail products) are derived
+ * from every elevation of a scan.
+ */
+export type RadarProduct = 'REF' | 'VEL' | 'SRV' | 'ZDR' | 'CC' | 'KDP' | 'SW' | 'PHI' | VolumeProduct;
 
 /**
- * Draw polar radar data onto a canvas context.
- *
- * nexrad-level-2-data separates azimuth angles from moment data:
- *   - azimuths: number[] (degrees, one per radial)
- *   - radials: array of { gate_count, first_gate (km), gate_size (km), moment_data: (number|null)[] }
- *
- * Gates are ~0.25km wide, which at 460km range on 1800px canvas = ~0.5px per gate.
- * We batch adjacent gates with the same color into single arcs for performance.
+ * Storm motion vector used to derive storm-relative velocity.
+ * Direction follows the meteorological convention: the heading the storm
+ * is moving FROM (240° = moving toward the northeast).
  */
-export function drawPolarData(
-  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
-  radials: any[],
-  azimuths: number[],
-  colorTable: ColorStop[],
-  centerX: number,
-  centerY: number,
-  maxRadius: number,
-  totalRangeKm: number,
-) {
-  if (!Array.isArray(radials) || radials.length === 0) return;
-
-  const pxPerKm = maxRadius / totalRangeKm;
-  const numRadials = radials.length;
-  const DEG2RAD = Math.PI / 180;
-  // Tiny angular overlap (radians) to eliminate sub-pixel gaps between adjacent arcs.
-  // ~0.12° — invisible visually but enough to close floating-point seams.
-  const OVERLAP = 0.002;
-
-  for (let r = 0; r < numRadials; r++) {
-    const radial = radials[r];
-    const azimuth = azimuths[r];
-    if (!radial || azimuth == null) continue;
-
-    // Compute actual angular extent from neighboring azimuths so
-    // adjacent radials share edges with no gaps.
-    const prevAz = azimuths[(r - 1 + numRadials) % numRadials];
-    const nextAz = azimuths[(r + 1) % numRadials];
-
-    // Signed angular distance (degrees CW) with 360° wrapping
-    let gapPrev = azimuth - prevAz;
-    if (gapPrev > 180) gapPrev -= 360;
-    if (gapPrev < -180) gapPrev += 360;
-
-    let gapNext = nextAz - azimuth;
-    if (gapNext > 180) gapNext -= 360;
-    if (gapNext < -180) gapNext += 360;
-
-    const halfPrevRad = (gapPrev / 2) * DEG2RAD;
-    const halfNextRad = (gapNext / 2) * DEG2RAD;
-
-    // Convert azimuth (CW from north) to canvas angle, negated for arc direction
-    const azRad = (90 - azimuth) * DEG2RAD;
-    const startAngle = -(azRad + halfPrevRad + OVERLAP);
-    const endAngle = -(azRad - halfNextRad - OVERLAP);
-
-    const gateData = radial.moment_data;
-    if (!gateData) continue;
-
-    const numGates = radial.gate_count;
-    const firstGateKm = radial.first_gate;
-    const gateSizeKm = radial.gate_size;
-
-    // Batch adjacent gates with the same color
-    let runStart = -1;
-    let runColor: string | null = null;
-
-    for (let g = 0; g <= numGates; g++) {
-      const value = g < numGates ? gateData[g] : null;
-      const color = (value !== null && value !== undefined)
-        ? valueToColor(value, colorTable)
-        : null;
-
-      if (color === runColor && g < numGates) continue;
-
-      // Flush the current run
-      if (runColor && runStart >= 0) {
-        const innerR = (firstGateKm + runStart * gateSizeKm) * pxPerKm;
-        const outerR = (firstGateKm + g * gateSizeKm) * pxPerKm;
-
-        ctx.beginPath();
-        ctx.arc(centerX, centerY, outerR, startAngle, endAngle, false);
-        ctx.arc(centerX, centerY, innerR, endAngle, startAngle, true);
-        ctx.closePath();
-        ctx.fillStyle = runColor;
-        ctx.fill();
-      }
+export interface StormMotion {
+  /** Direction the storm is moving from (degrees, 0-360) */
+  direction: number;
+  /** Storm speed in knots */
+  speed: number;
+}
 
-      runStart = g;
-      runColor = color;
-    }
-  }
+/**
+ * Per-render processing applied to moment data before drawing.
+ * Anything here that changes the rendered pixels must also be encoded
+ * in FrameCache.makeKey so stale cached frames are not reused.
+ */
+export interface ProcessingOptions {
+  /** Storm motion removed from VEL to produce SRV */
+  stormMotion?: StormMotion;
+  /** Unfold aliased VEL gates before rendering VEL/SRV and computing stats */
+  dealias?: boolean;
+  /** Couplet thresholds; when set, the frame's stats carry rotation markers and TDS regions */
+  rotation?: RotationThresholds;
+  /** Freezing levels for the hail products (SHI / POSH / MESH) */
+  hail?: FreezingLevels;
+  /** Clutter / noise filters applied to REF (only set when one is active) */
+  clutter?: ClutterFilter;
 }
 
 /**
@@ -134,8 +95,13 @@ export function valueToColor(value: number, colorTable: ColorStop[]): string | n
   return `rgba(${stop.r}, ${stop.g}, ${stop.b}, ${stop.a})`;
 }
 
-// ── Bilinear interpolation types and helpers ──
+// ── Color helpers ──
 
+/**
+ * Smoothing applied by the radar layer's fragment shader:
+ * 'none' = nearest gate, 'low' = bilinear in polar space,
+ * 'high' = bilinear + adaptive azimuthal averaging at far range.
+ */
 export type SmoothingMode = 'none' | 'low' | 'high';
 
 /**
@@ -145,7 +111,7 @@ export type SmoothingMode = 'none' | 'low' | 'high';
  *
  * Returns null if value is below the minimum threshold.
  */
-function valueToRGBA(
+export function valueToRGBA(
   value: number,
   colorTable: ColorStop[],
 ): [number, number, number, number] | null {
@@ -181,270 +147,6 @@ function valueToRGBA(
   ];
 }
 
-/** Sorted azimuth index for O(log n) radial lookups. */
-interface AzimuthIndex {
-  sortedAzimuths: Float64Array;
-  originalIndices: Uint16Array;
-  count: number;
-}
-
-/** Build a sorted azimuth index from the raw azimuths array. */
-function buildAzimuthIndex(azimuths: number[]): AzimuthIndex {
-  const n = azimuths.length;
-  const pairs: [number, number][] = new Array(n);
-  for (let i = 0; i < n; i++) pairs[i] = [azimuths[i], i];
-  pairs.sort((a, b) => a[0] - b[0]);
-
-  const sortedAzimuths = new Float64Array(n);
-  const originalIndices = new Uint16Array(n);
-  for (let i = 0; i < n; i++) {
-    sortedAzimuths[i] = pairs[i][0];
-    originalIndices[i] = pairs[i][1];
-  }
-  return { sortedAzimuths, originalIndices, count: n };
-}
-
-/**
- * Find the two radials bracketing a query azimuth.
- * Returns [originalIndex1, originalIndex2, fraction] with 360° wraparound.
- */
-function findBracketingRadials(
-  queryAz: number,
-  idx: AzimuthIndex,
-): [number, number, number] {
-  const { sortedAzimuths, originalIndices, count } = idx;
-
-  // Wraparound: query below first or >= last
-  if (queryAz < sortedAzimuths[0] || queryAz >= sortedAzimuths[count - 1]) {
-    const az1 = sortedAzimuths[count - 1];
-    const az2 = sortedAzimuths[0];
-    const gap = az2 + 360 - az1;
-    let dist = queryAz - az1;
-    if (dist < 0) dist += 360;
-    return [originalIndices[count - 1], originalIndices[0], gap > 0 ? dist / gap : 0];
-  }
-
-  // Binary search: largest i where sortedAzimuths[i] <= queryAz
-  let lo = 0;
-  let hi = count - 1;
-  while (lo < hi) {
-    const mid = (lo + hi + 1) >> 1;
-    if (sortedAzimuths[mid] <= queryAz) lo = mid;
-    else hi = mid - 1;
-  }
-
-  const az1 = sortedAzimuths[lo];
-  const az2 = sortedAzimuths[lo + 1];
-  const gap = az2 - az1;
-  return [originalIndices[lo], originalIndices[lo + 1], gap > 0 ? (queryAz - az1) / gap : 0];
-}
-
-/** Safely read a gate value from a radial. Returns null if out-of-bounds or missing. */
-function getGateValue(
-  momentArrays: ((number | null)[] | null)[],
-  radialIdx: number,
-  gateIdx: number,
-  gateCounts: Uint16Array,
-): number | null {
-  if (gateIdx < 0 || gateIdx >= gateCounts[radialIdx]) return null;
-  const data = momentArrays[radialIdx];
-  if (!data) return null;
-  const v = data[gateIdx];
-  return v !== null && v !== undefined ? (v as number) : null;
-}
-
-/**
- * Bilinear interpolation with null-aware fallback.
- * Uses weighted average of valid corners — at echo boundaries this
- * produces a natural fade rather than hard edges or 1px holes.
- */
-function interpolateWithNulls(
-  v00: number | null, v01: number | null,
-  v10: number | null, v11: number | null,
-  s: number, t: number,
-): number | null {
-  const w00 = (1 - s) * (1 - t);
-  const w01 = (1 - s) * t;
-  const w10 = s * (1 - t);
-  const w11 = s * t;
-
-  let sum = 0;
-  let wSum = 0;
-  if (v00 !== null) { sum += v00 * w00; wSum += w00; }
-  if (v01 !== null) { sum += v01 * w01; wSum += w01; }
-  if (v10 !== null) { sum += v10 * w10; wSum += w10; }
-  if (v11 !== null) { sum += v11 * w11; wSum += w11; }
-
-  return wSum > 0 ? sum / wSum : null;
-}
-
-/** Pure bilinear sample at a polar position. */
-function sampleBilinear(
-  azimuth_deg: number,
-  g_lo: number, g_hi: number, g_t: number,
-  momentArrays: ((number | null)[] | null)[],
-  azIdx: AzimuthIndex,
-  gateCounts: Uint16Array,
-): number | null {
-  const [ri1, ri2, az_t] = findBracketingRadials(azimuth_deg, azIdx);
-  const v00 = getGateValue(momentArrays, ri1, g_lo, gateCounts);
-  const v01 = getGateValue(momentArrays, ri1, g_hi, gateCounts);
-  const v10 = getGateValue(momentArrays, ri2, g_lo, gateCounts);
-  const v11 = getGateValue(momentArrays, ri2, g_hi, gateCounts);
-  return interpolateWithNulls(v00, v01, v10, v11, az_t, g_t);
-}
-
-const ASPECT_THRESHOLD = 2.0;
-const MAX_EXTRA_SAMPLES = 4;
-
-/** Bilinear + adaptive azimuthal averaging for far-range smoothing. */
-function sampleAdaptive(
-  azimuth_deg: number,
-  g_lo: number, g_hi: number, g_t: number,
-  range_km: number,
-  avgDeltaAz: number,
-  gateSizeKm: number,
-  momentArrays: ((number | null)[] | null)[],
-  azIdx: AzimuthIndex,
-  gateCounts: Uint16Array,
-): number | null {
-  const binWidthKm = range_km * avgDeltaAz * (Math.PI / 180);
-  const aspect = binWidthKm / gateSizeKm;
-
-  if (aspect <= ASPECT_THRESHOLD) {
-    return sampleBilinear(azimuth_deg, g_lo, g_hi, g_t, momentArrays, azIdx, gateCounts);
-  }
-
-  const numExtra = Math.min(Math.ceil((aspect - ASPECT_THRESHOLD) / 2), MAX_EXTRA_SAMPLES);
-  const sigma = avgDeltaAz / 3;
-  const invTwoSigmaSq = 1 / (2 * sigma * sigma);
-
-  let wSum = 0;
-  let vSum = 0;
-
-  // Central sample
-  const cv = sampleBilinear(azimuth_deg, g_lo, g_hi, g_t, momentArrays, azIdx, gateCounts);
-  if (cv !== null) { vSum += cv; wSum += 1.0; }
-
-  // Extra azimuthal samples with Gaussian weighting
-  const azStep = avgDeltaAz / (numExtra + 1);
-  for (let i = 1; i <= numExtra; i++) {
-    const offset = i * azStep;
-    const w = Math.exp(-(offset * offset) * invTwoSigmaSq);
-
-    let az = azimuth_deg + offset;
-    if (az >= 360) az -= 360;
-    const vp = sampleBilinear(az, g_lo, g_hi, g_t, momentArrays, azIdx, gateCounts);
-    if (vp !== null) { vSum += vp * w; wSum += w; }
-
-    az = azimuth_deg - offset;
-    if (az < 0) az += 360;
-    const vm = sampleBilinear(az, g_lo, g_hi, g_t, momentArrays, azIdx, gateCounts);
-    if (vm !== null) { vSum += vm * w; wSum += w; }
-  }
-
-  return wSum > 0 ? vSum / wSum : null;
-}
-
-/**
- * Render polar radar data using bilinear interpolation in polar space.
- *
- * Reverse scan conversion: for each canvas pixel → polar coords →
- * bilinear interpolation of 4 nearest samples → color map → pixel write.
- *
- * @param mode 'low' = bilinear only, 'high' = bilinear + adaptive azimuthal averaging
- */
-export function drawPolarDataInterpolated(
-  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
-  radials: any[],
-  azimuths: number[],
-  colorTable: ColorStop[],
-  centerX: number,
-  centerY: number,
-  maxRadius: number,
-  totalRangeKm: number,
-  mode: 'low' | 'high',
-): void {
-  if (!Array.isArray(radials) || radials.length === 0) return;
-
-  const canvasSize = Math.round(centerX * 2);
-  const pxPerKm = maxRadius / totalRangeKm;
-  const kmPerPx = totalRangeKm / maxRadius;
-  const maxRadiusSq = maxRadius * maxRadius;
-  const RAD2DEG = 180 / Math.PI;
-
-  // Build sorted azimuth index
-  const azIdx = buildAzimuthIndex(azimuths);
-
-  // Extract metadata from a representative radial
-  const r0 = radials.find((r: any) => r != null);
-  if (!r0) return;
-  const firstGateKm = r0.first_gate;
-  const gateSizeKm = r0.gate_size;
-  const invGateSize = 1 / gateSizeKm;
-  const firstGatePxSq = (firstGateKm * pxPerKm) ** 2;
-
-  // Pre-extract moment_data arrays for fast access
-  const momentArrays: ((number | null)[] | null)[] = new Array(radials.length);
-  const gateCounts = new Uint16Array(radials.length);
-  for (let i = 0; i < radials.length; i++) {
-    momentArrays[i] = radials[i]?.moment_data ?? null;
-    gateCounts[i] = radials[i]?.gate_count ?? 0;
-  }
-
-  // For high mode
-  const avgDeltaAz = 360 / azIdx.count;
-
-  // Allocate ImageData
-  const imageData = ctx.createImageData(canvasSize, canvasSize);
-  const pixels = imageData.data;
-
-  for (let y = 0; y < canvasSize; y++) {
-    const dy = centerY - y;
-    const dySq = dy * dy;
-    const rowOffset = y * canvasSize * 4;
-
-    for (let x = 0; x < canvasSize; x++) {
-      const dx = x - centerX;
-      const distSq = dx * dx + dySq;
-
-      // Skip outside radar circle and inside first gate
-      if (distSq > maxRadiusSq || distSq < firstGatePxSq) continue;
-
-      const range_km = Math.sqrt(distSq) * kmPerPx;
-      const g_f = (range_km - firstGateKm) * invGateSize;
-      const g_lo = g_f | 0; // fast floor for positive values
-      const g_hi = g_lo + 1;
-      const g_t = g_f - g_lo;
-
-      // Azimuth: CW from north
-      let az = 90 - Math.atan2(dy, dx) * RAD2DEG;
-      if (az < 0) az += 360;
-      else if (az >= 360) az -= 360;
-
-      let val: number | null;
-      if (mode === 'high') {
-        val = sampleAdaptive(az, g_lo, g_hi, g_t, range_km, avgDeltaAz, gateSizeKm, momentArrays, azIdx, gateCounts);
-      } else {
-        val = sampleBilinear(az, g_lo, g_hi, g_t, momentArrays, azIdx, gateCounts);
-      }
-
-      if (val === null) continue;
-
-      const rgba = valueToRGBA(val, colorTable);
-      if (!rgba) continue;
-
-      const off = rowOffset + x * 4;
-      pixels[off]     = rgba[0] + 0.5 | 0; // fast round for positive values
-      pixels[off + 1] = rgba[1] + 0.5 | 0;
-      pixels[off + 2] = rgba[2] + 0.5 | 0;
-      pixels[off + 3] = (rgba[3] * 255 + 0.5) | 0;
-    }
-  }
-
-  ctx.putImageData(imageData, 0, 0);
-}
-
 // ── SAILS elevation detection ──
 
 export interface SailsDetectionResult {
@@ -548,26 +250,322 @@ function extractRadialTimestamp(record: any): number {
 /**
  * Get the color table for a product.
  */
-export function getColorTable(product: 'REF' | 'VEL'): ColorStop[] {
-  return product === 'REF' ? REF_COLOR_TABLE : VEL_COLOR_TABLE;
+export function getColorTable(product: RadarProduct): ColorStop[] {
+  switch (product) {
+    case 'VEL':
+    case 'SRV': return VEL_COLOR_TABLE;
+    case 'ZDR': return ZDR_COLOR_TABLE;
+    case 'CC': return CC_COLOR_TABLE;
+    case 'KDP': return KDP_COLOR_TABLE;
+    case 'SW': return SW_COLOR_TABLE;
+    case 'PHI': return PHI_COLOR_TABLE;
+    case 'ET18':
+    case 'ET30': return ET_COLOR_TABLE;
+    case 'VIL': return VIL_COLOR_TABLE;
+    case 'SHI': return SHI_COLOR_TABLE;
+    case 'POSH': return POSH_COLOR_TABLE;
+    case 'MESH': return MESH_COLOR_TABLE;
+    default: return REF_COLOR_TABLE;
+  }
 }
 
 /**
  * Get the moment data array for a product from a Level2Radar instance.
  * Returns null if not available or all radials are empty.
+ *
+ * KDP is not transmitted in Level 2 archives, so it is derived here from
+ * the differential phase (PHI) moment, masked by correlation coefficient.
+ * SRV is derived from VEL by removing the radial component of the storm
+ * motion in `processing.stormMotion`. When `processing.dealias` is set, VEL
+ * (and the VEL underlying SRV) is dealiased first. `processing.clutter`
+ * filters REF (threshold, CC mask, speckle — see clutterFilter.ts).
  */
-export function getMomentData(radar: any, product: 'REF' | 'VEL'): any[] | null {
+export function getMomentData(radar: any, product: RadarProduct, processing?: ProcessingOptions): any[] | null {
   let data: any[] | null = null;
   if (product === 'REF') {
     data = radar.getHighresReflectivity?.() ?? null;
+    if (Array.isArray(data) && isClutterFilterActive(processing?.clutter)) {
+      const cc = processing.clutter.ccMask ? radar.getHighresCorrelationCoefficient?.() ?? null : null;
+      data = filterReflectivity(data, Array.isArray(cc) ? cc : null, processing.clutter);
+    }
   } else if (product === 'VEL') {
-    data = radar.getHighresVelocity?.() ?? null;
+    data = getVelocityRadials(radar, processing?.dealias);
+  } else if (product === 'ZDR') {
+    data = radar.getHighresDiffReflectivity?.() ?? null;
+  } else if (product === 'CC') {
+    data = radar.getHighresCorrelationCoefficient?.() ?? null;
+  } else if (product === 'SRV') {
+    const vel = getVelocityRadials(radar, processing?.dealias);
+    if (Array.isArray(vel) && !vel.every((r: any) => r == null)) {
+      data = applyStormMotion(vel, radar.getAzimuth(), processing?.stormMotion);
+    }
+  } else if (product === 'SW') {
+    data = radar.getHighresSpectrum?.() ?? null;
+  } else if (product === 'PHI') {
+    data = radar.getHighresDiffPhase?.() ?? null;
+  } else if (product === 'KDP') {
+    const phi = radar.getHighresDiffPhase?.() ?? null;
+    if (Array.isArray(phi) && !phi.every((r: any) => r == null)) {
+      const rho = radar.getHighresCorrelationCoefficient?.() ?? null;
+      data = deriveKdpRadials(phi, Array.isArray(rho) ? rho : null);
+    }
   }
   if (!data || !Array.isArray(data)) return null;
   if (data.every((r: any) => r == null)) return null;
   return data;
 }
 
+// ── Velocity dealiasing ──
+
+/** Max gates to look back along a radial for a continuity reference. */
+const DEALIAS_MAX_GAP = 8;
+/** Max Nyquist intervals a gate may be unfolded by (guards against runaway). */
+const DEALIAS_MAX_FOLDS = 2;
+
+/**
+ * Dealiased radials keyed by the parser's first VEL radial object, which is
+ * stable for the lifetime of a parsed scan. Lets render and computeFrameStats
+ * share one dealiasing pass; entries go away with the parsed scan.
+ */
+const dealiasCache = new WeakMap<object, any[]>();
+
+/**
+ * VEL radials for the current elevation, optionally dealiased.
+ */
+export function getVelocityRadials(radar: any, dealias?: boolean): any[] | null {
+  const vel = radar.getHighresVelocity?.() ?? null;
+  if (!dealias || !Array.isArray(vel)) return vel;
+
+  const anchor = vel.find((r: any) => r != null);
+  if (!anchor) return vel;
+  const cached = dealiasCache.get(anchor);
+  if (cached) return cached;
+
+  const result = dealiasVelocity(vel, getNyquistVelocities(radar));
+  dealiasCache.set(anchor, result);
+  return result;
+}
+
+/**
+ * Per-radial Nyquist velocity (m/s) for the current elevation.
+ * Message 31 stores it in `record.radial` as raw 0.01 m/s units; legacy
+ * Message 1 stores it pre-scaled on the record itself.
+ */
+function getNyquistVelocities(radar: any): (number | null)[] {
+  let headers: any[];
+  try {
+    headers = radar.getHeader();
+  } catch {
+    return [];
+  }
+  return headers.map((h: any) => {
+    const raw = h?.radial?.nyquist_velocity ?? h?.nyquist_velocity;
+    if (typeof raw !== 'number' || raw <= 0) return null;
+    return raw > 200 ? raw / 100 : raw;
+  });
+}
+
+/**
+ * Continuity-based velocity dealiasing.
+ *
+ * Radials are processed in azimuth order, gates outward from the radar.
+ * Each gate's reference is the mean of the nearest dealiased gate inward
+ * on the same radial (within DEALIAS_MAX_GAP gates) and the same gate on
+ * the previous radial. If the observed value differs from the reference by
+ * more than the Nyquist velocity, it is shifted by the multiple of 2·Vn
+ * that brings it closest to the reference. Gates with no reference (first
+ * echo on the first radial, isolated returns) are left as observed.
+ *
+ * Returns new radial objects — the parser's VEL data is never mutated.
+ */
+export function dealiasVelocity(velRadials: any[], nyquist: (number | null)[]): any[] {
+  const result: any[] = new Array(velRadials.length);
+  let prev: (number | null)[] | null = null;
+
+  for (let r = 0; r < velRadials.length; r++) {
+    const radial = velRadials[r];
+    if (!radial?.moment_data) {
+      result[r] = radial;
+      continue;
+    }
+
+    const vn = nyquist[r];
+    const data: (number | null)[] = radial.moment_data;
+    if (!vn) {
+      // No Nyquist available — can't unfold, but keep it as azimuthal reference
+      result[r] = radial;
+      prev = data;
+      continue;
+    }
+
+    const twoVn = 2 * vn;
+    const out: (number | null)[] = new Array(data.length);
+    let lastValid: number | null = null;
+    let lastValidGate = -Infinity;
+
+    for (let g = 0; g < data.length; g++) {
+      const v = data[g];
+      if (v === null || v === undefined) {
+        out[g] = null;
+        continue;
+      }
+
+      const radialRef = g - lastValidGate <= DEALIAS_MAX_GAP ? lastValid : null;
+      const azRef = prev?.[g] ?? null;
+      let ref: number | null;
+      if (radialRef !== null && azRef !== null) ref = (radialRef + azRef) / 2;
+      else ref = radialRef ?? azRef;
+
+      let corrected = v;
+      if (ref !== null) {
+        let folds = Math.round((ref - v) / twoVn);
+        if (folds > DEALIAS_MAX_FOLDS) folds = DEALIAS_MAX_FOLDS;
+        else if (folds < -DEALIAS_MAX_FOLDS) folds = -DEALIAS_MAX_FOLDS;
+        corrected = v + folds * twoVn;
+      }
+
+      out[g] = corrected;
+      lastValid = corrected;
+      lastValidGate = g;
+    }
+
+    result[r] = { ...radial, moment_data: out };
+    prev = out;
+  }
+
+  return result;
+}
+
+// ── Storm-relative velocity ──
+
+const KTS_TO_MS = 0.514444;
+
+/**
+ * Subtract the radial component of a storm motion vector from VEL radials.
+ *
+ * For a radial at azimuth θ, the storm's motion toward heading φ projects
+ * onto the beam as speed·cos(θ − φ) (positive = away from the radar, the
+ * same sign convention as VEL). Returns new radial objects so the parser's
+ * cached VEL data is never mutated.
+ */
+export function applyStormMotion(
+  velRadials: any[],
+  azimuths: number[],
+  motion: StormMotion | undefined,
+): any[] {
+  if (!motion || !(motion.speed > 0)) return velRadials;
+
+  const speedMs = motion.speed * KTS_TO_MS;
+  const towardDeg = (motion.direction + 180) % 360;
+  const DEG2RAD = Math.PI / 180;
+
+  return velRadials.map((radial: any, r: number) => {
+    if (!radial?.moment_data) return radial;
+    const az = azimuths[r];
+    if (az == null) return radial;
+
+    const component = speedMs * Math.cos((az - towardDeg) * DEG2RAD);
+    const data: (number | null)[] = radial.moment_data;
+    const out: (number | null)[] = new Array(data.length);
+    for (let g = 0; g < data.length; g++) {
+      const v = data[g];
+      out[g] = v === null || v === undefined ? null : v - component;
+    }
+    return { ...radial, moment_data: out };
+  });
+}
+
+// ── KDP derivation ──
+
+/** Range window (km) over which the PHI slope is fitted. */
+const KDP_WINDOW_KM = 2;
+/** Gates with CC below this are excluded from the PHI fit (non-meteorological). */
+const KDP_MIN_CC = 0.9;
+/** Minimum fraction of valid gates required inside the window. */
+const KDP_MIN_VALID_FRACTION = 0.6;
+
+/**
+ * Derive specific differential phase from PHI radials.
+ *
+ * KDP is half the range derivative of PHI. For each gate we fit a
+ * least-squares line to PHI over a ±KDP_WINDOW_KM/2 window, skipping gates
+ * whose correlation coefficient indicates non-meteorological echo (their
+ * PHI is noise). Returns radial objects shaped like the parser's output
+ * (gate_count, first_gate, gate_size, moment_data) so every renderer can
+ * consume them unchanged.
+ */
+export function deriveKdpRadials(phiRadials: any[], rhoRadials: any[] | null): any[] {
+  const result: any[] = new Array(phiRadials.length);
+
+  for (let r = 0; r < phiRadials.length; r++) {
+    const phi = phiRadials[r];
+    if (!phi?.moment_data) {
+      result[r] = null;
+      continue;
+    }
+
+    const gateCount: number = phi.gate_count;
+    const firstGate: number = phi.first_gate;
+    const gateSize: number = phi.gate_size;
+    const phiData: (number | null)[] = phi.moment_data;
+    const rho = rhoRadials?.[r];
+    const rhoData: (number | null)[] | null = rho?.moment_data ?? null;
+    const rhoFirst: number = rho?.first_gate ?? firstGate;
+    const rhoSize: number = rho?.gate_size ?? gateSize;
+
+    // Pre-mask PHI gates that fail the CC test
+    const valid = new Float64Array(gateCount);
+    const mask = new Uint8Array(gateCount);
+    for (let g = 0; g < gateCount; g++) {
+      const v = phiData[g];
+      if (v === null || v === undefined) continue;
+      if (rhoData) {
+        const ri = Math.round((firstGate + g * gateSize - rhoFirst) / rhoSize);
+        const cc = ri >= 0 && ri < rhoData.length ? rhoData[ri] : null;
+        if (cc === null || cc === undefined || cc < KDP_MIN_CC) continue;
+      }
+      valid[g] = v;
+      mask[g] = 1;
+    }
+
+    const half = Math.max(1, Math.round(KDP_WINDOW_KM / 2 / gateSize));
+    const minValid = Math.ceil((2 * half + 1) * KDP_MIN_VALID_FRACTION);
+    const out: (number | null)[] = new Array(gateCount).fill(null);
+
+    for (let g = 0; g < gateCount; g++) {
+      if (!mask[g]) continue;
+
+      let n = 0;
+      let sx = 0;
+      let sy = 0;
+      let sxx = 0;
+      let sxy = 0;
+      const lo = Math.max(0, g - half);
+      const hi = Math.min(gateCount - 1, g + half);
+      for (let k = lo; k <= hi; k++) {
+        if (!mask[k]) continue;
+        const x = (k - g) * gateSize;
+        const y = valid[k];
+        n++;
+        sx += x;
+        sy += y;
+        sxx += x * x;
+        sxy += x * y;
+      }
+      if (n < minValid) continue;
+
+      const denom = n * sxx - sx * sx;
+      if (denom <= 0) continue;
+      const slope = (n * sxy - sx * sy) / denom; // °/km of two-way PHI
+      out[g] = slope / 2;
+    }
+
+    result[r] = { gate_count: gateCount, first_gate: firstGate, gate_size: gateSize, moment_data: out };
+  }
+
+  return result;
+}
+
 /**
  * Extract the true antenna lat/lon from a Level2Radar instance's volume header.
  * Falls back to the provided coordinates if extraction fails.
@@ -686,26 +684,57 @@ export function parseRadarBuffer(
 }
 
 /**
- * Render a product from a pre-parsed radar object.
- * This is the fast part (~100-200ms): just canvas rendering.
+ * Resolve the elevation number actually displayed for a (possibly SAILS) frame.
+ *
+ * When sweepIndex is set, SAILS supplemental sweeps live at different
+ * elevation numbers (same angle, different VCP cut positions). Only the
+ * SAILS elevation is remapped — at higher elevations sub-frames render
+ * identically, so the requested elevation is kept. A sweepIndex beyond the
+ * detected sweep count falls back to the default elevation (graceful
+ * VCP-change handling).
+ */
+export function resolveSweepElevation(
+  radar: any,
+  elevationNumber: number,
+  sweepIndex?: number,
+): { elevationNumber: number; sweepTimestamp?: number; sweepCount?: number } {
+  if (sweepIndex === undefined) return { elevationNumber };
+
+  const sails = detectSailsElevations(radar);
+  if (
+    sails.sweepCount <= 1 ||
+    sweepIndex >= sails.elevationNumbers.length ||
+    !sails.elevationNumbers.includes(elevationNumber)
+  ) {
+    return { elevationNumber, sweepCount: sails.sweepCount };
+  }
+
+  const actual = sails.elevationNumbers[sweepIndex];
+
+  // Extract actual timestamp from first radial of this sweep
+  let sweepTimestamp: number | undefined;
+  const records = radar.data?.[actual];
+  if (Array.isArray(records) && records.length > 0) {
+    const rec = records[0]?.record;
+    if (rec) sweepTimestamp = extractRadialTimestamp(rec);
+  }
+
+  return { elevationNumber: actual, sweepTimestamp, sweepCount: sails.sweepCount };
+}
+
+/**
+ * Extract a product from a pre-parsed radar object as a PolarImage.
+ * This is the fast part (~20-50ms): just moment selection and encoding.
  * Used on product switch when the radar object is already cached.
  */
 export function renderFromParsed(
   parsed: ParsedRadarData,
-  product: 'REF' | 'VEL',
+  product: RadarProduct,
   elevationNumber: number,
-  canvasSize: number,
-  deps: {
-    createCanvas: (w: number, h: number) => {
-      ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
-      canvas: HTMLCanvasElement | OffscreenCanvas;
-    };
-  },
-  customColorTable?: ColorStop[],
-  smoothing?: SmoothingMode,
   sweepIndex?: number,
+  processing?: ProcessingOptions,
 ): {
-  canvas: HTMLCanvasElement | OffscreenCanvas;
+  image: PolarImage;
   timestamp: number;
   product: string;
   elevation: number;
@@ -724,67 +753,57 @@ export function renderFromParsed(
   try {
     const { radar, siteId, vcp, elevations, elevationNumbers, trueCoords, timestamp } = parsed;
 
-    // Determine which elevation number to render.
-    // When sweepIndex is set, SAILS supplemental sweeps live at different
-    // elevation numbers (same angle, different VCP cut positions).
-    let actualElevNumber = elevationNumber;
-    let sweepTimestamp: number | undefined;
-    let sweepCount: number | undefined;
-
-    if (sweepIndex !== undefined) {
-      const sails = detectSailsElevations(radar);
-      sweepCount = sails.sweepCount;
-
-      if (sails.sweepCount > 1 && sweepIndex < sails.elevationNumbers.length) {
-        // Only override elevation when the user is viewing the SAILS elevation
-        // (the lowest angle where supplemental sweeps occur). At higher elevations,
-        // keep the requested elevation — sub-frames render identically there.
-        const isSailsElevation = sails.elevationNumbers.includes(elevationNumber);
-        if (isSailsElevation) {
-          actualElevNumber = sails.elevationNumbers[sweepIndex];
-
-          // Extract actual timestamp from first radial of this sweep
-          const records = radar.data?.[actualElevNumber];
-          if (Array.isArray(records) && records.length > 0) {
-            const rec = records[0]?.record;
-            if (rec) {
-              sweepTimestamp = extractRadialTimestamp(rec);
-            }
-          }
-        }
+    // Determine which elevation number to render (SAILS sub-frames remap it)
+    const sweep = resolveSweepElevation(radar, elevationNumber, sweepIndex);
+    const actualElevNumber = sweep.elevationNumber;
+    const sweepCount = sweep.sweepCount;
+    let sweepTimestamp = sweep.sweepTimestamp;
+
+    let momentData: any[] | null;
+    let azimuths: number[];
+    let rangeKm: number;
+
+    if (isVolumeProduct(product)) {
+      // Volume products ignore elevation/sweep — grid the whole volume (cached)
+      let grid: { azimuths: number[]; rangeKm: number } | null;
+      if (isHailProduct(product)) {
+        const hail = getHailProducts(parsed, processing?.hail ?? DEFAULT_FREEZING_LEVELS);
+        grid = hail;
+        momentData = hail ? hail[product] : null;
+      } else {
+        const volume = getVolumeProducts(parsed);
+        grid = volume;
+        momentData = volume ? volume[product] : null;
       }
-      // If sweepIndex >= sails.sweepCount, fall back to default elevation (graceful VCP-change handling)
-    }
-
-    radar.setElevation(actualElevNumber);
-    let momentData = getMomentData(radar, product);
-    if (!momentData && actualElevNumber < 17) {
-      radar.setElevation(actualElevNumber + 1);
-      momentData = getMomentData(radar, product);
-    }
-    if (!momentData) return null;
-
-    const colorTable = customColorTable ?? getColorTable(product);
-    const azimuths = radar.getAzimuth();
-    if (!azimuths || azimuths.length === 0) return null;
-
-    const r0 = momentData.find((r: any) => r != null);
-    const rangeKm = r0
-      ? r0.first_gate + r0.gate_count * r0.gate_size
-      : (product === 'REF' ? 460 : 300);
+      // Gridding walks every tilt; re-select the requested one for computeFrameStats
+      radar.setElevation(actualElevNumber);
+      if (!grid || !momentData) return null;
+      azimuths = grid.azimuths;
+      rangeKm = grid.rangeKm;
+      sweepTimestamp = undefined;
+    } else {
+      radar.setElevation(actualElevNumber);
+      momentData = getMomentData(radar, product, processing);
+      if (!momentData && actualElevNumber < 17) {
+        radar.setElevation(actualElevNumber + 1);
+        momentData = getMomentData(radar, product, processing);
+      }
+      if (!momentData) return null;
 
-    const { ctx, canvas } = deps.createCanvas(canvasSize, canvasSize);
-    ctx.clearRect(0, 0, canvasSize, canvasSize);
-    const center = canvasSize / 2;
+      azimuths = radar.getAzimuth();
+      if (!azimuths || azimuths.length === 0) return null;
 
-    if (smoothing === 'low' || smoothing === 'high') {
-      drawPolarDataInterpolated(ctx, momentData, azimuths, colorTable, center, center, center, rangeKm, smoothing);
-    } else {
-      drawPolarData(ctx, momentData, azimuths, colorTable, center, center, center, rangeKm);
+      const r0 = momentData.find((r: any) => r != null);
+      rangeKm = r0
+        ? r0.first_gate + r0.gate_count * r0.gate_size
+        : (product === 'REF' ? 460 : 300);
     }
 
+    const image = encodePolarImage(momentData, azimuths, rangeKm);
+    if (!image) return null;
+
     return {
-      canvas,
+      image,
       timestamp,
       product,
       elevation: elevationNumber,
@@ -806,11 +825,14 @@ export function renderFromParsed(
 
 /**
  * Compute summary statistics from moment data for the storm attributes overlay.
+ * Velocity extremes come from dealiased VEL when `processing.dealias` is set,
+ * so folded gates in tight couplets don't report bogus maxima.
  */
 export function computeFrameStats(
   radar: any,
   vcp: number,
   elevationAngle: number,
+  processing?: ProcessingOptions,
 ): { vcp: number; elevationAngle: number; maxRef: number | null; gatesAbove50: number; gatesAbove60: number; maxInboundVel: number | null; maxOutboundVel: number | null } {
   let maxRef: number | null = null;
   let gatesAbove50 = 0;
@@ -834,7 +856,7 @@ export function computeFrameStats(
   } catch { /* ignore */ }
 
   try {
-    const velData = radar.getHighresVelocity?.();
+    const velData = getVelocityRadials(radar, processing?.dealias);
     if (Array.isArray(velData)) {
       for (const radial of velData) {
         if (!radial?.moment_data) continue;
@@ -852,126 +874,3 @@ export function computeFrameStats(
 
   return { vcp, elevationAngle, maxRef, gatesAbove50, gatesAbove60, maxInboundVel, maxOutboundVel };
 }
-
-/**
- * Full decode + render pipeline. Works in both main thread and worker.
- * Requires: pako, Buffer, Level2Radar available in scope.
- *
- * @param scanBuffer - Raw (possibly gzipped) NEXRAD Level 2 ArrayBuffer
- * @param product - 'REF' or 'VEL'
- * @param elevationNumber - 1-based elevation number
- * @param siteLat - Fallback site latitude
- * @param siteLon - Fallback site longitude
- * @param canvasSize - Canvas dimensions (default 3600)
- * @param createCanvas - Factory: returns a 2D canvas context + the canvas/offscreen
- */
-export function decodeAndRender(
-  scanBuffer: ArrayBuffer,
-  product: 'REF' | 'VEL',
-  elevationNumber: number,
-  siteLat: number,
-  siteLon: number,
-  canvasSize: number,
-  deps: {
-    gunzip: (data: Uint8Array) => Uint8Array;
-    createRadar: (buf: any) => any;
-    wrapBuffer: (data: Uint8Array) => any;
-    createCanvas: (w: number, h: number) => {
-      ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
-      canvas: HTMLCanvasElement | OffscreenCanvas;
-    };
-  },
-  customColorTable?: ColorStop[],
-  smoothing?: SmoothingMode,
-): {
-  canvas: HTMLCanvasElement | OffscreenCanvas;
-  timestamp: number;
-  product: string;
-  elevation: number;
-  siteLat: number;
-  siteLon: number;
-  rangeKm: number;
-  elevations: number[];
-  vcp: number;
-  siteId: string;
-} | null {
-  try {
-    // 1. Decompress if gzipped
-    const bytes = new Uint8Array(scanBuffer);
-    let data: Uint8Array;
-    if (bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b) {
-      data = deps.gunzip(bytes);
-    } else {
-      data = bytes;
-    }
-
-    // 2. Parse with Level2Radar
-    const buf = deps.wrapBuffer(data);
-    const radar = deps.createRadar(buf);
-
-    // 3. Extract metadata
-    const header = radar.header ?? {};
-    const siteId = header.icao ?? header.ICAO ?? '';
-    const vcp = typeof radar.vcp === 'number' ? radar.vcp : 0;
-    const elevationIndices = radar.listElevations?.() ?? [];
-    const radarData = radar.data;
-    const elevations = elevationIndices.map((idx: number) => {
-      const elevData = radarData?.[idx];
-      const angle = elevData?.[0]?.record?.elevation_angle;
-      return typeof angle === 'number' ? Math.round(angle * 10) / 10 : idx;
-    });
-
-    // 4. Get moment data at requested elevation (try next elevation for split-cut VCPs)
-    radar.setElevation(elevationNumber);
-    let momentData = getMomentData(radar, product);
-    if (!momentData && elevationNumber < 17) {
-      radar.setElevation(elevationNumber + 1);
-      momentData = getMomentData(radar, product);
-    }
-    if (!momentData) return null;
-
-    // 5. Compute range
-    const colorTable = customColorTable ?? getColorTable(product);
-    const r0 = momentData.find((r: any) => r != null);
-    const rangeKm = r0
-      ? r0.first_gate + r0.gate_count * r0.gate_size
-      : (product === 'REF' ? 460 : 300);
-
-    // 6. Extract true coordinates
-    const trueCoords = extractTrueCoords(radar, siteLat, siteLon);
-
-    // 7. Get azimuths
-    const azimuths = radar.getAzimuth();
-    if (!azimuths || azimuths.length === 0) return null;
-
-    // 8. Create canvas and render
-    const { ctx, canvas } = deps.createCanvas(canvasSize, canvasSize);
-    ctx.clearRect(0, 0, canvasSize, canvasSize);
-    const center = canvasSize / 2;
-
-    if (smoothing === 'low' || smoothing === 'high') {
-      drawPolarDataInterpolated(ctx, momentData, azimuths, colorTable, center, center, center, rangeKm, smoothing);
-    } else {
-      drawPolarData(ctx, momentData, azimuths, colorTable, center, center, center, rangeKm);
-    }
-
-    // 9. Extract timestamp
-    const timestamp = extractTimestamp(radar);
-
-    return {
-      canvas,
-      timestamp,
-      product,
-      elevation: elevationNumber,
-      siteLat: trueCoords.lat,
-      siteLon: trueCoords.lon,
-      rangeKm,
-      elevations,
-      vcp,
-      siteId,
-    };
-  } catch (err) {
-    console.error('[renderLogic] decodeAndRender error:', err);
-    return null;
-  }
-}
@@ -0,0 +1,320 @@
+/**
+ * Rotation (mesocyclone / tornadic vortex) detection from azimuthal shear.
+ *
+ * LLSD-style: at every VEL gate, azimuthal shear is the least-squares slope
+ * of radial velocity against azimuthal arc distance over a small window of
+ * neighbouring radials (same range gate). Gates with cyclonic (positive)
+ * shear above the threshold are grouped into connected regions; each region
+ * is a candidate couplet. Within a region (padded by the kernel width) the
+ * strongest inbound and outbound gates give the couplet's delta-V and
+ * diameter, and their midpoint its location.
+ *
+ * Works on the radar's currently selected elevation (or the next one for
+ * split cuts, whose surveillance tilt carries no VEL), using dealiased VEL
+ * when `processing.dealias` is set — folded gates otherwise masquerade as
+ * huge shear. Marker positions use the same flat slant-range projection as
+ * the rendered image so they line up with the couplet on the map.
+ */
+
+import { getVelocityRadials, type ParsedRadarData, type ProcessingOptions } from './renderLogic';
+
+export interface RotationThresholds {
+  /** Minimum cyclonic azimuthal shear (×10⁻³ s⁻¹) */
+  minShear: number;
+  /** Minimum gate-to-gate delta-V across the couplet (m/s) */
+  minDeltaV: number;
+  /** Maximum inbound-to-outbound distance (km) */
+  maxDiameterKm: number;
+}
+
+export const DEFAULT_ROTATION_THRESHOLDS: RotationThresholds = {
+  minShear: 8,
+  minDeltaV: 20,
+  maxDiameterKm: 10,
+};
+
+export interface RotationMarker {
+  lat: number;
+  lon: number;
+  /** Max outbound − max inbound velocity (m/s) */
+  deltaV: number;
+  /** Distance between the inbound and outbound maxima (km) */
+  diameterKm: number;
+  /** Peak azimuthal shear in the region (×10⁻³ s⁻¹) */
+  maxShear: number;
+  /** Tilt the couplet was found on (degrees) */
+  elevationAngle: number;
+  /** Azimuth from the radar (degrees) */
+  azimuth: number;
+  /** Slant range from the radar (km) */
+  rangeKm: number;
+}
+
+/** Radials on each side of the gate in the least-squares window. */
+const KERNEL_HALF_WIDTH = 2;
+/** Ignore regions smaller than this many gates (speckle). */
+const MIN_REGION_GATES = 4;
+/** Couplets past this range are beam-broadened beyond usefulness. */
+const MAX_RANGE_KM = 230;
+/** Report at most this many couplets, strongest first. */
+const MAX_MARKERS = 10;
+const KM_PER_DEG_LAT = 111.32;
+
+/** Markers per parsed scan, keyed by tilt, dealiasing and thresholds */
+const markerCache = new WeakMap<ParsedRadarData, Map<string, RotationMarker[]>>();
+
+/**
+ * Get (or detect and cache) the couplet markers for the selected elevation.
+ * Every product rendered from the same scan and tilt shares one detection.
+ * Leaves the radar's selected elevation changed — callers must re-select.
+ */
+export function getRotationMarkers(
+  parsed: ParsedRadarData,
+  processing?: ProcessingOptions,
+  thresholds: RotationThresholds = DEFAULT_ROTATION_THRESHOLDS,
+): RotationMarker[] {
+  const { minShear, minDeltaV, maxDiameterKm } = thresholds;
+  const key = `${parsed.radar.elevation}-${processing?.dealias ? 'da' : ''}-${minShear}-${minDeltaV}-${maxDiameterKm}`;
+  let perScan = markerCache.get(parsed);
+  if (!perScan) {
+    perScan = new Map();
+    markerCache.set(parsed, perScan);
+  }
+  const cached = perScan.get(key);
+  if (cached) return cached;
+
+  const markers = detectRotation(parsed, processing, thresholds);
+  perScan.set(key, markers);
+  return markers;
+}
+
+/**
+ * Detect cyclonic couplets on the selected elevation. Returns markers sorted
+ * by delta-V (strongest first); empty when the tilt has no velocity data.
+ */
+export function detectRotation(
+  parsed: ParsedRadarData,
+  processing?: ProcessingOptions,
+  thresholds: RotationThresholds = DEFAULT_ROTATION_THRESHOLDS,
+): RotationMarker[] {
+  const { lat: siteLat, lon: siteLon } = parsed.trueCoords;
+  const sweep = selectVelocitySweep(parsed.radar, processing);
+  if (!sweep) return [];
+  const { radials, azimuths, elevationAngle } = sweep;
+
+  const field = computeShearField(radials, azimuths);
+  if (!field) return [];
+  const { shear, n, maxGate, firstGate, gateSize, sortedAzimuths, radialIndex } = field;
+  const vel = (k: number, g: number): number | null => {
+    const r = radials[radialIndex[((k % n) + n) % n]];
+    const v = g < r.gate_count ? r.moment_data[g] : null;
+    return v === null || v === undefined ? null : v;
+  };
+  const azAt = (k: number) => sortedAzimuths[((k % n) + n) % n];
+  const minShear = thresholds.minShear;
+
+  // ── Group above-threshold gates into connected regions ──
+  const visited = new Uint8Array(n * maxGate);
+  const markers: RotationMarker[] = [];
+  const stack: number[] = [];
+  const kmPerDegLon = KM_PER_DEG_LAT * Math.cos((siteLat * Math.PI) / 180);
+
+  for (let start = 0; start < shear.length; start++) {
+    if (visited[start] || shear[start] < minShear) continue;
+
+    let kMin = Infinity;
+    let kMax = -Infinity;
+    let gMin = Infinity;
+    let gMax = -Infinity;
+    let size = 0;
+    let peak = 0;
+    const seedK = Math.floor(start / maxGate);
+    stack.push(start);
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const idx = stack.pop()!;
+      const k = Math.floor(idx / maxGate);
+      const g = idx - k * maxGate;
+      size++;
+      if (shear[idx] > peak) peak = shear[idx];
+      // Track the radial span unwrapped relative to the seed
+      let kRel = k;
+      if (k - seedK > n / 2) kRel -= n;
+      else if (seedK - k > n / 2) kRel += n;
+      if (kRel < kMin) kMin = kRel;
+      if (kRel > kMax) kMax = kRel;
+      if (g < gMin) gMin = g;
+      if (g > gMax) gMax = g;
+      const neighbours = [
+        ((k + 1) % n) * maxGate + g,
+        ((k - 1 + n) % n) * maxGate + g,
+        g + 1 < maxGate ? idx + 1 : -1,
+        g > 0 ? idx - 1 : -1,
+      ];
+      for (const nb of neighbours) {
+        if (nb < 0 || visited[nb] || shear[nb] < minShear) continue;
+        visited[nb] = 1;
+        stack.push(nb);
+      }
+    }
+    if (size < MIN_REGION_GATES) continue;
+
+    // Strongest inbound/outbound within the region padded by the kernel
+    let vIn = Infinity;
+    let vOut = -Infinity;
+    let inK = 0, inG = 0, outK = 0, outG = 0;
+    for (let k = kMin - KERNEL_HALF_WIDTH; k <= kMax + KERNEL_HALF_WIDTH; k++) {
+      for (let g = gMin; g <= gMax; g++) {
+        const v = vel(k, g);
+        if (v === null) continue;
+        if (v < vIn) { vIn = v; inK = k; inG = g; }
+        if (v > vOut) { vOut = v; outK = k; outG = g; }
+      }
+    }
+    if (!isFinite(vIn) || !isFinite(vOut)) continue;
+    const deltaV = vOut - vIn;
+    if (deltaV < thresholds.minDeltaV) continue;
+
+    const inXY = polarToXY(azAt(inK), firstGate + (inG + 0.5) * gateSize);
+    const outXY = polarToXY(azAt(outK), firstGate + (outG + 0.5) * gateSize);
+    const diameterKm = Math.hypot(outXY.x - inXY.x, outXY.y - inXY.y);
+    if (diameterKm > thresholds.maxDiameterKm) continue;
+
+    const x = (inXY.x + outXY.x) / 2;
+    const y = (inXY.y + outXY.y) / 2;
+    markers.push({
+      lat: siteLat + y / KM_PER_DEG_LAT,
+      lon: siteLon + x / kmPerDegLon,
+      deltaV,
+      diameterKm,
+      maxShear: peak,
+      elevationAngle,
+      azimuth: ((Math.atan2(x, y) * 180) / Math.PI + 360) % 360,
+      rangeKm: Math.hypot(x, y),
+    });
+  }
+
+  markers.sort((a, b) => b.deltaV - a.deltaV);
+  return markers.slice(0, MAX_MARKERS);
+}
+
+/**
+ * VEL radials for the selected elevation, moving up one elevation number
+ * for split cuts (whose surveillance scan has no velocity). Returns null
+ * when neither tilt has velocity data.
+ */
+export function selectVelocitySweep(radar: any, processing?: ProcessingOptions): {
+  radials: any[];
+  azimuths: number[];
+  elevationAngle: number;
+} | null {
+  const hasVelocity = (r: any[] | null) => Array.isArray(r) && r.some((x) => x?.moment_data);
+  let radials = getVelocityRadials(radar, processing?.dealias);
+  if (!hasVelocity(radials) && radar.data?.[radar.elevation + 1]) {
+    radar.setElevation(radar.elevation + 1);
+    radials = getVelocityRadials(radar, processing?.dealias);
+  }
+  if (!radials || !hasVelocity(radials)) return null;
+  return {
+    radials,
+    azimuths: radar.getAzimuth(),
+    elevationAngle: radar.data?.[radar.elevation]?.[0]?.record?.elevation_angle ?? 0,
+  };
+}
+
+export interface ShearField {
+  /** n × maxGate azimuthal shear (×10⁻³ s⁻¹), indexed [k * maxGate + gate] */
+  shear: Float32Array;
+  /** Radials with data, in ascending azimuth order */
+  n: number;
+  maxGate: number;
+  firstGate: number;
+  gateSize: number;
+  /** Azimuth (degrees) of sorted radial k */
+  sortedAzimuths: Float64Array;
+  /** Original radial index of sorted radial k */
+  radialIndex: Int32Array;
+}
+
+/**
+ * LLSD-style azimuthal shear for every gate of a VEL sweep (out to
+ * MAX_RANGE_KM). Returns null when the sweep has too little data.
+ */
+export function computeShearField(radials: any[], azimuths: number[]): ShearField | null {
+  let nGates = 0;
+  let firstGate = 0;
+  let gateSize = 0.25;
+  for (const r of radials) {
+    if (r?.moment_data && r.gate_count > nGates) {
+      nGates = r.gate_count;
+      firstGate = r.first_gate;
+      gateSize = r.gate_size;
+    }
+  }
+  if (nGates === 0) return null;
+  const maxGate = Math.min(nGates, Math.floor((MAX_RANGE_KM - firstGate) / gateSize));
+  if (maxGate <= 0) return null;
+
+  // Radials sorted by azimuth so neighbours are adjacent (index order can
+  // start mid-sweep and, for SAILS/MRLE cuts, wrap more than once)
+  const order = azimuths
+    .map((az, i) => ({ az, i }))
+    .filter(({ i }) => radials[i]?.moment_data)
+    .sort((a, b) => a.az - b.az);
+  const n = order.length;
+  if (n < KERNEL_HALF_WIDTH * 2 + 1) return null;
+  const vel = (k: number, g: number): number | null => {
+    const r = radials[order[((k % n) + n) % n].i];
+    const v = g < r.gate_count ? r.moment_data[g] : null;
+    return v === null || v === undefined ? null : v;
+  };
+  const azAt = (k: number) => order[((k % n) + n) % n].az;
+
+  // ── Azimuthal shear (s⁻¹ ×10⁻³) ──
+  const shear = new Float32Array(n * maxGate);
+  for (let k = 0; k < n; k++) {
+    const az0 = azAt(k);
+    for (let g = 0; g < maxGate; g++) {
+      if (vel(k, g) === null) continue;
+      const rangeM = (firstGate + (g + 0.5) * gateSize) * 1000;
+      let sxx = 0;
+      let sxv = 0;
+      let sv = 0;
+      let sx = 0;
+      let count = 0;
+      for (let d = -KERNEL_HALF_WIDTH; d <= KERNEL_HALF_WIDTH; d++) {
+        const v = vel(k + d, g);
+        if (v === null) continue;
+        let dAz = azAt(k + d) - az0;
+        if (dAz > 180) dAz -= 360;
+        else if (dAz < -180) dAz += 360;
+        const x = rangeM * dAz * (Math.PI / 180);
+        sx += x;
+        sv += v;
+        sxx += x * x;
+        sxv += x * v;
+        count++;
+      }
+      if (count < 3) continue;
+      const denom = count * sxx - sx * sx;
+      if (denom <= 0) continue;
+      shear[k * maxGate + g] = ((count * sxv - sx * sv) / denom) * 1000;
+    }
+  }
+
+  return {
+    shear,
+    n,
+    maxGate,
+    firstGate,
+    gateSize,
+    sortedAzimuths: Float64Array.from(order, (o) => o.az),
+    radialIndex: Int32Array.from(order, (o) => o.i),
+  };
+}
+
+/** Radar-centred km offsets (x = east, y = north) for an azimuth/range. */
+function polarToXY(azDeg: number, rangeKm: number): { x: number; y: number } {
+  const a = (azDeg * Math.PI) / 180;
+  return { x: rangeKm * Math.sin(a), y: rangeKm * Math.cos(a) };
+}
@@ -1,7 +1,19 @@
-import type { ScanFile } from './types';
-
-const BUCKET = 'unidata-nexrad-level2';
-const BUCKET_URL = `https://${BUCKET}.s3.amazonaws.com`;
+import type { ScanFile, RadarDataSource } from './types';
+import { isLocalScanKey, readLocalScan } from './localFiles';
+import { scanDiskCache } from './scanDiskCache';
+import { useDataSourceStore, type ArchiveId } from '../../stores/dataSourceStore';
+
+/** Public Level 2 archive buckets selectable as data sources. */
+export const ARCHIVE_PRESETS: Record<Exclude<ArchiveId, 'custom'>, { label: string; url: string }> = {
+  unidata: {
+    label: 'Unidata (AWS Open Data)',
+    url: 'https://unidata-nexrad-level2.s3.amazonaws.com',
+  },
+  noaa: {
+    label: 'NOAA (AWS Open Data)',
+    url: 'https://noaa-nexrad-level2.s3.amazonaws.com',
+  },
+};
 
 function formatDatePath(date: Date): string {
   const y = date.getUTCFullYear();
@@ -19,56 +31,102 @@ function parseTimestamp(filename: string): number | null {
 }
 
 /**
- * List all volume scan files for a given NEXRAD site and date.
- * Handles pagination via S3 ListObjectsV2.
+ * Data source for an S3-compatible bucket laid out like the public archives
+ * (`YYYY/MM/DD/SITE/SITEYYYYMMDD_HHMMSS_V06`). Listing uses ListObjectsV2,
+ * so a mirror or local stand-in must answer `?list-type=2&prefix=…` with
+ * S3's XML.
+ */
+export function createS3Source(label: string, baseUrl: string): RadarDataSource {
+  return {
+    label,
+    url: baseUrl,
+
+    /** List all volume scan files for a site and date, following pagination. */
+    async listScans(siteId: string, date: Date): Promise<ScanFile[]> {
+      const prefix = `${formatDatePath(date)}/${siteId}/`;
+      const files: ScanFile[] = [];
+      let continuationToken: string | null = null;
+
+      do {
+        const params = new URLSearchParams({
+          'list-type': '2',
+          prefix,
+          ...(continuationToken ? { 'continuation-token': continuationToken } : {}),
+        });
+
+        const response = await fetch(`${baseUrl}?${params}`);
+        if (!response.ok) {
+          throw new Error(`S3 listing failed: ${response.status} ${response.statusText}`);
+        }
+
+        const xml = await response.text();
+        const parser = new DOMParser();
+        const doc = parser.parseFromString(xml, 'text/xml');
+
+        const contents = doc.querySelectorAll('Contents');
+        for (const item of contents) {
+          const key = item.querySelector('Key')?.textContent;
+          const size = parseInt(item.querySelector('Size')?.textContent ?? '0', 10);
+
+          if (!key) continue;
+
+          // Skip MDM (metadata) files and non-volume-scan files
+          const filename = key.split('/').pop() ?? '';
+          if (filename.includes('MDM') || filename.startsWith('NWS_')) continue;
+
+          const timestamp = parseTimestamp(filename);
+          if (timestamp === null) continue;
+
+          files.push({ key, timestamp, size });
+        }
+
+        // Check for pagination
+        const isTruncated = doc.querySelector('IsTruncated')?.textContent === 'true';
+        const nextToken = doc.querySelector('NextContinuationToken')?.textContent;
+        continuationToken = isTruncated && nextToken ? nextToken : null;
+      } while (continuationToken);
+
+      // Sort by timestamp
+      files.sort((a, b) => a.timestamp - b.timestamp);
+      return files;
+    },
+
+    async fetchScan(key: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+      const response = await fetch(`${baseUrl}/${key}`, { signal });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch scan ${key}: ${response.status}`);
+      }
+      return response.arrayBuffer();
+    },
+  };
+}
+
+/* ── Active source ────────────────────────────────────────────────── */
+
+let activeSource: RadarDataSource | null = null;
+
+/**
+ * The data source selected in dataSourceStore. A custom archive without a
+ * URL falls back to the Unidata bucket.
+ */
+export function getRadarDataSource(): RadarDataSource {
+  const { archive, customUrl } = useDataSourceStore.getState();
+  const preset = archive === 'custom'
+    ? (customUrl ? { label: 'Custom archive', url: customUrl } : ARCHIVE_PRESETS.unidata)
+    : ARCHIVE_PRESETS[archive];
+
+  if (!activeSource || activeSource.url !== preset.url) {
+    activeSource = createS3Source(preset.label, preset.url);
+  }
+  return activeSource;
+}
+
+/**
+ * List all volume scan files for a given NEXRAD site and date from the
+ * active data source.
  */
 export async function listScans(siteId: string, date: Date): Promise<ScanFile[]> {
-  const prefix = `${formatDatePath(date)}/${siteId}/`;
-  const files: ScanFile[] = [];
-  let continuationToken: string | null = null;
-
-  do {
-    const params = new URLSearchParams({
-      'list-type': '2',
-      prefix,
-      ...(continuationToken ? { 'continuation-token': continuationToken } : {}),
-    });
-
-    const response = await fetch(`${BUCKET_URL}?${params}`);
-    if (!response.ok) {
-      throw new Error(`S3 listing failed: ${response.status} ${response.statusText}`);
-    }
-
-    const xml = await response.text();
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(xml, 'text/xml');
-
-    const contents = doc.querySelectorAll('Contents');
-    for (const item of contents) {
-      const key = item.querySelector('Key')?.textContent;
-      const size = parseInt(item.querySelector('Size')?.textContent ?? '0', 10);
-
-      if (!key) continue;
-
-      // Skip MDM (metadata) files and non-volume-scan files
-      const filename = key.split('/').pop() ?? '';
-      if (filename.includes('MDM') || filename.startsWith('NWS_')) continue;
-
-      const timestamp = parseTimestamp(filename);
-      if (timestamp === null) continue;
-
-      files.push({ key, timestamp, size });
-    }
-
-    // Check for pagination
-    const isTruncated = doc.querySelector('IsTruncated')?.textContent === 'true';
-    const nextToken = doc.querySelector('NextContinuationToken')?.textContent;
-    continuationToken = isTruncated && nextToken ? nextToken : null;
-  } while (continuationToken);
-
-  // Sort by timestamp
-  files.sort((a, b) => a.timestamp - b.timestamp);
-  return files;
+  return getRadarDataSource().listScans(siteId, date);
 }
 
 /**
@@ -106,13 +164,29 @@ export async function listScansForRange(
 }
 
 /**
- * Fetch a single scan file as ArrayBuffer from S3.
+ * Fetch a single scan file as ArrayBuffer, from the persistent scan cache
+ * when it's there, otherwise from the active data source (and cache it).
  * Supports AbortSignal for cancellation (used by prefetch manager).
+ * `local:` keys are read from the imported local files instead.
  */
 export async function fetchScan(key: string, signal?: AbortSignal): Promise<ArrayBuffer> {
-  const response = await fetch(`${BUCKET_URL}/${key}`, { signal });
-  if (!response.ok) {
-    throw new Error(`Failed to fetch scan ${key}: ${response.status}`);
-  }
-  return response.arrayBuffer();
+  if (isLocalScanKey(key)) return readLocalScan(key, signal);
+
+  const cacheKey = scanCacheKey(key);
+  const cached = await scanDiskCache.get(cacheKey);
+  if (cached) return cached;
+
+  const buffer = await getRadarDataSource().fetchScan(key, signal);
+  // Copy: callers may transfer the buffer to a worker before the write lands
+  scanDiskCache.put(cacheKey, buffer.slice(0));
+  return buffer;
+}
+
+/**
+ * Persistent scan cache key for a scan of the active data source. Archives
+ * share the same key layout, so entries are scoped to the source's URL —
+ * a mirror's copy never stands in for another archive's scan.
+ */
+export function scanCacheKey(key: string): string {
+  return `${getRadarDataSource().url}/${key}`;
 }
@@ -0,0 +1,42 @@
+/**
+ * Time alignment between two radar sites' scan lists.
+ *
+ * Neighbouring radars run independent volume coverage patterns, so their
+ * scans never start at the same moment. For a comparison the main
+ * timeline drives, and each main frame is paired with the other site's
+ * scan nearest in time — or none, if the other radar has a gap there.
+ */
+
+import type { ScanFile } from './types';
+
+/** Scans further apart than this aren't paired (longer than any VCP cycle). */
+export const MAX_ALIGN_OFFSET_MS = 10 * 60 * 1000;
+
+/**
+ * Index of the scan in `scans` (sorted by timestamp) nearest to `timestamp`,
+ * or -1 if none is within maxOffsetMs.
+ */
+export function nearestScanIndex(scans: ScanFile[], timestamp: number, maxOffsetMs = MAX_ALIGN_OFFSET_MS): number {
+  if (scans.length === 0) return -1;
+
+  // First scan at or after the timestamp
+  let lo = 0;
+  let hi = scans.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (scans[mid].timestamp < timestamp) lo = mid + 1;
+    else hi = mid;
+  }
+
+  let best = -1;
+  let bestOffset = Infinity;
+  for (const i of [lo - 1, lo]) {
+    if (i < 0 || i >= scans.length) continue;
+    const offset = Math.abs(scans[i].timestamp - timestamp);
+    if (offset < bestOffset) {
+      best = i;
+      bestOffset = offset;
+    }
+  }
+  return bestOffset <= maxOffsetMs ? best : -1;
+}
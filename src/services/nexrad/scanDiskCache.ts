@@ -0,0 +1,271 @@
+/**
+ * Persistent cache of raw Level 2 scan files, consulted by fetchScan
+ * before the network so an event downloaded once loads from disk on every
+ * later launch. Entries are keyed by data source URL plus scan key (see
+ * scanCacheKey in s3Client.ts).
+ *
+ * Two backends behind one small interface:
+ * - Browser: IndexedDB — scan bytes and a metadata store ({key, size,
+ *   lastUsed}) in separate object stores, so the index loads without
+ *   touching the data
+ * - Electron: one file per scan in the app-data folder over IPC (see the
+ *   scan-cache handlers in electron/main.ts), mtime as the LRU time
+ *
+ * The index is held in memory once loaded. Writes evict least-recently-used
+ * scans until the total fits under the byte cap from scanCacheStore; cache
+ * failures are logged and never fail the fetch. Usage is published to the
+ * store for the settings panel.
+ */
+
+import { useScanCacheStore } from '../../stores/scanCacheStore';
+
+interface CacheEntry {
+  key: string;
+  size: number;
+  /** Last read or write (ms) */
+  lastUsed: number;
+}
+
+interface ScanCacheBackend {
+  loadIndex(): Promise<CacheEntry[]>;
+  /** Cached bytes, or null on a miss. Marks the entry as used. */
+  read(entry: CacheEntry): Promise<ArrayBuffer | null>;
+  write(entry: CacheEntry, data: ArrayBuffer): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/* ── IndexedDB backend ────────────────────────────────────────────── */
+
+const DB_NAME = 'storm-replay-scans';
+const DATA_STORE = 'scans';
+const META_STORE = 'meta';
+
+function idbRequest<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function idbDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function createIndexedDbBackend(): ScanCacheBackend {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    dbPromise ??= new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(DATA_STORE);
+        req.result.createObjectStore(META_STORE, { keyPath: 'key' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return dbPromise;
+  };
+
+  return {
+    async loadIndex() {
+      const db = await open();
+      return idbRequest(db.transaction(META_STORE).objectStore(META_STORE).getAll()) as Promise<CacheEntry[]>;
+    },
+
+    async read(entry) {
+      const db = await open();
+      const data = await idbRequest(db.transaction(DATA_STORE).objectStore(DATA_STORE).get(entry.key));
+      if (!(data instanceof ArrayBuffer)) return null;
+      const tx = db.transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(entry);
+      await idbDone(tx);
+      return data;
+    },
+
+    async write(entry, data) {
+      const db = await open();
+      const tx = db.transaction([DATA_STORE, META_STORE], 'readwrite');
+      tx.objectStore(DATA_STORE).put(data, entry.key);
+      tx.objectStore(META_STORE).put(entry);
+      await idbDone(tx);
+    },
+
+    async remove(keys) {
+      const db = await open();
+      const tx = db.transaction([DATA_STORE, META_STORE], 'readwrite');
+      for (const key of keys) {
+        tx.objectStore(DATA_STORE).delete(key);
+        tx.objectStore(META_STORE).delete(key);
+      }
+      await idbDone(tx);
+    },
+
+    async clear() {
+      const db = await open();
+      const tx = db.transaction([DATA_STORE, META_STORE], 'readwrite');
+      tx.objectStore(DATA_STORE).clear();
+      tx.objectStore(META_STORE).clear();
+      await idbDone(tx);
+    },
+  };
+}
+
+/* ── Electron filesystem backend ──────────────────────────────────── */
+
+function createElectronBackend(api: ElectronAPI): ScanCacheBackend {
+  return {
+    loadIndex: () => api.scanCacheIndex(),
+    async read(entry) {
+      const bytes = await api.scanCacheRead(entry.key);
+      if (!bytes) return null;
+      return bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength
+        ? bytes.buffer as ArrayBuffer
+        : bytes.slice().buffer as ArrayBuffer;
+    },
+    write: (entry, data) => api.scanCacheWrite(entry.key, new Uint8Array(data)),
+    remove: (keys) => api.scanCacheRemove(keys),
+    clear: () => api.scanCacheClear(),
+  };
+}
+
+/* ── Cache ────────────────────────────────────────────────────────── */
+
+export class ScanDiskCache {
+  private backend: ScanCacheBackend | null;
+  private index = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+  private ready: Promise<boolean> | null = null;
+  /** Serializes writes, evictions and clears */
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor() {
+    if (typeof window !== 'undefined' && window.electronAPI?.scanCacheIndex) {
+      this.backend = createElectronBackend(window.electronAPI);
+    } else if (typeof indexedDB !== 'undefined') {
+      this.backend = createIndexedDbBackend();
+    } else {
+      this.backend = null;
+    }
+  }
+
+  /** Load the index (once) and publish usage. Resolves false if unavailable. */
+  init(): Promise<boolean> {
+    this.ready ??= (async () => {
+      if (!this.backend) return false;
+      try {
+        for (const entry of await this.backend.loadIndex()) {
+          this.index.set(entry.key, entry);
+          this.totalBytes += entry.size;
+        }
+        this.publish();
+        // Shrink right away when the cap is lowered in settings
+        useScanCacheStore.subscribe((state, prev) => {
+          if (state.maxBytes < prev.maxBytes) this.enqueue(() => this.evict(0));
+        });
+        return true;
+      } catch (err) {
+        console.warn('[ScanCache] Unavailable:', err);
+        return false;
+      }
+    })();
+    return this.ready;
+  }
+
+  async get(key: string): Promise<ArrayBuffer | undefined> {
+    if (!useScanCacheStore.getState().enabled || !(await this.init())) return undefined;
+    const entry = this.index.get(key);
+    if (!entry) return undefined;
+
+    try {
+      entry.lastUsed = Date.now();
+      const data = await this.backend!.read(entry);
+      if (data) return data;
+      // Index said cached but the bytes are gone (cleared externally)
+      this.drop([key]);
+    } catch (err) {
+      console.warn(`[ScanCache] Read failed for ${key}:`, err);
+    }
+    return undefined;
+  }
+
+  /** Whether a scan is cached, without reading it. */
+  async has(key: string): Promise<boolean> {
+    if (!useScanCacheStore.getState().enabled || !(await this.init())) return false;
+    return this.index.has(key);
+  }
+
+  /** Store a downloaded scan. `data` must not be transferred while this runs. */
+  put(key: string, data: ArrayBuffer): Promise<void> {
+    const { enabled, maxBytes } = useScanCacheStore.getState();
+    if (!enabled || data.byteLength > maxBytes) return Promise.resolve();
+
+    return this.enqueue(async () => {
+      if (!(await this.init()) || this.index.has(key)) return;
+      await this.evict(data.byteLength);
+      const entry: CacheEntry = { key, size: data.byteLength, lastUsed: Date.now() };
+      await this.backend!.write(entry, data);
+      this.index.set(key, entry);
+      this.totalBytes += entry.size;
+      this.publish();
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.enqueue(async () => {
+      if (!(await this.init())) return;
+      await this.backend!.clear();
+      this.index.clear();
+      this.totalBytes = 0;
+      this.publish();
+    });
+  }
+
+  /** Evict least-recently-used scans until `incoming` more bytes fit. */
+  private async evict(incoming: number): Promise<void> {
+    const { maxBytes } = useScanCacheStore.getState();
+    if (this.totalBytes + incoming <= maxBytes) return;
+
+    const victims: string[] = [];
+    let remaining = this.totalBytes;
+    const byAge = [...this.index.values()].sort((a, b) => a.lastUsed - b.lastUsed);
+    for (const entry of byAge) {
+      if (remaining + incoming <= maxBytes) break;
+      victims.push(entry.key);
+      remaining -= entry.size;
+    }
+    if (victims.length === 0) return;
+
+    await this.backend!.remove(victims);
+    this.drop(victims);
+  }
+
+  private drop(keys: string[]): void {
+    for (const key of keys) {
+      const entry = this.index.get(key);
+      if (!entry) continue;
+      this.index.delete(key);
+      this.totalBytes -= entry.size;
+    }
+    this.publish();
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeChain.then(task).catch((err) => {
+      console.warn('[ScanCache] Write failed:', err);
+    });
+    this.writeChain = run;
+    return run;
+  }
+
+  private publish(): void {
+    useScanCacheStore.getState().setUsage(this.totalBytes, this.index.size);
+  }
+}
+
+// Singleton instance
+export const scanDiskCache = new ScanDiskCache();
@@ -0,0 +1,203 @@
+/**
+ * Event swaths: per-scan max-value sampling onto a shared lat/lon grid.
+ *
+ * A swath is the cell-wise maximum of one field over many scans — a
+ * rotation track (max cyclonic azimuthal shear) or a reflectivity / hail-core
+ * swath (max REF). Each scan is sampled in the worker onto the same
+ * equirectangular grid covering every site in the event, so the main thread
+ * only has to take the running max and the result lines up with the map
+ * even across multi-site handoffs.
+ *
+ * Sampling is cell → gate (inverse mapping) so far-range cells don't fall
+ * into the gaps between diverging radials. Grid rows are evenly spaced in
+ * Mercator Y so the grid can be placed on the map as a plain image source
+ * without north/south drift; gate positions use the same flat slant-range
+ * projection as the radar layer's shader (glRenderer.ts).
+ */
+
+import {
+  resolveSweepElevation,
+  valueToRGBA,
+  type ParsedRadarData,
+  type ProcessingOptions,
+} from './renderLogic';
+import { selectVelocitySweep, computeShearField } from './rotationDetection';
+import { buildAzimuthMap, azimuthBin } from './volumeProducts';
+import type { ColorStop } from './colorTables';
+
+export type SwathKind = 'rotation' | 'ref';
+
+export interface SwathGridSpec {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+  /** Columns (west → east) */
+  width: number;
+  /** Rows (north → south, evenly spaced in Mercator Y) */
+  height: number;
+}
+
+/** Swath cell size (km). */
+const SWATH_CELL_KM = 0.5;
+/** Upper bound on either grid dimension (keeps multi-site grids ≤ ~16 MB). */
+const MAX_GRID_DIM = 2048;
+/** Sampling range around each radar (km). */
+export const SWATH_RANGE_KM = 230;
+const KM_PER_DEG_LAT = 111.32;
+
+/**
+ * Build a grid covering SWATH_RANGE_KM around every site.
+ */
+export function computeSwathGrid(
+  sites: { lat: number; lon: number }[],
+  cellKm = SWATH_CELL_KM,
+): SwathGridSpec | null {
+  if (sites.length === 0) return null;
+  let west = Infinity;
+  let east = -Infinity;
+  let south = Infinity;
+  let north = -Infinity;
+  for (const { lat, lon } of sites) {
+    const dLat = SWATH_RANGE_KM / KM_PER_DEG_LAT;
+    const dLon = SWATH_RANGE_KM / (KM_PER_DEG_LAT * Math.cos((lat * Math.PI) / 180));
+    west = Math.min(west, lon - dLon);
+    east = Math.max(east, lon + dLon);
+    south = Math.min(south, lat - dLat);
+    north = Math.max(north, lat + dLat);
+  }
+  const midLat = (north + south) / 2;
+  const widthKm = (east - west) * KM_PER_DEG_LAT * Math.cos((midLat * Math.PI) / 180);
+  const heightKm = (north - south) * KM_PER_DEG_LAT;
+  return {
+    west,
+    south,
+    east,
+    north,
+    width: Math.min(MAX_GRID_DIM, Math.ceil(widthKm / cellKm)),
+    height: Math.min(MAX_GRID_DIM, Math.ceil(heightKm / cellKm)),
+  };
+}
+
+/**
+ * Sample one scan onto the swath grid (NaN = no data / out of range).
+ * Returns null when the tilt has no data for the swath field.
+ */
+export function sampleSwath(
+  parsed: ParsedRadarData,
+  kind: SwathKind,
+  elevationNumber: number,
+  spec: SwathGridSpec,
+  sweepIndex?: number,
+  processing?: ProcessingOptions,
+): Float32Array | null {
+  const { radar, trueCoords } = parsed;
+  radar.setElevation(resolveSweepElevation(radar, elevationNumber, sweepIndex).elevationNumber);
+
+  // Per-kind gate lookup: (radial bin, range km) → value | null
+  let lookup: (bin: number, rangeKm: number) => number | null;
+
+  if (kind === 'rotation') {
+    const sweep = selectVelocitySweep(radar, processing);
+    const field = sweep ? computeShearField(sweep.radials, sweep.azimuths) : null;
+    if (!sweep || !field) return null;
+    const azMap = buildAzimuthMap(sweep.azimuths);
+    const kOfRadial = new Int32Array(sweep.radials.length).fill(-1);
+    field.radialIndex.forEach((ri, k) => { kOfRadial[ri] = k; });
+    lookup = (bin, rangeKm) => {
+      const ri = azMap[bin];
+      const k = ri >= 0 ? kOfRadial[ri] : -1;
+      if (k < 0) return null;
+      const g = Math.floor((rangeKm - field.firstGate) / field.gateSize);
+      if (g < 0 || g >= field.maxGate) return null;
+      const v = field.shear[k * field.maxGate + g];
+      // Cyclonic shear only — anticyclonic values aren't rotation tracks
+      return v > 0 ? v : null;
+    };
+  } else {
+    const radials = radar.getHighresReflectivity?.();
+    if (!Array.isArray(radials) || !radials.some((r: any) => r?.moment_data)) return null;
+    const azMap = buildAzimuthMap(radar.getAzimuth());
+    lookup = (bin, rangeKm) => {
+      const ri = azMap[bin];
+      const r = ri >= 0 ? radials[ri] : null;
+      if (!r?.moment_data) return null;
+      const g = Math.floor((rangeKm - r.first_gate) / r.gate_size);
+      if (g < 0 || g >= r.gate_count) return null;
+      const v = r.moment_data[g];
+      return v === null || v === undefined ? null : v;
+    };
+  }
+
+  const { west, north, east, south, width, height } = spec;
+  const values = new Float32Array(width * height).fill(NaN);
+  const dLon = (east - west) / width;
+  const mercN = latToMercY(north);
+  const dMerc = (mercN - latToMercY(south)) / height;
+  const kmPerDegLon = KM_PER_DEG_LAT * Math.cos((trueCoords.lat * Math.PI) / 180);
+
+  for (let y = 0; y < height; y++) {
+    const lat = mercYToLat(mercN - (y + 0.5) * dMerc);
+    const dy = (lat - trueCoords.lat) * KM_PER_DEG_LAT;
+    if (Math.abs(dy) > SWATH_RANGE_KM) continue;
+    for (let x = 0; x < width; x++) {
+      const dx = (west + (x + 0.5) * dLon - trueCoords.lon) * kmPerDegLon;
+      const rangeKm = Math.hypot(dx, dy);
+      if (rangeKm > SWATH_RANGE_KM) continue;
+      const az = ((Math.atan2(dx, dy) * 180) / Math.PI + 360) % 360;
+      const v = lookup(azimuthBin(az), rangeKm);
+      if (v !== null) values[y * width + x] = v;
+    }
+  }
+
+  return values;
+}
+
+// ── Main-thread accumulation ────────────────────────────────────────
+
+/** Fold one sampled scan into the running swath (cell-wise max, NaN = no data). */
+export function mergeSwathMax(target: Float32Array, values: Float32Array): void {
+  for (let i = 0; i < target.length; i++) {
+    const v = values[i];
+    if (v !== v) continue; // NaN
+    const t = target[i];
+    if (t !== t || v > t) target[i] = v;
+  }
+}
+
+/** Colorize a swath grid into RGBA pixels (row-major, same layout as the grid). */
+export function colorizeSwath(values: Float32Array, colorTable: ColorStop[]): Uint8ClampedArray<ArrayBuffer> {
+  const pixels = new Uint8ClampedArray(values.length * 4);
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i];
+    if (v !== v) continue;
+    const rgba = valueToRGBA(v, colorTable);
+    if (!rgba) continue;
+    pixels[i * 4] = rgba[0];
+    pixels[i * 4 + 1] = rgba[1];
+    pixels[i * 4 + 2] = rgba[2];
+    pixels[i * 4 + 3] = Math.round(rgba[3] * 255);
+  }
+  return pixels;
+}
+
+/** Image source corners (NW, NE, SE, SW) for a swath grid. */
+export function swathGridCoordinates(
+  spec: SwathGridSpec,
+): [[number, number], [number, number], [number, number], [number, number]] {
+  return [
+    [spec.west, spec.north],
+    [spec.east, spec.north],
+    [spec.east, spec.south],
+    [spec.west, spec.south],
+  ];
+}
+
+function latToMercY(lat: number): number {
+  const rad = (lat * Math.PI) / 180;
+  return Math.log(Math.tan(Math.PI / 4 + rad / 2));
+}
+
+function mercYToLat(y: number): number {
+  return ((2 * Math.atan(Math.exp(y)) - Math.PI / 2) * 180) / Math.PI;
+}
@@ -0,0 +1,181 @@
+/**
+ * Tornado debris signature (TDS) detection.
+ *
+ * A TDS is lofted debris showing up in dual-pol as a compact area of high
+ * reflectivity with very low correlation coefficient and near-zero
+ * differential reflectivity, collocated with a velocity couplet. For each
+ * rotation couplet on the frame, gates within a search radius of the
+ * couplet center are tested against all three criteria; enough hits make a
+ * TDS region.
+ *
+ * Dual-pol moments are read from the tilt at the couplet's elevation that
+ * actually carries CC — in split cuts that's the surveillance scan, one
+ * elevation number below the Doppler scan the couplet was found on.
+ */
+
+import type { ParsedRadarData } from './renderLogic';
+import type { RotationMarker } from './rotationDetection';
+
+export interface TdsRegion {
+  lat: number;
+  lon: number;
+  /** Number of gates meeting all three criteria */
+  gateCount: number;
+  /** Lowest CC among flagged gates */
+  minCC: number;
+  /** Mean ZDR of flagged gates (dB) */
+  meanZdr: number;
+  /** Highest REF among flagged gates (dBZ) */
+  maxRef: number;
+  /** Tilt the dual-pol data came from (degrees) */
+  elevationAngle: number;
+  /** Delta-V of the couplet the signature is collocated with (m/s) */
+  coupletDeltaV: number;
+}
+
+/** Debris reflectivity floor (dBZ). */
+const TDS_MIN_REF = 35;
+/** Debris CC ceiling — meteorological targets stay above ~0.9. */
+const TDS_MAX_CC = 0.8;
+/** Debris ZDR is near zero (tumbling, randomly oriented scatterers). */
+const TDS_MAX_ABS_ZDR = 1;
+/** Search radius beyond the couplet's own radius (km). */
+const SEARCH_MARGIN_KM = 2;
+/** Minimum flagged gates for a region (rejects isolated low-CC speckle). */
+const MIN_TDS_GATES = 3;
+/** Tilts within this angle count as the same elevation (degrees). */
+const SAME_TILT_DEG = 0.2;
+const KM_PER_DEG_LAT = 111.32;
+
+/** Regions per couplet list — getRotationMarkers hands out one list per scan, tilt and thresholds */
+const tdsCache = new WeakMap<RotationMarker[], TdsRegion[]>();
+
+/**
+ * Get (or detect and cache) the TDS regions for a cached couplet list.
+ * Leaves the radar's selected elevation changed — callers must re-select.
+ */
+export function getTdsRegions(parsed: ParsedRadarData, couplets: RotationMarker[]): TdsRegion[] {
+  const cached = tdsCache.get(couplets);
+  if (cached) return cached;
+  const regions = detectTds(parsed, couplets);
+  tdsCache.set(couplets, regions);
+  return regions;
+}
+
+/**
+ * Find TDS regions collocated with the given couplets.
+ * Leaves the radar's selected elevation changed — callers must re-select.
+ */
+export function detectTds(parsed: ParsedRadarData, couplets: RotationMarker[]): TdsRegion[] {
+  if (couplets.length === 0) return [];
+  const { radar, trueCoords } = parsed;
+  const regions: TdsRegion[] = [];
+  const kmPerDegLon = KM_PER_DEG_LAT * Math.cos((trueCoords.lat * Math.PI) / 180);
+
+  for (const couplet of couplets) {
+    const moments = selectDualPolTilt(radar, couplet.elevationAngle);
+    if (!moments) continue;
+    const { ref, cc, zdr, azimuths, elevationAngle } = moments;
+
+    const searchKm = couplet.diameterKm / 2 + SEARCH_MARGIN_KM;
+    const cx = couplet.rangeKm * Math.sin((couplet.azimuth * Math.PI) / 180);
+    const cy = couplet.rangeKm * Math.cos((couplet.azimuth * Math.PI) / 180);
+    const halfAz = (Math.asin(Math.min(1, searchKm / Math.max(couplet.rangeKm, searchKm))) * 180) / Math.PI;
+
+    let count = 0;
+    let minCC = Infinity;
+    let maxRef = -Infinity;
+    let zdrSum = 0;
+    let sx = 0;
+    let sy = 0;
+
+    for (let i = 0; i < azimuths.length; i++) {
+      let dAz = azimuths[i] - couplet.azimuth;
+      if (dAz > 180) dAz -= 360;
+      else if (dAz < -180) dAz += 360;
+      if (Math.abs(dAz) > halfAz) continue;
+
+      const refR = ref[i];
+      const ccR = cc[i];
+      const zdrR = zdr[i];
+      if (!refR?.moment_data || !ccR?.moment_data || !zdrR?.moment_data) continue;
+
+      const a = (azimuths[i] * Math.PI) / 180;
+      const rMin = couplet.rangeKm - searchKm;
+      const rMax = couplet.rangeKm + searchKm;
+      const g0 = Math.max(0, Math.floor((rMin - ccR.first_gate) / ccR.gate_size));
+      const g1 = Math.min(ccR.gate_count - 1, Math.ceil((rMax - ccR.first_gate) / ccR.gate_size));
+
+      for (let g = g0; g <= g1; g++) {
+        const r = ccR.first_gate + (g + 0.5) * ccR.gate_size;
+        const x = r * Math.sin(a);
+        const y = r * Math.cos(a);
+        if (Math.hypot(x - cx, y - cy) > searchKm) continue;
+
+        const c = ccR.moment_data[g];
+        const z = gateAt(zdrR, r);
+        const dbz = gateAt(refR, r);
+        if (c == null || z == null || dbz == null) continue;
+        if (c > TDS_MAX_CC || Math.abs(z) > TDS_MAX_ABS_ZDR || dbz < TDS_MIN_REF) continue;
+
+        count++;
+        if (c < minCC) minCC = c;
+        if (dbz > maxRef) maxRef = dbz;
+        zdrSum += z;
+        sx += x;
+        sy += y;
+      }
+    }
+
+    if (count < MIN_TDS_GATES) continue;
+    regions.push({
+      lat: trueCoords.lat + sy / count / KM_PER_DEG_LAT,
+      lon: trueCoords.lon + sx / count / kmPerDegLon,
+      gateCount: count,
+      minCC,
+      meanZdr: zdrSum / count,
+      maxRef,
+      elevationAngle,
+      coupletDeltaV: couplet.deltaV,
+    });
+  }
+
+  return regions;
+}
+
+/** Read the gate at `rangeKm` on a radial (REF/ZDR gates can differ from CC's). */
+function gateAt(radial: any, rangeKm: number): number | null {
+  const gi = Math.floor((rangeKm - radial.first_gate) / radial.gate_size);
+  if (gi < 0 || gi >= radial.gate_count) return null;
+  const v = radial.moment_data[gi];
+  return v === null || v === undefined ? null : v;
+}
+
+/**
+ * Select the elevation at `angle` that carries REF, CC and ZDR, starting
+ * from the currently selected one. Returns null when none does.
+ */
+function selectDualPolTilt(radar: any, angle: number): {
+  ref: any[];
+  cc: any[];
+  zdr: any[];
+  azimuths: number[];
+  elevationAngle: number;
+} | null {
+  const current: number = radar.elevation;
+  for (const elev of [current, current - 1, current + 1]) {
+    const tiltAngle = radar.data?.[elev]?.[0]?.record?.elevation_angle;
+    if (typeof tiltAngle !== 'number' || Math.abs(tiltAngle - angle) > SAME_TILT_DEG) continue;
+    try {
+      radar.setElevation(elev);
+      const cc = radar.getHighresCorrelationCoefficient?.();
+      const zdr = radar.getHighresDiffReflectivity?.();
+      const ref = radar.getHighresReflectivity?.();
+      const has = (d: any) => Array.isArray(d) && d.some((r: any) => r?.moment_data);
+      if (has(cc) && has(zdr) && has(ref)) {
+        return { ref, cc, zdr, azimuths: radar.getAzimuth(), elevationAngle: tiltAngle };
+      }
+    } catch { /* no such moment at this elevation */ }
+  }
+  return null;
+}
@@ -1,3 +1,8 @@
+import type { RotationMarker } from './rotationDetection';
+import type { TdsRegion } from './tdsDetection';
+import type { HailSummary } from './hailProducts';
+import type { PolarImage } from './polarImage';
+
 export interface ScanFile {
   key: string;
   timestamp: number;
@@ -14,6 +19,20 @@ export interface ScanFile {
   siteLon?: number;
 }
 
+/**
+ * Where Level 2 volumes are listed and downloaded from (see s3Client.ts).
+ * Scan keys are opaque to callers — they're only passed back to fetchScan.
+ */
+export interface RadarDataSource {
+  /** Display name */
+  label: string;
+  /** Base URL of the archive */
+  url: string;
+  /** Volume scans for one site and UTC day, sorted by time */
+  listScans(siteId: string, date: Date): Promise<ScanFile[]>;
+  fetchScan(key: string, signal?: AbortSignal): Promise<ArrayBuffer>;
+}
+
 export interface FrameStats {
   vcp: number;
   elevationAngle: number;
@@ -22,11 +41,17 @@ export interface FrameStats {
   gatesAbove60: number;
   maxInboundVel: number | null;
   maxOutboundVel: number | null;
+  /** Cyclonic couplets on the displayed tilt, strongest first */
+  rotation?: RotationMarker[];
+  /** Tornado debris signatures collocated with those couplets */
+  tds?: TdsRegion[];
+  /** Volume hail estimate (MESH / POSH); merged in on the main thread while hail is shown */
+  hail?: HailSummary;
 }
 
 export interface RenderedFrame {
-  /** Pre-computed blob URL for instant MapLibre display (no toBlob at render time) */
-  blobUrl: string;
+  /** Polar moment data, colored on the GPU by the radar layer */
+  image: PolarImage;
   timestamp: number;
   product: string;
   elevation: number;
@@ -34,4 +59,6 @@ export interface RenderedFrame {
   siteLon: number;
   rangeKm: number;
   stats?: FrameStats;
+  /** Synthesized between two scans (see frameInterpolation.ts) */
+  interpolated?: boolean;
 }
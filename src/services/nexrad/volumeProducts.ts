@@ -0,0 +1,302 @@
+/**
+ * Volume-derived products: composite reflectivity, echo tops and VIL.
+ *
+ * Unlike the base moments, these need every elevation of a volume. Each
+ * sweep's reflectivity is resampled onto a common polar ground-range grid
+ * (0.5° × 1 km) using 4/3-earth beam geometry, giving a vertical column of
+ * (height, dBZ) samples per grid cell. The column is then reduced to:
+ *
+ *   CREF — max dBZ in the column
+ *   ET18 — highest height (kft) reaching 18 dBZ, interpolated between tilts
+ *   ET30 — same at 30 dBZ
+ *   VIL  — vertically integrated liquid (kg/m²), Greene & Clark (1972)
+ *
+ * Output radials have the parser's shape (gate_count, first_gate, gate_size,
+ * moment_data) so renderFromParsed draws them with the normal polar renderers.
+ * All four products come from one gridding pass and are cached per parsed
+ * volume, so switching between them doesn't recompute anything.
+ *
+ * The hail products (SHI, POSH, MESH) reduce the same columns but also
+ * depend on the environmental freezing levels — see hailProducts.ts.
+ */
+
+import type { ParsedRadarData } from './renderLogic';
+import { slantRangeForGroundKm, beamHeightAtGroundKm } from './beamGeometry';
+
+/** Severe hail index, probability of severe hail, max expected hail size */
+export type HailProduct = 'SHI' | 'POSH' | 'MESH';
+
+export type VolumeProduct = 'CREF' | 'ET18' | 'ET30' | 'VIL' | HailProduct;
+
+export const VOLUME_PRODUCTS: readonly VolumeProduct[] = ['CREF', 'ET18', 'ET30', 'VIL', 'SHI', 'POSH', 'MESH'];
+
+export const HAIL_PRODUCTS: readonly HailProduct[] = ['SHI', 'POSH', 'MESH'];
+
+export function isVolumeProduct(product: string): product is VolumeProduct {
+  return (VOLUME_PRODUCTS as readonly string[]).includes(product);
+}
+
+export function isHailProduct(product: string): product is HailProduct {
+  return (HAIL_PRODUCTS as readonly string[]).includes(product);
+}
+
+export interface VolumeProductGrid {
+  /** Azimuth (degrees) of each grid radial */
+  azimuths: number[];
+  /** Maximum ground range covered (km) */
+  rangeKm: number;
+  CREF: any[];
+  ET18: any[];
+  ET30: any[];
+  VIL: any[];
+}
+
+/** Grid azimuth resolution (degrees) — matches super-res radials. */
+const AZ_STEP_DEG = 0.5;
+const AZ_BINS = 360 / AZ_STEP_DEG;
+/** Grid ground-range resolution (km). */
+export const GATE_KM = 1;
+/** Empty grid azimuth bins are filled from the nearest radial within this many bins. */
+const AZ_FILL_BINS = 2;
+const KM_TO_KFT = 3.28084;
+/** NWS caps reflectivity at 56 dBZ in VIL so hail cores don't dominate. */
+const VIL_MAX_DBZ = 56;
+
+export interface GriddedSweep {
+  angle: number;
+  radials: any[];
+  /** Grid azimuth bin → radial index (-1 = no data) */
+  azMap: Int32Array;
+  /** Grid range bin → gate index in this sweep (-1 = outside sweep) */
+  gateIdx: Int32Array;
+  /** Grid range bin → beam height (km) */
+  heightKm: Float32Array;
+}
+
+export interface VolumeColumns {
+  /** Reflectivity sweeps resampled onto the grid, ascending by angle */
+  sweeps: GriddedSweep[];
+  /** Azimuth (degrees) of each grid radial */
+  azimuths: number[];
+  /** Ground-range bins per grid radial */
+  nRange: number;
+  /** Maximum ground range covered (km) */
+  rangeKm: number;
+}
+
+const columnsCache = new WeakMap<ParsedRadarData, VolumeColumns | null>();
+const gridCache = new WeakMap<ParsedRadarData, VolumeProductGrid | null>();
+
+/**
+ * Get (or compute and cache) the volume products for a parsed scan.
+ * Leaves the radar's selected elevation changed — callers must re-select.
+ */
+export function getVolumeProducts(parsed: ParsedRadarData): VolumeProductGrid | null {
+  if (gridCache.has(parsed)) return gridCache.get(parsed)!;
+  let grid: VolumeProductGrid | null = null;
+  try {
+    const columns = getVolumeColumns(parsed);
+    grid = columns ? computeVolumeProducts(columns) : null;
+  } catch (err) {
+    console.warn('[volumeProducts] gridding failed:', err);
+  }
+  gridCache.set(parsed, grid);
+  return grid;
+}
+
+/**
+ * Get (or compute and cache) the per-sweep gridding of a parsed scan — the
+ * column layout every volume-derived product (including hail) reduces.
+ * Leaves the radar's selected elevation changed — callers must re-select.
+ */
+export function getVolumeColumns(parsed: ParsedRadarData): VolumeColumns | null {
+  if (columnsCache.has(parsed)) return columnsCache.get(parsed)!;
+  let columns: VolumeColumns | null = null;
+  try {
+    columns = gridSweeps(parsed);
+  } catch (err) {
+    console.warn('[volumeProducts] sweep gridding failed:', err);
+  }
+  columnsCache.set(parsed, columns);
+  return columns;
+}
+
+function gridSweeps(parsed: ParsedRadarData): VolumeColumns | null {
+  const { radar, elevations, elevationNumbers } = parsed;
+
+  // Collect one reflectivity sweep per unique angle (SAILS duplicates are
+  // already removed from elevationNumbers), ascending by angle.
+  const raw: { angle: number; radials: any[]; azimuths: number[] }[] = [];
+  for (let i = 0; i < elevationNumbers.length; i++) {
+    try {
+      radar.setElevation(elevationNumbers[i]);
+      const radials = radar.getHighresReflectivity?.();
+      const azimuths = radar.getAzimuth();
+      if (!Array.isArray(radials) || radials.every((r: any) => r == null)) continue;
+      raw.push({ angle: elevations[i], radials, azimuths });
+    } catch {
+      // Doppler-only cut without reflectivity — skip
+    }
+  }
+  if (raw.length === 0) return null;
+  raw.sort((a, b) => a.angle - b.angle);
+
+  // Grid out to the lowest sweep's maximum range
+  const r0 = raw[0].radials.find((r: any) => r != null);
+  const rangeKm = Math.floor(r0.first_gate + r0.gate_count * r0.gate_size);
+  const nRange = Math.ceil(rangeKm / GATE_KM);
+
+  const sweeps: GriddedSweep[] = raw.map(({ angle, radials, azimuths }) => {
+    const ref = radials.find((r: any) => r != null);
+    const gateIdx = new Int32Array(nRange);
+    const heightKm = new Float32Array(nRange);
+    for (let g = 0; g < nRange; g++) {
+      const groundKm = (g + 0.5) * GATE_KM;
+      const slant = slantRangeForGroundKm(groundKm, angle);
+      const idx = Math.floor((slant - ref.first_gate) / ref.gate_size);
+      gateIdx[g] = slant > 0 && idx >= 0 && idx < ref.gate_count ? idx : -1;
+      heightKm[g] = beamHeightAtGroundKm(groundKm, angle);
+    }
+    return { angle, radials, azMap: buildAzimuthMap(azimuths), gateIdx, heightKm };
+  });
+
+  const azimuths: number[] = new Array(AZ_BINS);
+  for (let a = 0; a < AZ_BINS; a++) azimuths[a] = (a + 0.5) * AZ_STEP_DEG;
+
+  return { sweeps, azimuths, nRange, rangeKm };
+}
+
+/**
+ * Gather the valid (height km, dBZ) samples of one grid column into
+ * colH/colV, lowest tilt first. Returns the sample count.
+ */
+export function readColumn(
+  columns: VolumeColumns,
+  a: number,
+  g: number,
+  colH: Float64Array,
+  colV: Float64Array,
+): number {
+  let n = 0;
+  for (const sweep of columns.sweeps) {
+    const ri = sweep.azMap[a];
+    const gi = sweep.gateIdx[g];
+    if (ri < 0 || gi < 0) continue;
+    const v = sweep.radials[ri]?.moment_data?.[gi];
+    if (v === null || v === undefined) continue;
+    colH[n] = sweep.heightKm[g];
+    colV[n] = v;
+    n++;
+  }
+  return n;
+}
+
+function computeVolumeProducts(columns: VolumeColumns): VolumeProductGrid {
+  const { azimuths, nRange, rangeKm } = columns;
+  const nAz = azimuths.length;
+
+  const CREF: any[] = new Array(nAz);
+  const ET18: any[] = new Array(nAz);
+  const ET30: any[] = new Array(nAz);
+  const VIL: any[] = new Array(nAz);
+
+  const colH = new Float64Array(columns.sweeps.length);
+  const colV = new Float64Array(columns.sweeps.length);
+
+  for (let a = 0; a < nAz; a++) {
+    const cref: (number | null)[] = new Array(nRange).fill(null);
+    const et18: (number | null)[] = new Array(nRange).fill(null);
+    const et30: (number | null)[] = new Array(nRange).fill(null);
+    const vil: (number | null)[] = new Array(nRange).fill(null);
+
+    for (let g = 0; g < nRange; g++) {
+      const n = readColumn(columns, a, g, colH, colV);
+      if (n === 0) continue;
+
+      let max = colV[0];
+      for (let k = 1; k < n; k++) if (colV[k] > max) max = colV[k];
+      cref[g] = max;
+
+      const top18 = echoTop(colH, colV, n, 18);
+      if (top18 !== null) et18[g] = top18 * KM_TO_KFT;
+      const top30 = echoTop(colH, colV, n, 30);
+      if (top30 !== null) et30[g] = top30 * KM_TO_KFT;
+
+      const liquid = integrateVil(colH, colV, n);
+      if (liquid > 0) vil[g] = liquid;
+    }
+
+    CREF[a] = gridRadial(nRange, cref);
+    ET18[a] = gridRadial(nRange, et18);
+    ET30[a] = gridRadial(nRange, et30);
+    VIL[a] = gridRadial(nRange, vil);
+  }
+
+  return { azimuths, rangeKm, CREF, ET18, ET30, VIL };
+}
+
+/** Wrap one grid radial in the parser's radial shape. */
+export function gridRadial(nRange: number, data: (number | null)[]) {
+  return { gate_count: nRange, first_gate: 0, gate_size: GATE_KM, moment_data: data };
+}
+
+/** 0.5° grid bin index for an azimuth in degrees. */
+export function azimuthBin(az: number): number {
+  return Math.floor((((az % 360) + 360) % 360) / AZ_STEP_DEG) % AZ_BINS;
+}
+
+/**
+ * Map each 0.5° grid bin to the nearest radial, filling small gaps so
+ * legacy 1° sweeps cover every bin.
+ */
+export function buildAzimuthMap(azimuths: number[]): Int32Array {
+  const map = new Int32Array(AZ_BINS).fill(-1);
+  for (let r = 0; r < azimuths.length; r++) {
+    const az = azimuths[r];
+    if (az == null) continue;
+    map[azimuthBin(az)] = r;
+  }
+  const filled = map.slice();
+  for (let b = 0; b < AZ_BINS; b++) {
+    if (map[b] >= 0) continue;
+    for (let d = 1; d <= AZ_FILL_BINS; d++) {
+      const lo = map[(b - d + AZ_BINS) % AZ_BINS];
+      if (lo >= 0) { filled[b] = lo; break; }
+      const hi = map[(b + d) % AZ_BINS];
+      if (hi >= 0) { filled[b] = hi; break; }
+    }
+  }
+  return filled;
+}
+
+/**
+ * Highest height (km) where the column reaches `threshold` dBZ. When the
+ * tilt above the top exceedance is below threshold, the top is linearly
+ * interpolated between the two tilts (as in the NWS enhanced echo tops).
+ */
+function echoTop(h: Float64Array, v: Float64Array, n: number, threshold: number): number | null {
+  for (let k = n - 1; k >= 0; k--) {
+    if (v[k] < threshold) continue;
+    if (k + 1 < n && v[k + 1] < v[k]) {
+      const frac = (v[k] - threshold) / (v[k] - v[k + 1]);
+      return h[k] + frac * (h[k + 1] - h[k]);
+    }
+    return h[k];
+  }
+  return null;
+}
+
+/**
+ * VIL = Σ 3.44e-6 · ((Zᵢ + Zᵢ₊₁)/2)^(4/7) · Δh, with Z in mm⁶/m³ and Δh in m.
+ */
+function integrateVil(h: Float64Array, v: Float64Array, n: number): number {
+  let total = 0;
+  for (let k = 0; k + 1 < n; k++) {
+    const dh = (h[k + 1] - h[k]) * 1000;
+    if (dh <= 0) continue;
+    const z1 = Math.pow(10, Math.min(v[k], VIL_MAX_DBZ) / 10);
+    const z2 = Math.pow(10, Math.min(v[k + 1], VIL_MAX_DBZ) / 10);
+    total += 3.44e-6 * Math.pow((z1 + z2) / 2, 4 / 7) * dh;
+  }
+  return total;
+}
@@ -3,24 +3,39 @@
  *
  * Manages N workers, dispatching decode-render requests with a promise-based API.
  * Uses a FIFO queue when all workers are busy. Supports cancellation of all
- * pending work (e.g. when user scrubs to a new position).
+ * pending work (e.g. when user scrubs to a new position). Tracks the average
+ * decode time (from dispatch to reply, excluding queue wait) so the prefetch
+ * manager can size its window.
  */
 
 import type { WorkerRequest, WorkerResponse } from './radar.worker';
-import type { ColorStop } from './colorTables';
+import type { RadarProduct, ProcessingOptions } from './renderLogic';
+import type { LatLon } from './crossSection';
+import type { SwathKind, SwathGridSpec } from './swath';
+import type { PolarImage } from './polarImage';
+import type { MosaicInput, MosaicMethod } from './mosaic';
 
 interface PendingRequest {
   request: WorkerRequest;
   resolve: (response: WorkerResponse['payload']) => void;
   reject: (error: Error) => void;
+  /** Only this worker may run the request (waits for it when busy) */
+  slot?: WorkerSlot;
 }
 
 interface WorkerSlot {
   worker: Worker;
   busy: boolean;
   currentRequestId: number | null;
+  /** performance.now() when the current request was posted */
+  dispatchedAt: number;
 }
 
+/** Weight of each new sample in the decode-time moving average */
+const RENDER_EWMA_ALPHA = 0.3;
+/** Scans remembered per worker for gate-query routing (worker cache holds 3) */
+const SCAN_OWNER_LIMIT = 16;
+
 export class RadarWorkerPool {
   private slots: WorkerSlot[] = [];
   private queue: PendingRequest[] = [];
@@ -28,6 +43,9 @@ export class RadarWorkerPool {
   private nextId = 1;
   private ready = false;
   private readyPromise: Promise<void>;
+  private renderMsAvg: number | null = null;
+  /** Worker that last parsed each scan key, oldest first */
+  private scanOwners = new Map<string, WorkerSlot>();
 
   constructor(poolSize = 2) {
     let resolveReady: () => void;
@@ -41,7 +59,7 @@ export class RadarWorkerPool {
         { type: 'module' },
       );
 
-      const slot: WorkerSlot = { worker, busy: false, currentRequestId: null };
+      const slot: WorkerSlot = { worker, busy: false, currentRequestId: null, dispatchedAt: 0 };
       this.slots.push(slot);
 
       worker.onmessage = (e: MessageEvent) => {
@@ -64,6 +82,9 @@ export class RadarWorkerPool {
         if (slot.currentRequestId === response.id) {
           slot.busy = false;
           slot.currentRequestId = null;
+          if (pending?.request.type === 'decode-render' && response.type !== 'error') {
+            this.recordRenderTime(performance.now() - slot.dispatchedAt);
+          }
         }
 
         if (pending) {
@@ -116,20 +137,20 @@ export class RadarWorkerPool {
   }
 
   /**
-   * Submit a decode+render request. Returns a promise that resolves with the result.
+   * Submit a decode request (returns the frame as polar data). Returns a promise that resolves with the result.
+   * A scan with no data for the product at that tilt resolves without an
+   * `image` (a 'no-data' reply); only parse/decode failures reject.
    * The scanBuffer is TRANSFERRED (zero-copy), so it becomes unusable in the caller.
    */
   async process(params: {
     scanBuffer: ArrayBuffer;
     scanKey?: string;
-    product: 'REF' | 'VEL';
+    product: RadarProduct;
     elevationNumber: number;
     siteLat: number;
     siteLon: number;
-    canvasSize?: number;
-    colorTable?: ColorStop[];
-    smoothing?: 'none' | 'low' | 'high';
     sweepIndex?: number;
+    processing?: ProcessingOptions;
   }): Promise<WorkerResponse['payload']> {
     await this.readyPromise;
 
@@ -190,6 +211,250 @@ export class RadarWorkerPool {
     });
   }
 
+  /**
+   * Sample a vertical cross-section along a line through the whole volume.
+   * Reuses the worker's parsed-radar cache when the scan was already decoded.
+   */
+  async crossSection(params: {
+    scanBuffer: ArrayBuffer;
+    scanKey?: string;
+    product: RadarProduct;
+    siteLat: number;
+    siteLon: number;
+    start: LatLon;
+    end: LatLon;
+    processing?: ProcessingOptions;
+  }): Promise<WorkerResponse['payload']> {
+    await this.readyPromise;
+
+    const { start, end, ...rest } = params;
+    const id = this.nextId++;
+    const request: WorkerRequest = {
+      id,
+      type: 'cross-section',
+      payload: {
+        ...rest,
+        elevationNumber: 1, // Unused — every tilt is sampled
+        crossSection: { start, end },
+      },
+    };
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingRequest = { request, resolve, reject };
+      this.callbacks.set(id, pending);
+
+      const freeSlot = this.slots.find((s) => !s.busy);
+      if (freeSlot) {
+        this.dispatch(freeSlot, pending);
+      } else {
+        this.queue.push(pending);
+      }
+    });
+  }
+
+  /**
+   * Read the gate under a map point on the displayed tilt/sweep.
+   *
+   * Runs on the worker that last parsed the scan, so it normally hits that
+   * worker's parsed-radar cache. Pass an empty scanBuffer to query the cache
+   * only: on a miss the reply has `scanMissing` set and the caller retries
+   * with the scan bytes.
+   */
+  async queryGate(params: {
+    scanBuffer: ArrayBuffer;
+    scanKey: string;
+    product: RadarProduct;
+    elevationNumber: number;
+    siteLat: number;
+    siteLon: number;
+    point: LatLon;
+    sweepIndex?: number;
+    processing?: ProcessingOptions;
+  }): Promise<WorkerResponse['payload']> {
+    await this.readyPromise;
+
+    const id = this.nextId++;
+    const request: WorkerRequest = {
+      id,
+      type: 'gate-query',
+      payload: params,
+    };
+    const owner = this.scanOwners.get(params.scanKey);
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingRequest = { request, resolve, reject, slot: owner };
+      this.callbacks.set(id, pending);
+
+      const freeSlot = owner
+        ? (owner.busy ? undefined : owner)
+        : this.slots.find((s) => !s.busy);
+      if (freeSlot) {
+        this.dispatch(freeSlot, pending);
+      } else {
+        this.queue.push(pending);
+      }
+    });
+  }
+
+  /**
+   * Grid a scan's volume hail products and return only the maxima and hail
+   * cells. Like queryGate, runs on the worker that last parsed the scan.
+   */
+  async hailSummary(params: {
+    scanBuffer: ArrayBuffer;
+    scanKey: string;
+    siteLat: number;
+    siteLon: number;
+    processing: ProcessingOptions;
+  }): Promise<WorkerResponse['payload']> {
+    await this.readyPromise;
+
+    const id = this.nextId++;
+    const request: WorkerRequest = {
+      id,
+      type: 'hail-summary',
+      payload: {
+        ...params,
+        product: 'REF', // Dummy — the whole volume is gridded
+        elevationNumber: 1,
+      },
+    };
+    const owner = this.scanOwners.get(params.scanKey);
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingRequest = { request, resolve, reject, slot: owner };
+      this.callbacks.set(id, pending);
+
+      const freeSlot = owner
+        ? (owner.busy ? undefined : owner)
+        : this.slots.find((s) => !s.busy);
+      if (freeSlot) {
+        this.dispatch(freeSlot, pending);
+      } else {
+        this.queue.push(pending);
+      }
+    });
+  }
+
+  /**
+   * Sample one scan's swath field (max shear or REF) onto a shared grid.
+   * The returned swathValues buffer is transferred from the worker.
+   */
+  async sampleSwath(params: {
+    scanBuffer: ArrayBuffer;
+    scanKey?: string;
+    elevationNumber: number;
+    siteLat: number;
+    siteLon: number;
+    kind: SwathKind;
+    grid: SwathGridSpec;
+    sweepIndex?: number;
+    processing?: ProcessingOptions;
+  }): Promise<WorkerResponse['payload']> {
+    await this.readyPromise;
+
+    const { kind, grid, ...rest } = params;
+    const id = this.nextId++;
+    const request: WorkerRequest = {
+      id,
+      type: 'swath',
+      payload: {
+        ...rest,
+        product: kind === 'ref' ? 'REF' : 'VEL',
+        swath: { kind, grid },
+      },
+    };
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingRequest = { request, resolve, reject };
+      this.callbacks.set(id, pending);
+
+      const freeSlot = this.slots.find((s) => !s.busy);
+      if (freeSlot) {
+        this.dispatch(freeSlot, pending);
+      } else {
+        this.queue.push(pending);
+      }
+    });
+  }
+
+  /**
+   * Synthesize `count` in-between frames for a cached frame pair.
+   * The source images are copied to the worker (they stay in the frame cache);
+   * the returned images' buffers are transferred back.
+   */
+  async interpolateFrames(params: {
+    from: PolarImage;
+    to: PolarImage;
+    count: number;
+  }): Promise<WorkerResponse['payload']> {
+    await this.readyPromise;
+
+    const id = this.nextId++;
+    const request: WorkerRequest = {
+      id,
+      type: 'interpolate',
+      payload: {
+        scanBuffer: new ArrayBuffer(0), // Dummy — frames are already decoded
+        product: 'REF',
+        elevationNumber: 1,
+        siteLat: 0,
+        siteLon: 0,
+        interpolate: params,
+      },
+    };
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingRequest = { request, resolve, reject };
+      this.callbacks.set(id, pending);
+
+      const freeSlot = this.slots.find((s) => !s.busy);
+      if (freeSlot) {
+        this.dispatch(freeSlot, pending);
+      } else {
+        this.queue.push(pending);
+      }
+    });
+  }
+
+  /**
+   * Merge several sites' frames onto one grid. Like interpolateFrames, the
+   * frames are copied (they stay in the frame cache); the grid is transferred back.
+   */
+  async composeMosaic(params: {
+    frames: MosaicInput[];
+    method: MosaicMethod;
+    grid: SwathGridSpec;
+  }): Promise<WorkerResponse['payload']> {
+    await this.readyPromise;
+
+    const id = this.nextId++;
+    const request: WorkerRequest = {
+      id,
+      type: 'mosaic',
+      payload: {
+        scanBuffer: new ArrayBuffer(0), // Dummy — frames are already decoded
+        product: 'REF',
+        elevationNumber: 1,
+        siteLat: 0,
+        siteLon: 0,
+        mosaic: params,
+      },
+    };
+
+    return new Promise((resolve, reject) => {
+      const pending: PendingRequest = { request, resolve, reject };
+      this.callbacks.set(id, pending);
+
+      const freeSlot = this.slots.find((s) => !s.busy);
+      if (freeSlot) {
+        this.dispatch(freeSlot, pending);
+      } else {
+        this.queue.push(pending);
+      }
+    });
+  }
+
   /**
    * Cancel all pending and queued work.
    * In-flight worker tasks will complete but their results will be discarded.
@@ -240,26 +505,60 @@ export class RadarWorkerPool {
     return this.slots.filter((s) => s.busy).length;
   }
 
+  /**
+   * Number of workers.
+   */
+  get size(): number {
+    return this.slots.length;
+  }
+
+  /**
+   * Moving average of decode-render time per frame (ms), or null before
+   * the first frame.
+   */
+  get averageRenderMs(): number | null {
+    return this.renderMsAvg;
+  }
+
   // ── Private ────────────────────────────────────────────────────────
 
   private dispatch(slot: WorkerSlot, pending: PendingRequest): void {
     slot.busy = true;
     slot.currentRequestId = pending.request.id;
+    slot.dispatchedAt = performance.now();
+
+    // Requests carrying scan bytes leave that scan in this worker's parsed cache
+    const { scanKey, scanBuffer } = pending.request.payload;
+    if (scanKey && scanBuffer.byteLength > 0) {
+      this.scanOwners.delete(scanKey);
+      this.scanOwners.set(scanKey, slot);
+      if (this.scanOwners.size > SCAN_OWNER_LIMIT) {
+        this.scanOwners.delete(this.scanOwners.keys().next().value!);
+      }
+    }
 
     // Transfer the ArrayBuffer (zero-copy to worker)
     const transferables = [pending.request.payload.scanBuffer];
     slot.worker.postMessage(pending.request, transferables);
   }
 
+  private recordRenderTime(ms: number): void {
+    this.renderMsAvg = this.renderMsAvg === null
+      ? ms
+      : this.renderMsAvg + RENDER_EWMA_ALPHA * (ms - this.renderMsAvg);
+  }
+
   private processQueue(): void {
-    while (this.queue.length > 0) {
-      const freeSlot = this.slots.find((s) => !s.busy);
-      if (!freeSlot) break;
+    // Drop requests that were cancelled while queued
+    this.queue = this.queue.filter((p) => this.callbacks.has(p.request.id));
 
-      const next = this.queue.shift()!;
-      // Check if this request was already cancelled
-      if (!this.callbacks.has(next.request.id)) continue;
-      this.dispatch(freeSlot, next);
+    for (const slot of this.slots) {
+      if (slot.busy) continue;
+      // Oldest request this worker may run (pinned requests wait for theirs)
+      const index = this.queue.findIndex((p) => !p.slot || p.slot === slot);
+      if (index < 0) continue;
+      const [next] = this.queue.splice(index, 1);
+      this.dispatch(slot, next);
     }
   }
 }
@@ -277,7 +576,7 @@ export function getWorkerPool(): RadarWorkerPool {
 
 /**
  * Terminate all workers and destroy the pool.
- * Frees all worker-side memory (parsed radar cache, OffscreenCanvas, etc.).
+ * Frees all worker-side memory (parsed radar cache, etc.).
  * A fresh pool is lazily created on the next getWorkerPool() call.
  */
 export function resetWorkerPool(): void {
@@ -0,0 +1,153 @@
+/**
+ * Upper-air sounding service (freezing levels for the hail products).
+ *
+ * Finds the nearest radiosonde sites to the radar and reads the 0 °C and
+ * −20 °C heights from the most recent synoptic sounding (00Z / 12Z) at or
+ * before the event time, via IEM.
+ *
+ * Station discovery: `/geojson/network/RAOB.geojson` (one network for all
+ * upper-air sites) — cached for the session.
+ *
+ * Soundings: `/json/raob.py?ts={YYYYMMDDHHMM}&station={ID}`
+ * → profiles[0].profile = levels with pressure, height (m MSL) and temperature.
+ */
+
+import { haversineDistance } from '../../utils/geo';
+import { getIEMBaseUrl } from '../../utils/baseUrl';
+import type { FreezingLevels } from '../nexrad/hailProducts';
+
+export interface SoundingFreezingLevels extends FreezingLevels {
+  stationId: string;
+  stationName: string;
+  /** Sounding valid time (UTC ms) */
+  validTime: number;
+  /** Distance from the query point (km) */
+  distanceKm: number;
+}
+
+interface RaobStation {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+/** Only use soundings this close to the radar. */
+const MAX_STATION_KM = 500;
+/** Nearest stations tried, in order, before giving up. */
+const MAX_STATIONS_TRIED = 3;
+/** Synoptic launches tried per station, newest first (12 h apart). */
+const MAX_SOUNDINGS_BACK = 2;
+const SYNOPTIC_INTERVAL_MS = 12 * 3600_000;
+
+/** RAOB network station list (session cache) */
+let stationCache: RaobStation[] | null = null;
+
+async function fetchRaobStations(): Promise<RaobStation[]> {
+  if (stationCache) return stationCache;
+  const resp = await fetch(`${getIEMBaseUrl()}/geojson/network/RAOB.geojson`);
+  if (!resp.ok) throw new Error(`RAOB station list failed: ${resp.status}`);
+  const geojson = await resp.json();
+
+  const stations: RaobStation[] = [];
+  for (const feature of geojson.features ?? []) {
+    const props = feature.properties;
+    const coords = feature.geometry?.coordinates;
+    if (!props || !coords) continue;
+    stations.push({
+      id: props.sid ?? props.id ?? '',
+      name: props.sname ?? props.station_name ?? '',
+      lat: coords[1],
+      lon: coords[0],
+    });
+  }
+  stationCache = stations;
+  return stations;
+}
+
+/**
+ * Format a UTC timestamp as YYYYMMDDHHMM for the IEM raob API.
+ */
+function formatTs(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}${pad(d.getUTCHours())}00`;
+}
+
+/**
+ * Height (m MSL) where the temperature first falls through `targetC` going
+ * up — taking the highest such crossing so a low-level inversion doesn't
+ * masquerade as the melting level. Null when the profile never crosses it.
+ */
+function crossingHeight(levels: { hght: number; tmpc: number }[], targetC: number): number | null {
+  let found: number | null = null;
+  for (let i = 1; i < levels.length; i++) {
+    const lo = levels[i - 1];
+    const hi = levels[i];
+    if (lo.tmpc > targetC && hi.tmpc <= targetC) {
+      const t = (lo.tmpc - targetC) / (lo.tmpc - hi.tmpc);
+      found = lo.hght + t * (hi.hght - lo.hght);
+    }
+  }
+  return found;
+}
+
+/**
+ * Fetch one sounding and extract its freezing levels (km MSL).
+ */
+async function fetchSoundingLevels(stationId: string, validTime: number): Promise<FreezingLevels | null> {
+  const url = `${getIEMBaseUrl()}/json/raob.py?ts=${formatTs(validTime)}&station=${encodeURIComponent(stationId)}`;
+  const resp = await fetch(url);
+  if (!resp.ok) return null;
+  const json = await resp.json();
+  const profile = json.profiles?.[0]?.profile;
+  if (!Array.isArray(profile)) return null;
+
+  const levels = profile
+    .filter((l: any) => typeof l?.hght === 'number' && typeof l?.tmpc === 'number')
+    .sort((a: any, b: any) => a.hght - b.hght);
+  const zero = crossingHeight(levels, 0);
+  const minus20 = crossingHeight(levels, -20);
+  if (zero === null || minus20 === null || minus20 <= zero) return null;
+
+  return {
+    zeroCKm: Math.round(zero / 100) / 10,
+    minus20CKm: Math.round(minus20 / 100) / 10,
+  };
+}
+
+/**
+ * Freezing levels from the nearest sounding at or before `timeMs`.
+ * Tries the closest few stations and the last two synoptic launches;
+ * returns null when nothing usable is found.
+ */
+export async function fetchNearestFreezingLevels(
+  lat: number,
+  lon: number,
+  timeMs: number,
+): Promise<SoundingFreezingLevels | null> {
+  const stations = (await fetchRaobStations())
+    .map((s) => ({ station: s, dist: haversineDistance(lat, lon, s.lat, s.lon) }))
+    .filter((s) => s.dist <= MAX_STATION_KM)
+    .sort((a, b) => a.dist - b.dist)
+    .slice(0, MAX_STATIONS_TRIED);
+
+  // Latest 00Z / 12Z launch at or before the event time
+  const latest = Math.floor(timeMs / SYNOPTIC_INTERVAL_MS) * SYNOPTIC_INTERVAL_MS;
+
+  for (let back = 0; back < MAX_SOUNDINGS_BACK; back++) {
+    const validTime = latest - back * SYNOPTIC_INTERVAL_MS;
+    for (const { station, dist } of stations) {
+      try {
+        const levels = await fetchSoundingLevels(station.id, validTime);
+        if (levels) {
+          console.log(`[Sounding] ${station.id} ${formatTs(validTime)}: 0°C ${levels.zeroCKm} km, −20°C ${levels.minus20CKm} km`);
+          return { ...levels, stationId: station.id, stationName: station.name, validTime, distanceKm: dist };
+        }
+      } catch {
+        // Missing / malformed sounding — try the next station
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,55 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { NexradSite, ScanFile } from './radarStore';
+
+/** How the comparison site is shown: its own panel, or a swipe divider over the main map. */
+export type CompareMode = 'panels' | 'swipe';
+
+export interface CompareState {
+  /** Second radar site viewed alongside the main event (null = compare off) */
+  site: NexradSite | null;
+  /** Comparison site's scans over the event's time range (SAILS-expanded, site-tagged) */
+  scans: ScanFile[];
+  mode: CompareMode;
+  /** Swipe divider position as a fraction of map width (main site left, comparison right) */
+  swipePosition: number;
+  loading: boolean;
+  error: string | null;
+
+  setSite: (site: NexradSite | null) => void;
+  setScans: (scans: ScanFile[]) => void;
+  setMode: (mode: CompareMode) => void;
+  setSwipePosition: (position: number) => void;
+  setLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+  /** Leave compare mode */
+  clear: () => void;
+}
+
+export const useCompareStore = create<CompareState>()(
+  persist(
+    (set) => ({
+      site: null,
+      scans: [],
+      mode: 'panels',
+      swipePosition: 0.5,
+      loading: false,
+      error: null,
+
+      setSite: (site) => set({ site }),
+      setScans: (scans) => set({ scans }),
+      setMode: (mode) => set({ mode }),
+      setSwipePosition: (position) => set({ swipePosition: Math.min(1, Math.max(0, position)) }),
+      setLoading: (loading) => set({ loading }),
+      setError: (error) => set({ error }),
+      clear: () => set({ site: null, scans: [], loading: false, error: null }),
+    }),
+    {
+      name: 'storm-replay-compare',
+      // Only persist the display preference — the site belongs to the loaded event
+      partialize: (state) => ({
+        mode: state.mode,
+      }),
+    },
+  ),
+);
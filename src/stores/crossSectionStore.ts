@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export interface CrossSectionPoint {
+  /** Latitude in degrees */
+  lat: number;
+  /** Longitude in degrees */
+  lon: number;
+}
+
+/** Products the cross-section panel can display */
+export type CrossSectionProduct = 'REF' | 'VEL';
+
+export interface CrossSectionState {
+  /** Line start (A) — null until placed */
+  start: CrossSectionPoint | null;
+  /** Line end (B) — null until placed */
+  end: CrossSectionPoint | null;
+  /** Whether the user is placing line endpoints on the map */
+  drawingMode: boolean;
+  /** Whether the cross-section panel is visible */
+  showPanel: boolean;
+  /** Product sampled for the cross-section */
+  product: CrossSectionProduct;
+
+  startDrawing: () => void;
+  /** Place the next endpoint; finishes drawing after the second click */
+  addPoint: (pt: CrossSectionPoint) => void;
+  cancelDrawing: () => void;
+  clearLine: () => void;
+  setShowPanel: (show: boolean) => void;
+  setProduct: (product: CrossSectionProduct) => void;
+}
+
+export const useCrossSectionStore = create<CrossSectionState>()(
+  persist(
+    (set) => ({
+      start: null,
+      end: null,
+      drawingMode: false,
+      showPanel: false,
+      product: 'REF',
+
+      startDrawing: () =>
+        set({ drawingMode: true, start: null, end: null }),
+
+      addPoint: (pt) =>
+        set((state) => {
+          if (!state.drawingMode) return {};
+          if (!state.start) return { start: pt };
+          return { end: pt, drawingMode: false, showPanel: true };
+        }),
+
+      cancelDrawing: () =>
+        set((state) => ({
+          drawingMode: false,
+          // Discard a half-placed line
+          start: state.end ? state.start : null,
+        })),
+
+      clearLine: () =>
+        set({ start: null, end: null, drawingMode: false, showPanel: false }),
+
+      setShowPanel: (show) => set({ showPanel: show }),
+      setProduct: (product) => set({ product }),
+    }),
+    {
+      name: 'storm-replay-cross-section',
+      // Persist the line and product so the section survives page reloads
+      partialize: (state) => ({
+        start: state.start,
+        end: state.end,
+        product: state.product,
+      }),
+    },
+  ),
+);
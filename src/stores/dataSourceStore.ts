@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/**
+ * Which Level 2 archive scans are listed and downloaded from. The presets
+ * are the two public buckets; 'custom' is any S3-compatible endpoint with
+ * the same YYYY/MM/DD/SITE/ key layout (in-house mirror, local stand-in).
+ */
+export type ArchiveId = 'unidata' | 'noaa' | 'custom';
+
+export interface DataSourceState {
+  archive: ArchiveId;
+  /** Base URL used when archive is 'custom' */
+  customUrl: string;
+
+  setArchive: (archive: ArchiveId) => void;
+  setCustomUrl: (url: string) => void;
+}
+
+export const useDataSourceStore = create<DataSourceState>()(
+  persist(
+    (set) => ({
+      archive: 'unidata',
+      customUrl: '',
+
+      setArchive: (archive) => set({ archive }),
+      setCustomUrl: (url) => set({ customUrl: url.trim().replace(/\/+$/, '') }),
+    }),
+    {
+      name: 'storm-replay-data-source',
+      partialize: (state) => ({
+        archive: state.archive,
+        customUrl: state.customUrl,
+      }),
+    },
+  ),
+);
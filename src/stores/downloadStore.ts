@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+/**
+ * Download-all status of one frame:
+ * - queued: waiting (or not reached yet)
+ * - downloading: fetching or decoding, including retries
+ * - decoded: in the frame cache
+ * - missing: downloaded, but the scan has no data for the product / tilt
+ * - failed: gave up after retries
+ */
+export type FrameDownloadState = 'queued' | 'downloading' | 'decoded' | 'missing' | 'failed';
+
+export interface DownloadState {
+  /** Per-frame status of the latest download-all, by frame index (empty = none) */
+  frameStates: FrameDownloadState[];
+  /** Download-all bandwidth cap (Mbit/s), 0 = unlimited */
+  bandwidthLimitMbps: number;
+
+  setFrameStates: (states: FrameDownloadState[]) => void;
+  setBandwidthLimitMbps: (mbps: number) => void;
+}
+
+export const useDownloadStore = create<DownloadState>()(
+  persist(
+    (set) => ({
+      frameStates: [],
+      bandwidthLimitMbps: 0,
+
+      setFrameStates: (states) => set({ frameStates: states }),
+      setBandwidthLimitMbps: (mbps) => set({ bandwidthLimitMbps: mbps }),
+    }),
+    {
+      name: 'storm-replay-download',
+      // Frame states belong to the loaded event — only the cap is a preference
+      partialize: (state) => ({
+        bandwidthLimitMbps: state.bandwidthLimitMbps,
+      }),
+    },
+  ),
+);
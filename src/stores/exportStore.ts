@@ -25,6 +25,8 @@ export interface ExportState {
   showRadarLegend: boolean;
   /** Include distance-to-storm overlay in export */
   showDistanceBearing: boolean;
+  /** Include range rings / spokes / beam-height contours in export */
+  showRangeRings: boolean;
 
   setFormat: (format: ExportFormat) => void;
   setFps: (fps: number) => void;
@@ -35,6 +37,7 @@ export interface ExportState {
   setShowStormAttrs: (show: boolean) => void;
   setShowRadarLegend: (show: boolean) => void;
   setShowDistanceBearing: (show: boolean) => void;
+  setShowRangeRings: (show: boolean) => void;
 }
 
 export const useExportStore = create<ExportState>()(
@@ -50,6 +53,7 @@ export const useExportStore = create<ExportState>()(
       showStormAttrs: true,
       showRadarLegend: true,
       showDistanceBearing: true,
+      showRangeRings: true,
 
       setFormat: (format) => set({ format }),
       setFps: (fps) => set({ fps }),
@@ -61,6 +65,7 @@ export const useExportStore = create<ExportState>()(
       setShowStormAttrs: (show) => set({ showStormAttrs: show }),
       setShowRadarLegend: (show) => set({ showRadarLegend: show }),
       setShowDistanceBearing: (show) => set({ showDistanceBearing: show }),
+      setShowRangeRings: (show) => set({ showRangeRings: show }),
     }),
     {
       name: 'storm-replay-export',
@@ -72,6 +77,7 @@ export const useExportStore = create<ExportState>()(
         showStormAttrs: state.showStormAttrs,
         showRadarLegend: state.showRadarLegend,
         showDistanceBearing: state.showDistanceBearing,
+        showRangeRings: state.showRangeRings,
       }),
     },
   ),
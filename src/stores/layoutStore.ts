@@ -0,0 +1,67 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { RadarProduct } from '../services/nexrad/renderLogic';
+
+/** Number of map panels shown side by side. */
+export type PanelLayout = 1 | 2 | 4;
+
+/** Product/elevation shown in a secondary panel (panel 0 follows the sidebar). */
+export interface PanelView {
+  product: RadarProduct;
+  elevationIndex: number;
+}
+
+/** Pointer position shared by all panels for the linked crosshair. */
+export interface LinkedCursor {
+  lngLat: [number, number];
+  /** Panel the pointer is over (it draws no crosshair of its own) */
+  panel: number;
+}
+
+export interface LayoutState {
+  layout: PanelLayout;
+  /** Views for panels 1-3, in panel order */
+  panels: PanelView[];
+  cursor: LinkedCursor | null;
+
+  setLayout: (layout: PanelLayout) => void;
+  setPanelProduct: (panel: number, product: RadarProduct) => void;
+  setPanelElevation: (panel: number, elevationIndex: number) => void;
+  setCursor: (cursor: LinkedCursor | null) => void;
+}
+
+/** Secondary panel defaults: the usual storm-interrogation set next to REF. */
+const DEFAULT_PANELS: PanelView[] = [
+  { product: 'VEL', elevationIndex: 0 },
+  { product: 'CC', elevationIndex: 0 },
+  { product: 'ZDR', elevationIndex: 0 },
+];
+
+export const useLayoutStore = create<LayoutState>()(
+  persist(
+    (set) => ({
+      layout: 1,
+      panels: DEFAULT_PANELS,
+      cursor: null,
+
+      setLayout: (layout) => set({ layout, cursor: null }),
+      setPanelProduct: (panel, product) =>
+        set((s) => ({
+          panels: s.panels.map((v, i) => (i === panel - 1 ? { ...v, product } : v)),
+        })),
+      setPanelElevation: (panel, elevationIndex) =>
+        set((s) => ({
+          panels: s.panels.map((v, i) => (i === panel - 1 ? { ...v, elevationIndex } : v)),
+        })),
+      setCursor: (cursor) => set({ cursor }),
+    }),
+    {
+      name: 'storm-replay-layout',
+      // Only persist the layout — the cursor is transient
+      partialize: (state) => ({
+        layout: state.layout,
+        panels: state.panels,
+      }),
+    },
+  ),
+);
@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { NexradSite, ScanFile } from './radarStore';
+import type { MosaicMethod } from '../services/nexrad/mosaic';
+
+export type { MosaicMethod };
+
+/** A site merged into the mosaic alongside the main event's site. */
+export interface MosaicSite {
+  site: NexradSite;
+  /** The site's scans over the event's time range (site-tagged) */
+  scans: ScanFile[];
+}
+
+export interface MosaicState {
+  /** Extra sites merged with the main site (empty = mosaic off) */
+  sites: MosaicSite[];
+  /** Per-cell compositing: closest covering radar, or the largest value */
+  method: MosaicMethod;
+  /** Whether the mosaic replaces the single-site radar layer */
+  showMosaic: boolean;
+  /** Site whose scan list is being fetched */
+  loadingSite: string | null;
+  error: string | null;
+  /** Set by MosaicLayer while a mosaic image is on the map (the main radar layer hides) */
+  active: boolean;
+
+  addSite: (site: NexradSite, scans: ScanFile[]) => void;
+  removeSite: (siteId: string) => void;
+  setMethod: (method: MosaicMethod) => void;
+  setShowMosaic: (show: boolean) => void;
+  setLoadingSite: (siteId: string | null) => void;
+  setError: (error: string | null) => void;
+  setActive: (active: boolean) => void;
+  /** Drop every extra site */
+  clear: () => void;
+}
+
+export const useMosaicStore = create<MosaicState>()(
+  persist(
+    (set) => ({
+      sites: [],
+      method: 'max',
+      showMosaic: true,
+      loadingSite: null,
+      error: null,
+      active: false,
+
+      addSite: (site, scans) =>
+        set((state) => ({
+          sites: [...state.sites.filter((s) => s.site.id !== site.id), { site, scans }],
+        })),
+      removeSite: (siteId) =>
+        set((state) => ({ sites: state.sites.filter((s) => s.site.id !== siteId) })),
+      setMethod: (method) => set({ method }),
+      setShowMosaic: (show) => set({ showMosaic: show }),
+      setLoadingSite: (siteId) => set({ loadingSite: siteId }),
+      setError: (error) => set({ error }),
+      setActive: (active) => set({ active }),
+      clear: () => set({ sites: [], loadingSite: null, error: null }),
+    }),
+    {
+      name: 'storm-replay-mosaic',
+      // The sites belong to the loaded event — only the display settings persist
+      partialize: (state) => ({
+        method: state.method,
+        showMosaic: state.showMosaic,
+      }),
+    },
+  ),
+);
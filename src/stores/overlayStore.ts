@@ -278,9 +278,23 @@ export interface OverlayState {
   clearTornadoTracks: () => void;
 
   // ── Bulk actions ──
+  /**
+   * Event time range [startMs, endMs] whose overlays came from an event
+   * package — useTimeSyncedOverlays skips fetching for it. Null otherwise.
+   */
+  packagedRange: [number, number] | null;
+  /** Replace all overlay data with a packaged copy (no network) */
+  restorePackagedOverlays: (data: PackagedOverlays, range: [number, number]) => void;
   clearAllOverlays: () => void;
 }
 
+/** Overlay data saved in an event package */
+export type PackagedOverlays = Pick<
+  OverlayState,
+  'warnings' | 'watches' | 'mcds' | 'outlooks' | 'lsrs'
+  | 'surfaceObs' | 'surfaceObsStations' | 'tornadoTracks'
+>;
+
 export const useOverlayStore = create<OverlayState>()(
   persist(
     (set) => ({
@@ -395,8 +409,24 @@ export const useOverlayStore = create<OverlayState>()(
   clearTornadoTracks: () => set({ tornadoTracks: null, tornadoTracksError: null }),
 
   // ── Bulk actions ──
+  packagedRange: null,
+
+  restorePackagedOverlays: (data, range) =>
+    set({
+      ...data,
+      warningsError: null,
+      watchesError: null,
+      mcdsError: null,
+      outlooksError: null,
+      lsrsError: null,
+      surfaceObsError: null,
+      tornadoTracksError: null,
+      packagedRange: range,
+    }),
+
   clearAllOverlays: () =>
     set({
+      packagedRange: null,
       warnings: [],
       warningsError: null,
       watches: [],
@@ -1,10 +1,14 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { BUILTIN_PALETTES, type ColorStop } from '../services/nexrad/colorTables';
-import type { SmoothingMode } from '../services/nexrad/renderLogic';
+import type { SmoothingMode, RadarProduct, StormMotion, ProcessingOptions } from '../services/nexrad/renderLogic';
 import type { FrameStats } from '../services/nexrad/types';
+import { DEFAULT_ROTATION_THRESHOLDS, type RotationThresholds } from '../services/nexrad/rotationDetection';
+import { DEFAULT_FREEZING_LEVELS, type FreezingLevels } from '../services/nexrad/hailProducts';
+import { isHailProduct } from '../services/nexrad/volumeProducts';
+import { DEFAULT_CLUTTER_FILTER, isClutterFilterActive, type ClutterFilter } from '../services/nexrad/clutterFilter';
 
-export type RadarProduct = 'REF' | 'VEL' | 'ZDR' | 'CC' | 'KDP';
+export type { RadarProduct, StormMotion, RotationThresholds, FreezingLevels, ClutterFilter };
 
 export interface NexradSite {
   id: string;
@@ -62,6 +66,20 @@ export interface RadarState {
   radarOpacity: number;
   /** Smoothing mode for radar imagery: 'none' | 'low' | 'high' */
   radarSmoothing: SmoothingMode;
+  /** Storm motion subtracted from VEL for the SRV product */
+  stormMotion: StormMotion;
+  /** Dealias VEL before rendering and computing velocity stats */
+  velocityDealias: boolean;
+  /** Azimuthal-shear couplet thresholds for rotation markers */
+  rotationThresholds: RotationThresholds;
+  /** Show rotation (mesocyclone) markers on the map */
+  showRotationMarkers: boolean;
+  /** 0 °C / −20 °C heights (km MSL) for the SHI / POSH / MESH hail products */
+  freezingLevels: FreezingLevels;
+  /** Show hail (MESH) cell markers on the map */
+  showHailMarkers: boolean;
+  /** REF clutter / noise filters (minimum dBZ, speckle removal, CC mask) */
+  clutterFilter: ClutterFilter;
 
   /** Background prefetch progress (null = idle, {completed, total} = active) */
   prefetchProgress: { completed: number; total: number } | null;
@@ -70,7 +88,10 @@ export interface RadarState {
   paletteName: Record<string, string>;
   /** User-imported custom palette tables per product */
   customPalettes: Record<string, Record<string, ColorStop[]>>;
-  /** Incremented on any palette change; used in cache keys to invalidate stale frames */
+  /**
+   * Incremented by forceRerender; part of every cache key so stale frames are
+   * re-decoded. Palette switches don't bump it — colors are applied on the GPU.
+   */
   paletteVersion: number;
 
   setSelectedSite: (site: NexradSite | null) => void;
@@ -82,6 +103,13 @@ export interface RadarState {
   setError: (error: string | null) => void;
   setRadarOpacity: (opacity: number) => void;
   setRadarSmoothing: (smoothing: SmoothingMode) => void;
+  setStormMotion: (motion: StormMotion) => void;
+  setVelocityDealias: (enabled: boolean) => void;
+  setRotationThresholds: (thresholds: RotationThresholds) => void;
+  setShowRotationMarkers: (show: boolean) => void;
+  setFreezingLevels: (levels: FreezingLevels) => void;
+  setShowHailMarkers: (show: boolean) => void;
+  setClutterFilter: (filter: ClutterFilter) => void;
   setPrefetchProgress: (progress: { completed: number; total: number } | null) => void;
   setPalette: (product: string, name: string) => void;
   addCustomPalette: (product: string, name: string, stops: ColorStop[]) => void;
@@ -91,6 +119,9 @@ export interface RadarState {
   /** Whether to show the storm attributes overlay */
   showStormAttributes: boolean;
   setShowStormAttributes: (show: boolean) => void;
+  /** Show the gate value / range / beam height readout under the cursor */
+  showGateReadout: boolean;
+  setShowGateReadout: (show: boolean) => void;
   /** Ordered radar segments for multi-site handoff (empty = single-site mode) */
   segments: RadarSegment[];
   setSegments: (segments: RadarSegment[]) => void;
@@ -111,9 +142,16 @@ export const useRadarStore = create<RadarState>()(
       error: null,
       radarOpacity: 0.85,
       radarSmoothing: 'none' as SmoothingMode,
+      stormMotion: { direction: 240, speed: 25 },
+      velocityDealias: false,
+      rotationThresholds: DEFAULT_ROTATION_THRESHOLDS,
+      showRotationMarkers: true,
+      freezingLevels: DEFAULT_FREEZING_LEVELS,
+      showHailMarkers: false,
+      clutterFilter: DEFAULT_CLUTTER_FILTER,
       prefetchProgress: null,
 
-      paletteName: { REF: 'NWS Default', VEL: 'NWS Default' },
+      paletteName: { REF: 'NWS Default', VEL: 'NWS Default', SRV: 'NWS Default', ZDR: 'NWS Default', CC: 'NWS Default', KDP: 'NWS Default', SW: 'NWS Default', PHI: 'NWS Default', CREF: 'NWS Default', ET18: 'NWS Default', ET30: 'NWS Default', VIL: 'NWS Default', SHI: 'NWS Default', POSH: 'NWS Default', MESH: 'NWS Default' },
       customPalettes: {},
       paletteVersion: 0,
 
@@ -121,6 +159,8 @@ export const useRadarStore = create<RadarState>()(
       setCurrentFrameStats: (stats) => set({ currentFrameStats: stats }),
       showStormAttributes: true,
       setShowStormAttributes: (show) => set({ showStormAttributes: show }),
+      showGateReadout: true,
+      setShowGateReadout: (show) => set({ showGateReadout: show }),
       segments: [],
       setSegments: (segments) => set({ segments }),
 
@@ -136,11 +176,17 @@ export const useRadarStore = create<RadarState>()(
       setError: (error) => set({ error }),
       setRadarOpacity: (opacity) => set({ radarOpacity: opacity }),
       setRadarSmoothing: (smoothing) => set({ radarSmoothing: smoothing }),
+      setStormMotion: (motion) => set({ stormMotion: motion }),
+      setVelocityDealias: (enabled) => set({ velocityDealias: enabled }),
+      setRotationThresholds: (thresholds) => set({ rotationThresholds: thresholds }),
+      setShowRotationMarkers: (show) => set({ showRotationMarkers: show }),
+      setFreezingLevels: (levels) => set({ freezingLevels: levels }),
+      setShowHailMarkers: (show) => set({ showHailMarkers: show }),
+      setClutterFilter: (filter) => set({ clutterFilter: filter }),
       setPrefetchProgress: (progress) => set({ prefetchProgress: progress }),
 
       setPalette: (product, name) => set((state) => ({
         paletteName: { ...state.paletteName, [product]: name },
-        paletteVersion: state.paletteVersion + 1,
       })),
 
       addCustomPalette: (product, name, stops) => set((state) => ({
@@ -163,9 +209,17 @@ export const useRadarStore = create<RadarState>()(
         product: state.product,
         radarOpacity: state.radarOpacity,
         radarSmoothing: state.radarSmoothing,
+        stormMotion: state.stormMotion,
+        velocityDealias: state.velocityDealias,
+        rotationThresholds: state.rotationThresholds,
+        showRotationMarkers: state.showRotationMarkers,
+        freezingLevels: state.freezingLevels,
+        showHailMarkers: state.showHailMarkers,
+        clutterFilter: state.clutterFilter,
         paletteName: state.paletteName,
         customPalettes: state.customPalettes,
         showStormAttributes: state.showStormAttributes,
+        showGateReadout: state.showGateReadout,
       }),
       migrate: (persisted: any, version: number) => {
         if (version === 0) {
@@ -221,3 +275,25 @@ export function getActiveColorTable(state: RadarState, product: string): ColorSt
   // Fall back to built-in palettes
   return BUILTIN_PALETTES[product]?.[name];
 }
+
+/**
+ * Collect the per-render processing options from the current store state.
+ * Passed to the worker pipeline and folded into FrameCache keys.
+ *
+ * Pass `markers: false` for layers that never show the frame's couplet
+ * markers (split panels, compare site, mosaic) — their frames then skip
+ * detection, stay out of the main TDS timeline and keep their keys when the
+ * rotation thresholds change.
+ */
+export function getProcessingOptions(state: RadarState, { markers = true }: { markers?: boolean } = {}): ProcessingOptions {
+  return {
+    stormMotion: state.stormMotion,
+    dealias: state.velocityDealias,
+    rotation: markers ? state.rotationThresholds : undefined,
+    // Only the hail products are rendered from the freezing levels; hail
+    // markers come from a separate per-scan request (PrefetchManager.requestHailSummary)
+    hail: isHailProduct(state.product) ? state.freezingLevels : undefined,
+    // Left out when every filter is off so unfiltered REF keeps its plain cache key
+    clutter: isClutterFilterActive(state.clutterFilter) ? state.clutterFilter : undefined,
+  };
+}
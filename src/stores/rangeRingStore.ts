@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { RangeRingSettings } from '../services/nexrad/rangeRings';
+
+export interface RangeRingState extends RangeRingSettings {
+  /** Whether the range ring overlay is visible */
+  showRangeRings: boolean;
+
+  setShowRangeRings: (show: boolean) => void;
+  setRingIntervalMi: (mi: number) => void;
+  setRingCount: (count: number) => void;
+  setSpokeIntervalDeg: (deg: number) => void;
+  setShowBeamHeight: (show: boolean) => void;
+}
+
+export const useRangeRingStore = create<RangeRingState>()(
+  persist(
+    (set) => ({
+      showRangeRings: false,
+      ringIntervalMi: 25,
+      ringCount: 6,
+      spokeIntervalDeg: 30,
+      showBeamHeight: false,
+
+      setShowRangeRings: (show) => set({ showRangeRings: show }),
+      setRingIntervalMi: (mi) => set({ ringIntervalMi: mi }),
+      setRingCount: (count) => set({ ringCount: count }),
+      setSpokeIntervalDeg: (deg) => set({ spokeIntervalDeg: deg }),
+      setShowBeamHeight: (show) => set({ showBeamHeight: show }),
+    }),
+    {
+      name: 'storm-replay-range-rings',
+      partialize: (state) => ({
+        showRangeRings: state.showRangeRings,
+        ringIntervalMi: state.ringIntervalMi,
+        ringCount: state.ringCount,
+        spokeIntervalDeg: state.spokeIntervalDeg,
+        showBeamHeight: state.showBeamHeight,
+      }),
+    },
+  ),
+);
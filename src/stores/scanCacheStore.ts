@@ -0,0 +1,48 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export interface ScanCacheState {
+  /** Keep downloaded scans on disk between sessions */
+  enabled: boolean;
+  /** Size cap for the on-disk cache (bytes) */
+  maxBytes: number;
+  /** Current usage, reported by scanDiskCache (not persisted) */
+  usedBytes: number;
+  entryCount: number;
+  /**
+   * In-memory budget for decoded frames and raw scans (bytes), 0 = auto
+   * from device RAM (see resolveMemoryBudget in frameCache.ts)
+   */
+  memoryBudgetBytes: number;
+
+  setEnabled: (enabled: boolean) => void;
+  setMaxBytes: (bytes: number) => void;
+  setUsage: (usedBytes: number, entryCount: number) => void;
+  setMemoryBudgetBytes: (bytes: number) => void;
+}
+
+export const useScanCacheStore = create<ScanCacheState>()(
+  persist(
+    (set) => ({
+      enabled: true,
+      maxBytes: 2 * 1024 ** 3,
+      usedBytes: 0,
+      entryCount: 0,
+      memoryBudgetBytes: 0,
+
+      setEnabled: (enabled) => set({ enabled }),
+      setMaxBytes: (bytes) => set({ maxBytes: bytes }),
+      setUsage: (usedBytes, entryCount) => set({ usedBytes, entryCount }),
+      setMemoryBudgetBytes: (bytes) => set({ memoryBudgetBytes: bytes }),
+    }),
+    {
+      name: 'storm-replay-scan-cache',
+      // Usage is re-read from the cache itself on startup
+      partialize: (state) => ({
+        enabled: state.enabled,
+        maxBytes: state.maxBytes,
+        memoryBudgetBytes: state.memoryBudgetBytes,
+      }),
+    },
+  ),
+);
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { haversineDistance, calculateBearing } from '../utils/geo';
+import type { StormMotion } from '../services/nexrad/renderLogic';
 
 export interface StormWaypoint {
   /** Latitude in degrees */
@@ -65,3 +67,29 @@ export const useStormPathStore = create<StormPathState>()(
     },
   ),
 );
+
+/**
+ * Derive a storm motion vector from the drawn path.
+ *
+ * Uses the earliest and latest waypoints (by time), so the result is the
+ * mean motion over the whole path. Direction is returned in the
+ * meteorological "from" convention used by the SRV product. Returns null
+ * when the path has fewer than two points or spans no time.
+ */
+export function getStormMotionFromPath(waypoints: StormWaypoint[]): StormMotion | null {
+  if (waypoints.length < 2) return null;
+
+  const sorted = [...waypoints].sort((a, b) => a.timeMs - b.timeMs);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const hours = (last.timeMs - first.timeMs) / 3_600_000;
+  if (hours <= 0) return null;
+
+  const distKm = haversineDistance(first.lat, first.lon, last.lat, last.lon);
+  const heading = calculateBearing(first.lat, first.lon, last.lat, last.lon);
+
+  return {
+    direction: Math.round(heading + 180) % 360,
+    speed: Math.round(distKm / hours / 1.852), // km/h → kts
+  };
+}
@@ -0,0 +1,107 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { SwathKind } from '../services/nexrad/swath';
+
+export type { SwathKind };
+
+export interface SwathImage {
+  /** Blob URL of the colorized swath PNG */
+  url: string;
+  /** Image source corners (NW, NE, SE, SW) */
+  coordinates: [[number, number], [number, number], [number, number], [number, number]];
+}
+
+export interface SwathState {
+  /** Field accumulated: max cyclonic shear (rotation track) or max REF (hail core) */
+  kind: SwathKind;
+  /** Only walk the timeline loop range (when one is set) */
+  useLoopRange: boolean;
+  /** Whether the swath layer is visible */
+  showSwath: boolean;
+  swathOpacity: number;
+
+  /** Current swath image — null until an accumulation has produced one */
+  image: SwathImage | null;
+  /** Kind the current image was built from (kind can change afterwards) */
+  imageKind: SwathKind | null;
+  /** Whether an accumulation is running */
+  running: boolean;
+  /** Bumped per run and on stop/clear so a stale run can't write results */
+  runId: number;
+  /** Accumulation progress — null when idle */
+  progress: { completed: number; total: number } | null;
+
+  setKind: (kind: SwathKind) => void;
+  setUseLoopRange: (use: boolean) => void;
+  setShowSwath: (show: boolean) => void;
+  setSwathOpacity: (opacity: number) => void;
+  /** Replace the swath image (revokes the previous blob URL) */
+  setImage: (image: SwathImage, kind: SwathKind) => void;
+  /** Mark a new run as started; returns its id */
+  beginRun: (total: number) => number;
+  /** Stop the current run (keeps the image built so far) */
+  endRun: () => void;
+  setProgress: (progress: { completed: number; total: number } | null) => void;
+  /** Stop any run and drop the image */
+  clearSwath: () => void;
+}
+
+export const useSwathStore = create<SwathState>()(
+  persist(
+    (set, get) => ({
+      kind: 'rotation',
+      useLoopRange: true,
+      showSwath: true,
+      swathOpacity: 0.8,
+      image: null,
+      imageKind: null,
+      running: false,
+      runId: 0,
+      progress: null,
+
+      setKind: (kind) => set({ kind }),
+      setUseLoopRange: (use) => set({ useLoopRange: use }),
+      setShowSwath: (show) => set({ showSwath: show }),
+      setSwathOpacity: (opacity) => set({ swathOpacity: opacity }),
+
+      setImage: (image, kind) => {
+        const prev = get().image;
+        if (prev && prev.url !== image.url) URL.revokeObjectURL(prev.url);
+        set({ image, imageKind: kind });
+      },
+
+      beginRun: (total) => {
+        const runId = get().runId + 1;
+        set({ runId, running: true, progress: { completed: 0, total } });
+        return runId;
+      },
+
+      endRun: () =>
+        set((state) => ({ runId: state.runId + 1, running: false, progress: null })),
+
+      setProgress: (progress) => set({ progress }),
+
+      clearSwath: () => {
+        const prev = get().image;
+        if (prev) URL.revokeObjectURL(prev.url);
+        set((state) => ({
+          image: null,
+          imageKind: null,
+          runId: state.runId + 1,
+          running: false,
+          progress: null,
+        }));
+      },
+    }),
+    {
+      name: 'storm-replay-swath',
+      // The swath itself is per-event (and a blob URL) — only settings persist
+      partialize: (state) => ({
+        kind: state.kind,
+        useLoopRange: state.useLoopRange,
+        showSwath: state.showSwath,
+        swathOpacity: state.swathOpacity,
+      }),
+    },
+  ),
+);
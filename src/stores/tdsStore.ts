@@ -0,0 +1,49 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { TdsRegion } from '../services/nexrad/tdsDetection';
+
+export interface TdsDetection extends TdsRegion {
+  /** Frame time the signature was detected at (UTC ms) */
+  timestamp: number;
+}
+
+export interface TdsState {
+  /** Detections per frame timestamp, filled in as frames are rendered */
+  detections: Record<number, TdsDetection[]>;
+  /** Whether the TDS overlay is visible */
+  showTds: boolean;
+
+  /** Replace the detections for one frame (empty list clears it) */
+  recordFrame: (timestamp: number, regions: TdsRegion[]) => void;
+  clearDetections: () => void;
+  setShowTds: (show: boolean) => void;
+}
+
+export const useTdsStore = create<TdsState>()(
+  persist(
+    (set) => ({
+      detections: {},
+      showTds: true,
+
+      recordFrame: (timestamp, regions) =>
+        set((state) => {
+          const had = state.detections[timestamp];
+          if (regions.length === 0 && !had) return {};
+          const detections = { ...state.detections };
+          if (regions.length === 0) delete detections[timestamp];
+          else detections[timestamp] = regions.map((r) => ({ ...r, timestamp }));
+          return { detections };
+        }),
+
+      clearDetections: () => set({ detections: {} }),
+      setShowTds: (show) => set({ showTds: show }),
+    }),
+    {
+      name: 'storm-replay-tds',
+      // Detections are per-event and rebuilt from rendered frames — only the toggle persists
+      partialize: (state) => ({
+        showTds: state.showTds,
+      }),
+    },
+  ),
+);
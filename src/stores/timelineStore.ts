@@ -1,6 +1,9 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
+/** Playback time per scan at 1x (ms) — divided by `speed` */
+export const BASE_FRAME_INTERVAL_MS = 500;
+
 export interface TimelineState {
   /** Sorted list of available frame timestamps (UTC ms) */
   frameTimes: number[];
@@ -16,6 +19,10 @@ export interface TimelineState {
   loopEnd: number | null;
   /** Whether looping is enabled */
   loopEnabled: boolean;
+  /** Synthesized in-between frames per scan pair during playback (0 = off) */
+  interpolationFrames: number;
+  /** In-between frame shown after currentIndex (0 = the scan itself) */
+  subFrame: number;
 
   setFrameTimes: (times: number[]) => void;
   setCurrentIndex: (index: number) => void;
@@ -30,6 +37,8 @@ export interface TimelineState {
   toggleLoop: () => void;
   goToStart: () => void;
   goToEnd: () => void;
+  setInterpolationFrames: (n: number) => void;
+  setSubFrame: (n: number) => void;
 }
 
 export const useTimelineStore = create<TimelineState>()(
@@ -42,13 +51,15 @@ export const useTimelineStore = create<TimelineState>()(
       loopStart: null,
       loopEnd: null,
       loopEnabled: true,
+      interpolationFrames: 0,
+      subFrame: 0,
 
-      setFrameTimes: (times) => set({ frameTimes: times, currentIndex: 0 }),
+      setFrameTimes: (times) => set({ frameTimes: times, currentIndex: 0, subFrame: 0 }),
 
       setCurrentIndex: (index) => {
         const { frameTimes } = get();
         if (index >= 0 && index < frameTimes.length) {
-          set({ currentIndex: index });
+          set({ currentIndex: index, subFrame: 0 });
         }
       },
 
@@ -60,7 +71,7 @@ export const useTimelineStore = create<TimelineState>()(
         if (next > maxIndex) {
           next = loopEnabled ? minIndex : maxIndex;
         }
-        set({ currentIndex: next });
+        set({ currentIndex: next, subFrame: 0 });
       },
 
       stepBackward: (n = 1) => {
@@ -71,7 +82,7 @@ export const useTimelineStore = create<TimelineState>()(
         if (next < minIndex) {
           next = loopEnabled ? maxIndex : minIndex;
         }
-        set({ currentIndex: next });
+        set({ currentIndex: next, subFrame: 0 });
       },
 
       togglePlay: () => set((s) => ({ playing: !s.playing })),
@@ -85,13 +96,16 @@ export const useTimelineStore = create<TimelineState>()(
 
       goToStart: () => {
         const { loopStart, loopEnabled } = get();
-        set({ currentIndex: loopEnabled && loopStart !== null ? loopStart : 0 });
+        set({ currentIndex: loopEnabled && loopStart !== null ? loopStart : 0, subFrame: 0 });
       },
 
       goToEnd: () => {
         const { loopEnd, loopEnabled, frameTimes } = get();
-        set({ currentIndex: loopEnabled && loopEnd !== null ? loopEnd : frameTimes.length - 1 });
+        set({ currentIndex: loopEnabled && loopEnd !== null ? loopEnd : frameTimes.length - 1, subFrame: 0 });
       },
+
+      setInterpolationFrames: (n) => set({ interpolationFrames: n, subFrame: 0 }),
+      setSubFrame: (n) => set({ subFrame: n }),
     }),
     {
       name: 'storm-replay-timeline',
@@ -99,6 +113,7 @@ export const useTimelineStore = create<TimelineState>()(
       partialize: (state) => ({
         speed: state.speed,
         loopEnabled: state.loopEnabled,
+        interpolationFrames: state.interpolationFrames,
       }),
     },
   ),
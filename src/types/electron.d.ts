@@ -13,11 +13,31 @@ interface GPXFileInfo {
   modified: number; // ms timestamp
 }
 
+/** Same shape as GPXFileInfo — any visible file in the chosen radar folder */
+type RadarFileInfo = GPXFileInfo;
+
+/** One scan in the on-disk scan cache */
+interface ScanCacheEntryInfo {
+  key: string;
+  size: number;
+  lastUsed: number; // ms timestamp
+}
+
 interface ElectronAPI {
   isElectron: boolean;
   selectGPXFolder: () => Promise<string | null>;
   listGPXFiles: (folderPath: string) => Promise<GPXFileInfo[]>;
   readGPXFile: (filePath: string) => Promise<string>;
+  selectRadarFolder: () => Promise<string | null>;
+  listRadarFiles: (folderPath: string) => Promise<RadarFileInfo[]>;
+  /** Whole file, or only its first `maxBytes` (header sniffing) */
+  readRadarFile: (filePath: string, maxBytes?: number) => Promise<Uint8Array>;
+  scanCacheIndex: () => Promise<ScanCacheEntryInfo[]>;
+  /** Cached scan bytes (null on miss); marks the entry as recently used */
+  scanCacheRead: (key: string) => Promise<Uint8Array | null>;
+  scanCacheWrite: (key: string, data: Uint8Array) => Promise<void>;
+  scanCacheRemove: (keys: string[]) => Promise<void>;
+  scanCacheClear: () => Promise<void>;
 }
 
 interface Window {
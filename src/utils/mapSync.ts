@@ -0,0 +1,52 @@
+/**
+ * Map view linking for the multi-panel layout.
+ *
+ * Every linked map mirrors the camera (center, zoom, bearing, pitch) of
+ * whichever map is moving — user pans, wheel zooms and animated flyTo()
+ * alike. A map joining the group adopts the current view of the group.
+ */
+
+import type maplibregl from 'maplibre-gl';
+import { isMapUsable } from './mapSafety';
+
+const linked = new Set<maplibregl.Map>();
+/** Set while mirroring, so the jumpTo() on followers doesn't echo back */
+let syncing = false;
+
+function cameraOf(map: maplibregl.Map) {
+  return {
+    center: map.getCenter(),
+    zoom: map.getZoom(),
+    bearing: map.getBearing(),
+    pitch: map.getPitch(),
+  };
+}
+
+/**
+ * Add a map to the linked group. Returns a function that unlinks it.
+ */
+export function linkMapView(map: maplibregl.Map): () => void {
+  const leader = [...linked].find((m) => m !== map && isMapUsable(m));
+  if (leader) map.jumpTo(cameraOf(leader));
+
+  const onMove = () => {
+    if (syncing) return;
+    syncing = true;
+    try {
+      const camera = cameraOf(map);
+      for (const other of linked) {
+        if (other !== map && isMapUsable(other)) other.jumpTo(camera);
+      }
+    } finally {
+      syncing = false;
+    }
+  };
+
+  linked.add(map);
+  map.on('move', onMove);
+
+  return () => {
+    linked.delete(map);
+    try { map.off('move', onMove); } catch { /* map destroyed */ }
+  };
+}